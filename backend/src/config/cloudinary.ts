@@ -102,3 +102,45 @@ export const deleteImage = async (publicId: string) => {
 export const getImageUrl = (publicId: string, transformations?: any) => {
   return cloudinary.url(publicId, transformations);
 };
+
+// Helper function to upload a document (resume etc.) from memory as a private raw asset
+export const uploadDocument = (buffer: Buffer, folder: string, fileName: string): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const stream = cloudinary.uploader.upload_stream(
+      {
+        folder,
+        public_id: fileName,
+        resource_type: 'raw',
+        type: 'private'
+      },
+      (error, result) => {
+        if (error || !result) {
+          console.error('❌ Cloudinary document upload failed:', error?.message);
+          return reject(error || new Error('Upload failed: no result returned from Cloudinary'));
+        }
+        resolve(result);
+      }
+    );
+    stream.end(buffer);
+  });
+};
+
+// Helper function to delete a private document
+export const deleteDocument = async (publicId: string) => {
+  try {
+    return await cloudinary.uploader.destroy(publicId, { resource_type: 'raw', type: 'private' });
+  } catch (error) {
+    console.error('Error deleting document from Cloudinary:', error);
+    throw error;
+  }
+};
+
+// Helper function to get a short-lived signed download URL for a private document
+export const getDocumentDownloadUrl = (publicId: string, expiresInSeconds: number = 300) => {
+  return cloudinary.utils.private_download_url(publicId, '', {
+    resource_type: 'raw',
+    type: 'private',
+    expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    attachment: true
+  });
+};
@@ -7,20 +7,38 @@ import nodemailer from 'nodemailer';
 import path from 'path';
 import SocketManager from './utils/socketManager';
 import EmailNotificationService from './services/emailNotificationService';
+import { startEmailOutboxWorker, stopEmailOutboxWorker } from './services/emailOutbox';
+import { startDigestScheduler, stopDigestScheduler } from './services/digestService';
+import { startBookmarkReminderScheduler, stopBookmarkReminderScheduler } from './services/bookmarkService';
+import { startJobLifecycleScheduler, stopJobLifecycleScheduler } from './services/jobLifecycleService';
+import { startTimesheetScheduler, stopTimesheetScheduler, ensureTimesheetIndexes } from './services/timesheetService';
+import { ensureNotificationIndexes } from './services/notificationService';
+import { ensureAttendanceIndexes } from './services/attendanceService';
+import { ensureLedgerIndexes } from './services/ledgerService';
 
 // Import routes
 import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import jobRoutes, { setJobServices } from './routes/jobs';
 import applicationRoutes, { setApplicationServices } from './routes/applications';
-import adminRoutes from './routes/admin';
+import adminRoutes, { setAdminServices } from './routes/admin';
 import adminReportsRoutes from './routes/admin-reports';
+import adminEmailRoutes from './routes/admin-emails';
+import adminPayoutRoutes from './routes/admin-payouts';
 import kycRoutes from './routes/kyc';
 import uploadRoutes from './routes/upload';
 import testUploadRoutes from './routes/test-upload';
 import debugUploadRoutes from './routes/debug-upload';
-import enhancedJobRoutes from './routes/enhanced-jobs';
+import enhancedJobRoutes, { setEnhancedJobServices } from './routes/enhanced-jobs';
 import notificationRoutes from './routes/notifications';
+import interviewRoutes, { setInterviewServices } from './routes/interviews';
+import messageRoutes, { setMessageServices } from './routes/messages';
+import savedSearchRoutes from './routes/saved-searches';
+import bookmarkRoutes from './routes/bookmarks';
+import jobTemplateRoutes from './routes/job-templates';
+import attendanceRoutes from './routes/attendance';
+import timesheetRoutes from './routes/timesheets';
+import earningsRoutes from './routes/earnings';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
@@ -44,6 +62,10 @@ const emailService = new EmailNotificationService();
 // Inject services into routes
 setJobServices(socketManager, emailService);
 setApplicationServices(socketManager, emailService);
+setInterviewServices(socketManager, emailService);
+setMessageServices(socketManager);
+setAdminServices(emailService);
+setEnhancedJobServices(emailService);
 
 // Environment-aware CORS configuration
 const isProduction = process.env.NODE_ENV === 'production';
@@ -56,6 +78,7 @@ const corsOptions = {
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  exposedHeaders: ['Content-Disposition'], // File names of CSV downloads
   optionsSuccessStatus: 200
 };
 
@@ -115,12 +138,22 @@ app.use('/api/jobs', jobRoutes);
 app.use('/api/applications', applicationRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/admin/reports', adminReportsRoutes);
+app.use('/api/admin/emails', adminEmailRoutes);
+app.use('/api/admin/payouts', adminPayoutRoutes);
 app.use('/api/kyc', kycRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/test-upload', testUploadRoutes);
 app.use('/api/debug-upload', debugUploadRoutes);
 app.use('/api/enhanced-jobs', enhancedJobRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/interviews', interviewRoutes);
+app.use('/api/messages', messageRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/bookmarks', bookmarkRoutes);
+app.use('/api/job-templates', jobTemplateRoutes);
+app.use('/api/attendance', attendanceRoutes);
+app.use('/api/timesheets', timesheetRoutes);
+app.use('/api/earnings', earningsRoutes);
 
 // Debug: Print all registered routes
 console.log('🔍 Registered Routes:');
@@ -144,6 +177,17 @@ app.use(errorHandler);
 const startServer = async (): Promise<void> => {
   try {
     await connectDB();
+    await ensureNotificationIndexes();
+    await ensureAttendanceIndexes();
+    await ensureTimesheetIndexes();
+    await ensureLedgerIndexes();
+
+    // Deliver queued emails in the background
+    await startEmailOutboxWorker();
+    startDigestScheduler(emailService);
+    startBookmarkReminderScheduler(socketManager);
+    startJobLifecycleScheduler({ socketManager, emailService });
+    startTimesheetScheduler();
     
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -208,8 +252,13 @@ process.on('uncaughtException', (err: Error) => {
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('🛑 SIGTERM received, shutting down gracefully');
+  stopDigestScheduler();
+  stopBookmarkReminderScheduler();
+  stopJobLifecycleScheduler();
+  stopTimesheetScheduler();
+  await stopEmailOutboxWorker();
   process.exit(0);
 });
 
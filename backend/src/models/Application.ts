@@ -1,10 +1,86 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ValidationError } from '../middleware/errorHandler';
+
+// Hiring pipeline: applied -> shortlisted -> interview -> offered -> hired,
+// with rejected/withdrawn possible from any open stage
+export const APPLICATION_STATUSES = ['applied', 'shortlisted', 'interview', 'offered', 'hired', 'rejected', 'withdrawn'] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export const OPEN_APPLICATION_STATUSES: ApplicationStatus[] = ['applied', 'shortlisted', 'interview', 'offered'];
+
+export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  applied: ['shortlisted', 'rejected', 'withdrawn'],
+  shortlisted: ['interview', 'rejected', 'withdrawn'],
+  interview: ['offered', 'rejected', 'withdrawn'],
+  offered: ['hired', 'rejected', 'withdrawn'],
+  hired: [],
+  rejected: [],
+  withdrawn: []
+};
+
+// Statuses written before the pipeline existed
+const LEGACY_STATUSES: Record<string, ApplicationStatus> = {
+  accepted: 'shortlisted'
+};
+
+export const normalizeApplicationStatus = (status: string): string => LEGACY_STATUSES[status] || status;
+
+// Phone numbers and emails in messages stay hidden until the employer shortlists the student
+const CONTACT_SHARING_STATUSES: ApplicationStatus[] = ['shortlisted', 'interview', 'offered', 'hired'];
+
+export const canShareContactDetails = (application: { status: string; shortlistedDate?: Date }): boolean => {
+  return CONTACT_SHARING_STATUSES.includes(normalizeApplicationStatus(application.status) as ApplicationStatus)
+    || !!application.shortlistedDate;
+};
+
+export const canTransitionApplication = (from: string, to: string): boolean => {
+  const allowed = APPLICATION_TRANSITIONS[normalizeApplicationStatus(from) as ApplicationStatus];
+  return !!allowed && allowed.includes(to as ApplicationStatus);
+};
+
+export type StatusActorType = 'student' | 'employer' | 'admin' | 'system';
+
+export interface IStatusActor {
+  id?: mongoose.Types.ObjectId | string;
+  type: StatusActorType;
+}
+
+export interface IApplicationStatusChange {
+  from?: ApplicationStatus;
+  to: ApplicationStatus;
+  actor?: mongoose.Types.ObjectId;
+  actorType: StatusActorType;
+  note?: string;
+  changedAt: Date;
+}
+
+// Added to applicants whose screening answers fail one of the job's knockout rules
+export const SCREENING_FAILED_TAG = 'screening_failed';
+
+export interface IScreeningAnswer {
+  questionId: mongoose.Types.ObjectId;
+  prompt: string; // Copied from the job so later edits do not change what was asked
+  type: string;
+  answer: boolean | string | number;
+  passed: boolean;
+}
+
+// Copy of the profile resume attached when applying, so deleting it from the profile
+// does not change what the employer received
+export interface IApplicationResume {
+  resumeId: mongoose.Types.ObjectId;
+  fileName: string;
+  fileType: string;
+  size: number;
+  publicId: string;
+}
 
 export interface IApplication extends Document {
   applicationId: mongoose.Types.ObjectId; // Auto-generated ID
   jobId: mongoose.Types.ObjectId; // Reference to job
   studentId: mongoose.Types.ObjectId; // Reference to student
-  status: 'applied' | 'accepted' | 'rejected'; // Simplified status as per requirements
+  status: ApplicationStatus;
+  statusHistory: IApplicationStatusChange[];
   appliedAt: Date; // When student applied
   
   // Additional fields for enhanced functionality
@@ -14,9 +90,13 @@ export interface IApplication extends Document {
   
   // Application details
   coverLetter?: string;
-  resume?: string;
+  resume?: IApplicationResume;
   expectedPay?: number;
   availability?: string;
+  shiftIds: mongoose.Types.ObjectId[]; // Job shifts the student can work, picked when applying
+  assignedShiftIds: mongoose.Types.ObjectId[]; // Shifts on the roster once hired
+  screeningAnswers: IScreeningAnswer[];
+  tags: string[];
   
   // Communication
   studentNotes?: string;
@@ -25,7 +105,9 @@ export interface IApplication extends Document {
   // Timestamps
   shortlistedDate?: Date;
   interviewedDate?: Date;
+  offeredDate?: Date;
   hiredDate?: Date;
+  completedDate?: Date; // Hired work finished, marked by the employer
   rejectedDate?: Date;
   withdrawnDate?: Date;
   
@@ -39,7 +121,7 @@ export interface IApplication extends Document {
   updatedAt: Date;
   
   // Methods
-  updateStatus(newStatus: string, notes?: string): Promise<void>;
+  updateStatus(newStatus: ApplicationStatus, actor?: IStatusActor, notes?: string): Promise<void>;
   addRating(rater: 'student' | 'employer', rating: number, feedback?: string): Promise<void>;
 }
 
@@ -66,9 +148,18 @@ const applicationSchema = new Schema<IApplication>({
   },
   status: {
     type: String,
-    enum: ['applied', 'accepted', 'rejected'],
+    enum: APPLICATION_STATUSES,
     default: 'applied'
   },
+  statusHistory: [{
+    _id: false,
+    from: { type: String, enum: APPLICATION_STATUSES },
+    to: { type: String, enum: APPLICATION_STATUSES, required: true },
+    actor: { type: Schema.Types.ObjectId, ref: 'User' },
+    actorType: { type: String, enum: ['student', 'employer', 'admin', 'system'], required: true },
+    note: { type: String, trim: true, maxlength: [500, 'Note cannot exceed 500 characters'] },
+    changedAt: { type: Date, default: Date.now }
+  }],
   appliedAt: {
     type: Date,
     default: Date.now
@@ -99,8 +190,14 @@ const applicationSchema = new Schema<IApplication>({
     maxlength: [1000, 'Cover letter cannot exceed 1000 characters']
   },
   resume: {
-    type: String,
-    default: ''
+    type: new Schema<IApplicationResume>({
+      resumeId: { type: Schema.Types.ObjectId, required: true },
+      fileName: { type: String, required: true },
+      fileType: { type: String, required: true },
+      size: { type: Number, required: true },
+      publicId: { type: String, required: true, select: false }
+    }, { _id: false }),
+    default: undefined
   },
   expectedPay: {
     type: Number,
@@ -112,6 +209,26 @@ const applicationSchema = new Schema<IApplication>({
     default: 'flexible'
   },
   
+  shiftIds: [{
+    type: Schema.Types.ObjectId
+  }],
+  assignedShiftIds: [{
+    type: Schema.Types.ObjectId
+  }],
+  
+  screeningAnswers: [{
+    _id: false,
+    questionId: { type: Schema.Types.ObjectId, required: true },
+    prompt: { type: String, required: true },
+    type: { type: String, required: true },
+    answer: { type: Schema.Types.Mixed },
+    passed: { type: Boolean, default: true }
+  }],
+  tags: [{
+    type: String,
+    trim: true
+  }],
+  
   // Communication
   studentNotes: {
     type: String,
@@ -127,7 +244,9 @@ const applicationSchema = new Schema<IApplication>({
   // Timestamps
   shortlistedDate: Date,
   interviewedDate: Date,
+  offeredDate: Date,
   hiredDate: Date,
+  completedDate: Date,
   rejectedDate: Date,
   withdrawnDate: Date,
   
@@ -192,33 +311,74 @@ applicationSchema.virtual('duration').get(function() {
 
 // Virtual for status color (for frontend)
 applicationSchema.virtual('statusColor').get(function() {
-  const statusColors = {
+  const statusColors: Record<ApplicationStatus, string> = {
     applied: 'blue',
-    accepted: 'green',
-    rejected: 'red'
+    shortlisted: 'indigo',
+    interview: 'purple',
+    offered: 'teal',
+    hired: 'green',
+    rejected: 'red',
+    withdrawn: 'gray'
   };
   return statusColors[this.status] || 'gray';
 });
 
-// Method to update status with timestamp
-applicationSchema.methods.updateStatus = function(newStatus: string, notes?: string): Promise<void> {
+// Move the application to a new stage, rejecting illegal transitions and recording who did it
+applicationSchema.methods.updateStatus = function(
+  newStatus: ApplicationStatus,
+  actor: IStatusActor = { type: 'system' },
+  notes?: string
+): Promise<void> {
+  const currentStatus = normalizeApplicationStatus(this.status) as ApplicationStatus;
+
+  if (!canTransitionApplication(currentStatus, newStatus)) {
+    const allowed = APPLICATION_TRANSITIONS[currentStatus] || [];
+    throw new ValidationError(
+      allowed.length > 0
+        ? `Cannot move application from ${currentStatus} to ${newStatus}. Allowed: ${allowed.join(', ')}`
+        : `Application is already ${currentStatus} and cannot be changed`
+    );
+  }
+
+  const now = new Date();
   this.status = newStatus;
-  
+
   // Set timestamp based on status
   switch (newStatus) {
-    case 'accepted':
-      this.shortlistedDate = new Date();
+    case 'shortlisted':
+      this.shortlistedDate = now;
+      break;
+    case 'interview':
+      this.interviewedDate = now;
+      break;
+    case 'offered':
+      this.offeredDate = now;
+      break;
+    case 'hired':
+      this.hiredDate = now;
       break;
     case 'rejected':
-      this.rejectedDate = new Date();
+      this.rejectedDate = now;
+      break;
+    case 'withdrawn':
+      this.withdrawnDate = now;
       break;
   }
-  
+
+  this.statusHistory.push({
+    from: currentStatus,
+    to: newStatus,
+    actor: actor.id ? new mongoose.Types.ObjectId(String(actor.id)) : undefined,
+    actorType: actor.type,
+    note: notes,
+    changedAt: now
+  });
+
   if (notes) {
-    if (newStatus === 'accepted' || newStatus === 'rejected') {
-      this.employerNotes = notes;
-    } else {
+    if (actor.type === 'student') {
       this.studentNotes = notes;
+    } else {
+      this.employerNotes = notes;
     }
   }
   
@@ -260,23 +420,15 @@ applicationSchema.pre('validate', function(next) {
   next();
 });
 
-// Pre-save middleware to validate application
+// Record the initial stage so the history always starts at the beginning
 applicationSchema.pre('save', function(next) {
-  // Prevent multiple applications from same student for same job
-  if (this.isNew) {
-    // This will be handled by the unique index
-  }
-  
-  // Validate status transitions
-  const validTransitions = {
-    applied: ['accepted', 'rejected'],
-    accepted: [],
-    rejected: []
-  };
-  
-  if (this.isModified('status') && this.status !== 'applied') {
-    const previousStatus = this.status;
-    // This validation can be enhanced based on business logic
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({
+      to: this.status,
+      actor: this.studentId,
+      actorType: 'student',
+      changedAt: this.appliedAt || new Date()
+    });
   }
   
   next();
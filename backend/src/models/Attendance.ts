@@ -0,0 +1,136 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IGeoPoint, geoPointSchema } from './GeoPoint';
+
+// open: checked in, not yet out
+export const ATTENDANCE_STATUSES = ['open', 'completed'] as const;
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+// How far from the employer's KYC location a device may be when checking in or out
+export const ATTENDANCE_GEOFENCE_METERS = 200;
+// Longer stretches are almost always a forgotten check-out; the employer records those
+export const MAX_ATTENDANCE_HOURS = 16;
+
+/**
+ * One end of an attendance entry. Students' punches carry the device position and
+ * its distance from the workplace; punches the employer records or corrects carry
+ * who did it and why instead.
+ */
+export interface IAttendancePunch {
+  at: Date;
+  location?: IGeoPoint;
+  distanceMeters?: number;
+  overriddenBy?: mongoose.Types.ObjectId;
+  overrideReason?: string;
+  originalAt?: Date; // Time the student punched, kept when the employer corrects it
+}
+
+export interface IAttendance extends Document {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  employerId: mongoose.Types.ObjectId;
+  shiftId?: mongoose.Types.ObjectId; // The job shift worked, for jobs with shifts
+  date: string; // YYYY-MM-DD, the Indian calendar day of the check-in
+  checkIn: IAttendancePunch;
+  checkOut?: IAttendancePunch;
+  hours: number; // Worked time, set on check-out
+  status: AttendanceStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const punchSchema = new Schema<IAttendancePunch>({
+  at: {
+    type: Date,
+    required: [true, 'Punch time is required']
+  },
+  location: {
+    type: geoPointSchema,
+    default: undefined
+  },
+  distanceMeters: {
+    type: Number,
+    min: 0
+  },
+  overriddenBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  overrideReason: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Override reason cannot exceed 300 characters']
+  },
+  originalAt: Date
+}, { _id: false });
+
+const attendanceSchema = new Schema<IAttendance>({
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: [true, 'Application is required']
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: [true, 'Job is required']
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  employerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Employer is required']
+  },
+  shiftId: {
+    type: Schema.Types.ObjectId
+  },
+  date: {
+    type: String,
+    required: [true, 'Attendance date is required'],
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Attendance date must be YYYY-MM-DD']
+  },
+  checkIn: {
+    type: punchSchema,
+    required: [true, 'Check-in is required']
+  },
+  checkOut: {
+    type: punchSchema,
+    default: undefined
+  },
+  hours: {
+    type: Number,
+    default: 0,
+    min: [0, 'Hours cannot be negative'],
+    max: [MAX_ATTENDANCE_HOURS, `An entry cannot exceed ${MAX_ATTENDANCE_HOURS} hours`]
+  },
+  status: {
+    type: String,
+    enum: ATTENDANCE_STATUSES,
+    default: 'open'
+  }
+}, {
+  timestamps: true
+});
+
+attendanceSchema.index({ applicationId: 1, 'checkIn.at': -1 });
+attendanceSchema.index({ studentId: 1, date: -1 });
+attendanceSchema.index({ employerId: 1, jobId: 1, date: -1 });
+// At most one open entry per engagement
+attendanceSchema.index(
+  { applicationId: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' }, name: 'one_open_entry_per_application' }
+);
+
+attendanceSchema.pre('validate', function(next) {
+  if (this.checkOut && this.checkOut.at <= this.checkIn.at) {
+    this.invalidate('checkOut.at', 'Check-out must be after check-in');
+  }
+  next();
+});
+
+export const Attendance = mongoose.model<IAttendance>('Attendance', attendanceSchema);
+export default Attendance;
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// How a bookmarked job stands now. Bookmarks are kept when a job stops taking
+// applications so the student sees what happened to it instead of losing it.
+export const BOOKMARK_JOB_STATES = ['open', 'paused', 'closed', 'expired', 'removed'] as const;
+export type BookmarkJobState = typeof BOOKMARK_JOB_STATES[number];
+
+export const MAX_BOOKMARKS = 200;
+
+// Enough of the job to list the bookmark after the job itself was deleted
+export interface IBookmarkJobSnapshot {
+  jobTitle: string;
+  companyName: string;
+  location: string;
+}
+
+export interface IBookmark extends Document {
+  studentId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  jobSnapshot: IBookmarkJobSnapshot;
+  // Deadline the last reminder was sent for; a moved deadline gets a new reminder
+  remindedForDeadline?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSnapshotSchema = new Schema<IBookmarkJobSnapshot>({
+  jobTitle: { type: String, trim: true },
+  companyName: { type: String, trim: true },
+  location: { type: String, trim: true }
+}, { _id: false });
+
+const bookmarkSchema = new Schema<IBookmark>({
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: [true, 'Job is required']
+  },
+  jobSnapshot: {
+    type: jobSnapshotSchema,
+    required: true
+  },
+  remindedForDeadline: Date
+}, {
+  timestamps: true
+});
+
+// One bookmark per student and job; the reminder run looks bookmarks up by job
+bookmarkSchema.index({ studentId: 1, jobId: 1 }, { unique: true });
+bookmarkSchema.index({ studentId: 1, createdAt: -1 });
+bookmarkSchema.index({ jobId: 1 });
+
+export const Bookmark = mongoose.model<IBookmark>('Bookmark', bookmarkSchema);
+export default Bookmark;
@@ -0,0 +1,147 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Outbox rows are deleted this long after they were queued
+export const EMAIL_OUTBOX_RETENTION_DAYS = 90;
+
+// What a sensitive message's body is replaced with once it no longer needs sending
+export const REDACTED_EMAIL_BODY = '[removed after delivery]';
+
+export const EMAIL_OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'failed', 'dead'] as const;
+export type EmailOutboxStatus = typeof EMAIL_OUTBOX_STATUSES[number];
+
+export interface IEmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
+export interface IEmailAttempt {
+  at: Date;
+  error: string;
+}
+
+export interface IEmailOutbox extends Document {
+  // Message
+  to: string;
+  from?: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  attachments: IEmailAttachment[];
+
+  // Delivery bookkeeping
+  category: string;
+  idempotencyKey?: string;
+  sensitive: boolean; // Body holds a one-time code: hidden from admins, cleared once sent or dead
+  status: EmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date;
+  expiresAt?: Date; // Give up (dead-letter) if not sent by this time
+  lastError?: string;
+  errorHistory: IEmailAttempt[];
+  sentAt?: Date;
+  messageId?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailOutboxSchema = new Schema<IEmailOutbox>({
+  // Message
+  to: {
+    type: String,
+    required: [true, 'Recipient is required'],
+    lowercase: true,
+    trim: true
+  },
+  from: {
+    type: String,
+    trim: true
+  },
+  subject: {
+    type: String,
+    required: [true, 'Subject is required'],
+    trim: true,
+    maxlength: [300, 'Subject cannot exceed 300 characters']
+  },
+  html: {
+    type: String,
+    required: [true, 'HTML body is required']
+  },
+  text: String,
+  headers: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  attachments: [{
+    _id: false,
+    filename: { type: String, required: true },
+    content: { type: String, required: true },
+    contentType: String
+  }],
+
+  // Delivery bookkeeping
+  category: {
+    type: String,
+    required: [true, 'Category is required'],
+    trim: true
+  },
+  idempotencyKey: {
+    type: String,
+    trim: true
+  },
+  sensitive: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: EMAIL_OUTBOX_STATUSES,
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5,
+    min: 1
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: Date,
+  expiresAt: Date,
+  lastError: String,
+  errorHistory: [{
+    _id: false,
+    at: { type: Date, default: Date.now },
+    error: String
+  }],
+  sentAt: Date,
+  messageId: String
+}, {
+  timestamps: true
+});
+
+// Idempotency - a key can only ever be queued once
+emailOutboxSchema.index(
+  { idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
+// Worker polling
+emailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+// Admin listing
+emailOutboxSchema.index({ status: 1, createdAt: -1 });
+// Retention - delivery history is only kept for a while
+emailOutboxSchema.index({ createdAt: 1 }, { expireAfterSeconds: EMAIL_OUTBOX_RETENTION_DAYS * 24 * 60 * 60 });
+emailOutboxSchema.index({ to: 1, createdAt: -1 });
+
+export const EmailOutbox = mongoose.model<IEmailOutbox>('EmailOutbox', emailOutboxSchema);
+export default EmailOutbox;
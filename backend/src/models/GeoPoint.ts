@@ -0,0 +1,31 @@
+import { Schema } from 'mongoose';
+
+// GeoJSON point. Coordinates are [longitude, latitude], the order 2dsphere indexes expect.
+export interface IGeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+const isValidCoordinates = (coordinates: number[]) =>
+  Array.isArray(coordinates) &&
+  coordinates.length === 2 &&
+  coordinates[0] >= -180 && coordinates[0] <= 180 &&
+  coordinates[1] >= -90 && coordinates[1] <= 90;
+
+// Shared sub-schema for models that store a position (jobs, student home / PG)
+export const geoPointSchema = new Schema<IGeoPoint>({
+  type: {
+    type: String,
+    enum: ['Point'],
+    default: 'Point',
+    required: true
+  },
+  coordinates: {
+    type: [Number],
+    required: true,
+    validate: {
+      validator: isValidCoordinates,
+      message: 'Coordinates must be [longitude, latitude]'
+    }
+  }
+}, { _id: false });
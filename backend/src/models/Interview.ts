@@ -0,0 +1,174 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const INTERVIEW_MODES = ['in-person', 'phone', 'video'] as const;
+export type InterviewMode = typeof INTERVIEW_MODES[number];
+
+// proposed: waiting for the other party to pick a slot
+export const INTERVIEW_STATUSES = ['proposed', 'scheduled', 'cancelled', 'completed'] as const;
+export type InterviewStatus = typeof INTERVIEW_STATUSES[number];
+
+export const MAX_PROPOSED_SLOTS = 5;
+
+export interface IInterviewSlot {
+  _id?: mongoose.Types.ObjectId;
+  start: Date;
+  end: Date;
+}
+
+export interface IInterview extends Document {
+  application: mongoose.Types.ObjectId;
+  job: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  employer: mongoose.Types.ObjectId;
+
+  proposedSlots: IInterviewSlot[];
+  proposedBy: 'student' | 'employer';
+  selectedSlot?: IInterviewSlot;
+
+  mode: InterviewMode;
+  location?: string; // in-person: EmployerKYC address
+  phoneNumber?: string; // phone: number the student will be called from / should call
+  videoLink?: string; // video: meeting URL
+  notes?: string;
+
+  status: InterviewStatus;
+  // Incremented on every change so calendar clients replace the earlier invite (RFC 5545 SEQUENCE)
+  sequence: number;
+  rescheduleCount: number;
+  cancelledBy?: 'student' | 'employer';
+  cancellationReason?: string;
+  cancelledAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isParticipant(userId: string): boolean;
+}
+
+const slotSchema = new Schema<IInterviewSlot>({
+  start: {
+    type: Date,
+    required: [true, 'Slot start time is required']
+  },
+  end: {
+    type: Date,
+    required: [true, 'Slot end time is required']
+  }
+});
+
+const interviewSchema = new Schema<IInterview>({
+  application: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: [true, 'Application is required']
+  },
+  job: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: [true, 'Job is required']
+  },
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  employer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Employer is required']
+  },
+
+  proposedSlots: {
+    type: [slotSchema],
+    validate: {
+      validator: (slots: IInterviewSlot[]) => slots.length <= MAX_PROPOSED_SLOTS,
+      message: `At most ${MAX_PROPOSED_SLOTS} slots can be proposed`
+    }
+  },
+  proposedBy: {
+    type: String,
+    enum: ['student', 'employer'],
+    default: 'employer'
+  },
+  selectedSlot: slotSchema,
+
+  mode: {
+    type: String,
+    enum: INTERVIEW_MODES,
+    required: [true, 'Interview mode is required']
+  },
+  location: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Location cannot exceed 500 characters']
+  },
+  phoneNumber: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'Phone number cannot exceed 20 characters']
+  },
+  videoLink: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Video link cannot exceed 500 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+
+  status: {
+    type: String,
+    enum: INTERVIEW_STATUSES,
+    default: 'proposed'
+  },
+  sequence: {
+    type: Number,
+    default: 0
+  },
+  rescheduleCount: {
+    type: Number,
+    default: 0
+  },
+  cancelledBy: {
+    type: String,
+    enum: ['student', 'employer']
+  },
+  cancellationReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Cancellation reason cannot exceed 500 characters']
+  },
+  cancelledAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+interviewSchema.index({ application: 1, status: 1 });
+interviewSchema.index({ student: 1, status: 1, 'selectedSlot.start': 1 });
+interviewSchema.index({ employer: 1, status: 1, 'selectedSlot.start': 1 });
+
+// Validate slots and mode-specific details
+interviewSchema.pre('validate', function(next) {
+  const slots = [...this.proposedSlots, ...(this.selectedSlot ? [this.selectedSlot] : [])];
+  if (slots.some(slot => slot.end <= slot.start)) {
+    this.invalidate('proposedSlots', 'Each slot must end after it starts');
+  }
+  if (this.mode === 'video' && !this.videoLink) {
+    this.invalidate('videoLink', 'Video link is required for video interviews');
+  }
+  if (this.mode === 'in-person' && !this.location) {
+    this.invalidate('location', 'Location is required for in-person interviews');
+  }
+  next();
+});
+
+interviewSchema.methods.isParticipant = function(userId: string): boolean {
+  return this.student.toString() === userId || this.employer.toString() === userId;
+};
+
+export const Interview = mongoose.model<IInterview>('Interview', interviewSchema);
+export default Interview;
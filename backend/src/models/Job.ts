@@ -1,4 +1,69 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { formatSalary } from '../utils/salary';
+import { IGeoPoint, geoPointSchema } from './GeoPoint';
+import { IShift, shiftSchema, MAX_JOB_SHIFTS } from './ShiftSchedule';
+
+export const SCREENING_QUESTION_TYPES = ['yes_no', 'multiple_choice', 'short_text', 'numeric'] as const;
+export type ScreeningQuestionType = typeof SCREENING_QUESTION_TYPES[number];
+
+export const MAX_SCREENING_QUESTIONS = 10;
+
+// Keep in sync with JOB_CATEGORIES in the frontend's lib/constants.ts
+export const JOB_CATEGORIES = [
+  'Technology',
+  'Marketing',
+  'Sales',
+  'Customer Service',
+  'Content Writing',
+  'Graphic Design',
+  'Data Entry',
+  'Teaching',
+  'Research',
+  'Other'
+] as const;
+export type JobCategory = typeof JOB_CATEGORIES[number];
+
+export const JOB_WORK_TYPES = ['Part-time', 'Full-time', 'Remote', 'On-site'] as const;
+export type JobWorkType = typeof JOB_WORK_TYPES[number];
+
+// Drafts are hidden until published, by the employer or at `publishAt`
+export const JOB_STATUSES = ['draft', 'active', 'paused', 'closed', 'expired'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// Openings one job can hire for, e.g. "5 weekend promoters"
+export const MAX_JOB_POSITIONS = 100;
+
+export const SALARY_PERIODS = ['hourly', 'daily', 'monthly', 'per_task'] as const;
+export type SalaryPeriod = typeof SALARY_PERIODS[number];
+
+export const SALARY_CURRENCIES = ['INR'] as const;
+export type SalaryCurrency = typeof SALARY_CURRENCIES[number];
+
+// Pay per period; min === max for a fixed amount
+export interface ISalary {
+  min: number;
+  max: number;
+  currency: SalaryCurrency;
+  period: SalaryPeriod;
+}
+
+// Answers that disqualify an applicant. Hidden from students (select: false),
+// load with .select('+screeningQuestions.knockout') where rules are evaluated.
+export interface IKnockoutRule {
+  expected?: boolean; // yes_no: the required answer
+  acceptedOptions?: string[]; // multiple_choice: any of these passes
+  min?: number; // numeric: inclusive bounds
+  max?: number;
+}
+
+export interface IScreeningQuestion {
+  _id?: mongoose.Types.ObjectId;
+  prompt: string;
+  type: ScreeningQuestionType;
+  options?: string[]; // multiple_choice only
+  required: boolean;
+  knockout?: IKnockoutRule;
+}
 
 // Job Interface - Essential fields only
 export interface IJob extends Document {
@@ -7,10 +72,18 @@ export interface IJob extends Document {
   jobTitle: string;
   description: string;
   location: string;
-  salaryRange: string;
-  workType: 'Part-time' | 'Full-time' | 'Remote' | 'On-site';
+  locationPoint?: IGeoPoint; // Entered when posting, else taken from the employer's KYC
+  salaryRange: string; // Display string, generated from `salary` when that is set
+  salary?: ISalary;
+  workType: JobWorkType;
+  category: JobCategory;
   skillsRequired: string[];
   applicationDeadline: Date;
+  screeningQuestions: IScreeningQuestion[];
+  positions: number;
+  filledPositions: number; // Hires so far; the job closes itself when it reaches `positions`
+  filledAt?: Date;
+  shifts: IShift[]; // Empty for jobs without set shifts
   
   // Auto-filled employer info
   companyName: string;
@@ -21,7 +94,9 @@ export interface IJob extends Document {
   employerName?: string;
   
   // System fields
-  status: 'active' | 'paused' | 'closed' | 'expired';
+  status: JobStatus;
+  publishAt?: Date; // Scheduled publishing time of a draft
+  expiredAt?: Date; // Set by the expiry worker when the deadline passed
   approvalStatus: 'pending' | 'approved' | 'rejected';
 
   rejectionReason?: string;
@@ -36,11 +111,78 @@ export interface IJob extends Document {
   // Virtual fields
   duration: string;
   isExpired: boolean;
+  positionsLeft: number;
   
   // Methods
   updateStatus(newStatus: string): Promise<void>;
 }
 
+const knockoutRuleSchema = new Schema<IKnockoutRule>({
+  expected: Boolean,
+  acceptedOptions: [{
+    type: String,
+    trim: true
+  }],
+  min: Number,
+  max: Number
+}, { _id: false });
+
+// Shared with JobTemplate, which stores the same questions and pay
+export const screeningQuestionSchema = new Schema<IScreeningQuestion>({
+  prompt: {
+    type: String,
+    required: [true, 'Question text is required'],
+    trim: true,
+    maxlength: [300, 'Question cannot exceed 300 characters']
+  },
+  type: {
+    type: String,
+    enum: SCREENING_QUESTION_TYPES,
+    required: [true, 'Question type is required']
+  },
+  options: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Option cannot exceed 100 characters']
+  }],
+  required: {
+    type: Boolean,
+    default: true
+  },
+  knockout: {
+    type: knockoutRuleSchema,
+    select: false
+  }
+});
+
+export const salarySchema = new Schema<ISalary>({
+  min: {
+    type: Number,
+    required: [true, 'Minimum salary is required'],
+    min: [0, 'Salary cannot be negative']
+  },
+  max: {
+    type: Number,
+    required: [true, 'Maximum salary is required'],
+    validate: {
+      validator: function(this: ISalary, value: number) {
+        return value >= this.min;
+      },
+      message: 'Maximum salary cannot be less than the minimum'
+    }
+  },
+  currency: {
+    type: String,
+    enum: SALARY_CURRENCIES,
+    default: 'INR'
+  },
+  period: {
+    type: String,
+    enum: SALARY_PERIODS,
+    required: [true, 'Salary period is required']
+  }
+}, { _id: false });
+
 // Job Schema - Essential fields only
 const jobSchema = new Schema<IJob>({
   jobId: {
@@ -71,23 +213,68 @@ const jobSchema = new Schema<IJob>({
     trim: true,
     maxlength: [200, 'Location cannot exceed 200 characters']
   },
+  locationPoint: {
+    type: geoPointSchema,
+    default: undefined
+  },
   salaryRange: {
     type: String,
     required: [true, 'Salary range is required'],
     trim: true,
     maxlength: [100, 'Salary range cannot exceed 100 characters']
   },
+  salary: {
+    type: salarySchema,
+    default: undefined
+  },
   workType: {
     type: String,
     required: [true, 'Work type is required'],
-    enum: ['Part-time', 'Full-time', 'Remote', 'On-site'],
+    enum: JOB_WORK_TYPES,
     default: 'Full-time'
   },
+  category: {
+    type: String,
+    enum: JOB_CATEGORIES,
+    default: 'Other'
+  },
   skillsRequired: [{
     type: String,
     trim: true,
     maxlength: [100, 'Skill cannot exceed 100 characters']
   }],
+  screeningQuestions: {
+    type: [screeningQuestionSchema],
+    default: [],
+    validate: {
+      validator: (questions: IScreeningQuestion[]) => questions.length <= MAX_SCREENING_QUESTIONS,
+      message: `A job can have at most ${MAX_SCREENING_QUESTIONS} screening questions`
+    }
+  },
+  positions: {
+    type: Number,
+    default: 1,
+    min: [1, 'A job needs at least one position'],
+    max: [MAX_JOB_POSITIONS, `A job can have at most ${MAX_JOB_POSITIONS} positions`],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Positions must be a whole number'
+    }
+  },
+  filledPositions: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  filledAt: Date,
+  shifts: {
+    type: [shiftSchema],
+    default: [],
+    validate: {
+      validator: (shifts: IShift[]) => shifts.length <= MAX_JOB_SHIFTS,
+      message: `A job can have at most ${MAX_JOB_SHIFTS} shifts`
+    }
+  },
   applicationDeadline: {
     type: Date,
     required: [true, 'Application deadline is required'],
@@ -136,9 +323,11 @@ const jobSchema = new Schema<IJob>({
   // System fields
   status: {
     type: String,
-    enum: ['active', 'paused', 'closed', 'expired'],
+    enum: JOB_STATUSES,
     default: 'active'
   },
+  publishAt: Date,
+  expiredAt: Date,
   approvalStatus: {
     type: String,
     enum: ['pending', 'approved', 'rejected'],
@@ -184,9 +373,24 @@ jobSchema.index({ employerId: 1, status: 1 });
 jobSchema.index({ status: 1, highlighted: 1 });
 jobSchema.index({ createdAt: -1 });
 jobSchema.index({ applicationDeadline: 1 });
+// Expiry and scheduled publishing runs
+jobSchema.index({ status: 1, applicationDeadline: 1 });
+jobSchema.index({ status: 1, publishAt: 1 });
 jobSchema.index({ workType: 1 });
+jobSchema.index({ category: 1 });
 jobSchema.index({ location: 1 });
+jobSchema.index({ locationPoint: '2dsphere' });
 jobSchema.index({ approvalStatus: 1 });
+jobSchema.index({ 'salary.period': 1, 'salary.max': -1 });
+// Full-text search (one text index per collection); a title hit outranks a description hit
+jobSchema.index(
+  { jobTitle: 'text', skillsRequired: 'text', companyName: 'text', description: 'text' },
+  {
+    name: 'job_text_search',
+    weights: { jobTitle: 10, skillsRequired: 6, companyName: 4, description: 1 },
+    default_language: 'english'
+  }
+);
 
 // Virtual for job duration
 jobSchema.virtual('duration').get(function(this: IJob) {
@@ -206,12 +410,25 @@ jobSchema.virtual('isExpired').get(function(this: IJob) {
   return new Date() > this.applicationDeadline;
 });
 
+// Jobs saved before positions existed hire one person
+jobSchema.virtual('positionsLeft').get(function(this: IJob) {
+  return Math.max(0, (this.positions ?? 1) - (this.filledPositions ?? 0));
+});
+
 // Method to update job status
-jobSchema.methods.updateStatus = async function(this: IJob, newStatus: 'active' | 'paused' | 'closed' | 'expired') {
+jobSchema.methods.updateStatus = async function(this: IJob, newStatus: JobStatus) {
   this.status = newStatus;
   await this.save();
 };
 
+// Keep the display string in step with the structured salary, unless a display string
+// was set alongside it (free text from older clients)
+jobSchema.pre('validate', function(this: IJob) {
+  if (this.salary && ((this.isModified('salary') && !this.isModified('salaryRange')) || !this.salaryRange)) {
+    this.salaryRange = formatSalary(this.salary);
+  }
+});
+
 // Pre-save middleware to handle status updates
 jobSchema.pre('save', function(this: IJob) {
   // Auto-expire jobs past their deadline
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// 'applied' once the invited student applies to the job
+export const JOB_INVITE_STATUSES = ['sent', 'applied'] as const;
+export type JobInviteStatus = typeof JOB_INVITE_STATUSES[number];
+
+export interface IJobInvite extends Document {
+  jobId: mongoose.Types.ObjectId;
+  employerId: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  message?: string;
+  status: JobInviteStatus;
+  appliedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobInviteSchema = new Schema<IJobInvite>({
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: [true, 'Job is required']
+  },
+  employerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Employer is required']
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Invite message cannot exceed 500 characters']
+  },
+  status: {
+    type: String,
+    enum: JOB_INVITE_STATUSES,
+    default: 'sent'
+  },
+  appliedAt: Date
+}, {
+  timestamps: true
+});
+
+// A student is invited to a job at most once
+jobInviteSchema.index({ jobId: 1, studentId: 1 }, { unique: true });
+jobInviteSchema.index({ studentId: 1, createdAt: -1 });
+
+export const JobInvite = mongoose.model<IJobInvite>('JobInvite', jobInviteSchema);
+export default JobInvite;
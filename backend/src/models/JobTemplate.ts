@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import {
+  JOB_CATEGORIES,
+  JobCategory,
+  JOB_WORK_TYPES,
+  JobWorkType,
+  MAX_SCREENING_QUESTIONS,
+  MAX_JOB_POSITIONS,
+  ISalary,
+  IScreeningQuestion,
+  salarySchema,
+  screeningQuestionSchema
+} from './Job';
+import { IGeoPoint, geoPointSchema } from './GeoPoint';
+
+export const MAX_JOB_TEMPLATES = 25;
+
+// The parts of a job that carry over from one hiring round to the next. Deadlines,
+// status and the auto-filled employer details are set when a job is posted from it.
+export interface IJobTemplateFields {
+  jobTitle: string;
+  description?: string;
+  location?: string;
+  locationPoint?: IGeoPoint;
+  salary?: ISalary;
+  salaryRange?: string; // Free text pay kept from jobs posted before structured salaries
+  workType?: JobWorkType;
+  category?: JobCategory;
+  skillsRequired: string[];
+  screeningQuestions: IScreeningQuestion[];
+  positions?: number;
+}
+
+export interface IJobTemplate extends IJobTemplateFields, Document {
+  employerId: mongoose.Types.ObjectId;
+  name: string;
+  sourceJobId?: mongoose.Types.ObjectId; // Set when the template was saved from a posted job
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobTemplateSchema = new Schema<IJobTemplate>({
+  employerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Employer is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [60, 'Name cannot exceed 60 characters']
+  },
+  sourceJobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job'
+  },
+  jobTitle: {
+    type: String,
+    required: [true, 'Job title is required'],
+    trim: true,
+    maxlength: [200, 'Job title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Job description cannot exceed 2000 characters']
+  },
+  location: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Location cannot exceed 200 characters']
+  },
+  locationPoint: {
+    type: geoPointSchema,
+    default: undefined
+  },
+  salary: {
+    type: salarySchema,
+    default: undefined
+  },
+  salaryRange: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Salary range cannot exceed 100 characters']
+  },
+  workType: {
+    type: String,
+    enum: JOB_WORK_TYPES
+  },
+  category: {
+    type: String,
+    enum: JOB_CATEGORIES
+  },
+  skillsRequired: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Skill cannot exceed 100 characters']
+  }],
+  screeningQuestions: {
+    type: [screeningQuestionSchema],
+    default: [],
+    validate: {
+      validator: (questions: IScreeningQuestion[]) => questions.length <= MAX_SCREENING_QUESTIONS,
+      message: `A template can have at most ${MAX_SCREENING_QUESTIONS} screening questions`
+    }
+  },
+  positions: {
+    type: Number,
+    min: [1, 'A job needs at least one position'],
+    max: [MAX_JOB_POSITIONS, `A job can have at most ${MAX_JOB_POSITIONS} positions`]
+  }
+}, {
+  timestamps: true
+});
+
+// One name per employer
+jobTemplateSchema.index({ employerId: 1, name: 1 }, { unique: true });
+
+export const JobTemplate = mongoose.model<IJobTemplate>('JobTemplate', jobTemplateSchema);
+export default JobTemplate;
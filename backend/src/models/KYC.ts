@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IGeoPoint, geoPointSchema } from './GeoPoint';
 
 export interface IKYCDocument extends Document {
   userId: mongoose.Types.ObjectId;
@@ -10,6 +11,7 @@ export interface IKYCDocument extends Document {
   phone: string;
   email: string;
   address: string;
+  homeLocation?: IGeoPoint; // Pinned by the student, used for commute distance
   
   // Academic Information
   college: string;
@@ -22,6 +24,7 @@ export interface IKYCDocument extends Document {
     name: string;
     address: string;
     contact: string;
+    location?: IGeoPoint;
   };
   hoursPerWeek: number;
   availableDays: string[];
@@ -118,6 +121,10 @@ const kycSchema = new Schema<IKYCDocument>({
     trim: true,
     maxlength: [500, 'Address cannot exceed 500 characters']
   },
+  homeLocation: {
+    type: geoPointSchema,
+    default: undefined
+  },
   
   // Academic Information
   college: {
@@ -155,6 +162,10 @@ const kycSchema = new Schema<IKYCDocument>({
       trim: true,
       maxlength: [500, 'PG address cannot exceed 500 characters']
     },
+    location: {
+      type: geoPointSchema,
+      default: undefined
+    },
     contact: {
       type: String,
       trim: true,
@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Accounts of the earnings ledger. Money owed to a student moves
+ * employer_expense -> student_payable when work is approved, then
+ * student_payable -> payout_clearing while a bank transfer is in a payout batch,
+ * and payout_clearing -> bank once the bank confirms it (or back to
+ * student_payable if the transfer failed).
+ */
+export const LEDGER_ACCOUNTS = ['employer_expense', 'student_payable', 'payout_clearing', 'bank'] as const;
+export type LedgerAccount = typeof LEDGER_ACCOUNTS[number];
+
+// earning: approved timesheet or completed task; the payout_* kinds follow a batch item
+export const LEDGER_ENTRY_KINDS = ['earning', 'payout_reserved', 'payout_paid', 'payout_failed'] as const;
+export type LedgerEntryKind = typeof LEDGER_ENTRY_KINDS[number];
+
+export const LEDGER_SOURCE_TYPES = ['timesheet', 'task', 'payout_batch'] as const;
+export type LedgerSourceType = typeof LEDGER_SOURCE_TYPES[number];
+
+// One side of an entry; amounts are in paise so entries always balance exactly
+export interface ILedgerLine {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * A balanced journal entry for one student. Entries are never changed or
+ * removed: a failed payout is undone by a new entry. `key` names the event
+ * the entry records (e.g. timesheet:<id>) so it is posted only once.
+ */
+export interface ILedgerEntry extends Document {
+  key: string;
+  kind: LedgerEntryKind;
+  studentId: mongoose.Types.ObjectId;
+  employerId?: mongoose.Types.ObjectId;
+  sourceType: LedgerSourceType;
+  sourceId: mongoose.Types.ObjectId;
+  lines: ILedgerLine[];
+  amount: number; // Paise moved by the entry
+  memo: string;
+  postedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const lineSchema = new Schema<ILedgerLine>({
+  account: {
+    type: String,
+    enum: LEDGER_ACCOUNTS,
+    required: [true, 'Account is required']
+  },
+  debit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Debit cannot be negative'],
+    validate: { validator: Number.isInteger, message: 'Amounts must be whole paise' }
+  },
+  credit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Credit cannot be negative'],
+    validate: { validator: Number.isInteger, message: 'Amounts must be whole paise' }
+  }
+}, { _id: false });
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>({
+  key: {
+    type: String,
+    required: [true, 'Entry key is required'],
+    unique: true
+  },
+  kind: {
+    type: String,
+    enum: LEDGER_ENTRY_KINDS,
+    required: [true, 'Entry kind is required']
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  employerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  sourceType: {
+    type: String,
+    enum: LEDGER_SOURCE_TYPES,
+    required: [true, 'Source type is required']
+  },
+  sourceId: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Source is required']
+  },
+  lines: {
+    type: [lineSchema],
+    validate: {
+      validator: (lines: ILedgerLine[]) => {
+        if (lines.length < 2) return false;
+        const debits = lines.reduce((total, line) => total + line.debit, 0);
+        const credits = lines.reduce((total, line) => total + line.credit, 0);
+        return debits > 0 && debits === credits;
+      },
+      message: 'A ledger entry needs at least two lines with equal debits and credits'
+    }
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [1, 'Amount must be positive']
+  },
+  memo: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Memo cannot exceed 200 characters']
+  },
+  postedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+ledgerEntrySchema.index({ studentId: 1, createdAt: -1 });
+ledgerEntrySchema.index({ sourceType: 1, sourceId: 1 });
+ledgerEntrySchema.index({ 'lines.account': 1, studentId: 1 });
+
+export const LedgerEntry = mongoose.model<ILedgerEntry>('LedgerEntry', ledgerEntrySchema);
+export default LedgerEntry;
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export interface IMessage extends Document {
+  application: mongoose.Types.ObjectId;
+  job: mongoose.Types.ObjectId;
+  sender: mongoose.Types.ObjectId;
+  senderType: 'student' | 'employer';
+  recipient: mongoose.Types.ObjectId;
+  body: string; // Stored as written; contact details are redacted when served
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const messageSchema = new Schema<IMessage>({
+  application: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: [true, 'Application is required']
+  },
+  job: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: [true, 'Job is required']
+  },
+  sender: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Sender is required']
+  },
+  senderType: {
+    type: String,
+    enum: ['student', 'employer'],
+    required: [true, 'Sender type is required']
+  },
+  recipient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recipient is required']
+  },
+  body: {
+    type: String,
+    required: [true, 'Message cannot be empty'],
+    trim: true,
+    maxlength: [MAX_MESSAGE_LENGTH, `Message cannot exceed ${MAX_MESSAGE_LENGTH} characters`]
+  },
+  readAt: Date
+}, {
+  timestamps: true
+});
+
+// Thread history is paged newest-first by _id
+messageSchema.index({ application: 1, _id: -1 });
+messageSchema.index({ recipient: 1, readAt: 1 });
+
+const Message = mongoose.model<IMessage>('Message', messageSchema);
+export { Message };
+export default Message;
@@ -0,0 +1,136 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Notifications are kept for 90 days unless a shorter expiry is given
+export const NOTIFICATION_TTL_DAYS = 90;
+
+export const NOTIFICATION_TYPES = [
+  'job_approved',
+  'job_rejected',
+  'new_application',
+  'application_status_update',
+  'kyc_status_update',
+  'interview_update',
+  'saved_search_match',
+  'bookmark_deadline_reminder',
+  'job_invite',
+  'job_expired',
+  'timesheet_update',
+  'payout_update'
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface INotification extends Document {
+  recipient: mongoose.Types.ObjectId;
+  recipientType: 'student' | 'employer' | 'admin';
+  type: NotificationType;
+  title: string;
+  message: string;
+  payload?: Record<string, any>;
+
+  // Read / archived state
+  isRead: boolean;
+  readAt?: Date;
+  isArchived: boolean;
+  archivedAt?: Date;
+
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  markAsRead(): Promise<INotification>;
+}
+
+// Static methods interface
+export interface INotificationModel extends mongoose.Model<INotification> {
+  markAllAsRead(recipient: mongoose.Types.ObjectId | string): Promise<number>;
+  getUnreadCount(recipient: mongoose.Types.ObjectId | string): Promise<number>;
+}
+
+const notificationSchema = new Schema<INotification>({
+  recipient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recipient is required']
+  },
+  recipientType: {
+    type: String,
+    enum: ['student', 'employer', 'admin'],
+    required: [true, 'Recipient type is required']
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: [true, 'Notification type is required']
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+
+  // Read / archived state
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  readAt: Date,
+  isArchived: {
+    type: Boolean,
+    default: false
+  },
+  archivedAt: Date,
+
+  expiresAt: {
+    type: Date,
+    default: () => new Date(Date.now() + NOTIFICATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for inbox queries
+notificationSchema.index({ recipient: 1, isArchived: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, isRead: 1 });
+// TTL index - MongoDB removes the document once expiresAt has passed
+notificationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Method to mark a single notification as read
+notificationSchema.methods.markAsRead = async function(this: INotification) {
+  if (!this.isRead) {
+    this.isRead = true;
+    this.readAt = new Date();
+    await this.save();
+  }
+  return this;
+};
+
+// Static method to mark every unread notification of a user as read
+notificationSchema.statics.markAllAsRead = async function(recipient: mongoose.Types.ObjectId | string) {
+  const result = await this.updateMany(
+    { recipient, isRead: false },
+    { $set: { isRead: true, readAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+// Static method to count unread, non-archived notifications
+notificationSchema.statics.getUnreadCount = function(recipient: mongoose.Types.ObjectId | string) {
+  return this.countDocuments({ recipient, isRead: false, isArchived: false });
+};
+
+const Notification = mongoose.model<INotification, INotificationModel>('Notification', notificationSchema);
+export { Notification };
+export default Notification;
@@ -0,0 +1,153 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// draft: built, file not yet downloaded; exported: sent to the bank; reconciled: every item is paid or failed
+export const PAYOUT_BATCH_STATUSES = ['draft', 'exported', 'reconciled'] as const;
+export type PayoutBatchStatus = typeof PAYOUT_BATCH_STATUSES[number];
+
+export const PAYOUT_ITEM_STATUSES = ['pending', 'paid', 'failed'] as const;
+export type PayoutItemStatus = typeof PAYOUT_ITEM_STATUSES[number];
+
+/**
+ * One bank transfer to a student. The bank details are copied from the
+ * student's KYC payroll section when the batch is built, so later KYC edits
+ * do not change a file that may already be at the bank.
+ */
+export interface IPayoutItem {
+  _id: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  reference: string; // Customer reference in the bank file, e.g. PB2610190001-003
+  amount: number; // Paise
+  beneficiaryName: string;
+  bankAccount: string;
+  ifsc: string;
+  status: PayoutItemStatus;
+  utr?: string; // Bank's transaction reference once paid
+  failureReason?: string;
+  reconciledAt?: Date;
+  reconciledBy?: mongoose.Types.ObjectId;
+}
+
+export interface IPayoutBatch extends Document {
+  reference: string;
+  status: PayoutBatchStatus;
+  items: IPayoutItem[];
+  totalAmount: number; // Paise
+  createdBy: mongoose.Types.ObjectId;
+  exportedAt?: Date;
+  exportedBy?: mongoose.Types.ObjectId;
+  reconciledAt?: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const payoutItemSchema = new Schema<IPayoutItem>({
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  reference: {
+    type: String,
+    required: [true, 'Item reference is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [1, 'Amount must be positive']
+  },
+  beneficiaryName: {
+    type: String,
+    required: [true, 'Beneficiary name is required'],
+    trim: true
+  },
+  bankAccount: {
+    type: String,
+    required: [true, 'Bank account is required'],
+    match: [/^\d+$/, 'Bank account number should contain only digits']
+  },
+  ifsc: {
+    type: String,
+    required: [true, 'IFSC is required'],
+    match: [/^[A-Z]{4}0[A-Z0-9]{6}$/, 'Invalid IFSC code format']
+  },
+  status: {
+    type: String,
+    enum: PAYOUT_ITEM_STATUSES,
+    default: 'pending'
+  },
+  utr: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'UTR cannot exceed 50 characters']
+  },
+  failureReason: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Failure reason cannot exceed 300 characters']
+  },
+  reconciledAt: Date,
+  reconciledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+});
+
+const payoutBatchSchema = new Schema<IPayoutBatch>({
+  reference: {
+    type: String,
+    required: [true, 'Batch reference is required'],
+    unique: true
+  },
+  status: {
+    type: String,
+    enum: PAYOUT_BATCH_STATUSES,
+    default: 'draft'
+  },
+  items: [payoutItemSchema],
+  totalAmount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Total cannot be negative']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required']
+  },
+  exportedAt: Date,
+  exportedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reconciledAt: Date,
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: any) {
+      // Full account numbers only go into the exported bank file
+      ret.items?.forEach((item: any) => {
+        if (item.bankAccount) {
+          item.bankAccount = item.bankAccount.replace(/\d(?=\d{4})/g, '*');
+        }
+      });
+      return ret;
+    }
+  }
+});
+
+payoutBatchSchema.index({ status: 1, createdAt: -1 });
+// One draft at a time: building a batch claims this slot before reserving any balance
+payoutBatchSchema.index(
+  { status: 1 },
+  { unique: true, partialFilterExpression: { status: 'draft' }, name: 'one_draft_batch' }
+);
+payoutBatchSchema.index({ 'items.studentId': 1 });
+
+export const PayoutBatch = mongoose.model<IPayoutBatch>('PayoutBatch', payoutBatchSchema);
+export default PayoutBatch;
@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { JOB_CATEGORIES, JobCategory, JOB_WORK_TYPES, JobWorkType, SALARY_PERIODS, SalaryPeriod } from './Job';
+import { IGeoPoint, geoPointSchema } from './GeoPoint';
+
+export const MAX_SAVED_SEARCHES = 10;
+
+// Same origins as the job search (?origin=home|pg), resolved when a job is matched
+// so a student who moves their pin keeps getting alerts for the new position
+export const SAVED_SEARCH_ORIGINS = ['home', 'pg'] as const;
+export type SavedSearchOrigin = typeof SAVED_SEARCH_ORIGINS[number];
+
+// The filters of a job search, stored in the shape parseJobSearchQuery reads
+export interface ISavedSearchCriteria {
+  search?: string;
+  categories: JobCategory[];
+  workTypes: JobWorkType[];
+  locations: string[];
+  nearPoint?: IGeoPoint;
+  origin?: SavedSearchOrigin;
+  radiusKm?: number;
+  salaryMin?: number; // pay floor: jobs whose maximum reaches this amount
+  salaryPeriod?: SalaryPeriod;
+}
+
+export interface ISavedSearch extends Document {
+  studentId: mongoose.Types.ObjectId;
+  name: string;
+  criteria: ISavedSearchCriteria;
+  emailAlerts: boolean; // in-app alerts are always on; email only when opted in
+  lastMatchedAt?: Date;
+  matchCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const criteriaSchema = new Schema<ISavedSearchCriteria>({
+  search: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Search text cannot exceed 200 characters']
+  },
+  categories: [{
+    type: String,
+    enum: JOB_CATEGORIES
+  }],
+  workTypes: [{
+    type: String,
+    enum: JOB_WORK_TYPES
+  }],
+  locations: [{
+    type: String,
+    trim: true
+  }],
+  nearPoint: geoPointSchema,
+  origin: {
+    type: String,
+    enum: SAVED_SEARCH_ORIGINS
+  },
+  radiusKm: {
+    type: Number,
+    min: [0, 'Radius cannot be negative']
+  },
+  salaryMin: {
+    type: Number,
+    min: [0, 'Salary floor cannot be negative']
+  },
+  salaryPeriod: {
+    type: String,
+    enum: SALARY_PERIODS
+  }
+}, { _id: false });
+
+const savedSearchSchema = new Schema<ISavedSearch>({
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [60, 'Name cannot exceed 60 characters']
+  },
+  criteria: {
+    type: criteriaSchema,
+    default: () => ({})
+  },
+  emailAlerts: {
+    type: Boolean,
+    default: false
+  },
+  lastMatchedAt: Date,
+  matchCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// One name per student; the matcher looks searches up by category and work type
+savedSearchSchema.index({ studentId: 1, name: 1 }, { unique: true });
+savedSearchSchema.index({ 'criteria.categories': 1, 'criteria.workTypes': 1 });
+
+export const SavedSearch = mongoose.model<ISavedSearch>('SavedSearch', savedSearchSchema);
+export default SavedSearch;
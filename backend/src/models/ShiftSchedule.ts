@@ -0,0 +1,76 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const SHIFT_RECURRENCES = ['once', 'weekly'] as const;
+export type ShiftRecurrence = typeof SHIFT_RECURRENCES[number];
+
+// Date#getDay order, spelled as in KYC.availableDays
+export const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type WeekDay = typeof WEEK_DAYS[number];
+
+export const MAX_JOB_SHIFTS = 20;
+export const MAX_SHIFT_HEADCOUNT = 100;
+// Longest run of a weekly shift, e.g. "Sat/Sun for 6 weeks" fits easily
+export const MAX_SHIFT_WEEKS = 26;
+
+export const SHIFT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const SHIFT_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * One shift of a job: a one-off day, or the same time window on some weekdays
+ * between two dates. Dates and times are local (IST) calendar values, kept as
+ * strings so a shift on a Saturday stays on Saturday whatever the server's zone.
+ */
+export interface IShift {
+  _id?: mongoose.Types.ObjectId;
+  label?: string;
+  recurrence: ShiftRecurrence;
+  startDate: string; // YYYY-MM-DD; the only day of a one-off shift
+  endDate?: string; // weekly: the last day it can fall on
+  daysOfWeek: WeekDay[]; // weekly only
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, later the same day
+  headcount: number; // Students needed on each occurrence
+}
+
+// Sub-schema for Job.shifts; students pick shifts by _id when applying
+export const shiftSchema = new Schema<IShift>({
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [60, 'Shift label cannot exceed 60 characters']
+  },
+  recurrence: {
+    type: String,
+    enum: SHIFT_RECURRENCES,
+    required: [true, 'Shift recurrence is required']
+  },
+  startDate: {
+    type: String,
+    required: [true, 'Shift start date is required'],
+    match: [SHIFT_DATE_PATTERN, 'Shift dates must be YYYY-MM-DD']
+  },
+  endDate: {
+    type: String,
+    match: [SHIFT_DATE_PATTERN, 'Shift dates must be YYYY-MM-DD']
+  },
+  daysOfWeek: [{
+    type: String,
+    enum: WEEK_DAYS
+  }],
+  startTime: {
+    type: String,
+    required: [true, 'Shift start time is required'],
+    match: [SHIFT_TIME_PATTERN, 'Shift times must be HH:mm']
+  },
+  endTime: {
+    type: String,
+    required: [true, 'Shift end time is required'],
+    match: [SHIFT_TIME_PATTERN, 'Shift times must be HH:mm']
+  },
+  headcount: {
+    type: Number,
+    default: 1,
+    min: [1, 'A shift needs at least one student'],
+    max: [MAX_SHIFT_HEADCOUNT, `A shift can have at most ${MAX_SHIFT_HEADCOUNT} students`]
+  }
+});
@@ -0,0 +1,186 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { StatusActorType } from './Application';
+
+// submitted: waiting for the employer; disputed: sent back to the student with a comment
+export const TIMESHEET_STATUSES = ['submitted', 'approved', 'disputed'] as const;
+export type TimesheetStatus = typeof TIMESHEET_STATUSES[number];
+
+// attendance: built from check-ins; manual: hours entered by the student
+export const TIMESHEET_SOURCES = ['attendance', 'manual'] as const;
+export type TimesheetSource = typeof TIMESHEET_SOURCES[number];
+
+export const TIMESHEET_ACTIONS = ['generated', 'submitted', 'approved', 'disputed', 'adjusted'] as const;
+export type TimesheetAction = typeof TIMESHEET_ACTIONS[number];
+
+export const MAX_TIMESHEET_DAY_HOURS = 24;
+
+// Hours of one day of the week
+export interface ITimesheetLine {
+  date: string; // YYYY-MM-DD
+  hours: number;
+  attendanceIds: mongoose.Types.ObjectId[]; // Check-ins the hours came from
+  note?: string;
+}
+
+// One entry of the audit trail; hours before and after are kept whenever the total changes
+export interface ITimesheetChange {
+  action: TimesheetAction;
+  actor?: mongoose.Types.ObjectId;
+  actorType: StatusActorType;
+  comment?: string;
+  hoursBefore?: number;
+  hoursAfter?: number;
+  at: Date;
+}
+
+/**
+ * A student's hours on one hired job for one week (Monday to Sunday, Indian
+ * calendar days). Amounts are in INR and fixed when the employer approves.
+ */
+export interface ITimesheet extends Document {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  employerId: mongoose.Types.ObjectId;
+  weekStart: string; // Monday
+  weekEnd: string; // Sunday
+  source: TimesheetSource;
+  lines: ITimesheetLine[];
+  totalHours: number;
+  hourlyRate?: number; // Set on approval
+  amount: number; // totalHours x hourlyRate once approved, else 0
+  status: TimesheetStatus;
+  approvedAt?: Date;
+  approvedBy?: mongoose.Types.ObjectId;
+  history: ITimesheetChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const lineSchema = new Schema<ITimesheetLine>({
+  date: {
+    type: String,
+    required: [true, 'Line date is required'],
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Line dates must be YYYY-MM-DD']
+  },
+  hours: {
+    type: Number,
+    required: [true, 'Hours are required'],
+    min: [0, 'Hours cannot be negative'],
+    max: [MAX_TIMESHEET_DAY_HOURS, `A day cannot have more than ${MAX_TIMESHEET_DAY_HOURS} hours`]
+  },
+  attendanceIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Attendance'
+  }],
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Line note cannot exceed 200 characters']
+  }
+}, { _id: false });
+
+const changeSchema = new Schema<ITimesheetChange>({
+  action: {
+    type: String,
+    enum: TIMESHEET_ACTIONS,
+    required: true
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  actorType: {
+    type: String,
+    enum: ['student', 'employer', 'admin', 'system'],
+    required: true
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Comment cannot exceed 500 characters']
+  },
+  hoursBefore: Number,
+  hoursAfter: Number,
+  at: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const timesheetSchema = new Schema<ITimesheet>({
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: [true, 'Application is required']
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: [true, 'Job is required']
+  },
+  studentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student is required']
+  },
+  employerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Employer is required']
+  },
+  weekStart: {
+    type: String,
+    required: [true, 'Week start is required'],
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Week start must be YYYY-MM-DD']
+  },
+  weekEnd: {
+    type: String,
+    required: [true, 'Week end is required'],
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Week end must be YYYY-MM-DD']
+  },
+  source: {
+    type: String,
+    enum: TIMESHEET_SOURCES,
+    required: [true, 'Timesheet source is required']
+  },
+  lines: [lineSchema],
+  totalHours: {
+    type: Number,
+    default: 0,
+    min: [0, 'Hours cannot be negative']
+  },
+  hourlyRate: {
+    type: Number,
+    min: [0, 'Hourly rate cannot be negative']
+  },
+  amount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Amount cannot be negative']
+  },
+  status: {
+    type: String,
+    enum: TIMESHEET_STATUSES,
+    default: 'submitted'
+  },
+  approvedAt: Date,
+  approvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  history: [changeSchema]
+}, {
+  timestamps: true,
+  // Saving a timesheet that changed since it was read fails, so a resubmission or
+  // adjustment cannot undo an approval (and its ledger posting) saved in between
+  optimisticConcurrency: true
+});
+
+// One timesheet per hired job and week
+timesheetSchema.index({ applicationId: 1, weekStart: 1 }, { unique: true });
+timesheetSchema.index({ studentId: 1, weekStart: -1 });
+timesheetSchema.index({ employerId: 1, status: 1, weekStart: -1 });
+
+export const Timesheet = mongoose.model<ITimesheet>('Timesheet', timesheetSchema);
+export default Timesheet;
@@ -1,5 +1,47 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { NOTIFICATION_TYPES, NotificationType } from './Notification';
+
+// Delivery channels a user can toggle per notification type
+export const NOTIFICATION_CHANNELS = ['inApp', 'email', 'digest'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export type INotificationChannelPreference = Record<NotificationChannel, boolean>;
+export type INotificationPreferences = Record<NotificationType, INotificationChannelPreference>;
+
+export const DEFAULT_CHANNEL_PREFERENCE: INotificationChannelPreference = {
+  inApp: true,
+  email: true,
+  digest: false
+};
+
+// Types summarised in the scheduled digests: their digest channel is on unless turned off
+export const DIGEST_SUMMARY_TYPES: NotificationType[] = ['new_application', 'job_approved'];
+
+export const defaultChannelPreference = (type: NotificationType): INotificationChannelPreference => ({
+  ...DEFAULT_CHANNEL_PREFERENCE,
+  digest: DIGEST_SUMMARY_TYPES.includes(type)
+});
+
+// How often scheduled digest emails are sent
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+// Resume documents a student can keep on their profile
+export const RESUME_FILE_TYPES = ['pdf', 'docx'] as const;
+export type ResumeFileType = typeof RESUME_FILE_TYPES[number];
+export const MAX_RESUMES = 5;
+export const MAX_RESUME_SIZE = 5 * 1024 * 1024; // 5MB
+
+export interface IResume {
+  _id: mongoose.Types.ObjectId;
+  fileName: string;
+  fileType: ResumeFileType;
+  size: number;
+  publicId: string; // Private Cloudinary asset, only reachable through signed URLs
+  isDefault: boolean;
+  uploadedAt: Date;
+}
 
 export interface IUser extends Document {
   name: string;
@@ -15,6 +57,7 @@ export interface IUser extends Document {
   rating?: number;
   completedJobs?: number;
   totalEarnings?: number;
+  resumes: mongoose.Types.DocumentArray<IResume & mongoose.Types.Subdocument>;
   
   // Employer specific fields
   companyName?: string;
@@ -37,6 +80,11 @@ export interface IUser extends Document {
   kycRejectedAt?: Date;
   kycPendingAt?: Date;
   
+  // Notification preferences (per event type x channel)
+  notificationPreferences?: Partial<INotificationPreferences>;
+  digestFrequency?: DigestFrequency;
+  lastDigestSentAt?: Date;
+  
   // Signup tracking
   submittedAt: Date;
   
@@ -47,6 +95,46 @@ export interface IUser extends Document {
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
+// One { inApp, email, digest } block per notification type
+const notificationPreferencesDefinition = NOTIFICATION_TYPES.reduce((acc, type) => {
+  acc[type] = {
+    inApp: { type: Boolean, default: DEFAULT_CHANNEL_PREFERENCE.inApp },
+    email: { type: Boolean, default: DEFAULT_CHANNEL_PREFERENCE.email },
+    digest: { type: Boolean, default: defaultChannelPreference(type).digest }
+  };
+  return acc;
+}, {} as Record<string, any>);
+
+const resumeSchema = new Schema<IResume>({
+  fileName: {
+    type: String,
+    required: [true, 'File name is required'],
+    trim: true,
+    maxlength: [200, 'File name cannot exceed 200 characters']
+  },
+  fileType: {
+    type: String,
+    enum: RESUME_FILE_TYPES,
+    required: [true, 'File type is required']
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  publicId: {
+    type: String,
+    required: true
+  },
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
 const userSchema = new Schema<IUser>({
   name: {
     type: String,
@@ -114,6 +202,14 @@ const userSchema = new Schema<IUser>({
     min: [0, 'Total earnings cannot be negative'],
     default: 0
   },
+  resumes: {
+    type: [resumeSchema],
+    default: [],
+    validate: {
+      validator: (resumes: IResume[]) => resumes.length <= MAX_RESUMES,
+      message: `A profile can have at most ${MAX_RESUMES} resumes`
+    }
+  },
   
   // Employer specific fields
   companyName: {
@@ -195,6 +291,14 @@ const userSchema = new Schema<IUser>({
   kycRejectedAt: Date,
   kycPendingAt: Date,
   
+  // Notification preferences
+  notificationPreferences: notificationPreferencesDefinition,
+  digestFrequency: {
+    type: String,
+    enum: DIGEST_FREQUENCIES
+  },
+  lastDigestSentAt: Date,
+  
   // Signup tracking
   submittedAt: {
     type: Date,
@@ -242,6 +346,26 @@ userSchema.methods.comparePassword = async function(candidatePassword: string):
   }
 };
 
+// Resolve effective notification preferences, filling gaps with defaults
+export const resolveNotificationPreferences = (
+  preferences?: Partial<INotificationPreferences> | null
+): INotificationPreferences => {
+  return NOTIFICATION_TYPES.reduce((acc, type) => {
+    acc[type] = { ...defaultChannelPreference(type), ...((preferences as any)?.[type] || {}) };
+    return acc;
+  }, {} as INotificationPreferences);
+};
+
+// Employers get a daily digest and students a weekly one unless they chose otherwise
+export const resolveDigestFrequency = (
+  user: { userType?: string; digestFrequency?: DigestFrequency | null }
+): DigestFrequency => {
+  if (user.digestFrequency) return user.digestFrequency;
+  if (user.userType === 'employer') return 'daily';
+  if (user.userType === 'student') return 'weekly';
+  return 'off';
+};
+
 // Virtual for full profile URL
 userSchema.virtual('profilePictureUrl').get(function() {
   if (this.profilePicture) {
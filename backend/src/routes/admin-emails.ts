@@ -0,0 +1,128 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import EmailOutbox, { EMAIL_OUTBOX_STATUSES, EmailOutboxStatus } from '../models/EmailOutbox';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError, NotFoundError } from '../middleware/errorHandler';
+import { retryEmail } from '../services/emailOutbox';
+
+const router = express.Router();
+
+// @route   GET /api/admin/emails
+// @desc    List outbound emails (filter by status, category or recipient)
+// @access  Private (Admin only)
+router.get('/', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { status = 'all', category, search } = req.query;
+  const page = Math.max(Number(req.query.page) || 1, 1);
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+  const filter: any = {};
+  if (status !== 'all') {
+    if (!EMAIL_OUTBOX_STATUSES.includes(status as EmailOutboxStatus)) {
+      throw new ValidationError(`Status must be one of: all, ${EMAIL_OUTBOX_STATUSES.join(', ')}`);
+    }
+    filter.status = status;
+  }
+  if (category) {
+    filter.category = String(category);
+  }
+  if (search) {
+    const escaped = String(search).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    filter.$or = [
+      { to: { $regex: escaped, $options: 'i' } },
+      { subject: { $regex: escaped, $options: 'i' } }
+    ];
+  }
+
+  const skip = (page - 1) * limit;
+  const [emails, totalCount] = await Promise.all([
+    EmailOutbox.find(filter)
+      .select('-html -text -attachments.content')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    EmailOutbox.countDocuments(filter)
+  ]);
+
+  sendSuccessResponse(res, {
+    emails,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalCount / limit),
+      totalCount,
+      hasNext: skip + emails.length < totalCount,
+      hasPrev: page > 1
+    }
+  }, 'Emails retrieved successfully');
+}));
+
+// @route   GET /api/admin/emails/stats
+// @desc    Count outbound emails per delivery status
+// @access  Private (Admin only)
+router.get('/stats', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const counts = await EmailOutbox.aggregate([
+    { $group: { _id: '$status', count: { $sum: 1 } } }
+  ]);
+
+  const stats: Record<string, number> = {};
+  EMAIL_OUTBOX_STATUSES.forEach(status => { stats[status] = 0; });
+  counts.forEach(({ _id, count }) => { stats[_id] = count; });
+
+  sendSuccessResponse(res, stats, 'Email statistics retrieved successfully');
+}));
+
+// @route   GET /api/admin/emails/:id
+// @desc    Inspect one outbound email, including its body (except one-time codes) and error history
+// @access  Private (Admin only)
+router.get('/:id', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new ValidationError('Invalid email ID');
+  }
+
+  const email = await EmailOutbox.findById(id);
+  if (!email) {
+    throw new NotFoundError('Email not found');
+  }
+
+  // OTP bodies are never shown, not even while the code is still valid
+  const body: Record<string, any> = email.toJSON();
+  if (email.sensitive) {
+    delete body.html;
+    delete body.text;
+  }
+
+  sendSuccessResponse(res, { email: body }, 'Email retrieved successfully');
+}));
+
+// @route   POST /api/admin/emails/:id/retry
+// @desc    Re-queue a failed or dead-lettered email
+// @access  Private (Admin only)
+router.post('/:id/retry', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new ValidationError('Invalid email ID');
+  }
+
+  const existing = await EmailOutbox.findById(id).select('status sensitive expiresAt');
+  if (!existing) {
+    throw new NotFoundError('Email not found');
+  }
+  if (existing.sensitive) {
+    throw new ValidationError('One-time code emails cannot be re-sent; the user can request a new code');
+  }
+  if (existing.expiresAt && existing.expiresAt <= new Date()) {
+    throw new ValidationError('This email expired before it could be delivered and cannot be re-sent');
+  }
+
+  const email = await retryEmail(id);
+  if (!email) {
+    throw new ValidationError(`Only failed or dead emails can be retried (current status: ${existing.status})`);
+  }
+
+  console.log(`🔁 Admin ${req.user!._id} re-queued email ${id}`);
+  sendSuccessResponse(res, { email }, 'Email queued for retry');
+}));
+
+export default router;
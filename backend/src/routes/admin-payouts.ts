@@ -0,0 +1,73 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse } from '../middleware/errorHandler';
+import {
+  previewPayoutBatch,
+  buildPayoutBatch,
+  exportPayoutBatch,
+  reconcilePayoutBatch,
+  listPayoutBatches,
+  getPayoutBatch
+} from '../services/payoutService';
+
+const router = express.Router();
+
+// @route   GET /api/admin/payouts
+// @desc    List payout batches, newest first (?status=&page=&limit=)
+// @access  Private (Admin only)
+router.get('/', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const result = await listPayoutBatches({
+    status: req.query.status,
+    page: req.query.page,
+    limit: req.query.limit
+  });
+  sendSuccessResponse(res, result, 'Payout batches retrieved successfully');
+}));
+
+// @route   GET /api/admin/payouts/preview
+// @desc    Students the next batch would pay and those left out (?minAmount=)
+// @access  Private (Admin only)
+router.get('/preview', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const preview = await previewPayoutBatch(req.query.minAmount);
+  sendSuccessResponse(res, preview, 'Payout preview retrieved successfully');
+}));
+
+// @route   POST /api/admin/payouts
+// @desc    Build a payout batch for students with payroll consent ({ minAmount?, notes? })
+// @access  Private (Admin only)
+router.post('/', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { batch, skipped } = await buildPayoutBatch(req.user!._id as mongoose.Types.ObjectId, req.body);
+  const saved = await getPayoutBatch(String(batch._id));
+  sendSuccessResponse(res, { batch: saved, skipped }, 'Payout batch created', 201);
+}));
+
+// @route   GET /api/admin/payouts/:id
+// @desc    A payout batch with its items
+// @access  Private (Admin only)
+router.get('/:id', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const batch = await getPayoutBatch(req.params.id);
+  sendSuccessResponse(res, { batch }, 'Payout batch retrieved successfully');
+}));
+
+// @route   GET /api/admin/payouts/:id/export
+// @desc    Download the batch as a NEFT bulk-transfer CSV; marks a draft batch exported
+// @access  Private (Admin only)
+router.get('/:id/export', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { filename, csv } = await exportPayoutBatch(req.user!._id as mongoose.Types.ObjectId, req.params.id);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(csv);
+}));
+
+// @route   POST /api/admin/payouts/:id/reconcile
+// @desc    Record the bank's result per item ({ items: [{ itemId, status: paid|failed, utr?, reason? }] })
+// @access  Private (Admin only)
+router.post('/:id/reconcile', authenticateToken, requireRole(['admin']), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  await reconcilePayoutBatch(req.user!._id as mongoose.Types.ObjectId, req.params.id, req.body.items);
+  const batch = await getPayoutBatch(req.params.id);
+  sendSuccessResponse(res, { batch }, 'Payout results recorded');
+}));
+
+export default router;
@@ -3,7 +3,7 @@ import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { asyncHandler, sendSuccessResponse, ValidationError } from '../middleware/errorHandler';
 import User from '../models/User';
 import Job from '../models/Job';
-import Application from '../models/Application';
+import Application, { APPLICATION_STATUSES } from '../models/Application';
 import EmployerKYC from '../models/EmployerKYC';
 
 const router = express.Router();
@@ -192,10 +192,7 @@ router.get('/comprehensive', authenticateToken, asyncHandler(async (req: AuthReq
       // Application statistics
       Promise.all([
         Application.countDocuments(),
-        Application.countDocuments({ status: 'pending' }),
-        Application.countDocuments({ status: 'accepted' }),
-        Application.countDocuments({ status: 'rejected' }),
-        Application.countDocuments({ status: 'withdrawn' })
+        ...APPLICATION_STATUSES.map(status => Application.countDocuments({ status }))
       ]),
       
       // Student KYC statistics
@@ -234,10 +231,10 @@ router.get('/comprehensive', authenticateToken, asyncHandler(async (req: AuthReq
       },
       applications: {
         total: applicationStats[0],
-        pending: applicationStats[1],
-        accepted: applicationStats[2],
-        rejected: applicationStats[3],
-        withdrawn: applicationStats[4]
+        ...APPLICATION_STATUSES.reduce((acc, status, index) => {
+          acc[status] = applicationStats[index + 1];
+          return acc;
+        }, {} as Record<string, number>)
       },
       studentKyc: {
         notSubmitted: kycStats[0],
@@ -9,9 +9,19 @@ import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth'
 import { asyncHandler, sendSuccessResponse, sendErrorResponse, ValidationError } from '../middleware/errorHandler';
 import { computeKycStatus } from '../utils/kycStatusHelper';
 import SocketManager from '../utils/socketManager';
+import { dispatchNotification, dispatchToUserType } from '../services/notificationDispatcher';
+import { notifyMatchingSavedSearches } from '../services/savedSearchService';
+import EmailNotificationService from '../services/emailNotificationService';
 
 const router = express.Router();
 
+// Email service injected from the main server; sockets come from global.socketManager
+let emailService: EmailNotificationService | undefined;
+
+export const setAdminServices = (email: EmailNotificationService) => {
+  emailService = email;
+};
+
 // @route   GET /api/admin/stats
 // @desc    Get admin dashboard statistics
 // @access  Private (Admin only)
@@ -215,6 +225,40 @@ router.patch('/jobs/:id/approve', authenticateToken, requireRole(['admin']), asy
     });
   }
 
+  // Notify students that opted in to new job alerts, and the employer
+  await dispatchToUserType('student', {
+    type: 'job_approved',
+    title: 'New Job Available',
+    message: `New job approved: ${job.jobTitle} at ${job.companyName}`,
+    payload: {
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      location: job.location
+    },
+    realtime: (studentIds) => socketManager?.notifyJobApproved({
+      id: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      location: job.location,
+      jobType: job.workType,
+      salary: job.salaryRange,
+      createdAt: job.createdAt
+    }, studentIds)
+  });
+
+  await dispatchNotification({
+    recipient: job.employerId,
+    recipientType: 'employer',
+    type: 'job_approved',
+    title: 'Job Approved',
+    message: `Your job "${job.jobTitle}" has been approved and is now live`,
+    payload: { jobId: job._id, jobTitle: job.jobTitle }
+  });
+
+  // Alert students whose saved searches this job matches
+  await notifyMatchingSavedSearches(job, { socketManager, emailService });
+
   sendSuccessResponse(res, { job }, 'Job approved successfully');
 }));
 
@@ -430,15 +474,23 @@ router.put('/kyc/:id/approve', authenticateToken, requireRole(['admin']), asyncH
     const updatedKYC = await KYC.findById(id).populate('userId', 'name email phone');
     const updatedUser = await User.findById(updatedKYC?.userId);
     
-    // Emit real-time update to user
+    // Notify user (in-app and real-time)
     const socketManager = (global as any).socketManager;
-    if (socketManager && updatedKYC) {
-      socketManager.emitKYCStatusUpdate(updatedKYC.userId.toString(), {
-        status: 'approved',
-        isVerified: true,
+    if (updatedKYC) {
+      await dispatchNotification({
+        recipient: (updatedKYC.userId as any)._id || updatedKYC.userId,
+        recipientType: updatedUser?.userType || 'student',
+        type: 'kyc_status_update',
+        title: 'KYC Approved',
         message: 'Your KYC has been approved! You can now explore and apply for jobs.',
-        action: 'approved',
-        reason: reason || 'Approved by admin'
+        payload: { kycId: updatedKYC._id, status: 'approved' },
+        realtime: () => socketManager?.emitKYCStatusUpdate(updatedKYC.userId.toString(), {
+          status: 'approved',
+          isVerified: true,
+          message: 'Your KYC has been approved! You can now explore and apply for jobs.',
+          action: 'approved',
+          reason: reason || 'Approved by admin'
+        })
       });
     }
     
@@ -539,16 +591,24 @@ router.put('/kyc/:id/reject', authenticateToken, requireRole(['admin']), asyncHa
     const updatedKYC = await KYC.findById(id).populate('userId', 'name email phone');
     const updatedUser = await User.findById(updatedKYC?.userId);
     
-    // Emit real-time update to user
+    // Notify user (in-app and real-time)
     const socketManager = (global as any).socketManager;
-    if (socketManager && updatedKYC) {
-      socketManager.emitKYCStatusUpdate(updatedKYC.userId.toString(), {
-        status: 'rejected',
-        isVerified: false,
+    if (updatedKYC) {
+      await dispatchNotification({
+        recipient: (updatedKYC.userId as any)._id || updatedKYC.userId,
+        recipientType: updatedUser?.userType || 'student',
+        type: 'kyc_status_update',
+        title: 'KYC Rejected',
         message: `Your KYC was rejected. Please re-submit with proper details. Reason: ${reason}`,
-        action: 'rejected',
-        reason: reason,
-        canResubmit: true
+        payload: { kycId: updatedKYC._id, status: 'rejected', reason, canResubmit: true },
+        realtime: () => socketManager?.emitKYCStatusUpdate(updatedKYC.userId.toString(), {
+          status: 'rejected',
+          isVerified: false,
+          message: `Your KYC was rejected. Please re-submit with proper details. Reason: ${reason}`,
+          action: 'rejected',
+          reason: reason,
+          canResubmit: true
+        })
       });
     }
     
@@ -1,6 +1,6 @@
 import express from 'express';
 import mongoose from 'mongoose';
-import Application from '../models/Application';
+import Application, { APPLICATION_STATUSES, APPLICATION_TRANSITIONS, OPEN_APPLICATION_STATUSES, ApplicationStatus, normalizeApplicationStatus, SCREENING_FAILED_TAG } from '../models/Application';
 import Job from '../models/Job';
 import User from '../models/User';
 import { authenticateToken, requireStudent, requireEmployer, AuthRequest } from '../middleware/auth';
@@ -8,6 +8,11 @@ import { authenticateToken, requireStudent, requireEmployer, AuthRequest } from
 import { asyncHandler, sendSuccessResponse, sendErrorResponse, ValidationError } from '../middleware/errorHandler';
 import SocketManager from '../utils/socketManager';
 import EmailNotificationService from '../services/emailNotificationService';
+import { dispatchNotification } from '../services/notificationDispatcher';
+import { evaluateScreeningAnswers } from '../services/screeningService';
+import { resolveResumeAttachment, getApplicationResumeLink } from '../services/resumeService';
+import { hireApplicant, HireResult } from '../services/jobPositionService';
+import { resolveShiftPicks } from '../services/shiftService';
 
 
 const router = express.Router();
@@ -25,14 +30,14 @@ export const setApplicationServices = (socket: SocketManager, email: EmailNotifi
 // @desc    Apply for a job
 // @access  Private (Students only)
 router.post('/', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { jobId, coverLetter, expectedPay, availability, resume } = req.body;
+  const { jobId, coverLetter, expectedPay, availability, resumeId, screeningAnswers, shiftIds } = req.body;
 
   if (!jobId) {
     throw new ValidationError('Job ID is required');
   }
 
   // Check if job exists and is active
-  const job = await Job.findById(new mongoose.Types.ObjectId(jobId));
+  const job = await Job.findById(new mongoose.Types.ObjectId(jobId)).select('+screeningQuestions.knockout');
   if (!job) {
     throw new ValidationError('Job not found');
   }
@@ -53,6 +58,9 @@ router.post('/', authenticateToken, requireStudent, asyncHandler(async (req: Aut
     throw new ValidationError('You have already applied for this job');
   }
 
+  const screening = evaluateScreeningAnswers(job.screeningQuestions, screeningAnswers);
+  const resume = await resolveResumeAttachment(req.user!._id.toString(), resumeId);
+  const pickedShiftIds = await resolveShiftPicks(job, req.user!._id, shiftIds);
 
   // Create application
   const application = await Application.create({
@@ -62,8 +70,12 @@ router.post('/', authenticateToken, requireStudent, asyncHandler(async (req: Aut
     student: req.user!._id, // Ensure student field is also set
     employer: job.employerId,
     coverLetter,
+    resume,
     expectedPay: expectedPay ? Number(expectedPay) : undefined,
-    availability: availability || req.user!.availability
+    availability: availability || req.user!.availability,
+    shiftIds: pickedShiftIds,
+    screeningAnswers: screening.answers,
+    tags: screening.failedKnockout ? [SCREENING_FAILED_TAG] : []
   });
 
 
@@ -77,9 +89,21 @@ router.post('/', authenticateToken, requireStudent, asyncHandler(async (req: Aut
   // Get student info for notifications
   const student = await User.findById(req.user!._id).select('name email phone');
 
-  // Real-time notification to employer
-  if (socketManager) {
-    socketManager.notifyNewApplication({
+  // Notify employer (in-app, real-time and email, per their preferences)
+  await dispatchNotification({
+    recipient: job.employerId,
+    recipientType: 'employer',
+    type: 'new_application',
+    title: 'New Application Received',
+    message: `New application received for "${job.jobTitle}"`,
+    payload: {
+      applicationId: application._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      studentId: req.user!._id,
+      studentName: student?.name || student?.email
+    },
+    realtime: () => socketManager?.notifyNewApplication({
       id: application._id,
       jobId: jobId,
       jobTitle: job.jobTitle,
@@ -90,37 +114,36 @@ router.post('/', authenticateToken, requireStudent, asyncHandler(async (req: Aut
       studentPhone: student?.phone,
       coverLetter: coverLetter,
       expectedPay: expectedPay,
-      status: 'pending',
+      status: application.status,
       appliedAt: application.createdAt
-    }, job.employerId.toString());
-  }
-
-  // Email notification to employer
-  if (emailService && student) {
-    await emailService.sendNewApplicationNotification(
-      job.employerId.toString(),
-      {
-        id: application._id,
-        jobId: jobId,
-        jobTitle: job.jobTitle,
-        companyName: job.companyName,
-        status: 'pending',
-        appliedAt: application.createdAt
-      },
-      {
-        name: student.name || student.email,
-        email: student.email,
-        phone: student.phone
-      },
-      {
-        id: job._id,
-        jobTitle: job.jobTitle,
-        companyName: job.companyName,
-        location: job.location,
-        jobType: job.workType
-      }
-    );
-  }
+    }, job.employerId.toString()),
+    email: async () => {
+      if (!emailService || !student) return false;
+      return emailService.sendNewApplicationNotification(
+        job.employerId.toString(),
+        {
+          id: application._id,
+          jobId: jobId,
+          jobTitle: job.jobTitle,
+          companyName: job.companyName,
+          status: application.status,
+          appliedAt: application.createdAt
+        },
+        {
+          name: student.name || student.email,
+          email: student.email,
+          phone: student.phone
+        },
+        {
+          id: job._id,
+          jobTitle: job.jobTitle,
+          companyName: job.companyName,
+          location: job.location,
+          jobType: job.workType
+        }
+      );
+    }
+  });
 
   console.log(`📝 New application submitted: ${student?.name || student?.email} for ${job.jobTitle} - Notifications sent`);
 
@@ -262,7 +285,7 @@ router.get('/:id', authenticateToken, asyncHandler(async (req: AuthRequest, res:
 }));
 
 // @route   PUT /api/applications/:id/status
-// @desc    Update application status (employer only)
+// @desc    Move an application along the hiring pipeline (employer only)
 // @access  Private (Job owner only)
 router.put('/:id/status', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { status, notes } = req.body;
@@ -270,6 +293,10 @@ router.put('/:id/status', authenticateToken, requireEmployer, asyncHandler(async
   if (!status) {
     throw new ValidationError('Status is required');
   }
+  // Withdrawing is the student's decision, see POST /:id/withdraw
+  if (!APPLICATION_STATUSES.includes(status) || status === 'withdrawn' || status === 'applied') {
+    throw new ValidationError(`Status must be one of: ${APPLICATION_STATUSES.filter(s => s !== 'applied' && s !== 'withdrawn').join(', ')}`);
+  }
 
   const application = await Application.findById(req.params.id);
   if (!application) {
@@ -282,8 +309,14 @@ router.put('/:id/status', authenticateToken, requireEmployer, asyncHandler(async
     throw new ValidationError('Access denied');
   }
 
-  // Update status
-  await application.updateStatus(status, notes);
+  // Update status (illegal transitions are rejected by the model). A hire takes one of
+  // the job's positions, and the last one closes the job.
+  let hire: HireResult | undefined;
+  if (status === 'hired') {
+    hire = await hireApplicant(application, { id: req.user!._id, type: 'employer' }, notes, { socketManager, emailService });
+  } else {
+    await application.updateStatus(status as ApplicationStatus, { id: req.user!._id, type: 'employer' }, notes);
+  }
 
   // Populate for response
   await application.populate([
@@ -294,9 +327,22 @@ router.put('/:id/status', authenticateToken, requireEmployer, asyncHandler(async
   // Get job details for notifications
   const jobDetails = await Job.findById(application.jobId).select('jobTitle companyName location workType');
 
-  // Real-time notification to student
-  if (socketManager) {
-    socketManager.notifyApplicationStatusUpdate({
+  // Notify student (in-app, real-time and email, per their preferences)
+  await dispatchNotification({
+    recipient: application.studentId,
+    recipientType: 'student',
+    type: 'application_status_update',
+    title: 'Application Status Updated',
+    message: `Your application for "${jobDetails?.jobTitle || 'a job'}" is now ${status}`,
+    payload: {
+      applicationId: application._id,
+      jobId: application.jobId,
+      jobTitle: jobDetails?.jobTitle,
+      companyName: jobDetails?.companyName,
+      status,
+      notes
+    },
+    realtime: () => socketManager?.notifyApplicationStatusUpdate({
       id: application._id,
       jobId: application.jobId,
       jobTitle: jobDetails?.jobTitle || 'Unknown Job',
@@ -305,33 +351,46 @@ router.put('/:id/status', authenticateToken, requireEmployer, asyncHandler(async
       status: status,
       notes: notes,
       updatedAt: new Date()
-    }, application.studentId.toString());
-  }
-
-  // Email notification to student
-  if (emailService && jobDetails) {
-    await emailService.sendApplicationStatusNotification(
-      application.studentId.toString(),
-      {
-        id: application._id,
-        jobId: application.jobId,
-        status: status,
-        notes: notes,
-        updatedAt: new Date()
-      },
-      {
-        id: jobDetails._id,
-        jobTitle: jobDetails.jobTitle,
-        companyName: jobDetails.companyName,
-        location: jobDetails.location,
-        jobType: jobDetails.workType
-      }
-    );
-  }
+    }, application.studentId.toString()),
+    email: async () => {
+      if (!emailService || !jobDetails) return false;
+      return emailService.sendApplicationStatusNotification(
+        application.studentId.toString(),
+        {
+          id: application._id,
+          jobId: application.jobId,
+          status: status,
+          notes: notes,
+          updatedAt: new Date()
+        },
+        {
+          id: jobDetails._id,
+          jobTitle: jobDetails.jobTitle,
+          companyName: jobDetails.companyName,
+          location: jobDetails.location,
+          jobType: jobDetails.workType
+        }
+      );
+    }
+  });
 
   console.log(`📋 Application status updated: ${status} for job ${jobDetails?.jobTitle} - Notifications sent to student`);
 
-  sendSuccessResponse(res, { application }, 'Application status updated successfully');
+  sendSuccessResponse(res, {
+    application,
+    ...(hire && {
+      job: {
+        id: hire.job._id,
+        status: hire.job.status,
+        positions: hire.job.positions,
+        filledPositions: hire.job.filledPositions,
+        positionsLeft: hire.job.positionsLeft,
+        autoRejected: hire.autoRejected
+      }
+    })
+  }, hire?.closed
+    ? `Applicant hired. All positions are filled, so the job is closed and ${hire.autoRejected} remaining applicant(s) were notified.`
+    : 'Application status updated successfully');
 }));
 
 // @route   POST /api/applications/:id/withdraw
@@ -348,17 +407,51 @@ router.post('/:id/withdraw', authenticateToken, requireStudent, asyncHandler(asy
     throw new ValidationError('Access denied');
   }
 
-  // Check if application can be withdrawn
-  if (['hired', 'rejected'].includes(application.status)) {
-    throw new ValidationError('Cannot withdraw application in current status');
+  // Only open applications can be withdrawn
+  if (!OPEN_APPLICATION_STATUSES.includes(normalizeApplicationStatus(application.status) as ApplicationStatus)) {
+    throw new ValidationError(`Cannot withdraw an application that is already ${application.status}`);
   }
 
-  // Update status to withdrawn
-  await application.updateStatus('withdrawn', 'Application withdrawn by student');
+  await application.updateStatus('withdrawn', { id: req.user!._id, type: 'student' }, 'Application withdrawn by student');
 
   sendSuccessResponse(res, { application }, 'Application withdrawn successfully');
 }));
 
+// @route   GET /api/applications/:id/history
+// @desc    Get the status history of an application and the stages it can move to next
+// @access  Private (Application owner or job owner)
+router.get('/:id/history', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const application = await Application.findById(req.params.id)
+    .select('jobId studentId status statusHistory')
+    .populate('statusHistory.actor', 'name userType');
+  if (!application) {
+    throw new ValidationError('Application not found');
+  }
+
+  const job = await Job.findById(application.jobId).select('employerId');
+  const userId = req.user!._id.toString();
+  if (application.studentId.toString() !== userId && job?.employerId.toString() !== userId) {
+    throw new ValidationError('Access denied');
+  }
+
+  const status = normalizeApplicationStatus(application.status) as ApplicationStatus;
+  sendSuccessResponse(res, {
+    status,
+    history: application.statusHistory,
+    nextStatuses: APPLICATION_TRANSITIONS[status] || []
+  }, 'Application history retrieved successfully');
+}));
+
+// @route   GET /api/applications/:id/resume
+// @desc    Get a short-lived download link for the resume attached to an application
+// @access  Private (Application owner or job owner)
+router.get('/:id/resume', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const link = await getApplicationResumeLink(req.params.id, req.user!._id.toString());
+
+  console.log(`📄 Resume link issued for application ${req.params.id} to user ${req.user!._id}`);
+  sendSuccessResponse(res, link, 'Download link created');
+}));
+
 // @route   POST /api/applications/:id/rate
 // @desc    Rate the other party after job completion
 // @access  Private (Application owner or job owner)
@@ -0,0 +1,96 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Job from '../models/Job';
+import { ATTENDANCE_GEOFENCE_METERS } from '../models/Attendance';
+import { authenticateToken, requireEmployer, requireStudent, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError, NotFoundError } from '../middleware/errorHandler';
+import {
+  checkIn,
+  checkOut,
+  recordAttendance,
+  overrideAttendance,
+  completeEngagement,
+  listStudentEngagements,
+  listJobAttendance
+} from '../services/attendanceService';
+
+const router = express.Router();
+
+// @route   GET /api/attendance/mine
+// @desc    The student's hired jobs with today's shifts and recent hours
+// @access  Private (Student only)
+router.get('/mine', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const engagements = await listStudentEngagements(req.user!._id as mongoose.Types.ObjectId);
+  sendSuccessResponse(res, { engagements, geofenceMeters: ATTENDANCE_GEOFENCE_METERS }, 'Attendance retrieved successfully');
+}));
+
+// @route   POST /api/attendance/check-in
+// @desc    Check in to a hired job from the device's location
+// @access  Private (Student only)
+router.post('/check-in', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { applicationId, latitude, longitude, shiftId } = req.body;
+  const entry = await checkIn(req.user!._id as mongoose.Types.ObjectId, applicationId, { latitude, longitude, shiftId });
+  sendSuccessResponse(res, { entry }, 'Checked in successfully', 201);
+}));
+
+// @route   POST /api/attendance/check-out
+// @desc    Check out of the open entry of a hired job from the device's location
+// @access  Private (Student only)
+router.post('/check-out', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { applicationId, latitude, longitude } = req.body;
+  const entry = await checkOut(req.user!._id as mongoose.Types.ObjectId, applicationId, { latitude, longitude });
+  sendSuccessResponse(res, { entry }, `Checked out after ${entry.hours} hours`);
+}));
+
+// @route   GET /api/attendance/jobs/:jobId
+// @desc    Hired students of a job with their attendance (?from=&to= as YYYY-MM-DD)
+// @access  Private (Employer only)
+router.get('/jobs/:jobId', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.jobId)) {
+    throw new ValidationError('Invalid job ID');
+  }
+  const job = await Job.findOne({ _id: req.params.jobId, employerId: req.user!._id }).select('jobTitle shifts');
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+
+  const attendance = await listJobAttendance(job, { from: req.query.from, to: req.query.to });
+  sendSuccessResponse(res, attendance, 'Attendance retrieved successfully');
+}));
+
+// @route   POST /api/attendance/applications/:applicationId
+// @desc    Record attendance for a hired student by hand, with a reason
+// @access  Private (Employer only)
+router.post('/applications/:applicationId', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { checkInAt, checkOutAt, shiftId, reason } = req.body;
+  const entry = await recordAttendance(req.user!._id as mongoose.Types.ObjectId, req.params.applicationId, {
+    checkInAt,
+    checkOutAt,
+    shiftId,
+    reason
+  });
+  sendSuccessResponse(res, { entry }, 'Attendance recorded successfully', 201);
+}));
+
+// @route   POST /api/attendance/applications/:applicationId/complete
+// @desc    Mark a hired student's work on the job as completed
+// @access  Private (Employer only)
+router.post('/applications/:applicationId/complete', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { application, completedJobs } = await completeEngagement(req.user!._id as mongoose.Types.ObjectId, req.params.applicationId);
+  sendSuccessResponse(res, { application, completedJobs }, 'Engagement marked as completed');
+}));
+
+// @route   PATCH /api/attendance/:id
+// @desc    Correct the check-in or check-out time of an entry, with a reason
+// @access  Private (Employer only)
+router.patch('/:id', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { checkInAt, checkOutAt, reason } = req.body;
+  const entry = await overrideAttendance(req.user!._id as mongoose.Types.ObjectId, req.params.id, {
+    checkInAt,
+    checkOutAt,
+    reason
+  });
+  sendSuccessResponse(res, { entry }, 'Attendance updated successfully');
+}));
+
+export default router;
@@ -0,0 +1,75 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Bookmark, { MAX_BOOKMARKS } from '../models/Bookmark';
+import Job from '../models/Job';
+import { authenticateToken, requireStudent, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError, NotFoundError } from '../middleware/errorHandler';
+import { listBookmarks, getBookmarkJobState } from '../services/bookmarkService';
+
+const router = express.Router();
+
+const parseJobId = (jobId: string): string => {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) {
+    throw new ValidationError('Invalid job ID');
+  }
+  return jobId;
+};
+
+// @route   GET /api/bookmarks
+// @desc    List the current student's bookmarked jobs with their state (open, paused, closed, expired, removed)
+// @access  Private (Student only)
+router.get('/', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const bookmarks = await listBookmarks(req.user!._id as mongoose.Types.ObjectId);
+
+  sendSuccessResponse(res, { bookmarks }, 'Bookmarks retrieved successfully');
+}));
+
+// @route   POST /api/bookmarks/:jobId
+// @desc    Bookmark a job; bookmarking it again is a no-op
+// @access  Private (Student only)
+router.post('/:jobId', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const jobId = parseJobId(req.params.jobId);
+  const studentId = req.user!._id as mongoose.Types.ObjectId;
+
+  const existing = await Bookmark.findOne({ studentId, jobId });
+  if (existing) {
+    return sendSuccessResponse(res, { bookmark: existing }, 'Job already bookmarked');
+  }
+
+  const job = await Job.findById(jobId).select('jobTitle companyName location status approvalStatus applicationDeadline');
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+  if (getBookmarkJobState(job) !== 'open') {
+    throw new ValidationError('This job is no longer taking applications');
+  }
+
+  const count = await Bookmark.countDocuments({ studentId });
+  if (count >= MAX_BOOKMARKS) {
+    throw new ValidationError(`You can bookmark up to ${MAX_BOOKMARKS} jobs. Remove some to save more.`);
+  }
+
+  const bookmark = await Bookmark.create({
+    studentId,
+    jobId,
+    jobSnapshot: { jobTitle: job.jobTitle, companyName: job.companyName, location: job.location }
+  });
+
+  sendSuccessResponse(res, { bookmark }, 'Job bookmarked successfully', 201);
+}));
+
+// @route   DELETE /api/bookmarks/:jobId
+// @desc    Remove a bookmark
+// @access  Private (Student only)
+router.delete('/:jobId', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const jobId = parseJobId(req.params.jobId);
+
+  const result = await Bookmark.deleteOne({ studentId: req.user!._id, jobId });
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('Bookmark not found');
+  }
+
+  sendSuccessResponse(res, null, 'Bookmark removed successfully');
+}));
+
+export default router;
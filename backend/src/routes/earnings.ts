@@ -0,0 +1,29 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import KYC from '../models/KYC';
+import { authenticateToken, requireStudent, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse } from '../middleware/errorHandler';
+import { getStudentLedger } from '../services/ledgerService';
+import { listStudentPayouts } from '../services/payoutService';
+
+const router = express.Router();
+
+// @route   GET /api/earnings/mine
+// @desc    The student's earnings balance, ledger entries and bank payouts
+// @access  Private (Student only)
+router.get('/mine', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const studentId = req.user!._id as mongoose.Types.ObjectId;
+  const [ledger, payouts, kyc] = await Promise.all([
+    getStudentLedger(studentId),
+    listStudentPayouts(studentId),
+    KYC.findOne({ userId: studentId, isActive: true }).select('payroll').lean()
+  ]);
+
+  sendSuccessResponse(res, {
+    ...ledger,
+    payouts,
+    payrollReady: !!(kyc?.payroll?.consent && kyc.payroll.bankAccount && kyc.payroll.ifsc)
+  }, 'Earnings retrieved successfully');
+}));
+
+export default router;
@@ -1,34 +1,115 @@
 import express from 'express';
 import mongoose from 'mongoose';
+import multer from 'multer';
 import { Job } from '../models/Job';
 import { User } from '../models/User';
-import { Application } from '../models/Application';
+import { Application, SCREENING_FAILED_TAG } from '../models/Application';
+import { JobInvite } from '../models/JobInvite';
 import { authenticateToken, requireRole, AuthRequest, requireEmployer, requireStudent } from '../middleware/auth';
-import { asyncHandler, sendSuccessResponse, sendErrorResponse, ValidationError } from '../middleware/errorHandler';
+import { asyncHandler, sendSuccessResponse, sendErrorResponse, ValidationError, NotFoundError, DuplicateKeyError } from '../middleware/errorHandler';
+import { dispatchNotification } from '../services/notificationDispatcher';
+import { parseScreeningQuestions, evaluateScreeningAnswers, buildScreeningFilter } from '../services/screeningService';
+import { resolveResumeAttachment } from '../services/resumeService';
+import { resolveJobPoint } from '../services/jobLocationService';
+import { parseSalaryInput, parseSalaryText } from '../utils/salary';
+import { parseCandidateFilters, searchCandidatesForJob } from '../services/candidateSearchService';
+import {
+  parsePublishAt,
+  publishJob,
+  extendJobDeadline,
+  DEFAULT_EXTENSION_DAYS
+} from '../services/jobLifecycleService';
+import EmailNotificationService from '../services/emailNotificationService';
+import { verifyDeadlineExtensionToken } from '../utils/deadlineExtensionToken';
+import { duplicateJob } from '../services/jobTemplateService';
+import { importJobs, employerJobInfo } from '../services/jobImportService';
+import { readSpreadsheet } from '../utils/spreadsheet';
+import { recommendJobsForStudent, DEFAULT_RECOMMENDATION_LIMIT, MAX_RECOMMENDATION_LIMIT } from '../services/recommendationService';
+import { parsePositions } from '../services/jobPositionService';
+import { parseShifts, resolveShiftPicks, buildRoster, setAssignedShifts } from '../services/shiftService';
+import { escapeHtml } from '../utils/html';
 
 const router = express.Router();
 
+// Email service injected from the main server; sockets come from global.socketManager
+let emailService: EmailNotificationService | undefined;
+
+export const setEnhancedJobServices = (email: EmailNotificationService) => {
+  emailService = email;
+};
+
+const getLifecycleServices = () => ({ socketManager: (global as any).socketManager, emailService });
+
+// Job sheets stay in memory; the type is read from the content in readSpreadsheet
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024,
+    files: 1
+  }
+});
+
+// Loads one of the current employer's jobs
+const findOwnJob = async (jobId: string, employerId: string, select?: string) => {
+  if (!mongoose.isValidObjectId(jobId)) {
+    throw new ValidationError('Invalid job ID');
+  }
+  const job = select ? await Job.findById(jobId).select(select) : await Job.findById(jobId);
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+  if (job.employerId.toString() !== employerId) {
+    throw new ValidationError('Access denied');
+  }
+  return job;
+};
+
 // @route   POST /api/enhanced-jobs
-// @desc    Employer posts a job (essential fields only)
+// @desc    Employer posts a job (essential fields only); `status: 'draft'` or a `publishAt` time keeps it unpublished
 // @access  Private (Employers only)
 router.post('/', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const {
     jobTitle,
     description,
     location,
+    latitude,
+    longitude,
     salaryRange,
+    salary,
     workType,
+    category,
     skillsRequired,
-    applicationDeadline
+    applicationDeadline,
+    screeningQuestions,
+    positions,
+    shifts,
+    status,
+    publishAt
   } = req.body;
 
   // Validate required fields
-  if (!jobTitle || !description || !location || !salaryRange || !workType || !applicationDeadline) {
-    console.log('❌ Missing required fields:', { jobTitle, description, location, salaryRange, workType, applicationDeadline });
+  if (!jobTitle || !description || !location || !(salary || salaryRange) || !workType || !applicationDeadline) {
+    console.log('❌ Missing required fields:', { jobTitle, description, location, salary, salaryRange, workType, applicationDeadline });
     console.log('📦 Full request body:', req.body);
-    throw new ValidationError('Missing required fields: jobTitle, description, location, salaryRange, workType, applicationDeadline');
+    throw new ValidationError('Missing required fields: jobTitle, description, location, salary, workType, applicationDeadline');
   }
 
+  if (status !== undefined && status !== 'draft' && status !== 'active') {
+    throw new ValidationError("status must be 'draft' or 'active'");
+  }
+  const deadline = new Date(applicationDeadline);
+  // A scheduled job is a draft until its publish time
+  const scheduledAt = parsePublishAt(publishAt, deadline);
+  const isDraft = status === 'draft' || Boolean(scheduledAt);
+
+  const parsedQuestions = parseScreeningQuestions(screeningQuestions);
+  const parsedPositions = parsePositions(positions);
+  const parsedShifts = parseShifts(shifts);
+  // Structured salary wins and generates the display string; older clients still send
+  // free text, which is kept as typed and parsed best-effort for filtering
+  const structuredSalary = parseSalaryInput(salary);
+  const parsedSalary = structuredSalary || parseSalaryText(salaryRange) || undefined;
+
   // Get employer data for auto-fill (already available in req.user from auth middleware)
   const employer = req.user;
   console.log('🔍 Employer data from auth middleware:', {
@@ -56,21 +137,23 @@ router.post('/', authenticateToken, requireEmployer, asyncHandler(async (req: Au
     jobTitle,
     description,
     location,
-    salaryRange,
+    locationPoint: await resolveJobPoint(req.user!._id, latitude, longitude),
+    salaryRange: structuredSalary ? undefined : salaryRange,
+    salary: parsedSalary,
     workType,
+    category: category || undefined,
     skillsRequired: skillsRequired || [],
-    applicationDeadline: new Date(applicationDeadline),
+    applicationDeadline: deadline,
+    screeningQuestions: parsedQuestions,
+    positions: parsedPositions,
+    shifts: parsedShifts,
     
     // Auto-filled employer info
-    companyName: employer.companyName || employer.name || 'Company Name',
-    email: employer.email || '',
-    phone: employer.phone || '',
-    companyLogo: employer.companyLogo || '',
-    businessType: employer.businessType || '',
-    employerName: employer.name || '',
+    ...employerJobInfo(employer),
     
     // System fields
-    status: 'active',
+    status: isDraft ? 'draft' : 'active',
+    publishAt: scheduledAt,
 
     highlighted: true, // Jobs stay highlighted until assigned
 
@@ -89,7 +172,8 @@ router.post('/', authenticateToken, requireEmployer, asyncHandler(async (req: Au
     approvalStatus: job.approvalStatus
   });
 
-  sendSuccessResponse(res, { job }, 'Job posted successfully', 201);
+  const message = scheduledAt ? 'Job scheduled successfully' : isDraft ? 'Draft saved successfully' : 'Job posted successfully';
+  sendSuccessResponse(res, { job }, message, 201);
 }));
 
 // @route   PATCH /api/enhanced-jobs/:id/status
@@ -116,12 +200,136 @@ router.patch('/:id/status', authenticateToken, requireEmployer, asyncHandler(asy
     throw new ValidationError('Access denied');
   }
 
+  // Activating a draft publishes it
+  if (job.status === 'draft') {
+    if (status !== 'active') {
+      throw new ValidationError('Publish the draft before changing its status');
+    }
+    await publishJob(job, getLifecycleServices());
+    return sendSuccessResponse(res, { job }, 'Job published successfully');
+  }
+
+  // A job that hired everyone it needed closed itself; it needs more positions first
+  if (status === 'active' && job.positionsLeft === 0) {
+    throw new ValidationError('All positions for this job are filled. Add positions before reopening it.');
+  }
+
   job.status = status as typeof job.status;
   await job.save();
 
   sendSuccessResponse(res, { job }, 'Job status updated successfully');
 }));
 
+// @route   POST /api/enhanced-jobs/import
+// @desc    Post many jobs from a CSV or XLSX sheet (field `file`). `dryRun=true` only checks
+//          the rows; `status=draft` imports them unpublished. Returns a per-row error report.
+// @access  Private (Employers only)
+router.post('/import', authenticateToken, requireEmployer, importUpload.single('file'), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  if (!req.file) {
+    throw new ValidationError('No file uploaded');
+  }
+  const { dryRun, status } = req.body || {};
+  if (status !== undefined && status !== 'draft' && status !== 'active') {
+    throw new ValidationError("status must be 'draft' or 'active'");
+  }
+
+  const result = await importJobs(req.user!, readSpreadsheet(req.file.buffer), {
+    dryRun: dryRun === true || dryRun === 'true',
+    status: status === 'draft' ? 'draft' : 'active'
+  });
+
+  const message = result.dryRun
+    ? `${result.validRows} of ${result.totalRows} row(s) are ready to import`
+    : `${result.created.length} job(s) imported, ${result.invalidRows} row(s) rejected`;
+  sendSuccessResponse(res, result, message, result.created.length > 0 ? 201 : 200);
+}));
+
+// @route   POST /api/enhanced-jobs/:id/duplicate
+// @desc    Post a closed or expired job again ({ applicationDeadline, status?, publishAt? })
+// @access  Private (Employers only)
+router.post('/:id/duplicate', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  // Knockout rules are hidden by default but belong to the copy
+  const source = await findOwnJob(req.params.id, req.user!._id.toString(), '+screeningQuestions.knockout');
+  const job = await duplicateJob(source, req.body || {});
+
+  sendSuccessResponse(res, { job }, job.status === 'draft' ? 'Job duplicated as a draft' : 'Job duplicated and posted', 201);
+}));
+
+// @route   PATCH /api/enhanced-jobs/:id/schedule
+// @desc    Set or clear (publishAt: null) the publishing time of a draft
+// @access  Private (Employers only)
+router.patch('/:id/schedule', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const job = await findOwnJob(req.params.id, req.user!._id.toString());
+  if (job.status !== 'draft') {
+    throw new ValidationError('Only drafts can be scheduled');
+  }
+
+  job.publishAt = parsePublishAt(req.body?.publishAt, job.applicationDeadline);
+  await job.save();
+
+  sendSuccessResponse(res, { job }, job.publishAt ? 'Job scheduled successfully' : 'Schedule cleared');
+}));
+
+// @route   POST /api/enhanced-jobs/:id/extend-deadline
+// @desc    Push the application deadline back (default 7 days); reopens an expired job
+// @access  Private (Employers only)
+router.post('/:id/extend-deadline', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const job = await findOwnJob(req.params.id, req.user!._id.toString());
+  const days = req.body?.days === undefined ? DEFAULT_EXTENSION_DAYS : Number(req.body.days);
+
+  await extendJobDeadline(job, days);
+
+  sendSuccessResponse(res, { job }, 'Application deadline extended successfully');
+}));
+
+// Employer-entered text shown on the confirmation page
+// One-click extension from the expiry email: the signed token names the job and the
+// deadline that passed, so the link only works until the deadline has been moved
+const handleDeadlineExtension = asyncHandler(async (req: express.Request, res: express.Response) => {
+  const payload = verifyDeadlineExtensionToken(req.params.token);
+  if (!payload) {
+    throw new ValidationError('Invalid or expired extension link');
+  }
+
+  const job = await Job.findById(payload.jobId);
+  if (!job || job.employerId.toString() !== payload.employerId) {
+    throw new NotFoundError('Job not found');
+  }
+
+  const alreadyExtended = job.applicationDeadline.getTime() !== payload.deadline;
+  if (!alreadyExtended) {
+    await extendJobDeadline(job);
+  }
+
+  if (req.method === 'POST') {
+    sendSuccessResponse(res, { job }, alreadyExtended ? 'Deadline was already extended' : 'Application deadline extended successfully');
+    return;
+  }
+
+  const deadline = job.applicationDeadline.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Kolkata' });
+  res.status(200).send(`
+    <!DOCTYPE html>
+    <html>
+    <head><meta charset="utf-8"><title>Deadline extended</title></head>
+    <body style="font-family: Arial, sans-serif; text-align: center; padding: 40px; color: #333;">
+      <h2>${alreadyExtended ? 'This job was already extended' : 'Deadline extended'}</h2>
+      <p>"${escapeHtml(job.jobTitle)}" now takes applications until ${deadline}.</p>
+      <p><a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/employer">Go to your dashboard</a></p>
+    </body>
+    </html>
+  `);
+});
+
+// @route   GET /api/enhanced-jobs/extend-deadline/:token
+// @desc    Extend an expired job by 7 days via the signed link in the expiry email
+// @access  Public (signed token)
+router.get('/extend-deadline/:token', handleDeadlineExtension);
+
+// @route   POST /api/enhanced-jobs/extend-deadline/:token
+// @desc    Same as above, for clients that post
+// @access  Public (signed token)
+router.post('/extend-deadline/:token', handleDeadlineExtension);
+
 // @route   GET /api/enhanced-jobs/student-dashboard
 // @desc    Get jobs for student dashboard with highlighted jobs
 // @access  Private (Students only)
@@ -160,12 +368,26 @@ router.get('/student-dashboard', authenticateToken, requireStudent, asyncHandler
   }
 }));
 
+// @route   GET /api/enhanced-jobs/recommended
+// @desc    "Recommended for you": open jobs scored for the student, each with the reasons it matched
+// @access  Private (Students only)
+router.get('/recommended', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const limit = req.query.limit === undefined ? DEFAULT_RECOMMENDATION_LIMIT : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RECOMMENDATION_LIMIT) {
+    throw new ValidationError(`limit must be a whole number from 1 to ${MAX_RECOMMENDATION_LIMIT}`);
+  }
+
+  const jobs = await recommendJobsForStudent(req.user!, limit);
+
+  sendSuccessResponse(res, { jobs }, 'Recommendations retrieved successfully');
+}));
+
 // @route   POST /api/enhanced-jobs/:jobId/apply
 // @desc    Student applies for a job
 // @access  Private (Students only)
 router.post('/:jobId/apply', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { jobId } = req.params;
-  const { coverLetter, resume, expectedPay, availability } = req.body || {};
+  const { coverLetter, resumeId, expectedPay, availability, screeningAnswers, shiftIds } = req.body || {};
 
   try {
     console.log(`[apply] jobId param=`, jobId, ' studentId=', req.user?._id, ' payload=', req.body);
@@ -177,7 +399,7 @@ router.post('/:jobId/apply', authenticateToken, requireStudent, asyncHandler(asy
     }
 
     // Check if job exists and is active
-    const job = await Job.findById(new mongoose.Types.ObjectId(jobId));
+    const job = await Job.findById(new mongoose.Types.ObjectId(jobId)).select('+screeningQuestions.knockout');
     if (!job) {
       return sendErrorResponse(res, 404, 'Job not found');
     }
@@ -218,6 +440,17 @@ router.post('/:jobId/apply', authenticateToken, requireStudent, asyncHandler(asy
       normalizeAvailability((req.user as any)?.availability) ||
       'flexible';
 
+    let screening;
+    let resume;
+    let pickedShiftIds;
+    try {
+      screening = evaluateScreeningAnswers(job.screeningQuestions, screeningAnswers);
+      resume = await resolveResumeAttachment(req.user!._id.toString(), resumeId);
+      pickedShiftIds = await resolveShiftPicks(job, req.user!._id, shiftIds);
+    } catch (validationErr: any) {
+      return sendErrorResponse(res, validationErr.statusCode || 400, validationErr.message);
+    }
+
     // Create application
     let application;
     try {
@@ -232,9 +465,12 @@ router.post('/:jobId/apply', authenticateToken, requireStudent, asyncHandler(asy
         status: 'applied',
         appliedAt: new Date(),
         coverLetter: coverLetter || undefined,
-        resume: resume || undefined,
+        resume,
         expectedPay: expectedPay ? Number(expectedPay) : undefined,
-        availability: sanitizedAvailability
+        availability: sanitizedAvailability,
+        shiftIds: pickedShiftIds,
+        screeningAnswers: screening.answers,
+        tags: screening.failedKnockout ? [SCREENING_FAILED_TAG] : []
       });
     } catch (createErr: any) {
       console.error('❌ Application.create failed:', createErr);
@@ -247,44 +483,38 @@ router.post('/:jobId/apply', authenticateToken, requireStudent, asyncHandler(asy
       throw createErr;
     }
 
-    // Emit real-time notification to employer about new application
-    try {
-      const socketManager = (global as any).socketManager;
-      if (socketManager && job.employerId) {
-        socketManager.emitNewApplication(job.employerId.toString(), {
-          applicationId: application._id,
-          studentId: req.user!._id,
-          studentName: (req as any).user?.name || 'Student',
-          jobId: jobId,
-          jobTitle: job.jobTitle,
-          company: job.companyName,
-          status: 'applied',
-          appliedAt: new Date()
-        });
-      }
-    } catch (emitErr) {
-      console.error('Failed to emit socket event:', emitErr);
-    }
-
-    // Trigger employer notification (best-effort)
-    try {
-      if (typeof fetch !== 'undefined') {
-        await fetch('http://localhost:5000/api/notifications/application-submitted', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${req.headers.authorization?.replace('Bearer ', '')}`
-          },
-          body: JSON.stringify({
-            jobId,
-            studentId: req.user!._id,
-            employerId: job.employerId
-          })
-        });
-      }
-    } catch (notifyErr) {
-      console.error('Failed to send notification:', notifyErr);
-    }
+    // An invited student applying closes the loop on the invite
+    await JobInvite.updateOne(
+      { jobId: job._id, studentId: req.user!._id, status: 'sent' },
+      { $set: { status: 'applied', appliedAt: new Date() } }
+    );
+
+    // Notify employer about the new application (per their preferences)
+    const socketManager = (global as any).socketManager;
+    await dispatchNotification({
+      recipient: job.employerId,
+      recipientType: 'employer',
+      type: 'new_application',
+      title: 'New Application Received',
+      message: `New application received for "${job.jobTitle}"`,
+      payload: {
+        applicationId: application._id,
+        jobId: job._id,
+        jobTitle: job.jobTitle,
+        studentId: req.user!._id,
+        studentName: (req as any).user?.name || 'Student'
+      },
+      realtime: () => socketManager?.emitNewApplication(job.employerId.toString(), {
+        applicationId: application._id,
+        studentId: req.user!._id,
+        studentName: (req as any).user?.name || 'Student',
+        jobId: jobId,
+        jobTitle: job.jobTitle,
+        company: job.companyName,
+        status: 'applied',
+        appliedAt: new Date()
+      })
+    });
 
     // Populate job and employer info
     await application.populate('jobId', 'jobTitle companyName location salaryRange');
@@ -310,6 +540,7 @@ router.get('/employer-dashboard', authenticateToken, requireEmployer, asyncHandl
     const pageSize = Number(limit);
 
     const jobs = await Job.find({ employerId })
+      .select('+screeningQuestions.knockout')
       .sort({ createdAt: -1 })
       .skip((currentPage - 1) * pageSize)
       .limit(pageSize)
@@ -334,10 +565,12 @@ router.get('/employer-dashboard', authenticateToken, requireEmployer, asyncHandl
         email: (app.studentId as any)?.email || 'N/A',
         skills: (app.studentId as any)?.skills || [],
         availability: (app.studentId as any)?.availability,
-        resumeUrl: app.resume || '',
+        resume: app.resume ? { fileName: app.resume.fileName, fileType: app.resume.fileType, size: app.resume.size } : null,
         coverLetter: app.coverLetter || '',
         appliedAt: app.appliedAt,
-        status: app.status
+        status: app.status,
+        screeningAnswers: app.screeningAnswers || [],
+        tags: app.tags || []
       });
     }
 
@@ -354,12 +587,18 @@ router.get('/employer-dashboard', authenticateToken, requireEmployer, asyncHandl
         location: job.location || '',
         status: job.status,
         approvalStatus: job.approvalStatus || job.status || 'pending',
+        applicationDeadline: job.applicationDeadline,
+        publishAt: job.publishAt,
+        positions: job.positions ?? 1,
+        filledPositions: job.filledPositions ?? 0,
+        shiftsCount: (job.shifts || []).length,
         salaryRange: job.salaryRange || '',
         workType: job.workType || (job as any).type || '',
         skillsRequired: Array.isArray(job.skillsRequired) ? job.skillsRequired : [],
         requirements: Array.isArray(job.skillsRequired) ? job.skillsRequired : (Array.isArray((job as any).requirements) ? (job as any).requirements : []),
         createdAt: job.createdAt || (job as any).updatedAt || new Date(),
         highlighted: job.highlighted,
+        screeningQuestions: job.screeningQuestions || [],
         applicants,
         applicationsCount: applicants.length
       };
@@ -396,26 +635,34 @@ router.patch('/applications/:applicationId/approve', authenticateToken, requireE
     throw new ValidationError('Access denied');
   }
 
-  // Update application status
-  await application.updateStatus('accepted', 'Application approved by employer');
-
-  // Trigger student notification
-  try {
-    await fetch('http://localhost:5000/api/notifications/application-approved', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${req.headers.authorization?.replace('Bearer ', '')}`
-      },
-      body: JSON.stringify({
-        applicationId,
-        studentId: application.studentId,
-        jobTitle: job.jobTitle
-      })
-    });
-  } catch (error) {
-    console.error('Failed to send notification:', error);
-  }
+  // Approving moves the applicant to the shortlist
+  await application.updateStatus('shortlisted', { id: req.user!._id, type: 'employer' }, 'Application approved by employer');
+
+  // Notify student (per their preferences)
+  const socketManager = (global as any).socketManager;
+  await dispatchNotification({
+    recipient: application.studentId,
+    recipientType: 'student',
+    type: 'application_status_update',
+    title: 'Application Approved!',
+    message: `Your profile has been shortlisted for the job: ${job.jobTitle}. Wait for employer contact.`,
+    payload: {
+      applicationId: application._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      status: 'shortlisted'
+    },
+    realtime: () => socketManager?.notifyApplicationStatusUpdate({
+      id: application._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      studentId: application.studentId,
+      status: 'shortlisted',
+      updatedAt: new Date()
+    }, application.studentId.toString())
+  });
 
   sendSuccessResponse(res, { application }, 'Application approved successfully');
 }));
@@ -438,25 +685,33 @@ router.patch('/applications/:applicationId/reject', authenticateToken, requireEm
   }
 
   // Update application status
-  await application.updateStatus('rejected', 'Application rejected by employer');
-
-  // Trigger student notification
-  try {
-    await fetch('http://localhost:5000/api/notifications/application-rejected', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${req.headers.authorization?.replace('Bearer ', '')}`
-      },
-      body: JSON.stringify({
-        applicationId,
-        studentId: application.studentId,
-        jobTitle: job.jobTitle
-      })
-    });
-  } catch (error) {
-    console.error('Failed to send notification:', error);
-  }
+  await application.updateStatus('rejected', { id: req.user!._id, type: 'employer' }, 'Application rejected by employer');
+
+  // Notify student (per their preferences)
+  const socketManager = (global as any).socketManager;
+  await dispatchNotification({
+    recipient: application.studentId,
+    recipientType: 'student',
+    type: 'application_status_update',
+    title: 'Application Rejected',
+    message: `Your application was rejected for the job: ${job.jobTitle}. Please review details and apply for other jobs.`,
+    payload: {
+      applicationId: application._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      status: 'rejected'
+    },
+    realtime: () => socketManager?.notifyApplicationStatusUpdate({
+      id: application._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      studentId: application.studentId,
+      status: 'rejected',
+      updatedAt: new Date()
+    }, application.studentId.toString())
+  });
 
   sendSuccessResponse(res, { application }, 'Application rejected successfully');
 }));
@@ -496,13 +751,15 @@ router.get('/applications/student', authenticateToken, requireStudent, asyncHand
 // @access  Private (Employers only)
 router.get('/applications/employer', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
   const { page = 1, limit = 10, status } = req.query;
+  // Filter by screening outcome (?screening=passed|failed) or by answer (?answer[<questionId>]=yes)
+  const screeningFilter = buildScreeningFilter(req.query);
 
   try {
     // Get all jobs by this employer
     const employerJobs = await Job.find({ employerId: req.user!._id }).select('_id');
     const jobIds = employerJobs.map(job => job._id);
 
-    const query: any = { jobId: { $in: jobIds } };
+    const query: any = { ...screeningFilter, jobId: { $in: jobIds } };
     if (status) {
       query.status = status;
     }
@@ -521,13 +778,15 @@ router.get('/applications/employer', authenticateToken, requireEmployer, asyncHa
       _id: app._id,
       status: app.status,
       appliedAt: app.appliedAt,
+      screeningAnswers: app.screeningAnswers || [],
+      tags: app.tags || [],
       job: app.jobId,
       student: app.studentId ? {
         _id: (app.studentId as any)._id,
         name: (app.studentId as any).name,
         email: (app.studentId as any).email,
         skills: (app.studentId as any).skills || [],
-        resume: (app as any).resume || ''
+        resume: app.resume ? { fileName: app.resume.fileName, fileType: app.resume.fileType, size: app.resume.size } : null
       } : null
     }));
 
@@ -545,6 +804,114 @@ router.get('/applications/employer', authenticateToken, requireEmployer, asyncHa
   }
 }));
 
+// @route   GET /api/enhanced-jobs/:jobId/candidates
+// @desc    Students ranked for a job (skills, KYC, availability, rating, completed jobs), with filters
+// @access  Private (Job owner only)
+router.get('/:jobId/candidates', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const job = await findOwnJob(req.params.jobId, req.user!._id.toString());
+  const filters = parseCandidateFilters(req.query as Record<string, unknown>);
+
+  const result = await searchCandidatesForJob(job, filters);
+
+  sendSuccessResponse(res, result, 'Candidates retrieved successfully');
+}));
+
+// @route   GET /api/enhanced-jobs/:jobId/roster
+// @desc    The job's shifts with the hired students on each, open applicants who picked them and hires on no shift
+// @access  Private (Job owner only)
+router.get('/:jobId/roster', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const job = await findOwnJob(req.params.jobId, req.user!._id.toString());
+
+  const roster = await buildRoster(job);
+
+  sendSuccessResponse(res, roster, 'Roster retrieved successfully');
+}));
+
+// @route   PUT /api/enhanced-jobs/:jobId/roster/:applicationId
+// @desc    Set the shifts a hired student works (`shiftIds`); shift headcounts apply
+// @access  Private (Job owner only)
+router.put('/:jobId/roster/:applicationId', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const job = await findOwnJob(req.params.jobId, req.user!._id.toString());
+  if (!mongoose.isValidObjectId(req.params.applicationId)) {
+    throw new ValidationError('Invalid application ID');
+  }
+  const application = await Application.findOne({ _id: req.params.applicationId, jobId: job._id });
+  if (!application) {
+    throw new NotFoundError('Application not found');
+  }
+
+  await setAssignedShifts(application, job, req.body?.shiftIds);
+
+  sendSuccessResponse(res, { application: { id: application._id, assignedShiftIds: application.assignedShiftIds } }, 'Roster updated successfully');
+}));
+
+// @route   POST /api/enhanced-jobs/:jobId/candidates/:studentId/invite
+// @desc    Invite a student to apply for a job; the student is notified
+// @access  Private (Job owner only)
+router.post('/:jobId/candidates/:studentId/invite', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { studentId } = req.params;
+  const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+
+  const job = await findOwnJob(req.params.jobId, req.user!._id.toString());
+  if (job.status !== 'active' || job.approvalStatus !== 'approved') {
+    throw new ValidationError('Only active, approved jobs can be shared with candidates');
+  }
+  if (job.applicationDeadline && job.applicationDeadline < new Date()) {
+    throw new ValidationError('The application deadline for this job has passed');
+  }
+  if (message.length > 500) {
+    throw new ValidationError('Invite message cannot exceed 500 characters');
+  }
+
+  if (!mongoose.isValidObjectId(studentId)) {
+    throw new ValidationError('Invalid student ID');
+  }
+  const student = await User.findOne({ _id: studentId, userType: 'student', isActive: true }).select('name');
+  if (!student) {
+    throw new NotFoundError('Student not found');
+  }
+
+  if (await Application.exists({ jobId: job._id, studentId: student._id })) {
+    throw new ValidationError(`${student.name} has already applied for this job`);
+  }
+  if (await JobInvite.exists({ jobId: job._id, studentId: student._id })) {
+    throw new DuplicateKeyError(`${student.name} has already been invited to this job`);
+  }
+
+  const invite = await JobInvite.create({
+    jobId: job._id,
+    employerId: job.employerId,
+    studentId: student._id,
+    message: message || undefined
+  });
+
+  const socketManager = (global as any).socketManager;
+  await dispatchNotification({
+    recipient: student._id as mongoose.Types.ObjectId,
+    recipientType: 'student',
+    type: 'job_invite',
+    title: 'You Are Invited To Apply',
+    message: `${job.companyName} invited you to apply for "${job.jobTitle}"`,
+    payload: {
+      inviteId: invite._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      inviteMessage: invite.message
+    },
+    realtime: () => socketManager?.notifyJobInvite({
+      id: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      location: job.location
+    }, String(student._id), invite.message)
+  });
+
+  console.log(`✉️ Employer ${req.user!._id} invited student ${student._id} to job ${job._id}`);
+
+  sendSuccessResponse(res, { invite }, 'Invite sent successfully', 201);
+}));
+
 // @route   GET /api/enhanced-jobs/:jobId/applications
 // @desc    Get applications for a specific job (employer only)
 // @access  Private (Job owner only)
@@ -562,7 +929,8 @@ router.get('/:jobId/applications', authenticateToken, requireEmployer, asyncHand
     throw new ValidationError('Access denied');
   }
 
-  const query: any = { jobId };
+  // Filter by screening outcome (?screening=passed|failed) or by answer (?answer[<questionId>]=yes)
+  const query: any = { ...buildScreeningFilter(req.query), jobId };
   if (status) {
     query.status = status;
   }
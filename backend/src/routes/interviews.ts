@@ -0,0 +1,413 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Interview, { IInterview, IInterviewSlot, INTERVIEW_MODES, InterviewMode, MAX_PROPOSED_SLOTS } from '../models/Interview';
+import Application, { ApplicationStatus, normalizeApplicationStatus } from '../models/Application';
+import Job from '../models/Job';
+import User from '../models/User';
+import EmployerKYC from '../models/EmployerKYC';
+import { authenticateToken, requireEmployer, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError, NotFoundError, AuthorizationError } from '../middleware/errorHandler';
+import SocketManager from '../utils/socketManager';
+import EmailNotificationService from '../services/emailNotificationService';
+import { dispatchNotification } from '../services/notificationDispatcher';
+import { buildIcsEvent } from '../utils/icsGenerator';
+
+const router = express.Router();
+
+// Services will be injected from the main server
+let socketManager: SocketManager;
+let emailService: EmailNotificationService;
+
+export const setInterviewServices = (socket: SocketManager, email: EmailNotificationService) => {
+  socketManager = socket;
+  emailService = email;
+};
+
+// Stages from which an interview can be arranged
+const INTERVIEWABLE_STATUSES: ApplicationStatus[] = ['shortlisted', 'interview'];
+
+type InterviewEvent = 'proposed' | 'scheduled' | 'cancelled';
+
+// Parse and validate proposed slots: [{ start, end }], all in the future
+const parseSlots = (slots: unknown): IInterviewSlot[] => {
+  if (!Array.isArray(slots) || slots.length === 0) {
+    throw new ValidationError('At least one interview slot is required');
+  }
+  if (slots.length > MAX_PROPOSED_SLOTS) {
+    throw new ValidationError(`At most ${MAX_PROPOSED_SLOTS} slots can be proposed`);
+  }
+
+  const now = Date.now();
+  return slots.map((slot: any, index) => {
+    const start = new Date(slot?.start);
+    const end = new Date(slot?.end);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new ValidationError(`Slot ${index + 1} needs a valid start and end time`);
+    }
+    if (end <= start) {
+      throw new ValidationError(`Slot ${index + 1} must end after it starts`);
+    }
+    if (start.getTime() <= now) {
+      throw new ValidationError(`Slot ${index + 1} must be in the future`);
+    }
+    return { start, end };
+  });
+};
+
+const getRole = (interview: IInterview, userId: string): 'student' | 'employer' => {
+  if (interview.student.toString() === userId) return 'student';
+  if (interview.employer.toString() === userId) return 'employer';
+  throw new AuthorizationError('Access denied');
+};
+
+// Tell both participants about a change: stored notification, socket event and
+// email with a calendar invite (REQUEST when scheduled, CANCEL when a scheduled interview is called off)
+const notifyParticipants = async (
+  interview: IInterview,
+  event: InterviewEvent,
+  options: { previousSlot?: { start: Date; end: Date }; reason?: string } = {}
+): Promise<void> => {
+  const [job, student, employer] = await Promise.all([
+    Job.findById(interview.job).select('jobTitle companyName'),
+    User.findById(interview.student).select('name email'),
+    User.findById(interview.employer).select('name email companyName')
+  ]);
+  if (!job || !student || !employer) return;
+
+  const slotForIcs = event === 'cancelled' ? options.previousSlot : interview.selectedSlot;
+  const ics = slotForIcs
+    ? buildIcsEvent({
+        uid: `interview-${interview._id}@mework`,
+        sequence: interview.sequence,
+        method: event === 'cancelled' ? 'CANCEL' : 'REQUEST',
+        start: slotForIcs.start,
+        end: slotForIcs.end,
+        summary: `Interview: ${job.jobTitle} (${job.companyName})`,
+        description: [
+          `Interview for ${job.jobTitle} at ${job.companyName}`,
+          interview.mode === 'phone' && interview.phoneNumber ? `Phone: ${interview.phoneNumber}` : '',
+          interview.notes || ''
+        ].filter(Boolean).join('\n'),
+        location: interview.mode === 'in-person'
+          ? interview.location
+          : interview.mode === 'video' ? interview.videoLink : 'Phone call',
+        url: interview.mode === 'video' ? interview.videoLink : undefined,
+        organizer: { name: employer.companyName || employer.name, email: employer.email },
+        attendees: [
+          { name: student.name, email: student.email },
+          { name: employer.name, email: employer.email }
+        ]
+      })
+    : undefined;
+
+  const title = event === 'scheduled'
+    ? 'Interview Scheduled'
+    : event === 'cancelled' ? 'Interview Cancelled' : 'Interview Times Proposed';
+  const payload = {
+    interviewId: interview._id,
+    applicationId: interview.application,
+    jobId: interview.job,
+    jobTitle: job.jobTitle,
+    companyName: job.companyName,
+    event,
+    status: interview.status,
+    mode: interview.mode,
+    selectedSlot: interview.selectedSlot,
+    proposedSlots: interview.proposedSlots,
+    proposedBy: interview.proposedBy
+  };
+
+  const participants = [
+    { user: student, role: 'student' as const, otherPartyName: job.companyName || employer.name },
+    { user: employer, role: 'employer' as const, otherPartyName: student.name }
+  ];
+
+  for (const participant of participants) {
+    // Proposals only need to reach the party that has to pick a slot
+    if (event === 'proposed' && participant.role === interview.proposedBy) continue;
+
+    const message = event === 'scheduled'
+      ? `Interview for "${job.jobTitle}" is confirmed`
+      : event === 'cancelled'
+      ? `Interview for "${job.jobTitle}" was cancelled${options.reason ? `: ${options.reason}` : ''}`
+      : `${participant.otherPartyName} proposed interview times for "${job.jobTitle}"`;
+
+    await dispatchNotification({
+      recipient: participant.user._id as mongoose.Types.ObjectId,
+      recipientType: participant.role,
+      type: 'interview_update',
+      title,
+      message,
+      payload,
+      realtime: () => socketManager?.notifyInterviewUpdate(
+        { id: interview._id, ...payload },
+        [String(participant.user._id)]
+      ),
+      email: async () => {
+        if (!emailService) return false;
+        // A cancelled proposal never reached anyone's calendar, the in-app notice is enough
+        if (event === 'cancelled' && !ics) return false;
+        return emailService.sendInterviewNotification(String(participant.user._id), {
+          interviewId: String(interview._id),
+          event,
+          sequence: interview.sequence,
+          jobTitle: job.jobTitle,
+          companyName: job.companyName,
+          otherPartyName: participant.otherPartyName,
+          mode: interview.mode,
+          location: interview.location,
+          phoneNumber: interview.phoneNumber,
+          videoLink: interview.videoLink,
+          notes: interview.notes,
+          slot: event === 'cancelled' ? options.previousSlot : interview.selectedSlot,
+          proposedSlots: event === 'proposed' ? interview.proposedSlots : undefined,
+          reason: options.reason,
+          ics
+        });
+      }
+    });
+  }
+};
+
+const populateInterview = (query: any) => query
+  .populate('job', 'jobTitle companyName location')
+  .populate('student', 'name email phone college')
+  .populate('employer', 'name email companyName');
+
+// @route   POST /api/interviews
+// @desc    Propose interview slots for a shortlisted application
+// @access  Private (Job owner only)
+router.post('/', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { applicationId, slots, mode, location, phoneNumber, videoLink, notes } = req.body;
+
+  if (!applicationId || !mongoose.Types.ObjectId.isValid(applicationId)) {
+    throw new ValidationError('Valid application ID is required');
+  }
+  if (!INTERVIEW_MODES.includes(mode)) {
+    throw new ValidationError(`Mode must be one of: ${INTERVIEW_MODES.join(', ')}`);
+  }
+
+  const application = await Application.findById(applicationId);
+  if (!application) {
+    throw new NotFoundError('Application not found');
+  }
+
+  const job = await Job.findById(application.jobId);
+  if (!job || job.employerId.toString() !== req.user!._id.toString()) {
+    throw new AuthorizationError('Access denied');
+  }
+
+  if (!INTERVIEWABLE_STATUSES.includes(normalizeApplicationStatus(application.status) as ApplicationStatus)) {
+    throw new ValidationError('Only shortlisted applications can be invited to an interview');
+  }
+
+  const active = await Interview.findOne({ application: application._id, status: { $in: ['proposed', 'scheduled'] } });
+  if (active) {
+    throw new ValidationError('This application already has an active interview - reschedule it instead');
+  }
+
+  // In-person interviews default to the address from the employer's KYC
+  let interviewLocation = location;
+  if ((mode as InterviewMode) === 'in-person' && !interviewLocation) {
+    const kyc = await EmployerKYC.findOne({ employerId: req.user!._id }).select('address city');
+    interviewLocation = [kyc?.address, kyc?.city].filter(Boolean).join(', ');
+    if (!interviewLocation) {
+      throw new ValidationError('Add a location or complete your company address in KYC for in-person interviews');
+    }
+  }
+
+  const interview = await Interview.create({
+    application: application._id,
+    job: job._id,
+    student: application.studentId,
+    employer: req.user!._id,
+    proposedSlots: parseSlots(slots),
+    proposedBy: 'employer',
+    mode,
+    location: interviewLocation,
+    phoneNumber,
+    videoLink,
+    notes
+  });
+
+  await notifyParticipants(interview, 'proposed');
+
+  console.log(`📅 Interview proposed for application ${application._id} with ${interview.proposedSlots.length} slot(s)`);
+  sendSuccessResponse(res, { interview }, 'Interview slots proposed successfully', 201);
+}));
+
+// @route   GET /api/interviews/upcoming
+// @desc    Get upcoming and pending interviews of the current user
+// @access  Private
+router.get('/upcoming', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const userId = req.user!._id;
+  const participantFilter = req.user!.userType === 'employer' ? { employer: userId } : { student: userId };
+
+  const interviews = await populateInterview(Interview.find({
+    ...participantFilter,
+    $or: [
+      { status: 'proposed' },
+      { status: 'scheduled', 'selectedSlot.end': { $gte: new Date() } }
+    ]
+  }).sort({ 'selectedSlot.start': 1, createdAt: -1 }).limit(50));
+
+  sendSuccessResponse(res, { interviews }, 'Upcoming interviews retrieved successfully');
+}));
+
+// @route   GET /api/interviews/application/:applicationId
+// @desc    Get all interviews of an application
+// @access  Private (Participants only)
+router.get('/application/:applicationId', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { applicationId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+    throw new ValidationError('Invalid application ID');
+  }
+
+  const userId = req.user!._id.toString();
+  const interviews = await populateInterview(Interview.find({
+    application: applicationId,
+    $or: [{ student: userId }, { employer: userId }]
+  }).sort({ createdAt: -1 }));
+
+  sendSuccessResponse(res, { interviews }, 'Interviews retrieved successfully');
+}));
+
+// @route   GET /api/interviews/:id
+// @desc    Get interview details
+// @access  Private (Participants only)
+router.get('/:id', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    throw new ValidationError('Invalid interview ID');
+  }
+
+  const interview = await Interview.findById(req.params.id);
+  if (!interview) {
+    throw new NotFoundError('Interview not found');
+  }
+  getRole(interview, req.user!._id.toString());
+
+  await interview.populate([
+    { path: 'job', select: 'jobTitle companyName location' },
+    { path: 'student', select: 'name email phone college' },
+    { path: 'employer', select: 'name email companyName' }
+  ]);
+
+  sendSuccessResponse(res, { interview }, 'Interview retrieved successfully');
+}));
+
+// @route   POST /api/interviews/:id/confirm
+// @desc    Pick one of the proposed slots (by the party that did not propose them)
+// @access  Private (Participants only)
+router.post('/:id/confirm', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { slotId } = req.body;
+
+  const interview = await Interview.findById(req.params.id);
+  if (!interview) {
+    throw new NotFoundError('Interview not found');
+  }
+
+  const role = getRole(interview, req.user!._id.toString());
+  if (interview.status !== 'proposed') {
+    throw new ValidationError(`Interview is ${interview.status} and has no slots to confirm`);
+  }
+  if (role === interview.proposedBy) {
+    throw new ValidationError('Waiting for the other party to pick a slot');
+  }
+
+  const slot = interview.proposedSlots.find(s => String(s._id) === String(slotId));
+  if (!slot) {
+    throw new ValidationError('Please pick one of the proposed slots');
+  }
+  if (slot.start.getTime() <= Date.now()) {
+    throw new ValidationError('This slot has already passed - ask for new times');
+  }
+
+  interview.selectedSlot = { start: slot.start, end: slot.end };
+  interview.status = 'scheduled';
+  interview.sequence += 1;
+  await interview.save();
+
+  // Scheduling the first interview moves the application into the interview stage
+  const application = await Application.findById(interview.application);
+  if (application && normalizeApplicationStatus(application.status) === 'shortlisted') {
+    await application.updateStatus('interview', { id: req.user!._id, type: role }, 'Interview scheduled');
+  }
+
+  await notifyParticipants(interview, 'scheduled');
+
+  console.log(`📅 Interview ${interview._id} scheduled for ${slot.start.toISOString()}`);
+  sendSuccessResponse(res, { interview }, 'Interview scheduled successfully');
+}));
+
+// @route   POST /api/interviews/:id/reschedule
+// @desc    Propose new slots for a pending or scheduled interview
+// @access  Private (Participants only)
+router.post('/:id/reschedule', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { slots, reason } = req.body;
+
+  const interview = await Interview.findById(req.params.id);
+  if (!interview) {
+    throw new NotFoundError('Interview not found');
+  }
+
+  const role = getRole(interview, req.user!._id.toString());
+  if (!['proposed', 'scheduled'].includes(interview.status)) {
+    throw new ValidationError(`Cannot reschedule an interview that is ${interview.status}`);
+  }
+
+  const previousSlot = interview.status === 'scheduled' && interview.selectedSlot
+    ? { start: interview.selectedSlot.start, end: interview.selectedSlot.end }
+    : undefined;
+
+  interview.proposedSlots = parseSlots(slots);
+  interview.proposedBy = role;
+  interview.selectedSlot = undefined;
+  interview.status = 'proposed';
+  interview.rescheduleCount += 1;
+  interview.sequence += 1;
+  await interview.save();
+
+  // Take the old time out of both calendars until a new slot is confirmed
+  if (previousSlot) {
+    await notifyParticipants(interview, 'cancelled', { previousSlot, reason: reason || 'Rescheduling' });
+  }
+  await notifyParticipants(interview, 'proposed');
+
+  console.log(`📅 Interview ${interview._id} rescheduled by ${role}`);
+  sendSuccessResponse(res, { interview }, 'New interview slots proposed successfully');
+}));
+
+// @route   POST /api/interviews/:id/cancel
+// @desc    Cancel an interview
+// @access  Private (Participants only)
+router.post('/:id/cancel', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { reason } = req.body;
+
+  const interview = await Interview.findById(req.params.id);
+  if (!interview) {
+    throw new NotFoundError('Interview not found');
+  }
+
+  const role = getRole(interview, req.user!._id.toString());
+  if (!['proposed', 'scheduled'].includes(interview.status)) {
+    throw new ValidationError(`Interview is already ${interview.status}`);
+  }
+
+  const previousSlot = interview.status === 'scheduled' && interview.selectedSlot
+    ? { start: interview.selectedSlot.start, end: interview.selectedSlot.end }
+    : undefined;
+
+  interview.status = 'cancelled';
+  interview.cancelledBy = role;
+  interview.cancellationReason = reason;
+  interview.cancelledAt = new Date();
+  interview.sequence += 1;
+  await interview.save();
+
+  await notifyParticipants(interview, 'cancelled', { previousSlot, reason });
+
+  console.log(`📅 Interview ${interview._id} cancelled by ${role}`);
+  sendSuccessResponse(res, { interview }, 'Interview cancelled successfully');
+}));
+
+export default router;
@@ -0,0 +1,135 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Job from '../models/Job';
+import JobTemplate, { MAX_JOB_TEMPLATES } from '../models/JobTemplate';
+import { authenticateToken, requireEmployer, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError, NotFoundError, DuplicateKeyError } from '../middleware/errorHandler';
+import { parseTemplateFields, templateFieldsFromJob } from '../services/jobTemplateService';
+
+const router = express.Router();
+
+// Employers see the knockout rules of their own questions
+const WITH_KNOCKOUT = '+screeningQuestions.knockout';
+
+const parseName = (value: unknown): string => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) {
+    throw new ValidationError('Give the template a name');
+  }
+  if (name.length > 60) {
+    throw new ValidationError('Name cannot exceed 60 characters');
+  }
+  return name;
+};
+
+const ensureNameIsFree = async (employerId: mongoose.Types.ObjectId, name: string, exceptId?: string) => {
+  const existing = await JobTemplate.findOne({
+    employerId,
+    name,
+    ...(exceptId && { _id: { $ne: exceptId } })
+  }).select('_id');
+  if (existing) {
+    throw new DuplicateKeyError(`You already have a template called "${name}"`);
+  }
+};
+
+const findOwnTemplate = async (req: AuthRequest) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    throw new ValidationError('Invalid template ID');
+  }
+  const template = await JobTemplate.findOne({ _id: req.params.id, employerId: req.user!._id }).select(WITH_KNOCKOUT);
+  if (!template) {
+    throw new NotFoundError('Template not found');
+  }
+  return template;
+};
+
+const findOwnJobWithQuestions = async (jobId: string, employerId: mongoose.Types.ObjectId) => {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) {
+    throw new ValidationError('Invalid job ID');
+  }
+  const job = await Job.findOne({ _id: jobId, employerId }).select(WITH_KNOCKOUT);
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+  return job;
+};
+
+// @route   GET /api/job-templates
+// @desc    List the current employer's job templates
+// @access  Private (Employer only)
+router.get('/', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const templates = await JobTemplate.find({ employerId: req.user!._id })
+    .select(WITH_KNOCKOUT)
+    .sort({ updatedAt: -1 });
+
+  sendSuccessResponse(res, { templates }, 'Job templates retrieved successfully');
+}));
+
+// @route   GET /api/job-templates/from-job/:jobId
+// @desc    The reusable fields of one of the employer's past jobs, to fill the post-job form
+// @access  Private (Employer only)
+router.get('/from-job/:jobId', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const job = await findOwnJobWithQuestions(req.params.jobId, req.user!._id as mongoose.Types.ObjectId);
+
+  sendSuccessResponse(res, { fields: templateFieldsFromJob(job) }, 'Job details retrieved successfully');
+}));
+
+// @route   POST /api/job-templates
+// @desc    Save a template ({ name, job }) or copy one of the employer's jobs ({ name, fromJobId })
+// @access  Private (Employer only)
+router.post('/', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const employerId = req.user!._id as mongoose.Types.ObjectId;
+  const name = parseName(req.body.name);
+
+  const sourceJob = req.body.fromJobId
+    ? await findOwnJobWithQuestions(String(req.body.fromJobId), employerId)
+    : null;
+  const fields = sourceJob ? templateFieldsFromJob(sourceJob) : parseTemplateFields(req.body.job);
+
+  const count = await JobTemplate.countDocuments({ employerId });
+  if (count >= MAX_JOB_TEMPLATES) {
+    throw new ValidationError(`You can keep up to ${MAX_JOB_TEMPLATES} templates. Delete one to save another.`);
+  }
+  await ensureNameIsFree(employerId, name);
+
+  const template = await JobTemplate.create({
+    ...fields,
+    employerId,
+    name,
+    sourceJobId: sourceJob?._id
+  });
+
+  sendSuccessResponse(res, { template }, 'Template saved successfully', 201);
+}));
+
+// @route   PATCH /api/job-templates/:id
+// @desc    Rename a template or replace its job details
+// @access  Private (Employer only)
+router.patch('/:id', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const template = await findOwnTemplate(req);
+
+  if (req.body.name !== undefined) {
+    const name = parseName(req.body.name);
+    await ensureNameIsFree(template.employerId, name, req.params.id);
+    template.name = name;
+  }
+  if (req.body.job !== undefined) {
+    template.set(parseTemplateFields(req.body.job));
+  }
+  await template.save();
+
+  sendSuccessResponse(res, { template }, 'Template updated successfully');
+}));
+
+// @route   DELETE /api/job-templates/:id
+// @desc    Delete a template; jobs posted from it are not affected
+// @access  Private (Employer only)
+router.delete('/:id', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const template = await findOwnTemplate(req);
+  await template.deleteOne();
+
+  sendSuccessResponse(res, null, 'Template deleted successfully');
+}));
+
+export default router;
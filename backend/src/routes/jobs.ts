@@ -5,6 +5,15 @@ import { User } from '../models/User';
 import { CustomError } from '../middleware/errorHandler';
 import SocketManager from '../utils/socketManager';
 import EmailNotificationService from '../services/emailNotificationService';
+import { dispatchNotification, dispatchToUserType } from '../services/notificationDispatcher';
+import { parseScreeningQuestions } from '../services/screeningService';
+import { parseSalaryInput, parseSalaryText, formatSalary } from '../utils/salary';
+import { parseJobSearchQuery, buildJobFilter, searchJobs, JOB_SORTS } from '../services/jobSearchService';
+import { resolveJobPoint, getEmployerPoint, getStudentOrigin } from '../services/jobLocationService';
+import { parseCoordinatesInput } from '../utils/geo';
+import { notifyMatchingSavedSearches } from '../services/savedSearchService';
+import { parsePositions } from '../services/jobPositionService';
+import { parseShifts } from '../services/shiftService';
 
 const router = express.Router();
 
@@ -18,59 +27,32 @@ export const setJobServices = (socket: SocketManager, email: EmailNotificationSe
 };
 
 // Get all jobs with filters
-router.get('/', async (req, res, next) => {
+router.get('/', optionalAuth, async (req: AuthRequest, res, next) => {
   try {
-    const {
-      location,
-      type,
-      category,
-      salaryMin,
-      salaryMax,
-      page = 1,
-      limit = 10,
-      search
-    } = req.query;
-
-    const filter: any = { 
-      status: 'active',
-      approvalStatus: 'approved' // Only show approved jobs to public
-    };
-
-    if (location) filter.location = { $regex: location, $options: 'i' };
-    if (type) filter.type = type;
-    if (category) filter.category = { $regex: category, $options: 'i' };
-    if (salaryMin || salaryMax) {
-      filter.salary = {};
-      if (salaryMin) filter.salary.$gte = parseInt(salaryMin as string);
-      if (salaryMax) filter.salary.$lte = parseInt(salaryMax as string);
-    }
-    if (search) {
-      filter.$or = [
-        { jobTitle: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-        { companyName: { $regex: search, $options: 'i' } }
-      ];
-    }
-
-    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
-    
-    const jobs = await Job.find(filter)
-
+    const query = parseJobSearchQuery(req.query);
+    if (query.origin) query.nearPoint = await getStudentOrigin(req.user, query.origin);
+    const filter = buildJobFilter(query);
+    const skip = (query.page - 1) * query.limit;
+
+    // Relevance needs the text score projected before it can be sorted on. Distance
+    // is only computed by /search, so this list falls back to newest first.
+    const relevance = query.sort === 'relevance';
+    const sortOrder = query.sort === 'distance' ? JOB_SORTS.newest : JOB_SORTS[query.sort];
+    const jobs = await Job.find(filter, relevance ? { score: { $meta: 'textScore' } } : undefined)
       .populate('employerId', 'name companyName businessType')
-
-      .sort({ createdAt: -1 })
+      .sort(relevance ? { score: { $meta: 'textScore' }, createdAt: -1 } : sortOrder)
       .skip(skip)
-      .limit(parseInt(limit as string));
+      .limit(query.limit);
 
     const total = await Job.countDocuments(filter);
 
     res.json({
       jobs,
       pagination: {
-        page: parseInt(page as string),
-        limit: parseInt(limit as string),
+        page: query.page,
+        limit: query.limit,
         total,
-        pages: Math.ceil(total / parseInt(limit as string))
+        pages: Math.ceil(total / query.limit)
       }
     });
   } catch (error) {
@@ -78,6 +60,19 @@ router.get('/', async (req, res, next) => {
   }
 });
 
+// Search jobs with counts per category, work type, location and salary bucket,
+// optionally within radiusKm of a point or the student's home / PG (must be before /:id route)
+router.get('/search', optionalAuth, async (req: AuthRequest, res, next) => {
+  try {
+    const query = parseJobSearchQuery(req.query);
+    if (query.origin) query.nearPoint = await getStudentOrigin(req.user, query.origin);
+    const result = await searchJobs(query);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Admin routes for job management (must be before /:id route)
 router.get('/admin', authenticateToken, async (req: AuthRequest, res, next) => {
   try {
@@ -143,9 +138,18 @@ router.patch('/:id/approve', authenticateToken, async (req: AuthRequest, res, ne
     (job as any).approvedAt = new Date();
     await job.save();
 
-    // Real-time notification to all students
-    if (socketManager) {
-      socketManager.notifyJobApproved({
+    // Notify students that opted in to new job alerts
+    await dispatchToUserType('student', {
+      type: 'job_approved',
+      title: 'New Job Available',
+      message: `New job approved: ${job.jobTitle} at ${job.companyName}`,
+      payload: {
+        jobId: job._id,
+        jobTitle: job.jobTitle,
+        companyName: job.companyName,
+        location: job.location
+      },
+      realtime: (studentIds) => socketManager?.notifyJobApproved({
         id: job._id,
         jobTitle: job.jobTitle,
         companyName: job.companyName,
@@ -155,24 +159,36 @@ router.patch('/:id/approve', authenticateToken, async (req: AuthRequest, res, ne
         description: job.description,
         requirements: job.skillsRequired.join(', '),
         createdAt: job.createdAt
-      });
-    }
+      }, studentIds)
+    });
 
-    // Email notification to employer
-    if (emailService && job.employerId) {
-      await emailService.sendJobApprovalNotification(
-        (job.employerId as any)._id.toString(),
-        {
-          id: job._id,
-          jobTitle: job.jobTitle,
-          companyName: job.companyName,
-          location: job.location,
-          jobType: job.workType,
-          salary: job.salaryRange
+    // Notify employer that their job is live
+    if (job.employerId) {
+      const employerId = (job.employerId as any)._id.toString();
+      await dispatchNotification({
+        recipient: employerId,
+        recipientType: 'employer',
+        type: 'job_approved',
+        title: 'Job Approved',
+        message: `Your job "${job.jobTitle}" has been approved and is now live`,
+        payload: { jobId: job._id, jobTitle: job.jobTitle },
+        email: async () => {
+          if (!emailService) return false;
+          return emailService.sendJobApprovalNotification(employerId, {
+            id: job._id,
+            jobTitle: job.jobTitle,
+            companyName: job.companyName,
+            location: job.location,
+            jobType: job.workType,
+            salary: job.salaryRange
+          });
         }
-      );
+      });
     }
 
+    // Alert students whose saved searches this job matches
+    await notifyMatchingSavedSearches(job, { socketManager, emailService });
+
     console.log(`✅ Job approved: ${job.jobTitle} - Real-time notifications sent`);
 
     return res.json({
@@ -216,31 +232,40 @@ router.patch('/:id/reject', authenticateToken, async (req: AuthRequest, res, nex
     (job as any).rejectedAt = new Date();
     await job.save();
 
-    // Real-time notification to employer
-    if (socketManager && job.employerId) {
-      socketManager.notifyJobRejected({
-        id: job._id,
-        jobTitle: job.jobTitle,
-        companyName: job.companyName,
-        location: job.location,
-        jobType: job.workType,
-        rejectionReason: rejectionReason
-      }, (job.employerId as any)._id.toString());
-    }
-
-    // Email notification to employer
-    if (emailService && job.employerId) {
-      await emailService.sendJobRejectionNotification(
-        (job.employerId as any)._id.toString(),
-        {
+    // Notify employer (in-app, real-time and email, per their preferences)
+    if (job.employerId) {
+      const employerId = (job.employerId as any)._id.toString();
+      await dispatchNotification({
+        recipient: employerId,
+        recipientType: 'employer',
+        type: 'job_rejected',
+        title: 'Job Rejected',
+        message: `Your job "${job.jobTitle}" was rejected`,
+        payload: { jobId: job._id, jobTitle: job.jobTitle, rejectionReason },
+        realtime: () => socketManager?.notifyJobRejected({
           id: job._id,
           jobTitle: job.jobTitle,
           companyName: job.companyName,
           location: job.location,
-          jobType: job.workType
-        },
-        rejectionReason
-      );
+          jobType: job.workType,
+          rejectionReason: rejectionReason
+        }, employerId),
+        email: async () => {
+          if (!emailService) return false;
+          return emailService.sendJobRejectionNotification(
+            employerId,
+            {
+              id: job._id,
+              jobTitle: job.jobTitle,
+              companyName: job.companyName,
+              location: job.location,
+              jobType: job.workType,
+              rejectedAt: job.rejectedAt
+            },
+            rejectionReason
+          );
+        }
+      });
     }
 
     console.log(`❌ Job rejected: ${job.jobTitle} - Notifications sent to employer`);
@@ -256,7 +281,7 @@ router.patch('/:id/reject', authenticateToken, async (req: AuthRequest, res, nex
 });
 
 // Get single job by ID
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', optionalAuth, async (req: AuthRequest, res, next) => {
   try {
     const job = await Job.findById(req.params.id)
 
@@ -266,6 +291,12 @@ router.get('/:id', async (req, res, next) => {
       throw new CustomError('Job not found', 404);
     }
 
+    // Drafts are only visible to their employer and admins
+    const employerId = (job.employerId as any)?._id?.toString() ?? job.employerId.toString();
+    if (job.status === 'draft' && req.user?.userType !== 'admin' && req.user?._id?.toString() !== employerId) {
+      throw new CustomError('Job not found', 404);
+    }
+
     // Increment view count
     // Note: Job views tracking removed as it's not in the simplified schema
     await job.save();
@@ -284,6 +315,8 @@ router.post('/', async (req: AuthRequest, res, next) => {
       description,
       requirements,
       location,
+      latitude,
+      longitude,
       type,
       category,
       salary,
@@ -326,21 +359,9 @@ router.post('/', async (req: AuthRequest, res, next) => {
       await employer.save();
     }
 
-    // Derive and map fields required by Job schema
-    const parseSalary = (salaryStr: string): { pay: number; payType: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'per_task' } => {
-      const normalized = String(salaryStr).toLowerCase();
-      const digits = normalized.replace(/[^0-9]/g, '');
-      const pay = digits ? parseInt(digits, 10) : 0;
-      let payType: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'per_task' = 'hourly';
-      if (normalized.includes('month')) payType = 'monthly';
-      else if (normalized.includes('week')) payType = 'weekly';
-      else if (normalized.includes('day') || normalized.includes('daily')) payType = 'daily';
-      else if (normalized.includes('hour') || normalized.includes('hr')) payType = 'hourly';
-      else if (normalized.includes('task')) payType = 'per_task';
-      return { pay, payType };
-    };
-
-    const { pay, payType } = parseSalary(salary);
+    // Salary comes as { min, max, period } or as free text, which is parsed best-effort
+    const structuredSalary = typeof salary === 'object' ? parseSalaryInput(salary) : undefined;
+    const salaryDetails = structuredSalary || parseSalaryText(String(salary)) || undefined;
 
     const now = new Date();
     const defaultExpiry = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000));
@@ -359,8 +380,11 @@ router.post('/', async (req: AuthRequest, res, next) => {
       jobTitle: title,
       description,
       location,
-      salaryRange: salary,
+      locationPoint: await resolveJobPoint((employer as any)._id, latitude, longitude),
+      salaryRange: structuredSalary ? formatSalary(structuredSalary) : salary,
+      salary: salaryDetails,
       workType: type || 'Full-time',
+      category: category || undefined,
       skillsRequired: skillsArray,
       employerId: (employer as any)._id,
       companyName: company,
@@ -401,9 +425,35 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res, next) => {
       throw new CustomError('Not authorized to edit this job', 403);
     }
 
+    // Filled positions only change by hiring, see PUT /api/applications/:id/status
+    const { latitude, longitude, filledPositions, filledAt, ...updates } = req.body;
+    if (updates.positions !== undefined) {
+      updates.positions = parsePositions(updates.positions) ?? 1;
+      if (updates.positions < (job.filledPositions ?? 0)) {
+        throw new CustomError(`This job has already hired ${job.filledPositions}, so it needs at least that many positions`, 400);
+      }
+    }
+    if (latitude !== undefined || longitude !== undefined) {
+      updates.locationPoint = parseCoordinatesInput(latitude, longitude) || await getEmployerPoint(job.employerId);
+    }
+    if (updates.screeningQuestions !== undefined) {
+      updates.screeningQuestions = parseScreeningQuestions(updates.screeningQuestions);
+    }
+    if (updates.shifts !== undefined) {
+      updates.shifts = parseShifts(updates.shifts);
+    }
+    // findByIdAndUpdate skips save hooks, so the display string is derived here
+    if (updates.salary !== undefined && updates.salary !== null) {
+      updates.salary = parseSalaryInput(updates.salary);
+      updates.salaryRange = updates.salaryRange || formatSalary(updates.salary);
+    } else if (typeof updates.salaryRange === 'string') {
+      const parsed = parseSalaryText(updates.salaryRange);
+      if (parsed) updates.salary = parsed;
+    }
+
     const updatedJob = await Job.findByIdAndUpdate(
       req.params.id,
-      req.body,
+      updates,
       { new: true, runValidators: true }
     );
 
@@ -505,6 +555,15 @@ router.patch('/:id/status', authenticateToken, async (req: AuthRequest, res, nex
       throw new CustomError('Not authorized to update this job status', 403);
     }
 
+    // Publishing runs the saved-search alerts, so drafts go through the enhanced route
+    if (job.status === 'draft') {
+      throw new CustomError('Publish drafts via /api/enhanced-jobs/:id/status', 400);
+    }
+
+    if (status === 'active' && job.positionsLeft === 0) {
+      throw new CustomError('All positions for this job are filled. Add positions before reopening it.', 400);
+    }
+
     job.status = status;
     await job.save();
 
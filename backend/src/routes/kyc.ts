@@ -791,6 +791,10 @@ router.post('/profile', authenticateToken, asyncHandler(async (req: AuthRequest,
       }
     });
     updateData.lastUpdated = new Date();
+    // The home pin is optional; null removes it
+    if (kycData.homeLocation === null) {
+      updateData.$unset = { homeLocation: 1 };
+    }
     
     await KYC.findByIdAndUpdate(kyc._id, updateData, { new: true });
     kyc = await KYC.findById(kyc._id);
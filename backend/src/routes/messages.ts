@@ -0,0 +1,159 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Message, { MAX_MESSAGE_LENGTH } from '../models/Message';
+import Application, { canShareContactDetails } from '../models/Application';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError } from '../middleware/errorHandler';
+import SocketManager from '../utils/socketManager';
+import { getConversation, serializeMessage } from '../services/messagingService';
+
+const router = express.Router();
+
+// Services will be injected from the main server
+let socketManager: SocketManager;
+
+export const setMessageServices = (socket: SocketManager) => {
+  socketManager = socket;
+};
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// @route   GET /api/messages/threads
+// @desc    List the current user's conversations with their last message and unread count
+// @access  Private
+router.get('/threads', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const userId = req.user!._id as mongoose.Types.ObjectId;
+
+  const threads = await Message.aggregate([
+    { $match: { $or: [{ sender: userId }, { recipient: userId }] } },
+    { $sort: { _id: -1 } },
+    {
+      $group: {
+        _id: '$application',
+        lastMessage: { $first: '$$ROOT' },
+        unreadCount: {
+          $sum: { $cond: [{ $and: [{ $eq: ['$recipient', userId] }, { $not: ['$readAt'] }] }, 1, 0] }
+        }
+      }
+    },
+    { $sort: { 'lastMessage._id': -1 } },
+    { $limit: 50 }
+  ]);
+
+  const applications = await Application.find({ _id: { $in: threads.map(thread => thread._id) } })
+    .select('status shortlistedDate jobId studentId')
+    .populate('jobId', 'jobTitle companyName employerId')
+    .populate('studentId', 'name');
+  const byId = new Map(applications.map(application => [String(application._id), application]));
+
+  const conversations = threads
+    .filter(thread => byId.has(String(thread._id)))
+    .map(thread => {
+      const application = byId.get(String(thread._id))! as any;
+      return {
+        applicationId: String(thread._id),
+        status: application.status,
+        job: application.jobId,
+        student: application.studentId,
+        lastMessage: serializeMessage(thread.lastMessage, canShareContactDetails(application)),
+        unreadCount: thread.unreadCount
+      };
+    });
+
+  sendSuccessResponse(res, { conversations }, 'Conversations retrieved successfully');
+}));
+
+// @route   GET /api/messages/unread-count
+// @desc    Count unread messages of the current user
+// @access  Private
+router.get('/unread-count', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const unreadCount = await Message.countDocuments({ recipient: req.user!._id, readAt: { $exists: false } });
+
+  sendSuccessResponse(res, { unreadCount }, 'Unread count retrieved successfully');
+}));
+
+// @route   GET /api/messages/application/:applicationId
+// @desc    Get the message history of an application, newest first (cursor: ?before=<messageId>)
+// @access  Private (Applicant and job owner only)
+router.get('/application/:applicationId', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const conversation = await getConversation(req.params.applicationId, req.user!._id.toString());
+  const { before } = req.query;
+  const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const filter: any = { application: conversation.application._id };
+  if (before) {
+    if (!mongoose.Types.ObjectId.isValid(String(before))) {
+      throw new ValidationError('Invalid cursor');
+    }
+    filter._id = { $lt: new mongoose.Types.ObjectId(String(before)) };
+  }
+
+  // Fetch one extra to know whether an older page exists
+  const messages = await Message.find(filter).sort({ _id: -1 }).limit(limit + 1);
+  const hasMore = messages.length > limit;
+  const page = messages.slice(0, limit);
+
+  sendSuccessResponse(res, {
+    messages: page.map(message => serializeMessage(message, conversation.contactDetailsVisible)),
+    nextCursor: hasMore ? String(page[page.length - 1]._id) : null,
+    hasMore,
+    contactDetailsVisible: conversation.contactDetailsVisible,
+    isClosed: conversation.isClosed
+  }, 'Messages retrieved successfully');
+}));
+
+// @route   POST /api/messages/application/:applicationId
+// @desc    Send a message in an application's conversation
+// @access  Private (Applicant and job owner only)
+router.post('/application/:applicationId', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+  if (!body) {
+    throw new ValidationError('Message cannot be empty');
+  }
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    throw new ValidationError(`Message cannot exceed ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  const conversation = await getConversation(req.params.applicationId, req.user!._id.toString());
+  if (conversation.isClosed) {
+    throw new ValidationError('This conversation is closed because the application is no longer active');
+  }
+
+  const message = await Message.create({
+    application: conversation.application._id,
+    job: conversation.jobId,
+    sender: req.user!._id,
+    senderType: conversation.role,
+    recipient: conversation.otherPartyId,
+    body
+  });
+
+  const serialized = serializeMessage(message, conversation.contactDetailsVisible);
+  // Both rooms, so the sender's other tabs stay in sync
+  socketManager?.emitNewMessage(serialized, [conversation.userId, conversation.otherPartyId], conversation.jobTitle);
+
+  console.log(`💬 Message sent on application ${conversation.application._id} by ${conversation.role}`);
+  sendSuccessResponse(res, { message: serialized }, 'Message sent successfully', 201);
+}));
+
+// @route   POST /api/messages/application/:applicationId/read
+// @desc    Mark every message received in a conversation as read
+// @access  Private (Applicant and job owner only)
+router.post('/application/:applicationId/read', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const conversation = await getConversation(req.params.applicationId, req.user!._id.toString());
+  const readAt = new Date();
+
+  const result = await Message.updateMany(
+    { application: conversation.application._id, recipient: req.user!._id, readAt: { $exists: false } },
+    { $set: { readAt } }
+  );
+
+  if (result.modifiedCount > 0) {
+    socketManager?.emitMessagesRead(String(conversation.application._id), conversation.userId, conversation.otherPartyId, readAt);
+  }
+
+  sendSuccessResponse(res, { updated: result.modifiedCount, readAt }, 'Messages marked as read');
+}));
+
+export default router;
@@ -1,261 +1,155 @@
 import express from 'express';
 import mongoose from 'mongoose';
-import { Job } from '../models/Job';
-import { User } from '../models/User';
-import { Application } from '../models/Application';
-import { authenticateToken, requireRole, AuthRequest, requireEmployer, requireStudent } from '../middleware/auth';
-import { asyncHandler, sendSuccessResponse, sendErrorResponse, ValidationError } from '../middleware/errorHandler';
+import Notification, { NOTIFICATION_TYPES } from '../models/Notification';
+import { authenticateToken, AuthRequest, requireEmployer, requireStudent } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError, NotFoundError } from '../middleware/errorHandler';
+import { serializeNotification } from '../services/notificationService';
 
 const router = express.Router();
 
-// @route   POST /api/notifications/application-submitted
-// @desc    Send notification to employer when student applies
-// @access  Private (Internal use)
-router.post('/application-submitted', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { jobId, studentId, applicationId } = req.body;
+// Shared inbox handler used by the role-specific and generic list routes
+const listNotifications = (label: string) => asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { unreadOnly = 'false', archived = 'false', type } = req.query;
+  const page = Math.max(Number(req.query.page) || 1, 1);
+  const limit = Math.min(Math.max(Number(req.query.limit) || 10, 1), 100);
 
-  if (!jobId || !studentId || !applicationId) {
-    throw new ValidationError('Missing required fields: jobId, studentId, applicationId');
+  const query: any = {
+    recipient: req.user!._id,
+    isArchived: archived === 'true'
+  };
+
+  if (unreadOnly === 'true') {
+    query.isRead = false;
+  }
+  if (type) {
+    if (!(NOTIFICATION_TYPES as readonly unknown[]).includes(type)) {
+      throw new ValidationError(`type must be one of ${NOTIFICATION_TYPES.join(', ')}`);
+    }
+    query.type = type;
   }
 
-  // Get job and student details
-  const [job, student] = await Promise.all([
-    Job.findById(jobId).populate('employerId', 'name email companyName'),
-    User.findById(studentId)
+  const [notifications, total, unreadCount] = await Promise.all([
+    Notification.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .skip((page - 1) * limit)
+      .lean(),
+    Notification.countDocuments(query),
+    Notification.getUnreadCount(req.user!._id)
   ]);
 
-  if (!job || !student) {
-    throw new ValidationError('Job or student not found');
-  }
+  sendSuccessResponse(res, {
+    notifications: notifications.map(serializeNotification),
+    unreadCount,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  }, `${label} notifications retrieved successfully`);
+});
 
-  // Create notification data
-  const notification = {
-    type: 'application_submitted',
-    title: 'New Job Application',
-    message: `A new student has applied for your job posting: ${job.jobTitle}`,
-    data: {
-      jobId: job._id,
-      jobTitle: job.jobTitle,
-      studentId: student._id,
-      studentName: student.name,
-      studentEmail: student.email,
-      applicationId: applicationId,
-      appliedAt: new Date()
-    },
-    recipientId: job.employerId,
-    recipientType: 'employer',
-    isRead: false,
-    createdAt: new Date()
-  };
+// @route   GET /api/notifications
+// @desc    Get notifications for the current user
+// @access  Private
+router.get('/', authenticateToken, listNotifications('User'));
 
-  // In a real implementation, you would:
-  // 1. Save notification to database
-  // 2. Send email notification
-  // 3. Send push notification
-  // 4. Send real-time notification via WebSocket
+// @route   GET /api/notifications/student
+// @desc    Get notifications for student
+// @access  Private (Students only)
+router.get('/student', authenticateToken, requireStudent, listNotifications('Student'));
 
-  console.log('📧 Notification to Employer:', {
-    employer: (job.employerId as any).name,
-    employerEmail: (job.employerId as any).email,
-    jobTitle: job.jobTitle,
-    studentName: student.name,
-    studentEmail: student.email,
-    message: notification.message
-  });
+// @route   GET /api/notifications/employer
+// @desc    Get notifications for employer
+// @access  Private (Employers only)
+router.get('/employer', authenticateToken, requireEmployer, listNotifications('Employer'));
 
-  sendSuccessResponse(res, { notification }, 'Employer notification sent successfully');
+// @route   GET /api/notifications/unread-count
+// @desc    Get unread notification count for the current user
+// @access  Private
+router.get('/unread-count', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const unreadCount = await Notification.getUnreadCount(req.user!._id);
+
+  sendSuccessResponse(res, { unreadCount }, 'Unread count retrieved successfully');
 }));
 
-// @route   POST /api/notifications/application-approved
-// @desc    Send notification to student when application is approved
-// @access  Private (Internal use)
-router.post('/application-approved', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { jobId, studentId, applicationId, employerId } = req.body;
+// @route   PATCH /api/notifications/read-all
+// @desc    Mark all notifications of the current user as read
+// @access  Private
+router.patch('/read-all', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const updated = await Notification.markAllAsRead(req.user!._id);
 
-  if (!jobId || !studentId || !applicationId || !employerId) {
-    throw new ValidationError('Missing required fields: jobId, studentId, applicationId, employerId');
-  }
+  sendSuccessResponse(res, { updated }, 'All notifications marked as read');
+}));
 
-  // Get job and employer details
-  const [job, employer] = await Promise.all([
-    Job.findById(jobId),
-    User.findById(employerId)
-  ]);
+// @route   PATCH /api/notifications/:notificationId/read
+// @desc    Mark notification as read
+// @access  Private
+router.patch('/:notificationId/read', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { notificationId } = req.params;
 
-  if (!job || !employer) {
-    throw new ValidationError('Job or employer not found');
+  if (!mongoose.isValidObjectId(notificationId)) {
+    throw new ValidationError('Invalid notification ID');
   }
 
-  // Create notification data
-  const notification = {
-    type: 'application_approved',
-    title: 'Application Approved!',
-    message: `Your profile has been shortlisted for the job: ${job.jobTitle}. Wait for employer contact.`,
-    data: {
-      jobId: job._id,
-      jobTitle: job.jobTitle,
-      employerId: employer._id,
-      employerName: employer.name,
-      employerEmail: employer.email,
-      applicationId: applicationId,
-      approvedAt: new Date()
-    },
-    recipientId: studentId,
-    recipientType: 'student',
-    isRead: false,
-    createdAt: new Date()
-  };
+  const notification = await Notification.findOne({ _id: notificationId, recipient: req.user!._id });
+  if (!notification) {
+    throw new NotFoundError('Notification not found');
+  }
 
-  console.log('📧 Notification to Student:', {
-    studentId: studentId,
-    jobTitle: job.jobTitle,
-    employerName: employer.name,
-    employerEmail: employer.email,
-    message: notification.message
-  });
+  await notification.markAsRead();
 
-  sendSuccessResponse(res, { notification }, 'Student notification sent successfully');
+  sendSuccessResponse(res, { notification: serializeNotification(notification) }, 'Notification marked as read');
 }));
 
-// @route   POST /api/notifications/application-rejected
-// @desc    Send notification to student when application is rejected
-// @access  Private (Internal use)
-router.post('/application-rejected', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { jobId, studentId, applicationId, employerId, reason } = req.body;
+// @route   PATCH /api/notifications/:notificationId/archive
+// @desc    Archive a notification
+// @access  Private
+router.patch('/:notificationId/archive', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { notificationId } = req.params;
 
-  if (!jobId || !studentId || !applicationId || !employerId) {
-    throw new ValidationError('Missing required fields: jobId, studentId, applicationId, employerId');
+  if (!mongoose.isValidObjectId(notificationId)) {
+    throw new ValidationError('Invalid notification ID');
   }
 
-  // Get job and employer details
-  const [job, employer] = await Promise.all([
-    Job.findById(jobId),
-    User.findById(employerId)
-  ]);
-
-  if (!job || !employer) {
-    throw new ValidationError('Job or employer not found');
+  const notification = await Notification.findOneAndUpdate(
+    { _id: notificationId, recipient: req.user!._id },
+    { $set: { isArchived: true, archivedAt: new Date() } },
+    { new: true }
+  );
+  if (!notification) {
+    throw new NotFoundError('Notification not found');
   }
 
-  // Create notification data
-  const notification = {
-    type: 'application_rejected',
-    title: 'Application Rejected',
-    message: `Your application was rejected for the job: ${job.jobTitle}. Please review details and apply for other jobs.`,
-    data: {
-      jobId: job._id,
-      jobTitle: job.jobTitle,
-      employerId: employer._id,
-      employerName: employer.name,
-      employerEmail: employer.email,
-      applicationId: applicationId,
-      rejectionReason: reason,
-      rejectedAt: new Date()
-    },
-    recipientId: studentId,
-    recipientType: 'student',
-    isRead: false,
-    createdAt: new Date()
-  };
-
-  console.log('📧 Notification to Student:', {
-    studentId: studentId,
-    jobTitle: job.jobTitle,
-    employerName: employer.name,
-    employerEmail: employer.email,
-    rejectionReason: reason,
-    message: notification.message
-  });
-
-  sendSuccessResponse(res, { notification }, 'Student notification sent successfully');
+  sendSuccessResponse(res, { notification: serializeNotification(notification) }, 'Notification archived');
 }));
 
-// @route   GET /api/notifications/student
-// @desc    Get notifications for student
-// @access  Private (Students only)
-router.get('/student', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { page = 1, limit = 10, unreadOnly = false } = req.query;
-
-  // In a real implementation, you would fetch from a notifications collection
-  // For now, we'll return a mock response
-  const notifications = [
-    {
-      id: '1',
-      type: 'application_approved',
-      title: 'Application Approved!',
-      message: 'Your profile has been shortlisted for the job: Software Developer. Wait for employer contact.',
-      isRead: false,
-      createdAt: new Date()
-    },
-    {
-      id: '2',
-      type: 'application_rejected',
-      title: 'Application Rejected',
-      message: 'Your application was rejected for the job: Data Analyst. Please review details and apply for other jobs.',
-      isRead: true,
-      createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000)
-    }
-  ];
-
-  sendSuccessResponse(res, {
-    notifications,
-    pagination: {
-      page: Number(page),
-      limit: Number(limit),
-      total: notifications.length,
-      pages: Math.ceil(notifications.length / Number(limit))
-    }
-  }, 'Student notifications retrieved successfully');
-}));
+// @route   DELETE /api/notifications/:notificationId
+// @desc    Delete a notification
+// @access  Private
+router.delete('/:notificationId', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { notificationId } = req.params;
 
-// @route   GET /api/notifications/employer
-// @desc    Get notifications for employer
-// @access  Private (Employers only)
-router.get('/employer', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { page = 1, limit = 10, unreadOnly = false } = req.query;
+  if (!mongoose.isValidObjectId(notificationId)) {
+    throw new ValidationError('Invalid notification ID');
+  }
 
-  // In a real implementation, you would fetch from a notifications collection
-  // For now, we'll return a mock response
-  const notifications = [
-    {
-      id: '1',
-      type: 'application_submitted',
-      title: 'New Job Application',
-      message: 'A new student has applied for your job posting: Software Developer',
-      isRead: false,
-      createdAt: new Date()
-    },
-    {
-      id: '2',
-      type: 'application_submitted',
-      title: 'New Job Application',
-      message: 'A new student has applied for your job posting: Data Analyst',
-      isRead: true,
-      createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000)
-    }
-  ];
+  const result = await Notification.deleteOne({ _id: notificationId, recipient: req.user!._id });
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('Notification not found');
+  }
 
-  sendSuccessResponse(res, {
-    notifications,
-    pagination: {
-      page: Number(page),
-      limit: Number(limit),
-      total: notifications.length,
-      pages: Math.ceil(notifications.length / Number(limit))
-    }
-  }, 'Employer notifications retrieved successfully');
+  sendSuccessResponse(res, { notificationId }, 'Notification deleted');
 }));
 
-// @route   PATCH /api/notifications/:notificationId/read
-// @desc    Mark notification as read
+// @route   DELETE /api/notifications
+// @desc    Delete all notifications of the current user
 // @access  Private
-router.patch('/:notificationId/read', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
-  const { notificationId } = req.params;
-
-  // In a real implementation, you would update the notification in the database
-  console.log(`📧 Marking notification ${notificationId} as read for user ${req.user!._id}`);
+router.delete('/', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const result = await Notification.deleteMany({ recipient: req.user!._id });
 
-  sendSuccessResponse(res, { notificationId }, 'Notification marked as read');
+  sendSuccessResponse(res, { deleted: result.deletedCount }, 'All notifications deleted');
 }));
 
 export default router;
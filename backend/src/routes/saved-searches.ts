@@ -0,0 +1,108 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import SavedSearch, { MAX_SAVED_SEARCHES } from '../models/SavedSearch';
+import { authenticateToken, requireStudent, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse, ValidationError, NotFoundError, DuplicateKeyError } from '../middleware/errorHandler';
+import { parseSavedSearchCriteria } from '../services/savedSearchService';
+
+const router = express.Router();
+
+const parseName = (value: unknown): string => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) {
+    throw new ValidationError('Give the search a name');
+  }
+  if (name.length > 60) {
+    throw new ValidationError('Name cannot exceed 60 characters');
+  }
+  return name;
+};
+
+const ensureNameIsFree = async (studentId: mongoose.Types.ObjectId, name: string, exceptId?: string) => {
+  const existing = await SavedSearch.findOne({
+    studentId,
+    name,
+    ...(exceptId && { _id: { $ne: exceptId } })
+  }).select('_id');
+  if (existing) {
+    throw new DuplicateKeyError(`You already have a saved search called "${name}"`);
+  }
+};
+
+const findOwnSearch = async (req: AuthRequest) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    throw new ValidationError('Invalid saved search ID');
+  }
+  const savedSearch = await SavedSearch.findOne({ _id: req.params.id, studentId: req.user!._id });
+  if (!savedSearch) {
+    throw new NotFoundError('Saved search not found');
+  }
+  return savedSearch;
+};
+
+// @route   GET /api/saved-searches
+// @desc    List the current student's saved searches
+// @access  Private (Student only)
+router.get('/', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const savedSearches = await SavedSearch.find({ studentId: req.user!._id }).sort({ createdAt: -1 });
+
+  sendSuccessResponse(res, { savedSearches }, 'Saved searches retrieved successfully');
+}));
+
+// @route   POST /api/saved-searches
+// @desc    Save a named job search ({ name, query, emailAlerts }); query takes the job search parameters
+// @access  Private (Student only)
+router.post('/', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const studentId = req.user!._id as mongoose.Types.ObjectId;
+  const name = parseName(req.body.name);
+  const criteria = parseSavedSearchCriteria(req.body.query);
+
+  const count = await SavedSearch.countDocuments({ studentId });
+  if (count >= MAX_SAVED_SEARCHES) {
+    throw new ValidationError(`You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`);
+  }
+  await ensureNameIsFree(studentId, name);
+
+  const savedSearch = await SavedSearch.create({
+    studentId,
+    name,
+    criteria,
+    emailAlerts: Boolean(req.body.emailAlerts)
+  });
+
+  sendSuccessResponse(res, { savedSearch }, 'Search saved successfully', 201);
+}));
+
+// @route   PATCH /api/saved-searches/:id
+// @desc    Rename a saved search, replace its filters or turn email alerts on/off
+// @access  Private (Student only)
+router.patch('/:id', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const savedSearch = await findOwnSearch(req);
+
+  if (req.body.name !== undefined) {
+    const name = parseName(req.body.name);
+    await ensureNameIsFree(savedSearch.studentId, name, req.params.id);
+    savedSearch.name = name;
+  }
+  if (req.body.query !== undefined) {
+    savedSearch.criteria = parseSavedSearchCriteria(req.body.query);
+  }
+  if (req.body.emailAlerts !== undefined) {
+    savedSearch.emailAlerts = Boolean(req.body.emailAlerts);
+  }
+  await savedSearch.save();
+
+  sendSuccessResponse(res, { savedSearch }, 'Saved search updated successfully');
+}));
+
+// @route   DELETE /api/saved-searches/:id
+// @desc    Delete a saved search and stop its alerts
+// @access  Private (Student only)
+router.delete('/:id', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const savedSearch = await findOwnSearch(req);
+  await savedSearch.deleteOne();
+
+  sendSuccessResponse(res, null, 'Saved search deleted successfully');
+}));
+
+export default router;
@@ -0,0 +1,78 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticateToken, requireEmployer, requireStudent, AuthRequest } from '../middleware/auth';
+import { asyncHandler, sendSuccessResponse } from '../middleware/errorHandler';
+import {
+  generateTimesheet,
+  submitTimesheet,
+  approveTimesheet,
+  disputeTimesheet,
+  adjustTimesheet,
+  listStudentTimesheets,
+  listEmployerTimesheets
+} from '../services/timesheetService';
+
+const router = express.Router();
+
+// @route   GET /api/timesheets/mine
+// @desc    The student's timesheets, newest week first
+// @access  Private (Student only)
+router.get('/mine', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const timesheets = await listStudentTimesheets(req.user!._id as mongoose.Types.ObjectId);
+  sendSuccessResponse(res, { timesheets }, 'Timesheets retrieved successfully');
+}));
+
+// @route   POST /api/timesheets/generate
+// @desc    Build a week's timesheet from the student's check-ins and send it for approval
+// @access  Private (Student only)
+router.post('/generate', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { applicationId, weekStart } = req.body;
+  const timesheet = await generateTimesheet(req.user!._id as mongoose.Types.ObjectId, applicationId, weekStart);
+  sendSuccessResponse(res, { timesheet }, 'Timesheet sent for approval', 201);
+}));
+
+// @route   POST /api/timesheets
+// @desc    Submit a week's hours by hand ({ applicationId, weekStart, lines: [{ date, hours, note }], comment })
+// @access  Private (Student only)
+router.post('/', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { applicationId, weekStart, lines, comment } = req.body;
+  const timesheet = await submitTimesheet(req.user!._id as mongoose.Types.ObjectId, applicationId, { weekStart, lines, comment });
+  sendSuccessResponse(res, { timesheet }, 'Timesheet sent for approval', 201);
+}));
+
+// @route   GET /api/timesheets
+// @desc    Timesheets of the employer's hired students (?status=&jobId=)
+// @access  Private (Employer only)
+router.get('/', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const timesheets = await listEmployerTimesheets(req.user!._id as mongoose.Types.ObjectId, {
+    status: req.query.status,
+    jobId: req.query.jobId
+  });
+  sendSuccessResponse(res, { timesheets }, 'Timesheets retrieved successfully');
+}));
+
+// @route   POST /api/timesheets/:id/approve
+// @desc    Approve a timesheet ({ hourlyRate?, comment? })
+// @access  Private (Employer only)
+router.post('/:id/approve', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const timesheet = await approveTimesheet(req.user!._id as mongoose.Types.ObjectId, req.params.id, req.body);
+  sendSuccessResponse(res, { timesheet }, 'Timesheet approved');
+}));
+
+// @route   POST /api/timesheets/:id/dispute
+// @desc    Send a timesheet back to the student ({ comment })
+// @access  Private (Employer only)
+router.post('/:id/dispute', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const timesheet = await disputeTimesheet(req.user!._id as mongoose.Types.ObjectId, req.params.id, req.body);
+  sendSuccessResponse(res, { timesheet }, 'Timesheet disputed');
+}));
+
+// @route   POST /api/timesheets/:id/adjust
+// @desc    Change the hours of a timesheet ({ lines: [{ date, hours }], comment })
+// @access  Private (Employer only)
+router.post('/:id/adjust', authenticateToken, requireEmployer, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const timesheet = await adjustTimesheet(req.user!._id as mongoose.Types.ObjectId, req.params.id, req.body);
+  sendSuccessResponse(res, { timesheet }, 'Timesheet adjusted');
+}));
+
+export default router;
@@ -1,9 +1,12 @@
 import express from 'express';
 import multer from 'multer';
-import User from '../models/User';
+import User, { NOTIFICATION_CHANNELS, DIGEST_FREQUENCIES, MAX_RESUME_SIZE, resolveNotificationPreferences, resolveDigestFrequency } from '../models/User';
+import { NOTIFICATION_TYPES } from '../models/Notification';
 import { authenticateToken, requireStudent, requireEmployer, AuthRequest } from '../middleware/auth';
 import { asyncHandler, sendSuccessResponse, ValidationError } from '../middleware/errorHandler';
 import { uploadImage, deleteImage } from '../config/cloudinary';
+import { verifyUnsubscribeToken } from '../utils/unsubscribeToken';
+import { addResume, setDefaultResume, removeResume, getOwnResumeLink } from '../services/resumeService';
 
 const router = express.Router();
 
@@ -33,6 +36,16 @@ const upload = multer({
   }
 });
 
+// Resumes stay in memory so their content can be checked before anything is stored;
+// the type is decided by magic bytes in the resume service, not by the mimetype header
+const resumeUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_RESUME_SIZE,
+    files: 1
+  }
+});
+
 // @route   GET /api/users/profile
 // @desc    Get user profile
 // @access  Private
@@ -96,6 +109,153 @@ router.put('/profile', authenticateToken, asyncHandler(async (req: AuthRequest,
   sendSuccessResponse(res, { user }, 'Profile updated successfully');
 }));
 
+// @route   GET /api/users/notification-preferences
+// @desc    Get notification preferences of the current user
+// @access  Private
+router.get('/notification-preferences', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const user = await User.findById(req.user!._id).select('userType notificationPreferences digestFrequency').lean();
+  if (!user) {
+    throw new ValidationError('User not found');
+  }
+
+  sendSuccessResponse(res, {
+    preferences: resolveNotificationPreferences(user.notificationPreferences),
+    digestFrequency: resolveDigestFrequency(user),
+    types: NOTIFICATION_TYPES,
+    channels: NOTIFICATION_CHANNELS,
+    digestFrequencies: DIGEST_FREQUENCIES
+  }, 'Notification preferences retrieved successfully');
+}));
+
+// @route   PUT /api/users/notification-preferences
+// @desc    Update notification preferences (partial: { preferences?: { [type]: { inApp?, email?, digest? } }, digestFrequency? })
+// @access  Private
+router.put('/notification-preferences', authenticateToken, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const { preferences, digestFrequency } = req.body || {};
+
+  if (preferences === undefined && digestFrequency === undefined) {
+    throw new ValidationError('Preferences object or digest frequency is required');
+  }
+  if (preferences !== undefined && (!preferences || typeof preferences !== 'object' || Array.isArray(preferences))) {
+    throw new ValidationError('Preferences must be an object');
+  }
+  if (digestFrequency !== undefined && !(DIGEST_FREQUENCIES as readonly string[]).includes(digestFrequency)) {
+    throw new ValidationError(`Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`);
+  }
+
+  const update: Record<string, boolean | string> = {};
+  if (digestFrequency !== undefined) {
+    update.digestFrequency = digestFrequency;
+  }
+  for (const [type, channels] of Object.entries(preferences || {})) {
+    if (!(NOTIFICATION_TYPES as readonly string[]).includes(type)) {
+      throw new ValidationError(`Unknown notification type: ${type}`);
+    }
+    if (!channels || typeof channels !== 'object') {
+      throw new ValidationError(`Invalid channel settings for ${type}`);
+    }
+    for (const [channel, enabled] of Object.entries(channels as Record<string, unknown>)) {
+      if (!(NOTIFICATION_CHANNELS as readonly string[]).includes(channel)) {
+        throw new ValidationError(`Unknown notification channel: ${channel}`);
+      }
+      if (typeof enabled !== 'boolean') {
+        throw new ValidationError(`${type}.${channel} must be true or false`);
+      }
+      update[`notificationPreferences.${type}.${channel}`] = enabled;
+    }
+  }
+
+  const user = await User.findByIdAndUpdate(
+    req.user!._id,
+    { $set: update },
+    { new: true }
+  ).select('userType notificationPreferences digestFrequency').lean();
+
+  if (!user) {
+    throw new ValidationError('User not found');
+  }
+
+  sendSuccessResponse(res, {
+    preferences: resolveNotificationPreferences(user.notificationPreferences),
+    digestFrequency: resolveDigestFrequency(user)
+  }, 'Notification preferences updated successfully');
+}));
+
+const unsubscribePage = (title: string, body: string) => `
+    <!DOCTYPE html>
+    <html>
+    <head><meta charset="utf-8"><title>${title}</title></head>
+    <body style="font-family: Arial, sans-serif; text-align: center; padding: 40px; color: #333;">
+      <h2>${title}</h2>
+      ${body}
+    </body>
+    </html>
+  `;
+
+const INVALID_UNSUBSCRIBE_LINK = 'This unsubscribe link is invalid or has expired. You can turn emails off in your notification settings.';
+
+// Opening the link only asks for confirmation, so mail scanners and link prefetchers change nothing
+const showUnsubscribeConfirmation = (req: express.Request, res: express.Response) => {
+  const payload = verifyUnsubscribeToken(req.params.token);
+  if (!payload) {
+    res.status(400).send(unsubscribePage('Link expired', `<p>${INVALID_UNSUBSCRIBE_LINK}</p>`));
+    return;
+  }
+
+  const what = payload.channel === 'digest' ? 'digest emails' : 'these emails';
+  res.status(200).send(unsubscribePage('Unsubscribe', `
+      <p>Do you want to stop receiving ${what}?</p>
+      <form method="POST" action="">
+        <button type="submit" style="padding: 10px 20px; font-size: 16px; cursor: pointer;">Unsubscribe</button>
+      </form>
+  `));
+};
+
+// Unsubscribe: the signed token identifies the user, type and channel
+const handleUnsubscribe = asyncHandler(async (req: express.Request, res: express.Response) => {
+  const payload = verifyUnsubscribeToken(req.params.token);
+  if (!payload) {
+    throw new ValidationError(INVALID_UNSUBSCRIBE_LINK);
+  }
+
+  const types = payload.type === 'all' ? NOTIFICATION_TYPES : [payload.type];
+  const update: Record<string, boolean | string> = {};
+  for (const type of types) {
+    update[`notificationPreferences.${type}.${payload.channel}`] = false;
+  }
+  // The link at the bottom of a digest email stops digests altogether
+  if (payload.channel === 'digest' && payload.type === 'all') {
+    update.digestFrequency = 'off';
+  }
+
+  const user = await User.findByIdAndUpdate(payload.userId, { $set: update });
+  if (!user) {
+    throw new ValidationError('User not found');
+  }
+
+  console.log(`🔕 User ${payload.userId} unsubscribed from ${payload.type} (${payload.channel})`);
+
+  // Mail clients post `List-Unsubscribe=One-Click` (RFC 8058); people confirming on the page get a page back
+  if (req.body?.['List-Unsubscribe'] === 'One-Click') {
+    sendSuccessResponse(res, { type: payload.type, channel: payload.channel }, 'Unsubscribed successfully');
+    return;
+  }
+
+  res.status(200).send(unsubscribePage('You have been unsubscribed', `
+      <p>You will no longer receive these emails. You can change this any time in your notification settings.</p>
+  `));
+});
+
+// @route   GET /api/users/unsubscribe/:token
+// @desc    Confirmation page for an unsubscribe link; changes nothing
+// @access  Public (signed token)
+router.get('/unsubscribe/:token', showUnsubscribeConfirmation);
+
+// @route   POST /api/users/unsubscribe/:token
+// @desc    Unsubscribe from an email type: RFC 8058 one-click, or the confirmation page's form
+// @access  Public (signed token)
+router.post('/unsubscribe/:token', handleUnsubscribe);
+
 // @route   GET /api/users/students
 // @desc    Get all students (for employers)
 // @access  Private (Employers only)
@@ -165,6 +325,53 @@ router.get('/employers', authenticateToken, requireStudent, asyncHandler(async (
   }, 'Employers retrieved successfully');
 }));
 
+// @route   GET /api/users/resumes
+// @desc    List the resumes on the student's profile
+// @access  Private (Students only)
+router.get('/resumes', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  sendSuccessResponse(res, { resumes: req.user!.resumes }, 'Resumes retrieved successfully');
+}));
+
+// @route   POST /api/users/resumes
+// @desc    Upload a PDF or DOCX resume to the student's profile
+// @access  Private (Students only)
+router.post('/resumes', authenticateToken, requireStudent, resumeUpload.single('resume'), asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  if (!req.file) {
+    throw new ValidationError('No file uploaded');
+  }
+
+  const resume = await addResume(req.user!, req.file);
+
+  sendSuccessResponse(res, { resume, resumes: req.user!.resumes }, 'Resume uploaded successfully', 201);
+}));
+
+// @route   PUT /api/users/resumes/:resumeId/default
+// @desc    Make a resume the one preselected when applying
+// @access  Private (Students only)
+router.put('/resumes/:resumeId/default', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  await setDefaultResume(req.user!, req.params.resumeId);
+
+  sendSuccessResponse(res, { resumes: req.user!.resumes }, 'Default resume updated');
+}));
+
+// @route   GET /api/users/resumes/:resumeId/download
+// @desc    Get a short-lived download link for one of the student's own resumes
+// @access  Private (Students only)
+router.get('/resumes/:resumeId/download', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  const link = getOwnResumeLink(req.user!, req.params.resumeId);
+
+  sendSuccessResponse(res, link, 'Download link created');
+}));
+
+// @route   DELETE /api/users/resumes/:resumeId
+// @desc    Delete a resume from the student's profile
+// @access  Private (Students only)
+router.delete('/resumes/:resumeId', authenticateToken, requireStudent, asyncHandler(async (req: AuthRequest, res: express.Response) => {
+  await removeResume(req.user!, req.params.resumeId);
+
+  sendSuccessResponse(res, { resumes: req.user!.resumes }, 'Resume deleted successfully');
+}));
+
 // @route   GET /api/users/:id
 // @desc    Get user by ID (public profile)
 // @access  Public
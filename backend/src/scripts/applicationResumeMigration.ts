@@ -0,0 +1,43 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { Application } from '../models/Application';
+
+/**
+ * Application Resume Migration
+ * Applications created before resumes were attached as a snapshot stored
+ * `resume: ''`, the old default. The field is now a subdocument, so those
+ * documents fail validation and cannot be saved (status changes, interviews,
+ * hiring and closing filled jobs all save the application). The empty string
+ * is removed; nothing else is changed.
+ *
+ * Usage: npm run migrate:application-resumes
+ */
+
+interface ApplicationResumeMigrationResult {
+  resumesCleared: number;
+}
+
+export async function runApplicationResumeMigration(): Promise<ApplicationResumeMigrationResult> {
+  console.log('🚀 Starting application resume migration...');
+
+  const cleared = await Application.collection.updateMany(
+    { resume: { $type: 'string' } },
+    { $unset: { resume: '' } }
+  );
+
+  console.log(`✅ Removed the legacy resume string from ${cleared.modifiedCount} application(s)`);
+  return { resumesCleared: cleared.modifiedCount };
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runApplicationResumeMigration();
+    } catch (error) {
+      console.error('❌ Application resume migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
@@ -0,0 +1,82 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { Application } from '../models/Application';
+
+/**
+ * Application Pipeline Migration
+ * Maps the old `accepted` status onto the new pipeline and backfills
+ * status history for applications created before it was recorded.
+ *
+ * Usage: npm run migrate:applications
+ */
+
+interface ApplicationMigrationResult {
+  statusesMapped: number;
+  historiesBackfilled: number;
+}
+
+export async function runApplicationStatusMigration(): Promise<ApplicationMigrationResult> {
+  const result: ApplicationMigrationResult = { statusesMapped: 0, historiesBackfilled: 0 };
+
+  console.log('🚀 Starting application status migration...');
+
+  // Step 1: accepted -> shortlisted (the old approve action meant "shortlisted")
+  const mapped = await Application.collection.updateMany(
+    { status: 'accepted' },
+    { $set: { status: 'shortlisted' } }
+  );
+  result.statusesMapped = mapped.modifiedCount;
+  console.log(`✅ Mapped ${mapped.modifiedCount} accepted application(s) to shortlisted`);
+
+  // Step 2: rebuild a minimal history from the stored stage dates
+  const cursor = Application.collection.find({
+    $or: [{ statusHistory: { $exists: false } }, { statusHistory: { $size: 0 } }]
+  });
+
+  for await (const doc of cursor) {
+    const history: any[] = [{
+      to: 'applied',
+      actor: doc.studentId,
+      actorType: 'student',
+      changedAt: doc.appliedAt || doc.createdAt
+    }];
+
+    const stageDates: Array<[string, Date | undefined]> = [
+      ['shortlisted', doc.shortlistedDate],
+      ['interview', doc.interviewedDate],
+      ['offered', doc.offeredDate],
+      ['hired', doc.hiredDate],
+      ['rejected', doc.rejectedDate],
+      ['withdrawn', doc.withdrawnDate]
+    ];
+    for (const [status, date] of stageDates) {
+      if (date) {
+        history.push({ from: history[history.length - 1].to, to: status, actorType: 'system', changedAt: date });
+      }
+    }
+
+    // Make sure the history ends at the current status
+    if (history[history.length - 1].to !== doc.status) {
+      history.push({ from: history[history.length - 1].to, to: doc.status, actorType: 'system', changedAt: doc.updatedAt || new Date() });
+    }
+
+    await Application.collection.updateOne({ _id: doc._id }, { $set: { statusHistory: history } });
+    result.historiesBackfilled++;
+  }
+
+  console.log(`✅ Backfilled status history for ${result.historiesBackfilled} application(s)`);
+  return result;
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runApplicationStatusMigration();
+    } catch (error) {
+      console.error('❌ Application status migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
@@ -0,0 +1,70 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { Job, JobCategory } from '../models/Job';
+
+/**
+ * Job Category Migration
+ * Gives existing jobs a `category` so category filters and facet counts include them.
+ * The category is guessed from keywords in the title and skills; anything that does
+ * not match is filed under 'Other' and can be corrected by the employer.
+ *
+ * Usage: npm run migrate:categories
+ */
+
+// Checked in order, first match wins
+const CATEGORY_KEYWORDS: Array<[JobCategory, RegExp]> = [
+  ['Data Entry', /data entry|typing|excel|spreadsheet/],
+  ['Graphic Design', /graphic|design|illustrat|photoshop|canva|figma/],
+  ['Content Writing', /writ|content|copy|blog|editor|proofread/],
+  ['Customer Service', /customer|support|call cent|helpdesk|receptionist|front desk/],
+  ['Sales', /sales|business development|telecall|retail|store/],
+  ['Marketing', /marketing|social media|seo|promot|brand|campaign/],
+  ['Teaching', /teach|tutor|trainer|instructor|coach|education/],
+  ['Research', /research|survey|analyst|lab assistant/],
+  ['Technology', /develop|software|engineer|programm|react|node|python|java|web|app|it support|tech/]
+];
+
+const guessCategory = (text: string): JobCategory => {
+  const normalized = text.toLowerCase();
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(normalized))?.[0] || 'Other';
+};
+
+interface CategoryMigrationResult {
+  jobsUpdated: number;
+  byCategory: Record<string, number>;
+}
+
+export async function runCategoryMigration(): Promise<CategoryMigrationResult> {
+  const result: CategoryMigrationResult = { jobsUpdated: 0, byCategory: {} };
+
+  console.log('🚀 Starting job category migration...');
+
+  const cursor = Job.collection.find(
+    { category: { $exists: false } },
+    { projection: { jobTitle: 1, skillsRequired: 1 } }
+  );
+
+  for await (const doc of cursor) {
+    const category = guessCategory([doc.jobTitle, ...(doc.skillsRequired || [])].join(' '));
+    await Job.collection.updateOne({ _id: doc._id }, { $set: { category } });
+    result.jobsUpdated++;
+    result.byCategory[category] = (result.byCategory[category] || 0) + 1;
+  }
+
+  console.log(`✅ Set a category on ${result.jobsUpdated} job(s)`);
+  Object.entries(result.byCategory).forEach(([category, count]) => console.log(`   ${category}: ${count}`));
+  return result;
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runCategoryMigration();
+    } catch (error) {
+      console.error('❌ Job category migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
@@ -0,0 +1,48 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { User, DIGEST_SUMMARY_TYPES } from '../models/User';
+
+/**
+ * Digest Preference Migration
+ * Users created before digests were on by default stored `digest: false` for
+ * every notification type, so the scheduled digests skipped all of them even
+ * though their digest frequency said daily or weekly. Nothing let users change
+ * that flag until now (the settings only offer the frequency, and unsubscribing
+ * from a digest turns the frequency off), so the stored value is the old
+ * default and is switched on for the types the digests summarise.
+ *
+ * Usage: npm run migrate:digest-preferences
+ */
+
+interface DigestPreferenceMigrationResult {
+  usersUpdated: Record<string, number>;
+}
+
+export async function runDigestPreferenceMigration(): Promise<DigestPreferenceMigrationResult> {
+  console.log('🚀 Starting digest preference migration...');
+
+  const usersUpdated: Record<string, number> = {};
+  for (const type of DIGEST_SUMMARY_TYPES) {
+    const updated = await User.collection.updateMany(
+      { [`notificationPreferences.${type}.digest`]: false },
+      { $set: { [`notificationPreferences.${type}.digest`]: true } }
+    );
+    usersUpdated[type] = updated.modifiedCount;
+    console.log(`✅ Turned on the ${type} digest for ${updated.modifiedCount} user(s)`);
+  }
+
+  return { usersUpdated };
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runDigestPreferenceMigration();
+    } catch (error) {
+      console.error('❌ Digest preference migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
@@ -0,0 +1,49 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { EmailOutbox, REDACTED_EMAIL_BODY } from '../models/EmailOutbox';
+
+/**
+ * Email Outbox OTP Migration
+ * OTP emails queued before the outbox knew about one-time codes kept the code
+ * in their body and idempotency key for as long as the row existed. Those rows
+ * are marked sensitive (hidden from admins, never re-sent); the ones already
+ * sent or dead-lettered have their body cleared and their key removed.
+ * Rows still waiting to be sent keep their body until the worker is done.
+ *
+ * Usage: npm run migrate:email-otps
+ */
+
+interface EmailOutboxOtpMigrationResult {
+  marked: number;
+  redacted: number;
+}
+
+export async function runEmailOutboxOtpMigration(): Promise<EmailOutboxOtpMigrationResult> {
+  console.log('🚀 Starting email outbox OTP migration...');
+
+  const otpFilter = { category: { $regex: '^otp_' } };
+  const marked = await EmailOutbox.collection.updateMany(
+    { ...otpFilter, sensitive: { $ne: true } },
+    { $set: { sensitive: true } }
+  );
+  const redacted = await EmailOutbox.collection.updateMany(
+    { ...otpFilter, status: { $in: ['sent', 'dead'] }, html: { $ne: REDACTED_EMAIL_BODY } },
+    { $set: { html: REDACTED_EMAIL_BODY, text: REDACTED_EMAIL_BODY }, $unset: { idempotencyKey: '' } }
+  );
+
+  console.log(`✅ Marked ${marked.modifiedCount} OTP email(s) sensitive and cleared ${redacted.modifiedCount} delivered code(s)`);
+  return { marked: marked.modifiedCount, redacted: redacted.modifiedCount };
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runEmailOutboxOtpMigration();
+    } catch (error) {
+      console.error('❌ Email outbox OTP migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
@@ -0,0 +1,26 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { startEmailOutboxWorker, stopEmailOutboxWorker } from '../services/emailOutbox';
+
+/**
+ * Run the email outbox worker on its own, without the API server.
+ * For local development point it at an SMTP stand-in (e.g. MailHog):
+ *   SMTP_HOST=localhost SMTP_PORT=1025 npm run worker:email
+ */
+const runWorker = async () => {
+  await connectDB();
+  await startEmailOutboxWorker();
+
+  const shutdown = async () => {
+    await stopEmailOutboxWorker();
+    await disconnectDB();
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+};
+
+runWorker().catch((error) => {
+  console.error('❌ Email outbox worker failed to start:', error);
+  process.exit(1);
+});
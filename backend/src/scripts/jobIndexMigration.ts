@@ -0,0 +1,69 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { Job } from '../models/Job';
+import { SavedSearch } from '../models/SavedSearch';
+import { Bookmark } from '../models/Bookmark';
+import { JobInvite } from '../models/JobInvite';
+import { JobTemplate } from '../models/JobTemplate';
+
+/**
+ * Job Index Migration
+ * autoIndex is off, so indexes declared on the Job schema are built here. Job search
+ * needs the `job_text_search` text index: $text queries fail until it exists.
+ * Saved search, bookmark, job invite and job template indexes (one per student or
+ * employer and name / job, alert and reminder lookups) are built alongside.
+ * Existing indexes are left as they are; nothing is dropped.
+ *
+ * Usage: npm run migrate:job-indexes
+ */
+
+interface JobIndexMigrationResult {
+  indexes: string[];
+  savedSearchIndexes: string[];
+  bookmarkIndexes: string[];
+  jobInviteIndexes: string[];
+  jobTemplateIndexes: string[];
+}
+
+export async function runJobIndexMigration(): Promise<JobIndexMigrationResult> {
+  console.log('🚀 Building job indexes...');
+
+  await Job.createIndexes();
+  const indexes = (await Job.collection.indexes()).map(index => index.name || JSON.stringify(index.key));
+
+  console.log(`✅ Job collection has ${indexes.length} index(es): ${indexes.join(', ')}`);
+
+  await SavedSearch.createIndexes();
+  const savedSearchIndexes = (await SavedSearch.collection.indexes()).map(index => index.name || JSON.stringify(index.key));
+
+  console.log(`✅ Saved search collection has ${savedSearchIndexes.length} index(es): ${savedSearchIndexes.join(', ')}`);
+
+  await Bookmark.createIndexes();
+  const bookmarkIndexes = (await Bookmark.collection.indexes()).map(index => index.name || JSON.stringify(index.key));
+
+  console.log(`✅ Bookmark collection has ${bookmarkIndexes.length} index(es): ${bookmarkIndexes.join(', ')}`);
+
+  await JobInvite.createIndexes();
+  const jobInviteIndexes = (await JobInvite.collection.indexes()).map(index => index.name || JSON.stringify(index.key));
+
+  console.log(`✅ Job invite collection has ${jobInviteIndexes.length} index(es): ${jobInviteIndexes.join(', ')}`);
+
+  await JobTemplate.createIndexes();
+  const jobTemplateIndexes = (await JobTemplate.collection.indexes()).map(index => index.name || JSON.stringify(index.key));
+
+  console.log(`✅ Job template collection has ${jobTemplateIndexes.length} index(es): ${jobTemplateIndexes.join(', ')}`);
+  return { indexes, savedSearchIndexes, bookmarkIndexes, jobInviteIndexes, jobTemplateIndexes };
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runJobIndexMigration();
+    } catch (error) {
+      console.error('❌ Job index migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
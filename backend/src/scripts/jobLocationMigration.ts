@@ -0,0 +1,58 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { Job } from '../models/Job';
+import { getEmployerPoint } from '../services/jobLocationService';
+
+/**
+ * Job Location Migration
+ * Sets `locationPoint` on existing jobs from the employer's KYC coordinates so they
+ * show up in "jobs near me" searches. Jobs whose employer has no valid coordinates
+ * are left without a point and only match searches without a radius.
+ *
+ * Usage: npm run migrate:job-locations
+ */
+
+interface JobLocationMigrationResult {
+  jobsUpdated: number;
+  jobsSkipped: number;
+}
+
+export async function runJobLocationMigration(): Promise<JobLocationMigrationResult> {
+  const result: JobLocationMigrationResult = { jobsUpdated: 0, jobsSkipped: 0 };
+
+  console.log('🚀 Starting job location migration...');
+
+  const employerIds = await Job.collection.distinct('employerId', { locationPoint: { $exists: false } });
+
+  for (const employerId of employerIds) {
+    const point = await getEmployerPoint(employerId);
+    const filter = { employerId, locationPoint: { $exists: false } };
+
+    if (!point) {
+      result.jobsSkipped += await Job.collection.countDocuments(filter);
+      continue;
+    }
+
+    const update = await Job.collection.updateMany(filter, { $set: { locationPoint: point } });
+    result.jobsUpdated += update.modifiedCount;
+  }
+
+  console.log(`✅ Set a location on ${result.jobsUpdated} job(s)`);
+  if (result.jobsSkipped > 0) {
+    console.warn(`⚠️ ${result.jobsSkipped} job(s) skipped: their employer has no KYC coordinates`);
+  }
+  return result;
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runJobLocationMigration();
+    } catch (error) {
+      console.error('❌ Job location migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
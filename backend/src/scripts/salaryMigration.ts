@@ -0,0 +1,62 @@
+import { connectDB, disconnectDB } from '../config/database';
+import { Job } from '../models/Job';
+import { parseSalaryText } from '../utils/salary';
+
+/**
+ * Structured Salary Migration
+ * Parses the free-text `salaryRange` of existing jobs into `salary`
+ * ({ min, max, currency, period }) so they can be filtered and sorted by pay.
+ * The original text is kept as the display string.
+ *
+ * Usage: npm run migrate:salary
+ */
+
+interface SalaryMigrationResult {
+  jobsParsed: number;
+  jobsSkipped: number;
+  unparsed: Array<{ jobId: string; salaryRange: string }>;
+}
+
+export async function runSalaryMigration(): Promise<SalaryMigrationResult> {
+  const result: SalaryMigrationResult = { jobsParsed: 0, jobsSkipped: 0, unparsed: [] };
+
+  console.log('🚀 Starting salary migration...');
+
+  const cursor = Job.collection.find(
+    { salary: { $exists: false } },
+    { projection: { salaryRange: 1 } }
+  );
+
+  for await (const doc of cursor) {
+    const salary = parseSalaryText(doc.salaryRange || '');
+    if (!salary) {
+      result.jobsSkipped++;
+      result.unparsed.push({ jobId: doc._id.toString(), salaryRange: doc.salaryRange || '' });
+      continue;
+    }
+
+    await Job.collection.updateOne({ _id: doc._id }, { $set: { salary } });
+    result.jobsParsed++;
+  }
+
+  console.log(`✅ Parsed salary for ${result.jobsParsed} job(s)`);
+  if (result.unparsed.length > 0) {
+    console.warn(`⚠️ Could not parse ${result.unparsed.length} salary string(s), left for manual review:`);
+    result.unparsed.forEach(job => console.warn(`   ${job.jobId}: "${job.salaryRange}"`));
+  }
+  return result;
+}
+
+if (require.main === module) {
+  (async () => {
+    try {
+      await connectDB();
+      await runSalaryMigration();
+    } catch (error) {
+      console.error('❌ Salary migration failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await disconnectDB();
+    }
+  })();
+}
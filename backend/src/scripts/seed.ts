@@ -124,7 +124,6 @@ const seedData = async () => {
       job: job1._id,
       student: student._id,
       coverLetter: 'I am excited to apply for this position. I have experience with React and would love to learn more.',
-      resume: 'resume_john_doe.pdf',
       status: 'shortlisted',
       appliedDate: new Date('2024-01-15')
     });
@@ -133,7 +132,6 @@ const seedData = async () => {
       job: job2._id,
       student: student._id,
       coverLetter: 'I believe my skills and experience make me a great fit for this role.',
-      resume: 'resume_john_doe.pdf',
       status: 'pending',
       appliedDate: new Date('2024-01-14')
     });
@@ -0,0 +1,568 @@
+import mongoose from 'mongoose';
+import Attendance, { IAttendance, ATTENDANCE_GEOFENCE_METERS, MAX_ATTENDANCE_HOURS } from '../models/Attendance';
+import Application, { IApplication } from '../models/Application';
+import Job, { IJob } from '../models/Job';
+import Timesheet from '../models/Timesheet';
+import User from '../models/User';
+import { IShift } from '../models/ShiftSchedule';
+import { IGeoPoint } from '../models/GeoPoint';
+import { getEmployerPoint } from './jobLocationService';
+import { recordTaskEarning } from './ledgerService';
+import { shiftName, shiftOccurrences, todayInIndia } from './shiftService';
+import { distanceBetweenKm, parseCoordinatesInput } from '../utils/geo';
+import { ValidationError, NotFoundError } from '../middleware/errorHandler';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DUPLICATE_KEY_ERROR = 11000;
+// Device clocks drift; times a little ahead of the server are still accepted
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Recent entries shown per engagement on the student dashboard
+const RECENT_ENTRIES = 5;
+// Default window of the employer's attendance view
+const DEFAULT_ATTENDANCE_DAYS = 30;
+
+export interface DeviceLocationInput {
+  latitude?: unknown;
+  longitude?: unknown;
+}
+
+export interface CheckInInput extends DeviceLocationInput {
+  shiftId?: unknown;
+}
+
+// Employers record a check-in or check-out the geofence refused, or correct one
+export interface AttendanceOverrideInput {
+  checkInAt?: unknown;
+  checkOutAt?: unknown;
+  shiftId?: unknown;
+  reason?: unknown;
+}
+
+export interface TodayShift {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface StudentEngagement {
+  applicationId: mongoose.Types.ObjectId;
+  job: { _id: mongoose.Types.ObjectId; jobTitle: string; companyName: string; location?: string };
+  hiredDate?: Date;
+  completedDate?: Date;
+  todayShifts: TodayShift[]; // Rostered shifts running today
+  openEntry?: IAttendance;
+  recentEntries: IAttendance[];
+  totalHours: number;
+}
+
+export interface EmployerEngagement {
+  applicationId: mongoose.Types.ObjectId;
+  student: { _id: mongoose.Types.ObjectId; name: string; email: string };
+  assignedShiftIds: mongoose.Types.ObjectId[];
+  hiredDate?: Date;
+  completedDate?: Date;
+  totalHours: number;
+  entries: IAttendance[];
+}
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+export const hoursBetween = (from: Date, to: Date): number => roundHours((to.getTime() - from.getTime()) / HOUR_MS);
+
+const occursOn = (shift: IShift, date: string) => shiftOccurrences(shift, date)[0] === date;
+
+const isRostered = (application: IApplication, shift: IShift) =>
+  (application.assignedShiftIds || []).some(id => String(id) === String(shift._id));
+
+const parseReason = (value: unknown): string => {
+  const reason = typeof value === 'string' ? value.trim() : '';
+  if (!reason) {
+    throw new ValidationError('Give a reason for recording attendance by hand');
+  }
+  if (reason.length > 300) {
+    throw new ValidationError('Reason cannot exceed 300 characters');
+  }
+  return reason;
+};
+
+const parsePunchTime = (value: unknown, label: string): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const at = new Date(String(value));
+  if (isNaN(at.getTime())) {
+    throw new ValidationError(`${label} must be a valid date and time`);
+  }
+  if (at.getTime() > Date.now() + CLOCK_SKEW_MS) {
+    throw new ValidationError(`${label} cannot be in the future`);
+  }
+  return at;
+};
+
+const ensureHoursInRange = (checkInAt: Date, checkOutAt: Date) => {
+  if (checkOutAt <= checkInAt) {
+    throw new ValidationError('Check-out must be after check-in');
+  }
+  if (hoursBetween(checkInAt, checkOutAt) > MAX_ATTENDANCE_HOURS) {
+    throw new ValidationError(`One entry can cover at most ${MAX_ATTENDANCE_HOURS} hours`);
+  }
+};
+
+// The Indian calendar day a punch falls on
+const indianDateOf = (at: Date): string => at.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' });
+
+/**
+ * Check a device position against the geofence around the employer's KYC location
+ * and return how far away it is, in metres. Employers without a location on file
+ * have to record attendance themselves.
+ */
+export const checkGeofence = async (
+  employerId: mongoose.Types.ObjectId,
+  input: DeviceLocationInput
+): Promise<{ location: IGeoPoint; distanceMeters: number }> => {
+  const location = parseCoordinatesInput(input.latitude, input.longitude);
+  if (!location) {
+    throw new ValidationError('Share your device location to check in or out');
+  }
+
+  const workplace = await getEmployerPoint(employerId);
+  if (!workplace) {
+    throw new ValidationError('Your employer has not added a business location yet. Ask them to record your attendance');
+  }
+
+  const distanceMeters = Math.round(distanceBetweenKm(workplace, location) * 1000);
+  if (distanceMeters > ATTENDANCE_GEOFENCE_METERS) {
+    const away = distanceMeters >= 1000 ? `${(distanceMeters / 1000).toFixed(1)} km` : `${distanceMeters} m`;
+    throw new ValidationError(
+      `You are ${away} from the workplace. Check in within ${ATTENDANCE_GEOFENCE_METERS} m, or ask your employer to record your attendance`
+    );
+  }
+  return { location, distanceMeters };
+};
+
+/**
+ * Work out which shift an entry belongs to. An explicit pick must run on the date;
+ * students must also be rostered on it. Without a pick, a student's single rostered
+ * shift that day is used. Jobs without shifts, and students not on the roster yet,
+ * log hours against no shift.
+ */
+export const resolveAttendanceShift = (
+  job: IJob,
+  application: IApplication,
+  input: unknown,
+  date: string,
+  byStudent: boolean
+): mongoose.Types.ObjectId | undefined => {
+  if (job.shifts.length === 0) return undefined;
+  const rostered = job.shifts.some(shift => isRostered(application, shift));
+
+  if (input !== undefined && input !== null && input !== '') {
+    const index = job.shifts.findIndex(shift => String(shift._id) === String(input));
+    if (index === -1) {
+      throw new ValidationError('Shift not found on this job');
+    }
+    const shift = job.shifts[index];
+    if (byStudent && rostered && !isRostered(application, shift)) {
+      throw new ValidationError(`You are not on the roster for ${shiftName(shift, index)}`);
+    }
+    if (!occursOn(shift, date)) {
+      throw new ValidationError(`${shiftName(shift, index)} does not run on ${date}`);
+    }
+    return shift._id;
+  }
+
+  if (!rostered) return undefined;
+  const running = job.shifts.filter(shift => isRostered(application, shift) && occursOn(shift, date));
+  if (running.length === 1) return running[0]._id;
+  if (!byStudent) return undefined;
+  throw new ValidationError(
+    running.length === 0 ? 'You have no shift on the roster today' : 'Pick the shift you are checking in for'
+  );
+};
+
+// Entries of an engagement must not cover the same time twice
+const ensureNoOverlap = async (
+  applicationId: mongoose.Types.ObjectId,
+  checkInAt: Date,
+  checkOutAt: Date | undefined,
+  exceptId?: mongoose.Types.ObjectId
+): Promise<void> => {
+  const clash = await Attendance.findOne({
+    applicationId,
+    ...(exceptId && { _id: { $ne: exceptId } }),
+    ...(checkOutAt && { 'checkIn.at': { $lt: checkOutAt } }),
+    $or: [{ status: 'open' }, { 'checkOut.at': { $gt: checkInAt } }]
+  }).select('date');
+  if (clash) {
+    throw new ValidationError(`This overlaps another attendance entry on ${clash.date}`);
+  }
+};
+
+const loadJob = async (jobId: mongoose.Types.ObjectId): Promise<IJob> => {
+  const job = await Job.findById(jobId);
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+  return job;
+};
+
+// A hired application of the student
+export const findStudentEngagement = async (
+  studentId: mongoose.Types.ObjectId,
+  applicationId: unknown
+): Promise<IApplication> => {
+  if (!mongoose.Types.ObjectId.isValid(String(applicationId))) {
+    throw new ValidationError('Invalid application ID');
+  }
+  const application = await Application.findOne({ _id: applicationId, studentId, status: 'hired' });
+  if (!application) {
+    throw new NotFoundError('No job you were hired for matches this application');
+  }
+  return application;
+};
+
+// A hired application on one of the employer's jobs, with the job
+export const findEmployerEngagement = async (
+  employerId: mongoose.Types.ObjectId,
+  applicationId: string
+): Promise<{ application: IApplication; job: IJob }> => {
+  if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+    throw new ValidationError('Invalid application ID');
+  }
+  const application = await Application.findOne({ _id: applicationId, status: 'hired' });
+  const job = application && await Job.findOne({ _id: application.jobId, employerId });
+  if (!application || !job) {
+    throw new NotFoundError('No hired student matches this application');
+  }
+  return { application, job };
+};
+
+export const findEmployerEntry = async (employerId: mongoose.Types.ObjectId, attendanceId: string): Promise<IAttendance> => {
+  if (!mongoose.Types.ObjectId.isValid(attendanceId)) {
+    throw new ValidationError('Invalid attendance ID');
+  }
+  const entry = await Attendance.findOne({ _id: attendanceId, employerId });
+  if (!entry) {
+    throw new NotFoundError('Attendance entry not found');
+  }
+  return entry;
+};
+
+// completedJobs counts the student's hired engagements their employers marked as done
+export const refreshCompletedJobs = async (studentId: mongoose.Types.ObjectId): Promise<number> => {
+  const completedJobs = await Application.countDocuments({
+    studentId,
+    status: 'hired',
+    completedDate: { $exists: true }
+  });
+  await User.updateOne({ _id: studentId }, { $set: { completedJobs } });
+  return completedJobs;
+};
+
+// autoIndex is off globally; one_open_entry_per_application is what stops double check-ins
+export const ensureAttendanceIndexes = async (): Promise<void> => {
+  try {
+    await Attendance.createIndexes();
+  } catch (error) {
+    console.error('❌ Failed to create attendance indexes:', error);
+  }
+};
+
+// Student check-in from inside the geofence, against today's rostered shift
+export const checkIn = async (
+  studentId: mongoose.Types.ObjectId,
+  applicationId: unknown,
+  input: CheckInInput
+): Promise<IAttendance> => {
+  const application = await findStudentEngagement(studentId, applicationId);
+  if (application.completedDate) {
+    throw new ValidationError('This job has been marked as completed');
+  }
+  const open = await Attendance.findOne({ applicationId: application._id, status: 'open' }).select('_id');
+  if (open) {
+    throw new ValidationError('You are already checked in. Check out first');
+  }
+
+  const job = await loadJob(application.jobId);
+  const date = todayInIndia();
+  const shiftId = resolveAttendanceShift(job, application, input.shiftId, date, true);
+  const { location, distanceMeters } = await checkGeofence(job.employerId, input);
+
+  let entry: IAttendance;
+  try {
+    entry = await Attendance.create({
+      applicationId: application._id,
+      jobId: job._id,
+      studentId,
+      employerId: job.employerId,
+      shiftId,
+      date,
+      checkIn: { at: new Date(), location, distanceMeters }
+    });
+  } catch (error: any) {
+    // A second tap raced the first; the one_open_entry_per_application index kept one
+    if (error?.code === DUPLICATE_KEY_ERROR) {
+      throw new ValidationError('You are already checked in. Check out first');
+    }
+    throw error;
+  }
+  console.log(`🟢 Student ${studentId} checked in for job ${job._id} (${distanceMeters} m from the workplace)`);
+  return entry;
+};
+
+// Student check-out of their open entry, again from inside the geofence
+export const checkOut = async (
+  studentId: mongoose.Types.ObjectId,
+  applicationId: unknown,
+  input: DeviceLocationInput
+): Promise<IAttendance> => {
+  const application = await findStudentEngagement(studentId, applicationId);
+  const entry = await Attendance.findOne({ applicationId: application._id, status: 'open' });
+  if (!entry) {
+    throw new ValidationError('You are not checked in');
+  }
+
+  const now = new Date();
+  if (hoursBetween(entry.checkIn.at, now) > MAX_ATTENDANCE_HOURS) {
+    throw new ValidationError(
+      `You checked in more than ${MAX_ATTENDANCE_HOURS} hours ago. Ask your employer to record your check-out`
+    );
+  }
+  const { location, distanceMeters } = await checkGeofence(entry.employerId, input);
+
+  entry.checkOut = { at: now, location, distanceMeters };
+  entry.hours = hoursBetween(entry.checkIn.at, now);
+  entry.status = 'completed';
+  await entry.save();
+  console.log(`🔴 Student ${studentId} checked out of job ${entry.jobId} after ${entry.hours} h`);
+  return entry;
+};
+
+// Hours in a week whose timesheet is approved are already in the ledger; changing them
+// would leave the attendance record and the student's earnings apart
+const ensureWeeksOpen = async (applicationId: mongoose.Types.ObjectId, dates: string[]): Promise<void> => {
+  const approved = await Timesheet.findOne({
+    applicationId,
+    status: 'approved',
+    $or: dates.map(date => ({ weekStart: { $lte: date }, weekEnd: { $gte: date } }))
+  }).select('weekStart');
+  if (approved) {
+    throw new ValidationError(`The timesheet for the week of ${approved.weekStart} is already approved, so its attendance can no longer be changed`);
+  }
+};
+
+/**
+ * Record an entry on the student's behalf, e.g. when their phone has no location or
+ * the employer has none on file. Without checkInAt the student is checked in now;
+ * without checkOutAt the entry stays open for the student to check out.
+ */
+export const recordAttendance = async (
+  employerId: mongoose.Types.ObjectId,
+  applicationId: string,
+  input: AttendanceOverrideInput
+): Promise<IAttendance> => {
+  const { application, job } = await findEmployerEngagement(employerId, applicationId);
+  const reason = parseReason(input.reason);
+  const checkInAt = parsePunchTime(input.checkInAt, 'checkInAt') || new Date();
+  const checkOutAt = parsePunchTime(input.checkOutAt, 'checkOutAt');
+  if (checkOutAt) {
+    ensureHoursInRange(checkInAt, checkOutAt);
+  }
+  await ensureNoOverlap(application._id as mongoose.Types.ObjectId, checkInAt, checkOutAt);
+
+  const date = indianDateOf(checkInAt);
+  await ensureWeeksOpen(application._id as mongoose.Types.ObjectId, [date]);
+  const override = { overriddenBy: employerId, overrideReason: reason };
+  const entry = await Attendance.create({
+    applicationId: application._id,
+    jobId: job._id,
+    studentId: application.studentId,
+    employerId,
+    shiftId: resolveAttendanceShift(job, application, input.shiftId, date, false),
+    date,
+    checkIn: { at: checkInAt, ...override },
+    ...(checkOutAt && {
+      checkOut: { at: checkOutAt, ...override },
+      hours: hoursBetween(checkInAt, checkOutAt),
+      status: 'completed'
+    })
+  });
+  console.log(`✍️ Employer ${employerId} recorded attendance ${entry._id} for application ${application._id}`);
+  return entry;
+};
+
+/**
+ * Correct the times of an entry, or check out one the student left open. The
+ * student's own punch time is kept as originalAt the first time it is changed.
+ */
+export const overrideAttendance = async (
+  employerId: mongoose.Types.ObjectId,
+  attendanceId: string,
+  input: AttendanceOverrideInput
+): Promise<IAttendance> => {
+  const entry = await findEmployerEntry(employerId, attendanceId);
+  const reason = parseReason(input.reason);
+  const checkInAt = parsePunchTime(input.checkInAt, 'checkInAt');
+  const checkOutAt = parsePunchTime(input.checkOutAt, 'checkOutAt');
+  if (!checkInAt && !checkOutAt) {
+    throw new ValidationError('Give a corrected checkInAt or checkOutAt');
+  }
+
+  const nextIn = checkInAt || entry.checkIn.at;
+  const nextOut = checkOutAt || entry.checkOut?.at;
+  if (nextOut) {
+    ensureHoursInRange(nextIn, nextOut);
+  }
+  await ensureNoOverlap(entry.applicationId, nextIn, nextOut, entry._id as mongoose.Types.ObjectId);
+  // Both the week the entry is in and the week a new check-in time would move it to
+  await ensureWeeksOpen(entry.applicationId, [entry.date, indianDateOf(nextIn)]);
+
+  const correct = (punch: IAttendance['checkIn'] | undefined, at: Date) => ({
+    ...(punch && { location: punch.location, distanceMeters: punch.distanceMeters }),
+    at,
+    originalAt: punch?.originalAt || (punch && !punch.overriddenBy ? punch.at : undefined),
+    overriddenBy: employerId,
+    overrideReason: reason
+  });
+  if (checkInAt) {
+    entry.checkIn = correct(entry.checkIn, checkInAt);
+    entry.date = indianDateOf(checkInAt);
+  }
+  if (checkOutAt) {
+    entry.checkOut = correct(entry.checkOut, checkOutAt);
+  }
+  if (nextOut) {
+    entry.hours = hoursBetween(nextIn, nextOut);
+    entry.status = 'completed';
+  }
+  await entry.save();
+  console.log(`✍️ Employer ${employerId} corrected attendance ${entry._id}: ${reason}`);
+  return entry;
+};
+
+/**
+ * Mark a hired engagement as done once its hours are in, and recount the
+ * student's completedJobs. A per-task job's pay is posted to the ledger.
+ */
+export const completeEngagement = async (
+  employerId: mongoose.Types.ObjectId,
+  applicationId: string
+): Promise<{ application: IApplication; completedJobs: number }> => {
+  const { application, job } = await findEmployerEngagement(employerId, applicationId);
+  if (application.completedDate) {
+    throw new ValidationError('This engagement is already marked as completed');
+  }
+
+  const [open, worked] = await Promise.all([
+    Attendance.exists({ applicationId: application._id, status: 'open' }),
+    Attendance.exists({ applicationId: application._id, status: 'completed' })
+  ]);
+  if (open) {
+    throw new ValidationError('The student is still checked in. Record their check-out first');
+  }
+  if (!worked) {
+    throw new ValidationError('No hours have been recorded for this student yet');
+  }
+
+  application.completedDate = new Date();
+  await application.save();
+  const completedJobs = await refreshCompletedJobs(application.studentId);
+  // Per-task jobs are paid on completion rather than through timesheets
+  await recordTaskEarning(application, job);
+  console.log(`🏁 Engagement ${application._id} completed; student ${application.studentId} has ${completedJobs} completed job(s)`);
+  return { application, completedJobs };
+};
+
+const sumHours = async (applicationIds: mongoose.Types.ObjectId[]): Promise<Map<string, number>> => {
+  const rows = await Attendance.aggregate<{ _id: mongoose.Types.ObjectId; hours: number }>([
+    { $match: { applicationId: { $in: applicationIds }, status: 'completed' } },
+    { $group: { _id: '$applicationId', hours: { $sum: '$hours' } } }
+  ]);
+  return new Map(rows.map(row => [String(row._id), roundHours(row.hours)]));
+};
+
+// The student's hired jobs with today's shifts, an open entry to check out of and recent hours
+export const listStudentEngagements = async (studentId: mongoose.Types.ObjectId): Promise<StudentEngagement[]> => {
+  const applications = await Application.find({ studentId, status: 'hired' })
+    .select('jobId assignedShiftIds hiredDate completedDate')
+    .sort({ hiredDate: -1 });
+  if (applications.length === 0) return [];
+
+  const ids = applications.map(app => app._id as mongoose.Types.ObjectId);
+  const [jobs, entries, totals] = await Promise.all([
+    Job.find({ _id: { $in: applications.map(app => app.jobId) } }).select('jobTitle companyName location shifts'),
+    Attendance.find({
+      applicationId: { $in: ids },
+      $or: [{ status: 'open' }, { 'checkIn.at': { $gte: new Date(Date.now() - 14 * 24 * HOUR_MS) } }]
+    }).sort({ 'checkIn.at': -1 }),
+    sumHours(ids)
+  ]);
+
+  const today = todayInIndia();
+  return applications.flatMap(app => {
+    const job = jobs.find(j => String(j._id) === String(app.jobId));
+    if (!job) return [];
+    const own = entries.filter(entry => String(entry.applicationId) === String(app._id));
+    return [{
+      applicationId: app._id as mongoose.Types.ObjectId,
+      job: { _id: job._id as mongoose.Types.ObjectId, jobTitle: job.jobTitle, companyName: job.companyName, location: job.location },
+      hiredDate: app.hiredDate,
+      completedDate: app.completedDate,
+      todayShifts: job.shifts
+        .map((shift, index) => ({ shift, index }))
+        .filter(({ shift }) => isRostered(app, shift) && occursOn(shift, today))
+        .map(({ shift, index }) => ({
+          _id: shift._id as mongoose.Types.ObjectId,
+          name: shiftName(shift, index),
+          startTime: shift.startTime,
+          endTime: shift.endTime
+        })),
+      openEntry: own.find(entry => entry.status === 'open'),
+      recentEntries: own.filter(entry => entry.status === 'completed').slice(0, RECENT_ENTRIES),
+      totalHours: totals.get(String(app._id)) || 0
+    }];
+  });
+};
+
+// Hired students of a job with their entries between two dates (the last 30 days by default)
+export const listJobAttendance = async (
+  job: IJob,
+  range: { from?: unknown; to?: unknown } = {}
+): Promise<{ from: string; to: string; engagements: EmployerEngagement[] }> => {
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  const to = typeof range.to === 'string' && datePattern.test(range.to) ? range.to : todayInIndia();
+  const from = typeof range.from === 'string' && datePattern.test(range.from)
+    ? range.from
+    : indianDateOf(new Date(Date.now() - DEFAULT_ATTENDANCE_DAYS * 24 * HOUR_MS));
+  if (from > to) {
+    throw new ValidationError('from must be on or before to');
+  }
+
+  const applications = await Application.find({ jobId: job._id, status: 'hired' })
+    .select('studentId assignedShiftIds hiredDate completedDate')
+    .populate('studentId', 'name email')
+    .sort({ hiredDate: 1 })
+    .lean();
+  const ids = applications.map(app => app._id as mongoose.Types.ObjectId);
+  const [entries, totals] = await Promise.all([
+    Attendance.find({ applicationId: { $in: ids }, date: { $gte: from, $lte: to } }).sort({ 'checkIn.at': -1 }),
+    sumHours(ids)
+  ]);
+
+  return {
+    from,
+    to,
+    engagements: applications.map((app: any) => ({
+      applicationId: app._id,
+      student: {
+        _id: app.studentId?._id,
+        name: app.studentId?.name || 'Student',
+        email: app.studentId?.email || ''
+      },
+      assignedShiftIds: app.assignedShiftIds || [],
+      hiredDate: app.hiredDate,
+      completedDate: app.completedDate,
+      totalHours: totals.get(String(app._id)) || 0,
+      entries: entries.filter(entry => String(entry.applicationId) === String(app._id))
+    }))
+  };
+};
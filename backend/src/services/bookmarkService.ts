@@ -0,0 +1,145 @@
+import mongoose from 'mongoose';
+import Bookmark, { BookmarkJobState } from '../models/Bookmark';
+import Job, { IJob } from '../models/Job';
+import Application from '../models/Application';
+import SocketManager from '../utils/socketManager';
+import { dispatchNotification } from './notificationDispatcher';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Students are reminded once a bookmarked job's deadline is this close
+export const DEADLINE_REMINDER_MS = 24 * 60 * 60 * 1000;
+
+const BOOKMARK_JOB_FIELDS = 'jobTitle companyName location salaryRange salary workType category status approvalStatus applicationDeadline employerId createdAt';
+
+// Where a bookmarked job stands; a missing job was deleted by its employer or an admin
+export const getBookmarkJobState = (
+  job: Pick<IJob, 'status' | 'approvalStatus' | 'applicationDeadline'> | null | undefined,
+  now: Date = new Date()
+): BookmarkJobState => {
+  if (!job) return 'removed';
+  if (job.status === 'closed' || job.approvalStatus === 'rejected') return 'closed';
+  if (job.status === 'expired' || (job.applicationDeadline && job.applicationDeadline < now)) return 'expired';
+  if (job.status !== 'active' || job.approvalStatus !== 'approved') return 'paused';
+  return 'open';
+};
+
+// A student's bookmarks, newest first, each with the job's current state
+export const listBookmarks = async (studentId: mongoose.Types.ObjectId | string) => {
+  const bookmarks = await Bookmark.find({ studentId }).sort({ createdAt: -1 }).lean();
+
+  // Looked up separately so a deleted job still leaves its id on the bookmark
+  const jobs = await Job.find({ _id: { $in: bookmarks.map(bookmark => bookmark.jobId) } })
+    .select(BOOKMARK_JOB_FIELDS)
+    .populate('employerId', 'name companyName')
+    .lean();
+  const jobsById = new Map(jobs.map(job => [String(job._id), job]));
+
+  const now = new Date();
+  return bookmarks.map(bookmark => {
+    const job = jobsById.get(String(bookmark.jobId)) || null;
+    return {
+      _id: bookmark._id,
+      jobId: bookmark.jobId,
+      job,
+      jobSnapshot: bookmark.jobSnapshot,
+      state: getBookmarkJobState(job, now),
+      applicationDeadline: job?.applicationDeadline,
+      savedAt: bookmark.createdAt
+    };
+  });
+};
+
+/**
+ * Remind students of bookmarked jobs whose application deadline is within the next
+ * 24 hours. Students who already applied are skipped. Each bookmark is reminded once
+ * per deadline, so a job whose deadline is extended gets a fresh reminder.
+ */
+export const runBookmarkReminders = async (socketManager?: SocketManager, now: Date = new Date()): Promise<number> => {
+  const closingJobs = await Job.find({
+    status: 'active',
+    approvalStatus: 'approved',
+    applicationDeadline: { $gt: now, $lte: new Date(now.getTime() + DEADLINE_REMINDER_MS) }
+  }).select('jobTitle companyName location applicationDeadline');
+  if (closingJobs.length === 0) return 0;
+
+  let sent = 0;
+  for (const job of closingJobs) {
+    const bookmarks = await Bookmark.find({
+      jobId: job._id,
+      remindedForDeadline: { $ne: job.applicationDeadline }
+    }).select('studentId');
+    if (bookmarks.length === 0) continue;
+
+    const applied = await Application.find({
+      jobId: job._id,
+      studentId: { $in: bookmarks.map(bookmark => bookmark.studentId) }
+    }).distinct('studentId');
+    const appliedIds = new Set(applied.map(id => String(id)));
+
+    for (const bookmark of bookmarks) {
+      // Claim the reminder first so overlapping runs do not send it twice
+      const claimed = await Bookmark.updateOne(
+        { _id: bookmark._id, remindedForDeadline: { $ne: job.applicationDeadline } },
+        { $set: { remindedForDeadline: job.applicationDeadline } }
+      );
+      const studentId = String(bookmark.studentId);
+      if (claimed.modifiedCount === 0 || appliedIds.has(studentId)) continue;
+
+      const deadline = job.applicationDeadline.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Kolkata' });
+      await dispatchNotification({
+        recipient: studentId,
+        recipientType: 'student',
+        type: 'bookmark_deadline_reminder',
+        title: 'Saved Job Closing Soon',
+        message: `Applications for "${job.jobTitle}" at ${job.companyName} close on ${deadline}`,
+        payload: {
+          jobId: job._id,
+          jobTitle: job.jobTitle,
+          companyName: job.companyName,
+          applicationDeadline: job.applicationDeadline
+        },
+        realtime: () => socketManager?.notifyBookmarkDeadline({
+          id: job._id,
+          jobTitle: job.jobTitle,
+          companyName: job.companyName,
+          location: job.location,
+          applicationDeadline: job.applicationDeadline
+        }, studentId)
+      });
+      sent++;
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`⏰ Sent ${sent} bookmarked job deadline reminder(s)`);
+  }
+  return sent;
+};
+
+let reminderTimer: NodeJS.Timeout | null = null;
+
+// Check for bookmarked jobs closing within a day every hour
+export const startBookmarkReminderScheduler = (socketManager?: SocketManager): void => {
+  if (reminderTimer) return;
+
+  const tick = async () => {
+    if (mongoose.connection.readyState !== 1) return;
+    try {
+      await runBookmarkReminders(socketManager);
+    } catch (error) {
+      console.error('❌ Bookmark reminder run failed:', error);
+    }
+  };
+
+  reminderTimer = setInterval(tick, CHECK_INTERVAL_MS);
+  console.log('⏰ Bookmark deadline reminder scheduler started');
+  tick();
+};
+
+export const stopBookmarkReminderScheduler = (): void => {
+  if (reminderTimer) {
+    clearInterval(reminderTimer);
+    reminderTimer = null;
+  }
+};
@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User';
+import { IJob, JobWorkType } from '../models/Job';
+import Application from '../models/Application';
+import JobInvite, { JobInviteStatus } from '../models/JobInvite';
+import { ValidationError } from '../middleware/errorHandler';
+import { normalizeTerm } from './recommendationService';
+
+export const STUDENT_AVAILABILITIES = ['weekdays', 'weekends', 'both', 'flexible'] as const;
+export type StudentAvailability = typeof STUDENT_AVAILABILITIES[number];
+
+const MAX_PAGE_SIZE = 50;
+
+// Highest-rated students considered per search; ranking happens in memory
+const CANDIDATE_POOL_SIZE = 500;
+
+// Points each signal can add, 100 in total
+const WEIGHTS = {
+  skills: 45,
+  kyc: 15,
+  availability: 15,
+  rating: 15,
+  completedJobs: 10
+};
+
+// Completed jobs beyond this do not raise the score any further
+const COMPLETED_JOBS_CAP = 10;
+
+// How well the availability on a student's profile covers each work type
+const AVAILABILITY_FIT: Record<JobWorkType, Record<StudentAvailability, number>> = {
+  'Full-time': { both: 1, flexible: 1, weekdays: 0.5, weekends: 0 },
+  'Part-time': { both: 1, flexible: 1, weekdays: 1, weekends: 1 },
+  Remote: { both: 1, flexible: 1, weekdays: 1, weekends: 1 },
+  'On-site': { both: 1, flexible: 1, weekdays: 0.75, weekends: 0.5 }
+};
+
+const CANDIDATE_FIELDS = 'name college skills availability rating completedJobs kycStatus profilePicture';
+
+export interface CandidateFilters {
+  skills: string[];
+  kycApproved: boolean;
+  availability: StudentAvailability[];
+  college?: string;
+  minRating?: number;
+  minCompletedJobs?: number;
+  page: number;
+  limit: number;
+}
+
+export interface CandidateMatch {
+  score: number;
+  matchedSkills: string[];
+  reasons: string[];
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+const toMinimum = (value: unknown, name: string, max?: number): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || (max !== undefined && number > max)) {
+    throw new ValidationError(max !== undefined ? `${name} must be from 0 to ${max}` : `${name} must be 0 or more`);
+  }
+  return number;
+};
+
+const toPositiveInt = (value: unknown, fallback: number, max?: number): number => {
+  const number = parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(number) || number < 1) return fallback;
+  return max ? Math.min(number, max) : number;
+};
+
+// Read the employer's candidate search filters from a query string
+export const parseCandidateFilters = (query: Record<string, unknown>): CandidateFilters => {
+  const availability = toList(query.availability);
+  const invalid = availability.filter(item => !STUDENT_AVAILABILITIES.includes(item as StudentAvailability));
+  if (invalid.length > 0) {
+    throw new ValidationError(`availability must be one of ${STUDENT_AVAILABILITIES.join(', ')}`);
+  }
+
+  const college = query.college ? String(query.college).trim() : '';
+
+  return {
+    skills: toList(query.skills),
+    kycApproved: query.kycApproved === 'true',
+    availability: availability as StudentAvailability[],
+    college: college || undefined,
+    minRating: toMinimum(query.minRating, 'minRating', 5),
+    minCompletedJobs: toMinimum(query.minCompletedJobs, 'minCompletedJobs'),
+    page: toPositiveInt(query.page, 1),
+    limit: toPositiveInt(query.limit, 10, MAX_PAGE_SIZE)
+  };
+};
+
+const buildCandidateFilter = (filters: CandidateFilters, excludeIds: mongoose.Types.ObjectId[]): Record<string, any> => {
+  const match: Record<string, any> = {
+    userType: 'student',
+    isActive: true,
+    _id: { $nin: excludeIds }
+  };
+
+  // Every listed skill is required, ignoring case
+  if (filters.skills.length > 0) {
+    match.skills = { $all: filters.skills.map(skill => new RegExp(`^${escapeRegex(skill)}$`, 'i')) };
+  }
+  if (filters.kycApproved) match.kycStatus = 'approved';
+  if (filters.availability.length > 0) match.availability = { $in: filters.availability };
+  if (filters.college) match.college = new RegExp(escapeRegex(filters.college), 'i');
+  if (filters.minRating !== undefined) match.rating = { $gte: filters.minRating };
+  if (filters.minCompletedJobs !== undefined) match.completedJobs = { $gte: filters.minCompletedJobs };
+
+  return match;
+};
+
+const scoreCandidate = (
+  student: Pick<IUser, 'skills' | 'availability' | 'rating' | 'completedJobs' | 'kycStatus'>,
+  job: Pick<IJob, 'skillsRequired' | 'workType'>
+): CandidateMatch => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const studentSkills = new Set((student.skills || []).map(normalizeTerm));
+  const required = (job.skillsRequired || []).filter(skill => normalizeTerm(skill));
+  const matchedSkills = required.filter(skill => studentSkills.has(normalizeTerm(skill)));
+  if (matchedSkills.length > 0) {
+    score += WEIGHTS.skills * matchedSkills.length / required.length;
+    reasons.push(`Has ${matchedSkills.length} of ${required.length} required skills`);
+  }
+
+  if (student.kycStatus === 'approved') {
+    score += WEIGHTS.kyc;
+    reasons.push('KYC verified');
+  }
+
+  const availability = (student.availability || 'flexible') as StudentAvailability;
+  const fit = job.workType ? AVAILABILITY_FIT[job.workType]?.[availability] ?? 0 : 0;
+  if (fit > 0) {
+    score += WEIGHTS.availability * fit;
+    if (fit === 1) reasons.push(`Available ${availability === 'both' ? 'weekdays and weekends' : availability} for ${job.workType!.toLowerCase()} work`);
+  }
+
+  if (student.rating) {
+    score += WEIGHTS.rating * student.rating / 5;
+    if (student.rating >= 4) reasons.push(`Rated ${student.rating.toFixed(1)} by employers`);
+  }
+
+  if (student.completedJobs) {
+    score += WEIGHTS.completedJobs * Math.min(student.completedJobs, COMPLETED_JOBS_CAP) / COMPLETED_JOBS_CAP;
+    reasons.push(`${student.completedJobs} job${student.completedJobs === 1 ? '' : 's'} completed`);
+  }
+
+  return { score: Math.round(score), matchedSkills, reasons };
+};
+
+/**
+ * Rank students for one of an employer's jobs on skill overlap with the job,
+ * KYC verification, availability for its work type and their track record
+ * (rating and completed jobs). Students who already applied are left out and each
+ * result says whether the student was already invited.
+ */
+export const searchCandidatesForJob = async (
+  job: Pick<IJob, '_id' | 'skillsRequired' | 'workType'>,
+  filters: CandidateFilters
+) => {
+  const applicants = await Application.find({ jobId: job._id }).distinct('studentId');
+
+  const pool = await User.find(buildCandidateFilter(filters, applicants))
+    .select(CANDIDATE_FIELDS)
+    .sort({ rating: -1, completedJobs: -1 })
+    .limit(CANDIDATE_POOL_SIZE)
+    .lean();
+
+  const ranked = pool
+    .map(student => ({ student, match: scoreCandidate(student, job) }))
+    .sort((a, b) => b.match.score - a.match.score);
+
+  const total = ranked.length;
+  const page = ranked.slice((filters.page - 1) * filters.limit, filters.page * filters.limit);
+
+  const invites = await JobInvite.find({
+    jobId: job._id,
+    studentId: { $in: page.map(({ student }) => student._id) }
+  }).select('studentId status createdAt').lean();
+  const invitesByStudent = new Map(invites.map(invite => [String(invite.studentId), invite]));
+
+  const candidates = page.map(({ student, match }) => {
+    const invite = invitesByStudent.get(String(student._id));
+    return {
+      ...student,
+      match,
+      invite: invite ? { status: invite.status as JobInviteStatus, invitedAt: invite.createdAt } : null
+    };
+  });
+
+  return {
+    candidates,
+    pagination: {
+      current: filters.page,
+      pages: Math.ceil(total / filters.limit),
+      total
+    }
+  };
+};
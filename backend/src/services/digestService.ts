@@ -0,0 +1,232 @@
+import mongoose from 'mongoose';
+import User, { DigestFrequency, resolveDigestFrequency } from '../models/User';
+import { NotificationType } from '../models/Notification';
+import Job from '../models/Job';
+import Application from '../models/Application';
+import KYC from '../models/KYC';
+import EmailNotificationService, { EmployerDigestJob, StudentDigestJob } from './emailNotificationService';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const PERIOD_MS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+const PERIOD_LABEL: Record<Exclude<DigestFrequency, 'off'>, string> = {
+  daily: 'in the last day',
+  weekly: 'in the last week'
+};
+
+// The notification type whose digest channel each digest follows
+const DIGEST_TYPE: Record<'employer' | 'student', NotificationType> = {
+  employer: 'new_application',
+  student: 'job_approved'
+};
+
+// Leeway so an hourly check does not push each digest an hour later every period
+const DUE_SLACK_MS = 60 * 60 * 1000;
+
+export interface DigestRunResult {
+  employers: number;
+  students: number;
+  skipped: number;
+}
+
+// Digests go out at or after this hour, Indian time
+const getDigestHour = (): number => Number(process.env.DIGEST_HOUR ?? 8);
+
+const hourInIndia = (at: Date): number =>
+  Number(at.toLocaleString('en-US', { timeZone: 'Asia/Kolkata', hour: 'numeric', hourCycle: 'h23' }));
+
+const normalizeTerm = (term: string): string => term.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const isDigestDue = (
+  frequency: DigestFrequency,
+  lastSentAt: Date | undefined | null,
+  now: Date = new Date()
+): boolean => {
+  if (frequency === 'off') return false;
+  if (hourInIndia(now) < getDigestHour()) return false;
+  if (!lastSentAt) return true;
+  return now.getTime() - lastSentAt.getTime() >= PERIOD_MS[frequency] - DUE_SLACK_MS;
+};
+
+// New applications to an employer's jobs since the given time, grouped per job
+export const buildEmployerDigest = async (
+  employerId: mongoose.Types.ObjectId | string,
+  since: Date
+): Promise<EmployerDigestJob[]> => {
+  const jobs = await Job.find({ employerId }).select('_id jobTitle').lean();
+  if (jobs.length === 0) return [];
+
+  const applications = await Application.find({
+    jobId: { $in: jobs.map(job => job._id) },
+    createdAt: { $gt: since }
+  })
+    .populate('studentId', 'name email')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const byJob = new Map<string, EmployerDigestJob>();
+  for (const application of applications) {
+    const job = jobs.find(j => String(j._id) === String(application.jobId));
+    if (!job) continue;
+
+    const key = String(job._id);
+    if (!byJob.has(key)) {
+      byJob.set(key, { jobId: key, jobTitle: job.jobTitle, applicants: [] });
+    }
+    const student = application.studentId as any;
+    byJob.get(key)!.applicants.push({
+      name: student?.name || student?.email || 'Applicant',
+      appliedAt: application.createdAt
+    });
+  }
+
+  return Array.from(byJob.values()).sort((a, b) => b.applicants.length - a.applicants.length);
+};
+
+// Approved jobs whose required skills overlap the student's skills or preferred job types
+export const buildStudentDigest = async (
+  student: { _id: mongoose.Types.ObjectId | string; skills?: string[] },
+  since: Date,
+  candidateJobs?: any[]
+): Promise<StudentDigestJob[]> => {
+  const kyc = await KYC.findOne({ userId: student._id }).select('preferredJobTypes').lean();
+
+  const interests = new Map<string, string>();
+  [...(student.skills || []), ...(kyc?.preferredJobTypes || [])].forEach(term => {
+    const normalized = normalizeTerm(term);
+    if (normalized) interests.set(normalized, term);
+  });
+  if (interests.size === 0) return [];
+
+  const jobs = candidateJobs || await Job.find({
+    approvalStatus: 'approved',
+    status: 'active',
+    approvedAt: { $gt: since }
+  }).select('jobTitle companyName location salaryRange skillsRequired approvedAt').lean();
+
+  const matches: StudentDigestJob[] = [];
+  for (const job of jobs) {
+    if (!job.approvedAt || job.approvedAt <= since) continue;
+
+    const matchedOn = (job.skillsRequired || [])
+      .filter((skill: string) => interests.has(normalizeTerm(skill)));
+    if (matchedOn.length === 0) continue;
+
+    matches.push({
+      jobId: String(job._id),
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      location: job.location,
+      salary: job.salaryRange,
+      matchedOn
+    });
+  }
+
+  return matches.sort((a, b) => b.matchedOn.length - a.matchedOn.length).slice(0, 20);
+};
+
+/**
+ * Send every digest that is due. Users with nothing new are skipped but their
+ * window still moves forward; users whose email could not be queued are retried
+ * on the next run.
+ */
+export const runDigests = async (
+  emailService: EmailNotificationService,
+  now: Date = new Date()
+): Promise<DigestRunResult> => {
+  const result: DigestRunResult = { employers: 0, students: 0, skipped: 0 };
+
+  // Jobs approved within the longest window, shared by all student digests of this run
+  const recentJobs = await Job.find({
+    approvalStatus: 'approved',
+    status: 'active',
+    approvedAt: { $gt: new Date(now.getTime() - PERIOD_MS.weekly) }
+  }).select('jobTitle companyName location salaryRange skillsRequired approvedAt').lean();
+
+  // Skip users who turned off the digest channel for what their digest summarises
+  const users = User.find({
+    isActive: true,
+    digestFrequency: { $ne: 'off' },
+    $or: (['employer', 'student'] as const).map(userType => ({
+      userType,
+      [`notificationPreferences.${DIGEST_TYPE[userType]}.digest`]: { $ne: false }
+    }))
+  }).select('userType skills digestFrequency lastDigestSentAt').lean().cursor();
+
+  for await (const user of users) {
+    const frequency = resolveDigestFrequency(user);
+    if (frequency === 'off' || !isDigestDue(frequency, user.lastDigestSentAt, now)) continue;
+
+    // Never look back further than one period, even after a long pause
+    const windowStart = new Date(now.getTime() - PERIOD_MS[frequency]);
+    const since = user.lastDigestSentAt && user.lastDigestSentAt > windowStart ? user.lastDigestSentAt : windowStart;
+    const period = {
+      key: `${frequency}:${now.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' })}`,
+      label: PERIOD_LABEL[frequency]
+    };
+    const userId = String(user._id);
+
+    try {
+      let sent = true;
+      if (user.userType === 'employer') {
+        const jobs = await buildEmployerDigest(userId, since);
+        if (jobs.length > 0) {
+          sent = await emailService.sendEmployerDigest(userId, jobs, period);
+          if (sent) result.employers++;
+        } else {
+          result.skipped++;
+        }
+      } else {
+        const jobs = await buildStudentDigest(user as any, since, recentJobs);
+        if (jobs.length > 0) {
+          sent = await emailService.sendStudentDigest(userId, jobs, period);
+          if (sent) result.students++;
+        } else {
+          result.skipped++;
+        }
+      }
+
+      if (sent) {
+        await User.updateOne({ _id: user._id }, { $set: { lastDigestSentAt: now } });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to build digest for user ${userId}:`, error);
+    }
+  }
+
+  if (result.employers || result.students) {
+    console.log(`📰 Digests queued: ${result.employers} employer(s), ${result.students} student(s)`);
+  }
+  return result;
+};
+
+let digestTimer: NodeJS.Timeout | null = null;
+
+// Check for due digests every hour
+export const startDigestScheduler = (emailService: EmailNotificationService): void => {
+  if (digestTimer) return;
+
+  const tick = async () => {
+    if (mongoose.connection.readyState !== 1) return;
+    try {
+      await runDigests(emailService);
+    } catch (error) {
+      console.error('❌ Digest run failed:', error);
+    }
+  };
+
+  digestTimer = setInterval(tick, CHECK_INTERVAL_MS);
+  console.log(`📰 Digest scheduler started (digests go out from ${getDigestHour()}:00 IST)`);
+  tick();
+};
+
+export const stopDigestScheduler = (): void => {
+  if (digestTimer) {
+    clearInterval(digestTimer);
+    digestTimer = null;
+  }
+};
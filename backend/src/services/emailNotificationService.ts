@@ -1,28 +1,79 @@
-import nodemailer from 'nodemailer';
 import User from '../models/User';
 import Job from '../models/Job';
+import { buildUnsubscribeUrl } from '../utils/unsubscribeToken';
+import { escapeHtml } from '../utils/html';
+import { enqueueEmail } from './emailOutbox';
+import { IEmailAttachment } from '../models/EmailOutbox';
 
 export interface EmailNotificationData {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  unsubscribeUrl?: string;
+  category: string;
+  idempotencyKey?: string;
+  attachments?: IEmailAttachment[];
+}
+
+export interface EmployerDigestJob {
+  jobId: string;
+  jobTitle: string;
+  applicants: Array<{ name: string; appliedAt: Date }>;
+}
+
+export interface StudentDigestJob {
+  jobId: string;
+  jobTitle: string;
+  companyName: string;
+  location: string;
+  salary?: string;
+  matchedOn: string[];
+}
+
+export interface SavedSearchAlertJob {
+  jobId: string;
+  jobTitle: string;
+  companyName: string;
+  location: string;
+  salary?: string;
+}
+
+export interface JobExpiredNotice {
+  jobId: string;
+  jobTitle: string;
+  applicationDeadline: Date;
+  openApplications: number;
+  extensionDays: number;
+  extendUrl: string; // Signed one-click link, see utils/deadlineExtensionToken
+}
+
+export interface PositionsFilledNotice {
+  applicationId: string;
+  jobTitle: string;
+  companyName: string;
+  location: string;
+}
+
+export interface InterviewEmailData {
+  interviewId: string;
+  event: 'proposed' | 'scheduled' | 'cancelled';
+  sequence: number;
+  jobTitle: string;
+  companyName: string;
+  otherPartyName: string;
+  mode: 'in-person' | 'phone' | 'video';
+  location?: string;
+  phoneNumber?: string;
+  videoLink?: string;
+  notes?: string;
+  slot?: { start: Date; end: Date };
+  proposedSlots?: Array<{ start: Date; end: Date }>;
+  reason?: string;
+  ics?: string; // RFC 5545 invite (REQUEST or CANCEL)
 }
 
 export class EmailNotificationService {
-  private transporter: nodemailer.Transporter;
-
-  constructor() {
-    this.transporter = nodemailer.createTransport({
-      host: process.env.SMTP_HOST || 'smtp.gmail.com',
-      port: parseInt(process.env.SMTP_PORT || '587'),
-      secure: process.env.SMTP_SECURE === 'true',
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS,
-      },
-    });
-  }
 
   // Send new application notification to employer
   public async sendNewApplicationNotification(
@@ -50,11 +101,14 @@ export class EmailNotificationService {
         to: employer.email,
         subject,
         html,
-        text: this.generateNewApplicationEmailText(employer.name || employer.email, studentData, jobData)
+        text: this.generateNewApplicationEmailText(employer.name || employer.email, studentData, jobData),
+        unsubscribeUrl: buildUnsubscribeUrl(employerId, 'new_application'),
+        category: 'new_application',
+        idempotencyKey: applicationData?.id ? `new_application:${applicationData.id}` : undefined
       };
 
       await this.sendEmail(emailData);
-      console.log(`📧 New application email sent to employer: ${employer.email}`);
+      console.log(`📧 New application email queued for employer: ${employer.email}`);
       return true;
     } catch (error) {
       console.error('❌ Error sending new application email:', error);
@@ -84,11 +138,14 @@ export class EmailNotificationService {
         to: employer.email,
         subject,
         html,
-        text: this.generateJobApprovalEmailText(employer.name || employer.email, jobData)
+        text: this.generateJobApprovalEmailText(employer.name || employer.email, jobData),
+        unsubscribeUrl: buildUnsubscribeUrl(employerId, 'job_approved'),
+        category: 'job_approved',
+        idempotencyKey: jobData?.id ? `job_approved:${jobData.id}` : undefined
       };
 
       await this.sendEmail(emailData);
-      console.log(`📧 Job approval email sent to employer: ${employer.email}`);
+      console.log(`📧 Job approval email queued for employer: ${employer.email}`);
       return true;
     } catch (error) {
       console.error('❌ Error sending job approval email:', error);
@@ -120,11 +177,17 @@ export class EmailNotificationService {
         to: employer.email,
         subject,
         html,
-        text: this.generateJobRejectionEmailText(employer.name || employer.email, jobData, reason)
+        text: this.generateJobRejectionEmailText(employer.name || employer.email, jobData, reason),
+        unsubscribeUrl: buildUnsubscribeUrl(employerId, 'job_rejected'),
+        category: 'job_rejected',
+        // A resubmitted job can be rejected again; each rejection gets its own email
+        idempotencyKey: jobData?.id && jobData.rejectedAt
+          ? `job_rejected:${jobData.id}:${new Date(jobData.rejectedAt).getTime()}`
+          : undefined
       };
 
       await this.sendEmail(emailData);
-      console.log(`📧 Job rejection email sent to employer: ${employer.email}`);
+      console.log(`📧 Job rejection email queued for employer: ${employer.email}`);
       return true;
     } catch (error) {
       console.error('❌ Error sending job rejection email:', error);
@@ -156,11 +219,16 @@ export class EmailNotificationService {
         to: student.email,
         subject,
         html,
-        text: this.generateApplicationStatusEmailText(student.name || student.email, applicationData, jobData)
+        text: this.generateApplicationStatusEmailText(student.name || student.email, applicationData, jobData),
+        unsubscribeUrl: buildUnsubscribeUrl(studentId, 'application_status_update'),
+        category: 'application_status_update',
+        idempotencyKey: applicationData?.id
+          ? `application_status:${applicationData.id}:${applicationData.status}`
+          : undefined
       };
 
       await this.sendEmail(emailData);
-      console.log(`📧 Application status email sent to student: ${student.email}`);
+      console.log(`📧 Application status email queued for student: ${student.email}`);
       return true;
     } catch (error) {
       console.error('❌ Error sending application status email:', error);
@@ -168,17 +236,265 @@ export class EmailNotificationService {
     }
   }
 
-  // Private method to send email
+  // Send an interview proposal, confirmation or cancellation (with calendar invite) to one participant
+  public async sendInterviewNotification(
+    recipientId: string,
+    interviewData: InterviewEmailData
+  ): Promise<boolean> {
+    try {
+      const recipient = await User.findById(recipientId);
+      if (!recipient) {
+        console.error('❌ Recipient not found for interview email');
+        return false;
+      }
+
+      const subject = interviewData.event === 'scheduled'
+        ? `Interview Scheduled - ${interviewData.jobTitle}`
+        : interviewData.event === 'cancelled'
+        ? `Interview Cancelled - ${interviewData.jobTitle}`
+        : `Interview Times Proposed - ${interviewData.jobTitle}`;
+
+      const emailData: EmailNotificationData = {
+        to: recipient.email,
+        subject,
+        html: this.generateInterviewEmailHTML(recipient.name || recipient.email, interviewData),
+        text: this.generateInterviewEmailText(recipient.name || recipient.email, interviewData),
+        unsubscribeUrl: buildUnsubscribeUrl(recipientId, 'interview_update'),
+        category: `interview_${interviewData.event}`,
+        // A reschedule sends 'cancelled' and 'proposed' under the same sequence
+        idempotencyKey: `interview:${interviewData.interviewId}:${interviewData.sequence}:${interviewData.event}:${recipientId}`,
+        attachments: interviewData.ics
+          ? [{
+              filename: interviewData.event === 'cancelled' ? 'cancel.ics' : 'invite.ics',
+              content: interviewData.ics,
+              contentType: `text/calendar; charset=utf-8; method=${interviewData.event === 'cancelled' ? 'CANCEL' : 'REQUEST'}`
+            }]
+          : undefined
+      };
+
+      await this.sendEmail(emailData);
+      console.log(`📧 Interview ${interviewData.event} email queued for: ${recipient.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending interview email:', error);
+      return false;
+    }
+  }
+
+  // Send the daily/weekly summary of new applications to an employer
+  public async sendEmployerDigest(
+    employerId: string,
+    jobs: EmployerDigestJob[],
+    period: { key: string; label: string }
+  ): Promise<boolean> {
+    try {
+      const employer = await User.findById(employerId);
+      if (!employer) {
+        console.error('❌ Employer not found for digest email');
+        return false;
+      }
+
+      const total = jobs.reduce((sum, job) => sum + job.applicants.length, 0);
+      const subject = `${total} new application${total === 1 ? '' : 's'} ${period.label}`;
+
+      const emailData: EmailNotificationData = {
+        to: employer.email,
+        subject,
+        html: this.generateEmployerDigestEmailHTML(employer.name || employer.email, jobs, total, period.label),
+        text: this.generateEmployerDigestEmailText(employer.name || employer.email, jobs, total, period.label),
+        unsubscribeUrl: buildUnsubscribeUrl(employerId, 'all', 'digest'),
+        category: 'employer_digest',
+        idempotencyKey: `digest:${employerId}:${period.key}`
+      };
+
+      await this.sendEmail(emailData);
+      console.log(`📧 Application digest queued for employer: ${employer.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending employer digest email:', error);
+      return false;
+    }
+  }
+
+  // Send the roundup of new matching jobs to a student
+  public async sendStudentDigest(
+    studentId: string,
+    jobs: StudentDigestJob[],
+    period: { key: string; label: string }
+  ): Promise<boolean> {
+    try {
+      const student = await User.findById(studentId);
+      if (!student) {
+        console.error('❌ Student not found for digest email');
+        return false;
+      }
+
+      const subject = `${jobs.length} new job${jobs.length === 1 ? '' : 's'} matching your skills`;
+
+      const emailData: EmailNotificationData = {
+        to: student.email,
+        subject,
+        html: this.generateStudentDigestEmailHTML(student.name || student.email, jobs, period.label),
+        text: this.generateStudentDigestEmailText(student.name || student.email, jobs, period.label),
+        unsubscribeUrl: buildUnsubscribeUrl(studentId, 'all', 'digest'),
+        category: 'student_digest',
+        idempotencyKey: `digest:${studentId}:${period.key}`
+      };
+
+      await this.sendEmail(emailData);
+      console.log(`📧 Job digest queued for student: ${student.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending student digest email:', error);
+      return false;
+    }
+  }
+
+  // Send a new job that matches one or more of a student's saved searches
+  public async sendSavedSearchAlert(
+    studentId: string,
+    job: SavedSearchAlertJob,
+    searchNames: string[]
+  ): Promise<boolean> {
+    try {
+      const student = await User.findById(studentId);
+      if (!student) {
+        console.error('❌ Student not found for saved search alert');
+        return false;
+      }
+
+      const subject = `New job for "${searchNames[0]}": ${job.jobTitle}`;
+
+      const emailData: EmailNotificationData = {
+        to: student.email,
+        subject,
+        html: this.generateSavedSearchAlertEmailHTML(student.name || student.email, job, searchNames),
+        text: this.generateSavedSearchAlertEmailText(student.name || student.email, job, searchNames),
+        unsubscribeUrl: buildUnsubscribeUrl(studentId, 'saved_search_match'),
+        category: 'saved_search_match',
+        idempotencyKey: `saved_search_match:${studentId}:${job.jobId}`
+      };
+
+      await this.sendEmail(emailData);
+      console.log(`📧 Saved search alert queued for student: ${student.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending saved search alert email:', error);
+      return false;
+    }
+  }
+
+  public async sendJobExpiredNotice(employerId: string, notice: JobExpiredNotice): Promise<boolean> {
+    try {
+      const employer = await User.findById(employerId);
+      if (!employer) {
+        console.error('❌ Employer not found for job expiry notice');
+        return false;
+      }
+
+      const emailData: EmailNotificationData = {
+        to: employer.email,
+        subject: `Your job "${notice.jobTitle}" has expired`,
+        html: this.generateJobExpiredEmailHTML(employer.name || employer.email, notice),
+        text: this.generateJobExpiredEmailText(employer.name || employer.email, notice),
+        unsubscribeUrl: buildUnsubscribeUrl(employerId, 'job_expired'),
+        category: 'job_expired',
+        idempotencyKey: `job_expired:${notice.jobId}:${notice.applicationDeadline.getTime()}`
+      };
+
+      await this.sendEmail(emailData);
+      console.log(`📧 Job expiry notice queued for employer: ${employer.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending job expiry email:', error);
+      return false;
+    }
+  }
+
+  // Let an applicant down gently when a job hires its last position before reaching them
+  public async sendPositionsFilledNotice(studentId: string, notice: PositionsFilledNotice): Promise<boolean> {
+    try {
+      const student = await User.findById(studentId);
+      if (!student) {
+        console.error('❌ Student not found for positions filled notice');
+        return false;
+      }
+
+      const emailData: EmailNotificationData = {
+        to: student.email,
+        subject: `Update on your application - ${notice.jobTitle}`,
+        html: this.generatePositionsFilledEmailHTML(student.name || student.email, notice),
+        text: this.generatePositionsFilledEmailText(student.name || student.email, notice),
+        unsubscribeUrl: buildUnsubscribeUrl(studentId, 'application_status_update'),
+        category: 'application_status_update',
+        // Same key as a manual rejection, so the student never gets both
+        idempotencyKey: `application_status:${notice.applicationId}:rejected`
+      };
+
+      await this.sendEmail(emailData);
+      console.log(`📧 Positions filled notice queued for student: ${student.email}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error sending positions filled email:', error);
+      return false;
+    }
+  }
+
+  // Private method to queue email in the outbox; the worker delivers and retries it
   private async sendEmail(emailData: EmailNotificationData): Promise<void> {
-    const mailOptions = {
-      from: `"MeWork Job Portal" <${process.env.SMTP_USER}>`,
+    let html = emailData.html;
+    let text = emailData.text;
+    let headers: Record<string, string> | undefined;
+
+    // One-click unsubscribe (RFC 8058) plus a visible link in the body
+    if (emailData.unsubscribeUrl) {
+      headers = {
+        'List-Unsubscribe': `<${emailData.unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      };
+      html = this.appendUnsubscribeFooter(emailData.html, emailData.unsubscribeUrl);
+      if (emailData.text) {
+        text = `${emailData.text}\nUnsubscribe from these emails: ${emailData.unsubscribeUrl}\n`;
+      }
+    }
+
+    await enqueueEmail({
+      from: process.env.SMTP_USER ? `"MeWork Job Portal" <${process.env.SMTP_USER}>` : undefined,
       to: emailData.to,
       subject: emailData.subject,
-      html: emailData.html,
-      text: emailData.text
-    };
+      html,
+      text,
+      headers,
+      attachments: emailData.attachments,
+      category: emailData.category,
+      idempotencyKey: emailData.idempotencyKey
+    });
+  }
 
-    await this.transporter.sendMail(mailOptions);
+  private appendUnsubscribeFooter(html: string, unsubscribeUrl: string): string {
+    const footer = `
+        <div style="text-align: center; margin: 10px 0 30px; color: #666; font-size: 12px;">
+          <a href="${unsubscribeUrl}" style="color: #666;">Unsubscribe from these emails</a>
+        </div>
+      `;
+    return html.includes('</body>') ? html.replace('</body>', `${footer}</body>`) : `${html}${footer}`;
+  }
+
+  private getApplicationStatusMessage(status: string): string {
+    switch (status) {
+      case 'shortlisted':
+        return "🎉 Good news! You have been shortlisted. The employer will contact you soon.";
+      case 'interview':
+        return "📅 The employer would like to interview you. Watch out for the interview details.";
+      case 'offered':
+        return "🎉 Congratulations! The employer has made you an offer.";
+      case 'hired':
+        return "🎉 Congratulations! You have been hired for this job.";
+      case 'rejected':
+        return "We're sorry to inform you that your application was not selected this time. Don't worry, keep applying to other opportunities!";
+      default:
+        return "Your application is currently under review. We'll notify you once the employer makes a decision.";
+    }
   }
 
   // Email template generators
@@ -362,7 +678,7 @@ export class EmailNotificationService {
   }
 
   private generateApplicationStatusEmailHTML(studentName: string, applicationData: any, jobData: any): string {
-    const statusColor = applicationData.status === 'approved' ? '#10b981' : 
+    const statusColor = ['offered', 'hired'].includes(applicationData.status) ? '#10b981' :
                        applicationData.status === 'rejected' ? '#ef4444' : '#f59e0b';
     
     return `
@@ -402,13 +718,7 @@ export class EmailNotificationService {
             
             <p><strong>Status:</strong> <span class="status-badge">${applicationData.status.toUpperCase()}</span></p>
             
-            ${applicationData.status === 'approved' ? `
-              <p>🎉 Congratulations! Your application has been approved. The employer will contact you soon.</p>
-            ` : applicationData.status === 'rejected' ? `
-              <p>We're sorry to inform you that your application was not selected this time. Don't worry, keep applying to other opportunities!</p>
-            ` : `
-              <p>Your application is currently under review. We'll notify you once the employer makes a decision.</p>
-            `}
+            <p>${this.getApplicationStatusMessage(applicationData.status)}</p>
             
             <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/student-home" class="button">
               View Applications
@@ -425,6 +735,208 @@ export class EmailNotificationService {
     `;
   }
 
+  private formatInterviewTime(slot: { start: Date; end: Date }): string {
+    const options: Intl.DateTimeFormatOptions = { timeZone: 'Asia/Kolkata', dateStyle: 'medium', timeStyle: 'short' };
+    const endOptions: Intl.DateTimeFormatOptions = { timeZone: 'Asia/Kolkata', timeStyle: 'short' };
+    return `${new Date(slot.start).toLocaleString('en-IN', options)} - ${new Date(slot.end).toLocaleString('en-IN', endOptions)} IST`;
+  }
+
+  private describeInterviewMode(interviewData: InterviewEmailData): string {
+    switch (interviewData.mode) {
+      case 'in-person':
+        return `In person at ${interviewData.location}`;
+      case 'phone':
+        return `Phone call${interviewData.phoneNumber ? ` (${interviewData.phoneNumber})` : ''}`;
+      case 'video':
+        return `Video call: ${interviewData.videoLink}`;
+    }
+  }
+
+  private generateInterviewEmailHTML(recipientName: string, interviewData: InterviewEmailData): string {
+    const headerColor = interviewData.event === 'cancelled' ? '#ef4444' : '#7c3aed';
+    const heading = interviewData.event === 'scheduled'
+      ? '📅 Interview Scheduled'
+      : interviewData.event === 'cancelled'
+      ? '❌ Interview Cancelled'
+      : '🗓️ Pick an Interview Time';
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${heading}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${headerColor}; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+          .job-card { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 10px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${heading}</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${escapeHtml(recipientName)},</p>
+            
+            <div class="job-card">
+              <h3>📋 ${escapeHtml(interviewData.jobTitle)}</h3>
+              <p><strong>Company:</strong> ${escapeHtml(interviewData.companyName)}</p>
+              <p><strong>With:</strong> ${escapeHtml(interviewData.otherPartyName)}</p>
+              <p><strong>Mode:</strong> ${escapeHtml(this.describeInterviewMode(interviewData))}</p>
+              ${interviewData.slot ? `<p><strong>When:</strong> ${this.formatInterviewTime(interviewData.slot)}</p>` : ''}
+              ${interviewData.notes ? `<p><strong>Notes:</strong> ${escapeHtml(interviewData.notes)}</p>` : ''}
+            </div>
+            
+            ${interviewData.event === 'proposed' && interviewData.proposedSlots ? `
+              <p>${escapeHtml(interviewData.otherPartyName)} proposed these times. Please pick one on MeWork:</p>
+              <ul>
+                ${interviewData.proposedSlots.map(slot => `<li>${this.formatInterviewTime(slot)}</li>`).join('')}
+              </ul>
+            ` : ''}
+            ${interviewData.event === 'scheduled' ? `
+              <p>The calendar invite is attached - open it to add the interview to your calendar.</p>
+            ` : ''}
+            ${interviewData.event === 'cancelled' ? `
+              <p>This interview has been cancelled${interviewData.reason ? `: ${escapeHtml(interviewData.reason)}` : '.'}</p>
+            ` : ''}
+            
+            <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}" class="button">
+              Open MeWork
+            </a>
+            
+            <p>Best regards,<br>The MeWork Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateEmployerDigestEmailHTML(
+    employerName: string,
+    jobs: EmployerDigestJob[],
+    total: number,
+    periodLabel: string
+  ): string {
+    const jobCards = jobs.map(job => `
+            <div class="job-card">
+              <h3>${escapeHtml(job.jobTitle)}</h3>
+              <p><strong>${job.applicants.length}</strong> new application${job.applicants.length === 1 ? '' : 's'}</p>
+              <ul>
+                ${job.applicants.slice(0, 10).map(applicant => `<li>${escapeHtml(applicant.name)}</li>`).join('')}
+              </ul>
+              ${job.applicants.length > 10 ? `<p>and ${job.applicants.length - 10} more</p>` : ''}
+            </div>
+          `).join('');
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Your Application Digest</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+          .job-card { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 10px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📊 Your Application Digest</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${escapeHtml(employerName)},</p>
+            
+            <p>You received <strong>${total}</strong> new application${total === 1 ? '' : 's'} ${periodLabel}.</p>
+            
+            ${jobCards}
+            
+            <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/employer" class="button">
+              Review Applications
+            </a>
+            
+            <p>Best regards,<br>The MeWork Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateStudentDigestEmailHTML(studentName: string, jobs: StudentDigestJob[], periodLabel: string): string {
+    const jobCards = jobs.map(job => `
+            <div class="job-card">
+              <h3>${escapeHtml(job.jobTitle)}</h3>
+              <p><strong>Company:</strong> ${escapeHtml(job.companyName)}</p>
+              <p><strong>Location:</strong> ${escapeHtml(job.location)}</p>
+              ${job.salary ? `<p><strong>Pay:</strong> ${escapeHtml(job.salary)}</p>` : ''}
+              <p class="match">Matches: ${escapeHtml(job.matchedOn.join(', '))}</p>
+              <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/jobs/${job.jobId}">View job</a>
+            </div>
+          `).join('');
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>New Jobs For You</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #10b981; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+          .job-card { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .match { color: #059669; font-size: 14px; }
+          .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 10px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>✨ New Jobs For You</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${escapeHtml(studentName)},</p>
+            
+            <p>${jobs.length} new job${jobs.length === 1 ? ' matching your skills was' : 's matching your skills were'} posted ${periodLabel}.</p>
+            
+            ${jobCards}
+            
+            <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/jobs" class="button">
+              Browse All Jobs
+            </a>
+            
+            <p>Best regards,<br>The MeWork Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
   // Text versions of emails
   private generateNewApplicationEmailText(employerName: string, studentData: any, jobData: any): string {
     return `
@@ -513,12 +1025,268 @@ Job Details:
 
 Status: ${applicationData.status.toUpperCase()}
 
-${applicationData.status === 'approved' ? 
-  "Congratulations! Your application has been approved. The employer will contact you soon." :
-  applicationData.status === 'rejected' ? 
-  "We're sorry to inform you that your application was not selected this time. Don't worry, keep applying to other opportunities!" :
-  "Your application is currently under review. We'll notify you once the employer makes a decision."
-}
+${this.getApplicationStatusMessage(applicationData.status)}
+
+Best regards,
+The MeWork Team
+    `;
+  }
+
+  private generateInterviewEmailText(recipientName: string, interviewData: InterviewEmailData): string {
+    const heading = interviewData.event === 'scheduled'
+      ? 'Interview Scheduled'
+      : interviewData.event === 'cancelled'
+      ? 'Interview Cancelled'
+      : 'Pick an Interview Time';
+
+    return `
+${heading} - ${interviewData.jobTitle}
+
+Dear ${recipientName},
+
+Job: ${interviewData.jobTitle} at ${interviewData.companyName}
+With: ${interviewData.otherPartyName}
+Mode: ${this.describeInterviewMode(interviewData)}
+${interviewData.slot ? `When: ${this.formatInterviewTime(interviewData.slot)}` : ''}
+${interviewData.event === 'proposed' && interviewData.proposedSlots ? `Proposed times (pick one on MeWork):\n${interviewData.proposedSlots.map(slot => `- ${this.formatInterviewTime(slot)}`).join('\n')}` : ''}
+${interviewData.event === 'cancelled' ? `This interview has been cancelled${interviewData.reason ? `: ${interviewData.reason}` : '.'}` : ''}
+
+Best regards,
+The MeWork Team
+    `;
+  }
+
+  private generateEmployerDigestEmailText(
+    employerName: string,
+    jobs: EmployerDigestJob[],
+    total: number,
+    periodLabel: string
+  ): string {
+    return `
+Your Application Digest
+
+Dear ${employerName},
+
+You received ${total} new application${total === 1 ? '' : 's'} ${periodLabel}.
+
+${jobs.map(job => `- ${job.jobTitle}: ${job.applicants.length} new (${job.applicants.slice(0, 10).map(applicant => applicant.name).join(', ')})`).join('\n')}
+
+Please log in to your employer dashboard to review the applications.
+
+Best regards,
+The MeWork Team
+    `;
+  }
+
+  private generateSavedSearchAlertEmailHTML(studentName: string, job: SavedSearchAlertJob, searchNames: string[]): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>New Job For Your Saved Search</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #10b981; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+          .job-card { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .match { color: #059669; font-size: 14px; }
+          .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 10px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔔 New Job For Your Saved Search</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${escapeHtml(studentName)},</p>
+            
+            <p>A job that was just published matches your saved search${searchNames.length === 1 ? '' : 'es'}.</p>
+            
+            <div class="job-card">
+              <h3>${escapeHtml(job.jobTitle)}</h3>
+              <p><strong>Company:</strong> ${escapeHtml(job.companyName)}</p>
+              <p><strong>Location:</strong> ${escapeHtml(job.location)}</p>
+              ${job.salary ? `<p><strong>Pay:</strong> ${escapeHtml(job.salary)}</p>` : ''}
+              <p class="match">Saved search: ${escapeHtml(searchNames.join(', '))}</p>
+            </div>
+            
+            <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/jobs/${job.jobId}" class="button">
+              View Job
+            </a>
+            
+            <p>Best regards,<br>The MeWork Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateSavedSearchAlertEmailText(studentName: string, job: SavedSearchAlertJob, searchNames: string[]): string {
+    return `
+New Job For Your Saved Search
+
+Dear ${studentName},
+
+A job that was just published matches your saved search${searchNames.length === 1 ? '' : 'es'} (${searchNames.join(', ')}).
+
+${job.jobTitle} at ${job.companyName}, ${job.location}${job.salary ? ` (${job.salary})` : ''}
+
+View job: ${process.env.FRONTEND_URL || 'http://localhost:3000'}/jobs/${job.jobId}
+
+Best regards,
+The MeWork Team
+    `;
+  }
+
+  private generateJobExpiredEmailHTML(employerName: string, notice: JobExpiredNotice): string {
+    const deadline = notice.applicationDeadline.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Kolkata' });
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Job Expired</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f59e0b; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+          .job-card { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 10px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>⌛ Job Expired</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${escapeHtml(employerName)},</p>
+            
+            <p>Your job posting reached its application deadline and no longer takes applications.</p>
+            
+            <div class="job-card">
+              <h3>${escapeHtml(notice.jobTitle)}</h3>
+              <p><strong>Deadline:</strong> ${deadline}</p>
+              <p><strong>Applications still open:</strong> ${notice.openApplications}</p>
+            </div>
+            
+            <p>Still hiring? Reopen it for another ${notice.extensionDays} days with one click:</p>
+            <a href="${notice.extendUrl}" class="button">
+              Extend by ${notice.extensionDays} days
+            </a>
+            
+            <p>Best regards,<br>The MeWork Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateJobExpiredEmailText(employerName: string, notice: JobExpiredNotice): string {
+    const deadline = notice.applicationDeadline.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Kolkata' });
+    return `
+Job Expired
+
+Dear ${employerName},
+
+Your job "${notice.jobTitle}" reached its application deadline (${deadline}) and no longer takes applications. ${notice.openApplications} application(s) are still open.
+
+Still hiring? Extend it by ${notice.extensionDays} days: ${notice.extendUrl}
+
+Best regards,
+The MeWork Team
+    `;
+  }
+
+  private generatePositionsFilledEmailHTML(studentName: string, notice: PositionsFilledNotice): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Positions Filled</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #64748b; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8fafc; padding: 30px; border-radius: 0 0 8px 8px; }
+          .job-card { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .button { display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 10px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Thank You For Applying</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${escapeHtml(studentName)},</p>
+            
+            <p>Thank you for your interest in this role. ${escapeHtml(notice.companyName)} has now filled every open position, so they will not be taking your application further.</p>
+            
+            <div class="job-card">
+              <h3>${escapeHtml(notice.jobTitle)}</h3>
+              <p><strong>Company:</strong> ${escapeHtml(notice.companyName)}</p>
+              <p><strong>Location:</strong> ${escapeHtml(notice.location)}</p>
+            </div>
+            
+            <p>This is no reflection on your profile. New jobs are posted every day, and we hope you find the right one soon.</p>
+            <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/jobs" class="button">
+              Browse Jobs
+            </a>
+            
+            <p>Best regards,<br>The MeWork Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generatePositionsFilledEmailText(studentName: string, notice: PositionsFilledNotice): string {
+    return `
+Thank You For Applying
+
+Dear ${studentName},
+
+Thank you for your interest in "${notice.jobTitle}" (${notice.location}). ${notice.companyName} has now filled every open position, so they will not be taking your application further.
+
+This is no reflection on your profile. New jobs are posted every day, and we hope you find the right one soon: ${process.env.FRONTEND_URL || 'http://localhost:3000'}/jobs
+
+Best regards,
+The MeWork Team
+    `;
+  }
+
+  private generateStudentDigestEmailText(studentName: string, jobs: StudentDigestJob[], periodLabel: string): string {
+    return `
+New Jobs For You
+
+Dear ${studentName},
+
+${jobs.length} new job${jobs.length === 1 ? ' matching your skills was' : 's matching your skills were'} posted ${periodLabel}.
+
+${jobs.map(job => `- ${job.jobTitle} at ${job.companyName}, ${job.location}${job.salary ? ` (${job.salary})` : ''} - matches ${job.matchedOn.join(', ')}`).join('\n')}
+
+Browse all jobs: ${process.env.FRONTEND_URL || 'http://localhost:3000'}/jobs
 
 Best regards,
 The MeWork Team
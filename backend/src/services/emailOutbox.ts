@@ -0,0 +1,347 @@
+import nodemailer from 'nodemailer';
+import mongoose from 'mongoose';
+import EmailOutbox, { IEmailOutbox, IEmailAttachment, REDACTED_EMAIL_BODY } from '../models/EmailOutbox';
+import { createTransporter } from './emailService';
+
+export interface EnqueueEmailInput {
+  to: string;
+  from?: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  attachments?: IEmailAttachment[];
+  category: string;
+  // The same key is only ever queued once, so retried requests never send twice
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  // Drop the message (dead-letter) instead of sending it after this time
+  expiresAt?: Date;
+  // The body holds a one-time code; see IEmailOutbox.sensitive
+  sensitive?: boolean;
+}
+
+export interface EmailOutboxWorkerOptions {
+  transporter?: nodemailer.Transporter;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  lockTimeoutMs?: number;
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// A sensitive message's code is of no use once it is sent or given up on
+const redactedBody = (message: Pick<IEmailOutbox, 'sensitive'>) =>
+  message.sensitive ? { html: REDACTED_EMAIL_BODY, text: REDACTED_EMAIL_BODY } : {};
+
+// Build the SMTP transport used by the outbox worker. SMTP_* settings win
+// (point SMTP_HOST/SMTP_PORT at a local SMTP stand-in for development);
+// otherwise the EMAIL_* account used for OTP mail is used.
+export const createOutboxTransporter = (): nodemailer.Transporter => {
+  if (process.env.SMTP_HOST || process.env.SMTP_USER) {
+    return nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'smtp.gmail.com',
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+  return createTransporter({});
+};
+
+export const isOutboxTransportConfigured = (): boolean => {
+  return !!(process.env.SMTP_HOST || process.env.SMTP_USER || (process.env.EMAIL_USER && process.env.EMAIL_PASS));
+};
+
+// Delay before the next attempt: base * 2^(attempts - 1), capped at max
+export const getRetryDelay = (attempts: number, baseDelayMs: number, maxDelayMs: number): number => {
+  return Math.min(baseDelayMs * Math.pow(2, Math.max(attempts - 1, 0)), maxDelayMs);
+};
+
+/**
+ * Background worker that delivers queued emails.
+ * Messages are claimed one at a time with an atomic update so several
+ * server instances can run a worker against the same collection.
+ */
+export class EmailOutboxWorker {
+  private transporter: nodemailer.Transporter | null;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private lockTimeoutMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing: Promise<number> | null = null;
+
+  constructor(options: EmailOutboxWorkerOptions = {}) {
+    this.transporter = options.transporter || null;
+    this.pollIntervalMs = options.pollIntervalMs ?? Number(process.env.EMAIL_OUTBOX_POLL_MS || 5000);
+    this.batchSize = options.batchSize ?? 20;
+    this.baseDelayMs = options.baseDelayMs ?? 30 * 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60 * 60 * 1000;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 2 * 60 * 1000;
+  }
+
+  public async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      // autoIndex is off globally; the idempotency index must exist for dedupe
+      await EmailOutbox.createIndexes();
+    } catch (error) {
+      console.error('❌ Failed to create email outbox indexes:', error);
+    }
+
+    console.log(`📬 Email outbox worker started (poll every ${this.pollIntervalMs}ms)`);
+    this.schedule(0);
+  }
+
+  public async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.processing) {
+      await this.processing;
+    }
+    console.log('📬 Email outbox worker stopped');
+  }
+
+  // Process the queue now instead of waiting for the next poll
+  public wake(): void {
+    if (this.running && !this.processing) {
+      this.schedule(0);
+    }
+  }
+
+  // Deliver up to one batch of due messages; returns how many were attempted
+  public async processBatch(): Promise<number> {
+    await this.releaseStaleLocks();
+
+    let attempted = 0;
+    while (attempted < this.batchSize) {
+      const message = await this.claimNext();
+      if (!message) break;
+      attempted++;
+      await this.deliver(message);
+    }
+    return attempted;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    if (this.timer) clearTimeout(this.timer);
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      if (mongoose.connection.readyState !== 1) {
+        this.schedule(this.pollIntervalMs);
+        return;
+      }
+
+      let attempted = 0;
+      this.processing = this.processBatch();
+      try {
+        attempted = await this.processing;
+      } catch (error) {
+        console.error('❌ Email outbox batch failed:', error);
+      } finally {
+        this.processing = null;
+      }
+
+      // A full batch means there is probably more waiting
+      this.schedule(attempted >= this.batchSize ? 0 : this.pollIntervalMs);
+    }, delayMs);
+  }
+
+  private getTransporter(): nodemailer.Transporter {
+    if (!this.transporter) {
+      this.transporter = createOutboxTransporter();
+    }
+    return this.transporter;
+  }
+
+  // A worker that died mid-send leaves messages in 'sending'; put them back in the queue
+  private async releaseStaleLocks(): Promise<void> {
+    const staleBefore = new Date(Date.now() - this.lockTimeoutMs);
+    const staleFilter = { status: 'sending', lockedAt: { $lt: staleBefore } };
+
+    const exhausted = { ...staleFilter, $expr: { $gte: ['$attempts', '$maxAttempts'] } };
+    await EmailOutbox.updateMany(
+      { ...exhausted, sensitive: true },
+      { $set: { status: 'dead', lastError: 'Delivery lock expired', ...redactedBody({ sensitive: true }) }, $unset: { lockedAt: 1 } }
+    );
+    await EmailOutbox.updateMany(
+      exhausted,
+      { $set: { status: 'dead', lastError: 'Delivery lock expired' }, $unset: { lockedAt: 1 } }
+    );
+    await EmailOutbox.updateMany(
+      staleFilter,
+      { $set: { status: 'failed', lastError: 'Delivery lock expired', nextAttemptAt: new Date() }, $unset: { lockedAt: 1 } }
+    );
+  }
+
+  private async claimNext(): Promise<IEmailOutbox | null> {
+    const now = new Date();
+    return EmailOutbox.findOneAndUpdate(
+      {
+        status: { $in: ['pending', 'failed'] },
+        nextAttemptAt: { $lte: now },
+        $expr: { $lt: ['$attempts', '$maxAttempts'] }
+      },
+      { $set: { status: 'sending', lockedAt: now }, $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  private async deliver(message: IEmailOutbox): Promise<void> {
+    if (message.expiresAt && message.expiresAt.getTime() < Date.now()) {
+      await EmailOutbox.updateOne(
+        { _id: message._id },
+        { $set: { status: 'dead', lastError: 'Expired before delivery', ...redactedBody(message) }, $unset: { lockedAt: 1 } }
+      );
+      console.warn(`📭 Email ${message._id} (${message.category}) expired before delivery`);
+      return;
+    }
+
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: message.from || process.env.SMTP_FROM || process.env.SMTP_USER || process.env.EMAIL_USER,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+        attachments: message.attachments.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.contentType
+        }))
+      });
+
+      await EmailOutbox.updateOne(
+        { _id: message._id },
+        {
+          $set: { status: 'sent', sentAt: new Date(), messageId: info.messageId, ...redactedBody(message) },
+          $unset: { lockedAt: 1, lastError: 1 }
+        }
+      );
+      console.log(`📧 Email ${message._id} (${message.category}) sent to ${message.to}`);
+    } catch (error: any) {
+      const errorMessage = error?.response || error?.message || String(error);
+      const exhausted = message.attempts >= message.maxAttempts;
+      const nextAttemptAt = new Date(Date.now() + getRetryDelay(message.attempts, this.baseDelayMs, this.maxDelayMs));
+
+      await EmailOutbox.updateOne(
+        { _id: message._id },
+        {
+          $set: {
+            status: exhausted ? 'dead' : 'failed',
+            lastError: errorMessage,
+            ...(exhausted ? redactedBody(message) : { nextAttemptAt })
+          },
+          $unset: { lockedAt: 1 },
+          $push: { errorHistory: { $each: [{ at: new Date(), error: errorMessage }], $slice: -20 } }
+        }
+      );
+
+      if (exhausted) {
+        console.error(`❌ Email ${message._id} (${message.category}) dead-lettered after ${message.attempts} attempts:`, errorMessage);
+      } else {
+        console.warn(`⚠️ Email ${message._id} (${message.category}) attempt ${message.attempts} failed, retrying at ${nextAttemptAt.toISOString()}:`, errorMessage);
+      }
+    }
+  }
+}
+
+let activeWorker: EmailOutboxWorker | null = null;
+
+// Start the process-wide worker (called once the database is connected)
+export const startEmailOutboxWorker = async (options: EmailOutboxWorkerOptions = {}): Promise<EmailOutboxWorker> => {
+  if (!activeWorker) {
+    activeWorker = new EmailOutboxWorker(options);
+  }
+  await activeWorker.start();
+  return activeWorker;
+};
+
+export const stopEmailOutboxWorker = async (): Promise<void> => {
+  if (activeWorker) {
+    await activeWorker.stop();
+    activeWorker = null;
+  }
+};
+
+/**
+ * Queue an email for delivery by the outbox worker.
+ * Returns the existing message when the idempotency key was already queued.
+ */
+export const enqueueEmail = async (input: EnqueueEmailInput): Promise<IEmailOutbox> => {
+  if (input.idempotencyKey) {
+    const existing = await EmailOutbox.findOne({ idempotencyKey: input.idempotencyKey });
+    if (existing) {
+      console.log(`📬 Email already queued for key ${input.idempotencyKey}, skipping`);
+      return existing;
+    }
+  }
+
+  let message: IEmailOutbox;
+  try {
+    message = await EmailOutbox.create({
+      to: input.to,
+      from: input.from,
+      subject: input.subject,
+      html: input.html,
+      text: input.text,
+      headers: input.headers || {},
+      attachments: input.attachments || [],
+      category: input.category,
+      idempotencyKey: input.idempotencyKey,
+      maxAttempts: input.maxAttempts,
+      expiresAt: input.expiresAt,
+      sensitive: input.sensitive
+    });
+  } catch (error: any) {
+    // Lost a race with a concurrent request using the same key
+    if (error?.code === DUPLICATE_KEY_ERROR && input.idempotencyKey) {
+      const existing = await EmailOutbox.findOne({ idempotencyKey: input.idempotencyKey });
+      if (existing) return existing;
+    }
+    throw error;
+  }
+
+  console.log(`📬 Email queued: ${input.category} to ${input.to}`);
+  activeWorker?.wake();
+  return message;
+};
+
+/**
+ * Put a failed or dead-lettered message back in the queue with a fresh attempt budget.
+ * Sensitive messages and messages past their expiry are never re-sent.
+ */
+export const retryEmail = async (id: string): Promise<IEmailOutbox | null> => {
+  const message = await EmailOutbox.findOneAndUpdate(
+    {
+      _id: id,
+      status: { $in: ['failed', 'dead'] },
+      sensitive: { $ne: true },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }]
+    },
+    {
+      $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+      $unset: { lockedAt: 1 }
+    },
+    { new: true }
+  );
+  if (message) {
+    activeWorker?.wake();
+  }
+  return message;
+};
@@ -1,31 +1,9 @@
+import crypto from 'crypto';
 import nodemailer from 'nodemailer';
 import { OTP } from '../models/OTP';
+import { enqueueEmail, isOutboxTransportConfigured } from './emailOutbox';
 
-// Enhanced logging for debugging
-const logEmailError = (attempt: number, error: any, config: any) => {
-  const cfgHost = config.host;
-  const cfgPort = config.port;
-  const cfgSecure = config.secure;
-  const userFromAuth = config.auth?.user;
-  const passFromAuth = config.auth?.pass;
-  const userFromRoot = config.user;
-  const passFromRoot = config.pass;
-
-  console.error(`📧 Email Error (Attempt ${attempt}):`, {
-    error: error.message || error,
-    code: error.code,
-    command: error.command,
-    responseCode: error.responseCode,
-    response: error.response,
-    config: {
-      host: cfgHost,
-      port: cfgPort,
-      secure: cfgSecure,
-      user: (userFromAuth || userFromRoot) ? '***' : 'NOT_SET',
-      pass: (passFromAuth || passFromRoot) ? '***' : 'NOT_SET'
-    }
-  });
-};
+const OTP_VALIDITY_MS = 5 * 60 * 1000;
 
 // Create transporter with proper Gmail configuration
 export const createTransporter = (config: {
@@ -69,13 +47,13 @@ export const generateOTP = (): string => {
   return Math.floor(100000 + Math.random() * 900000).toString();
 };
 
-// Send OTP email with comprehensive error handling
+// Queue OTP email for delivery; returns false if it could not be queued
 export const sendOTPEmail = async (email: string, otp: string, purpose: 'verification' | 'password-reset' | 'login'): Promise<boolean> => {
   console.log(`📧 Attempting to send ${purpose} OTP to: ${email}`);
 
   // Validate configuration
-  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASS) {
-    console.error('❌ Email configuration missing: EMAIL_USER or EMAIL_PASS not set');
+  if (!isOutboxTransportConfigured()) {
+    console.error('❌ Email configuration missing: set EMAIL_USER/EMAIL_PASS or SMTP_HOST');
     return false;
   }
 
@@ -115,96 +93,24 @@ export const sendOTPEmail = async (email: string, otp: string, purpose: 'verific
     </div>
   `;
 
-  const mailOptions = {
-    from: `"StudentJobs" <${process.env.EMAIL_USER}>`,
-    to: email,
-    subject,
-    html
-  };
-
-  // Attempt 1: Gmail SMTP with STARTTLS (Port 587)
-  try {
-    console.log('📧 Attempt 1: Gmail SMTP with STARTTLS (Port 587)');
-    const transporter1 = createTransporter({
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false,
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS
-    });
-    
-    const result = await transporter1.sendMail(mailOptions);
-    console.log('✅ Email sent successfully:', {
-      messageId: result.messageId,
-      response: result.response
-    });
-    return true;
-  } catch (err1: any) {
-    logEmailError(1, err1, {
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false,
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS
-    });
-  }
-
-  // Attempt 2: Gmail SMTP with SSL (Port 465)
+  // Delivered by the outbox worker; OTPs are useless once expired, so stop retrying then
   try {
-    console.log('📧 Attempt 2: Gmail SMTP with SSL (Port 465)');
-    const transporter2 = createTransporter({
-      host: 'smtp.gmail.com',
-      port: 465,
-      secure: true,
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS
-    });
-    
-    const result = await transporter2.sendMail(mailOptions);
-    console.log('✅ Email sent successfully:', {
-      messageId: result.messageId,
-      response: result.response
-    });
-    return true;
-  } catch (err2: any) {
-    logEmailError(2, err2, {
-      host: 'smtp.gmail.com',
-      port: 465,
-      secure: true,
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS
-    });
-  }
-
-  // Attempt 3: Custom SMTP configuration from environment
-  try {
-    console.log('📧 Attempt 3: Custom SMTP configuration from environment');
-    const transporter3 = createTransporter({
-      host: process.env.EMAIL_HOST,
-      port: Number(process.env.EMAIL_PORT),
-      secure: process.env.EMAIL_SECURE === 'true',
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS
-    });
-    
-    const result = await transporter3.sendMail(mailOptions);
-    console.log('✅ Email sent successfully:', {
-      messageId: result.messageId,
-      response: result.response
+    await enqueueEmail({
+      from: process.env.EMAIL_USER ? `"StudentJobs" <${process.env.EMAIL_USER}>` : undefined,
+      to: email,
+      subject,
+      html,
+      category: `otp_${purpose}`,
+      // Hashed so the code itself is not stored in the key
+      idempotencyKey: `otp:${crypto.createHash('sha256').update(`${email.toLowerCase()}:${purpose}:${otp}`).digest('hex')}`,
+      expiresAt: new Date(Date.now() + OTP_VALIDITY_MS),
+      sensitive: true
     });
     return true;
-  } catch (err3: any) {
-    logEmailError(3, err3, {
-      host: process.env.EMAIL_HOST,
-      port: Number(process.env.EMAIL_PORT),
-      secure: process.env.EMAIL_SECURE === 'true',
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS
-    });
+  } catch (error) {
+    console.error('❌ Failed to queue OTP email:', error);
+    return false;
   }
-
-  console.error('❌ All email sending attempts failed');
-  return false;
 };
 
 // Verify OTP with enhanced logging
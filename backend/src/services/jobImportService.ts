@@ -0,0 +1,281 @@
+import mongoose from 'mongoose';
+import Job, { JOB_CATEGORIES, JobCategory, JOB_WORK_TYPES, JobWorkType, SALARY_PERIODS, ISalary } from '../models/Job';
+import { IUser } from '../models/User';
+import { IGeoPoint } from '../models/GeoPoint';
+import { ValidationError } from '../middleware/errorHandler';
+import { SpreadsheetRow } from '../utils/spreadsheet';
+import { parseSalaryInput, parseSalaryText, formatSalary } from '../utils/salary';
+import { parseCoordinatesInput } from '../utils/geo';
+import { getEmployerPoint } from './jobLocationService';
+import { parsePositions } from './jobPositionService';
+
+// Enough for a chain's store-level openings; bigger lists can be split across files
+export const MAX_IMPORT_ROWS = 200;
+
+// Header names (compared without case, spaces or punctuation) and the field each fills
+const COLUMN_ALIASES: Record<string, string> = {
+  jobtitle: 'jobTitle',
+  title: 'jobTitle',
+  description: 'description',
+  location: 'location',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  salarymin: 'salaryMin',
+  salarymax: 'salaryMax',
+  salaryperiod: 'salaryPeriod',
+  salary: 'salaryRange',
+  salaryrange: 'salaryRange',
+  worktype: 'workType',
+  category: 'category',
+  skills: 'skillsRequired',
+  skillsrequired: 'skillsRequired',
+  applicationdeadline: 'applicationDeadline',
+  deadline: 'applicationDeadline',
+  positions: 'positions',
+  openings: 'positions'
+};
+
+const REQUIRED_COLUMNS = ['jobTitle', 'description', 'location', 'workType', 'applicationDeadline'];
+
+// Excel counts days from 30 Dec 1899; 25569 is 1 Jan 1970
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface JobImportFieldError {
+  field: string;
+  message: string;
+}
+
+export interface JobImportRowError {
+  row: number;
+  errors: JobImportFieldError[];
+}
+
+export interface JobImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  created: { row: number; jobId: mongoose.Types.ObjectId; jobTitle: string }[];
+  errors: JobImportRowError[];
+  ignoredColumns: string[];
+}
+
+export interface JobImportOptions {
+  dryRun: boolean;
+  status: 'draft' | 'active';
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Enum values are matched without case, so "part-time" and "PART-TIME" both work
+const matchEnum = <T extends string>(values: readonly T[], input: string): T | undefined =>
+  values.find(value => value.toLowerCase() === input.trim().toLowerCase());
+
+/**
+ * Deadlines as people type them in a sheet: ISO dates or date-times, DD/MM/YYYY or
+ * DD-MM-YYYY (the usual order in India), or an Excel date serial from an XLSX cell.
+ */
+const parseDeadline = (value: string): Date | undefined => {
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return new Date(Math.round((Number(text) - EXCEL_EPOCH_OFFSET_DAYS) * DAY_MS));
+  }
+  const dayFirst = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return new Date(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`);
+  }
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// Skills are split on semicolons, pipes or commas, whichever the sheet uses
+const parseSkills = (value: string): string[] =>
+  value.split(/[;|,]/).map(skill => skill.trim()).filter(Boolean);
+
+// Employer details copied onto every job they post, as POST /api/enhanced-jobs does
+export const employerJobInfo = (employer: IUser) => ({
+  companyName: employer.companyName || employer.name || 'Company Name',
+  email: employer.email || '',
+  phone: employer.phone || '',
+  companyLogo: employer.companyLogo || '',
+  businessType: employer.businessType || '',
+  employerName: employer.name || ''
+});
+
+const readHeader = (header: SpreadsheetRow) => {
+  const columns = header.cells.map(cell => COLUMN_ALIASES[normalizeHeader(cell)]);
+  const ignoredColumns = header.cells.filter((cell, index) => cell.trim() && !columns[index]);
+
+  const missing = REQUIRED_COLUMNS.filter(field => !columns.includes(field));
+  const hasSalary = columns.includes('salaryMin') || columns.includes('salaryRange');
+  if (!hasSalary) missing.push('salaryMin (or salary)');
+  if (missing.length > 0) {
+    throw new ValidationError(`The header row is missing these columns: ${missing.join(', ')}`);
+  }
+  return { columns, ignoredColumns };
+};
+
+const buildRowJob = (
+  values: Record<string, string>,
+  now: Date
+): { job: Record<string, any>; errors: JobImportFieldError[] } => {
+  const errors: JobImportFieldError[] = [];
+  const job: Record<string, any> = {
+    jobTitle: values.jobTitle,
+    description: values.description,
+    location: values.location,
+    skillsRequired: parseSkills(values.skillsRequired || '')
+  };
+
+  const workType = matchEnum<JobWorkType>(JOB_WORK_TYPES, values.workType || '');
+  if (!values.workType) {
+    errors.push({ field: 'workType', message: 'Work type is required' });
+  } else if (!workType) {
+    errors.push({ field: 'workType', message: `Work type must be one of ${JOB_WORK_TYPES.join(', ')}` });
+  }
+  job.workType = workType;
+
+  if (values.category) {
+    const category = matchEnum<JobCategory>(JOB_CATEGORIES, values.category);
+    if (!category) {
+      errors.push({ field: 'category', message: `Category must be one of ${JOB_CATEGORIES.join(', ')}` });
+    }
+    job.category = category;
+  }
+
+  // Structured pay columns win; a free-text salary is kept as typed and parsed best-effort
+  let salary: ISalary | undefined;
+  try {
+    if (values.salaryMin) {
+      salary = parseSalaryInput({
+        // Thousands separators as in "18,000"
+        min: values.salaryMin.replace(/,/g, ''),
+        max: values.salaryMax ? values.salaryMax.replace(/,/g, '') : undefined,
+        period: matchEnum(SALARY_PERIODS, values.salaryPeriod || '') || values.salaryPeriod
+      });
+    }
+  } catch (error) {
+    errors.push({ field: 'salary', message: (error as Error).message });
+  }
+  if (salary) {
+    job.salary = salary;
+    job.salaryRange = formatSalary(salary);
+  } else if (values.salaryRange) {
+    job.salary = parseSalaryText(values.salaryRange) || undefined;
+    job.salaryRange = values.salaryRange;
+  } else if (!values.salaryMin) {
+    errors.push({ field: 'salary', message: 'Salary is required' });
+  }
+
+  if (!values.applicationDeadline) {
+    errors.push({ field: 'applicationDeadline', message: 'Application deadline is required' });
+  } else {
+    const deadline = parseDeadline(values.applicationDeadline);
+    if (!deadline) {
+      errors.push({ field: 'applicationDeadline', message: 'Application deadline is not a date (use YYYY-MM-DD)' });
+    } else if (deadline <= now) {
+      errors.push({ field: 'applicationDeadline', message: 'Application deadline must be in the future' });
+    }
+    job.applicationDeadline = deadline;
+  }
+
+  // An empty cell hires one person, as a single post does
+  try {
+    job.positions = parsePositions(values.positions);
+  } catch (error) {
+    errors.push({ field: 'positions', message: (error as Error).message });
+  }
+
+  try {
+    job.locationPoint = parseCoordinatesInput(values.latitude, values.longitude);
+  } catch (error) {
+    errors.push({ field: 'latitude', message: (error as Error).message });
+  }
+
+  return { job, errors };
+};
+
+/**
+ * Check every row of an uploaded job sheet against the rules a single post follows
+ * (required fields, length limits, enums, a future deadline) and, unless it is a dry
+ * run, create the valid rows in one batch. Invalid rows are reported by row number
+ * and never block the valid ones.
+ */
+export const importJobs = async (
+  employer: IUser,
+  rows: SpreadsheetRow[],
+  options: JobImportOptions
+): Promise<JobImportResult> => {
+  const [header, ...dataRows] = rows;
+  if (!header || dataRows.length === 0) {
+    throw new ValidationError('The file needs a header row and at least one job');
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`A file can have at most ${MAX_IMPORT_ROWS} jobs. Split it and upload the rest separately.`);
+  }
+
+  const { columns, ignoredColumns } = readHeader(header);
+  const employerInfo = employerJobInfo(employer);
+  const employerPoint: IGeoPoint | undefined = await getEmployerPoint(employer._id as mongoose.Types.ObjectId);
+  const now = new Date();
+
+  const valid: { row: number; job: InstanceType<typeof Job> }[] = [];
+  const errors: JobImportRowError[] = [];
+
+  for (const { row, cells } of dataRows) {
+    const values: Record<string, string> = {};
+    columns.forEach((field, index) => {
+      if (field && cells[index] !== undefined) values[field] = cells[index].trim();
+    });
+
+    const { job: fields, errors: rowErrors } = buildRowJob(values, now);
+    const job = new Job({
+      ...fields,
+      jobId: new mongoose.Types.ObjectId(),
+      employerId: employer._id,
+      locationPoint: fields.locationPoint || employerPoint,
+      ...employerInfo,
+      status: options.status,
+      highlighted: true
+    });
+
+    // The schema catches what the row checks do not: required text, lengths, email...
+    const validation = job.validateSync();
+    if (validation) {
+      const reported = new Set(rowErrors.map(error => error.field));
+      Object.entries(validation.errors).forEach(([path, error]) => {
+        // salaryRange is generated from the pay columns, so its errors are salary errors
+        const field = path === 'salaryRange' ? 'salary' : path.split('.')[0];
+        if (!reported.has(field)) {
+          reported.add(field);
+          rowErrors.push({ field, message: error.message });
+        }
+      });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, errors: rowErrors });
+    } else {
+      valid.push({ row, job });
+    }
+  }
+
+  let created: JobImportResult['created'] = [];
+  if (!options.dryRun && valid.length > 0) {
+    await Job.insertMany(valid.map(({ job }) => job));
+    created = valid.map(({ row, job }) => ({ row, jobId: job._id as mongoose.Types.ObjectId, jobTitle: job.jobTitle }));
+    console.log(`📥 Imported ${created.length} job(s) for employer ${employer._id} (${errors.length} row(s) rejected)`);
+  }
+
+  return {
+    dryRun: options.dryRun,
+    totalRows: dataRows.length,
+    validRows: valid.length,
+    invalidRows: errors.length,
+    created,
+    errors,
+    ignoredColumns
+  };
+};
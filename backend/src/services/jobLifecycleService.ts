@@ -0,0 +1,255 @@
+import mongoose from 'mongoose';
+import Job, { IJob } from '../models/Job';
+import Application, { OPEN_APPLICATION_STATUSES } from '../models/Application';
+import SocketManager from '../utils/socketManager';
+import EmailNotificationService from './emailNotificationService';
+import { dispatchNotification } from './notificationDispatcher';
+import { notifyMatchingSavedSearches } from './savedSearchService';
+import { buildDeadlineExtensionUrl } from '../utils/deadlineExtensionToken';
+import { ValidationError } from '../middleware/errorHandler';
+
+// Often enough that a scheduled job goes live within a few minutes of its time
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Jobs handled per run; the rest are picked up by the next one
+const BATCH_SIZE = 100;
+
+// What the one-click extension adds; employers can pick up to the maximum in the app
+export const DEFAULT_EXTENSION_DAYS = 7;
+export const MAX_EXTENSION_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface JobLifecycleServices {
+  socketManager?: SocketManager;
+  emailService?: EmailNotificationService;
+}
+
+export interface JobLifecycleRunResult {
+  published: number;
+  expired: number;
+}
+
+// Check a publishAt sent by a client: a future time before the application deadline
+export const parsePublishAt = (value: unknown, applicationDeadline: Date): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const publishAt = new Date(String(value));
+  if (Number.isNaN(publishAt.getTime())) {
+    throw new ValidationError('publishAt must be a valid date');
+  }
+  if (publishAt <= new Date()) {
+    throw new ValidationError('publishAt must be in the future');
+  }
+  if (publishAt >= applicationDeadline) {
+    throw new ValidationError('publishAt must be before the application deadline');
+  }
+  return publishAt;
+};
+
+// Alert saved searches once a job goes live; approval-pending jobs alert when approved
+const afterPublish = async (job: IJob, services: JobLifecycleServices): Promise<void> => {
+  if (job.approvalStatus === 'approved') {
+    await notifyMatchingSavedSearches(job, services);
+  }
+};
+
+// Publish a draft now. It is listed as new from this moment, not from when it was drafted.
+export const publishJob = async (job: IJob, services: JobLifecycleServices = {}): Promise<IJob> => {
+  if (job.status !== 'draft') {
+    throw new ValidationError('Only draft jobs can be published');
+  }
+  if (job.applicationDeadline <= new Date()) {
+    throw new ValidationError('The application deadline has passed. Set a new deadline before publishing.');
+  }
+
+  job.status = 'active';
+  job.publishAt = undefined;
+  job.createdAt = new Date();
+  await job.save();
+
+  await afterPublish(job, services);
+  console.log(`📣 Job ${job._id} published`);
+  return job;
+};
+
+/**
+ * Move a job's deadline `days` past the later of now and its current deadline.
+ * An expired job is reopened; drafts, paused and closed jobs keep their status.
+ */
+export const extendJobDeadline = async (job: IJob, days: number = DEFAULT_EXTENSION_DAYS): Promise<IJob> => {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_EXTENSION_DAYS) {
+    throw new ValidationError(`days must be a whole number from 1 to ${MAX_EXTENSION_DAYS}`);
+  }
+  if (job.status === 'closed') {
+    throw new ValidationError('Closed jobs cannot be extended');
+  }
+
+  const base = Math.max(Date.now(), job.applicationDeadline.getTime());
+  job.applicationDeadline = new Date(base + days * DAY_MS);
+  if (job.status === 'expired') {
+    job.status = 'active';
+    job.expiredAt = undefined;
+  }
+  await job.save();
+
+  console.log(`📅 Job ${job._id} deadline extended by ${days} day(s) to ${job.applicationDeadline.toISOString()}`);
+  return job;
+};
+
+// Drafts whose publishAt has come, unless their deadline passed while they waited
+export const publishScheduledJobs = async (services: JobLifecycleServices = {}, now: Date = new Date()): Promise<number> => {
+  const due = await Job.find({
+    status: 'draft',
+    publishAt: { $lte: now },
+    applicationDeadline: { $gt: now }
+  }).select('_id').limit(BATCH_SIZE);
+
+  let published = 0;
+  for (const { _id } of due) {
+    // Claim the job first so overlapping runs (or a manual publish) do not publish it twice
+    const job = await Job.findOneAndUpdate(
+      { _id, status: 'draft', publishAt: { $lte: now } },
+      { $set: { status: 'active', createdAt: now }, $unset: { publishAt: 1 } },
+      // Mongoose drops a $set of createdAt unless told to leave it alone
+      { new: true, timestamps: { createdAt: false } }
+    );
+    if (!job) continue;
+
+    await afterPublish(job, services);
+    published++;
+  }
+
+  if (published > 0) {
+    console.log(`📣 Published ${published} scheduled job(s)`);
+  }
+  return published;
+};
+
+const notifyJobExpired = async (job: IJob, services: JobLifecycleServices): Promise<void> => {
+  const { socketManager, emailService } = services;
+  const employerId = String(job.employerId);
+  const jobData = {
+    id: job._id,
+    jobTitle: job.jobTitle,
+    companyName: job.companyName,
+    location: job.location,
+    applicationDeadline: job.applicationDeadline
+  };
+
+  const openApplications = await Application.find({
+    jobId: job._id,
+    status: { $in: OPEN_APPLICATION_STATUSES }
+  }).select('studentId').lean();
+
+  await dispatchNotification({
+    recipient: employerId,
+    recipientType: 'employer',
+    type: 'job_expired',
+    title: 'Job Expired',
+    message: `"${job.jobTitle}" stopped taking applications. Extend the deadline by ${DEFAULT_EXTENSION_DAYS} days to reopen it.`,
+    payload: {
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      applicationDeadline: job.applicationDeadline,
+      openApplications: openApplications.length,
+      extensionDays: DEFAULT_EXTENSION_DAYS
+    },
+    realtime: () => socketManager?.notifyJobExpired(jobData, employerId, 'employer'),
+    email: emailService
+      ? () => emailService.sendJobExpiredNotice(employerId, {
+        jobId: String(job._id),
+        jobTitle: job.jobTitle,
+        applicationDeadline: job.applicationDeadline,
+        openApplications: openApplications.length,
+        extensionDays: DEFAULT_EXTENSION_DAYS,
+        extendUrl: buildDeadlineExtensionUrl(String(job._id), employerId, job.applicationDeadline)
+      })
+      : undefined
+  });
+
+  // Applicants still in the pipeline hear that no new applications are taken;
+  // their own applications carry on
+  for (const application of openApplications) {
+    const studentId = String(application.studentId);
+    await dispatchNotification({
+      recipient: studentId,
+      recipientType: 'student',
+      type: 'job_expired',
+      title: 'Job Closed For Applications',
+      message: `"${job.jobTitle}" at ${job.companyName} reached its deadline. Your application is still with the employer.`,
+      payload: {
+        jobId: job._id,
+        jobTitle: job.jobTitle,
+        companyName: job.companyName
+      },
+      realtime: () => socketManager?.notifyJobExpired(jobData, studentId, 'student')
+    });
+  }
+};
+
+/**
+ * Expire active jobs whose application deadline has passed and tell the employer
+ * (with a one-click extension link) and the students with open applications. Saving
+ * a job also expires it (see the Job pre-save hook); this catches the ones nobody saves.
+ */
+export const expireOverdueJobs = async (services: JobLifecycleServices = {}, now: Date = new Date()): Promise<number> => {
+  const overdue = await Job.find({
+    status: 'active',
+    applicationDeadline: { $lte: now }
+  }).select('_id').limit(BATCH_SIZE);
+
+  let expired = 0;
+  for (const { _id } of overdue) {
+    const job = await Job.findOneAndUpdate(
+      { _id, status: 'active', applicationDeadline: { $lte: now } },
+      { $set: { status: 'expired', expiredAt: now } },
+      { new: true }
+    );
+    if (!job) continue;
+
+    expired++;
+    try {
+      await notifyJobExpired(job, services);
+    } catch (error) {
+      console.error(`❌ Failed to send expiry notifications for job ${job._id}:`, error);
+    }
+  }
+
+  if (expired > 0) {
+    console.log(`⌛ Expired ${expired} job(s) past their application deadline`);
+  }
+  return expired;
+};
+
+export const runJobLifecycle = async (services: JobLifecycleServices = {}, now: Date = new Date()): Promise<JobLifecycleRunResult> => {
+  const published = await publishScheduledJobs(services, now);
+  const expired = await expireOverdueJobs(services, now);
+  return { published, expired };
+};
+
+let lifecycleTimer: NodeJS.Timeout | null = null;
+
+// Publish scheduled drafts and expire overdue jobs every few minutes
+export const startJobLifecycleScheduler = (services: JobLifecycleServices = {}): void => {
+  if (lifecycleTimer) return;
+
+  const tick = async () => {
+    if (mongoose.connection.readyState !== 1) return;
+    try {
+      await runJobLifecycle(services);
+    } catch (error) {
+      console.error('❌ Job lifecycle run failed:', error);
+    }
+  };
+
+  lifecycleTimer = setInterval(tick, CHECK_INTERVAL_MS);
+  console.log('⌛ Job publishing and expiry scheduler started');
+  tick();
+};
+
+export const stopJobLifecycleScheduler = (): void => {
+  if (lifecycleTimer) {
+    clearInterval(lifecycleTimer);
+    lifecycleTimer = null;
+  }
+};
@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import EmployerKYC from '../models/EmployerKYC';
+import KYC, { IKYCDocument } from '../models/KYC';
+import { IUser } from '../models/User';
+import { IGeoPoint } from '../models/GeoPoint';
+import { toGeoPoint, parseCoordinatesInput } from '../utils/geo';
+import { ValidationError, AuthenticationError } from '../middleware/errorHandler';
+
+export const STUDENT_ORIGINS = ['home', 'pg'] as const;
+export type StudentOrigin = typeof STUDENT_ORIGINS[number];
+
+// Business location from the employer's KYC, when they entered coordinates there
+export const getEmployerPoint = async (employerId: mongoose.Types.ObjectId | string): Promise<IGeoPoint | undefined> => {
+  const kyc = await EmployerKYC.findOne({ employerId }).select('latitude longitude');
+  return kyc ? toGeoPoint(kyc.latitude, kyc.longitude) : undefined;
+};
+
+// Coordinates entered when posting win; otherwise the job sits at the employer's KYC location
+export const resolveJobPoint = async (
+  employerId: mongoose.Types.ObjectId | string,
+  latitude?: unknown,
+  longitude?: unknown
+): Promise<IGeoPoint | undefined> => {
+  return parseCoordinatesInput(latitude, longitude) || getEmployerPoint(employerId);
+};
+
+const originPointOf = (
+  kyc: Pick<IKYCDocument, 'homeLocation' | 'pgDetails'> | null | undefined,
+  origin: StudentOrigin
+): IGeoPoint | undefined => {
+  const point = origin === 'pg' ? kyc?.pgDetails?.location : kyc?.homeLocation;
+  return point?.coordinates?.length ? point : undefined;
+};
+
+// Where a student commutes from: their home or PG position saved on the KYC profile
+export const findStudentOriginPoint = async (
+  studentId: mongoose.Types.ObjectId | string,
+  origin: StudentOrigin
+): Promise<IGeoPoint | undefined> => {
+  const kyc = await KYC.findOne({ userId: studentId, isActive: true }).select('homeLocation pgDetails.location');
+  return originPointOf(kyc, origin);
+};
+
+// The same for many students in one query, keyed by student id
+export const findStudentOriginPoints = async (
+  studentIds: Array<mongoose.Types.ObjectId | string>
+): Promise<Map<string, Record<StudentOrigin, IGeoPoint | undefined>>> => {
+  const points = new Map<string, Record<StudentOrigin, IGeoPoint | undefined>>();
+  if (studentIds.length === 0) return points;
+
+  const kycs = await KYC.find({ userId: { $in: studentIds }, isActive: true }).select('userId homeLocation pgDetails.location');
+  kycs.forEach(kyc => points.set(String(kyc.userId), { home: originPointOf(kyc, 'home'), pg: originPointOf(kyc, 'pg') }));
+  return points;
+};
+
+// Origin of a logged-in student's search; fails when the position was never saved
+export const getStudentOrigin = async (user: IUser | undefined, origin: StudentOrigin): Promise<IGeoPoint> => {
+  if (!user || user.userType !== 'student') {
+    throw new AuthenticationError('Log in as a student to search near your home or PG');
+  }
+
+  const point = await findStudentOriginPoint(user._id as mongoose.Types.ObjectId, origin);
+  if (!point) {
+    throw new ValidationError(
+      origin === 'pg'
+        ? 'Save your PG location in your profile to search near it'
+        : 'Save your home location in your profile to search near it'
+    );
+  }
+  return point;
+};
@@ -0,0 +1,160 @@
+import mongoose from 'mongoose';
+import Job, { IJob, MAX_JOB_POSITIONS } from '../models/Job';
+import Application, { IApplication, IStatusActor, OPEN_APPLICATION_STATUSES } from '../models/Application';
+import { dispatchNotification } from './notificationDispatcher';
+import { JobLifecycleServices } from './jobLifecycleService';
+import { assignPickedShifts } from './shiftService';
+import { ValidationError } from '../middleware/errorHandler';
+
+// Kept on the status history of applications closed because the job filled up
+export const POSITIONS_FILLED_NOTE = 'All positions for this job have been filled';
+
+export interface HireResult {
+  job: IJob;
+  closed: boolean;
+  autoRejected: number;
+}
+
+// Check a positions count sent by a client; undefined keeps the default of one
+export const parsePositions = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const positions = Number(value);
+  if (!Number.isInteger(positions) || positions < 1 || positions > MAX_JOB_POSITIONS) {
+    throw new ValidationError(`positions must be a whole number from 1 to ${MAX_JOB_POSITIONS}`);
+  }
+  return positions;
+};
+
+// Take one open position. Done in one update so two employers' tabs hiring at the
+// same moment cannot both take the last one.
+const claimPosition = async (jobId: mongoose.Types.ObjectId): Promise<IJob> => {
+  const job = await Job.findOneAndUpdate(
+    {
+      _id: jobId,
+      $expr: { $lt: [{ $ifNull: ['$filledPositions', 0] }, { $ifNull: ['$positions', 1] }] }
+    },
+    { $inc: { filledPositions: 1 } },
+    { new: true }
+  );
+  if (!job) {
+    throw new ValidationError('All positions for this job are already filled');
+  }
+  return job;
+};
+
+const releasePosition = async (jobId: mongoose.Types.ObjectId): Promise<void> => {
+  await Job.updateOne({ _id: jobId, filledPositions: { $gt: 0 } }, { $inc: { filledPositions: -1 } });
+};
+
+const notifyPositionsFilled = async (
+  job: IJob,
+  application: IApplication,
+  services: JobLifecycleServices
+): Promise<void> => {
+  const { socketManager, emailService } = services;
+  const studentId = String(application.studentId);
+
+  await dispatchNotification({
+    recipient: studentId,
+    recipientType: 'student',
+    type: 'application_status_update',
+    title: 'Positions Filled',
+    message: `Thank you for applying to "${job.jobTitle}". ${job.companyName} has filled all its positions, so your application will not go further.`,
+    payload: {
+      applicationId: application._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      status: 'rejected',
+      notes: POSITIONS_FILLED_NOTE
+    },
+    realtime: () => socketManager?.notifyApplicationStatusUpdate({
+      id: application._id,
+      jobId: job._id,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      studentId: application.studentId,
+      status: 'rejected',
+      notes: POSITIONS_FILLED_NOTE,
+      updatedAt: new Date()
+    }, studentId),
+    email: emailService
+      ? () => emailService.sendPositionsFilledNotice(studentId, {
+        applicationId: String(application._id),
+        jobTitle: job.jobTitle,
+        companyName: job.companyName,
+        location: job.location
+      })
+      : undefined
+  });
+};
+
+/**
+ * Close a job whose positions are all filled and reject the applications still in its
+ * pipeline, with a polite note to each applicant. One failed rejection does not stop
+ * the rest.
+ */
+export const closeFilledJob = async (job: IJob, services: JobLifecycleServices = {}): Promise<number> => {
+  const now = new Date();
+  await Job.updateOne(
+    { _id: job._id, status: { $ne: 'closed' } },
+    { $set: { status: 'closed', filledAt: now } }
+  );
+  job.status = 'closed';
+  job.filledAt = now;
+
+  const openApplications = await Application.find({
+    jobId: job._id,
+    status: { $in: OPEN_APPLICATION_STATUSES }
+  });
+
+  let rejected = 0;
+  for (const application of openApplications) {
+    try {
+      await application.updateStatus('rejected', { type: 'system' }, POSITIONS_FILLED_NOTE);
+      rejected++;
+      await notifyPositionsFilled(job, application, services);
+    } catch (error) {
+      console.error(`❌ Failed to close application ${application._id} after job ${job._id} filled:`, error);
+    }
+  }
+
+  console.log(`🎉 Job ${job._id} filled all ${job.positions} position(s); ${rejected} open application(s) closed`);
+  return rejected;
+};
+
+/**
+ * Hire an applicant into one of the job's open positions. The position is taken
+ * before the status changes and given back if the change is refused. The student is
+ * rostered on the shifts they picked, and hiring the last position closes the job
+ * (see closeFilledJob).
+ */
+export const hireApplicant = async (
+  application: IApplication,
+  actor: IStatusActor,
+  notes: string | undefined,
+  services: JobLifecycleServices = {}
+): Promise<HireResult> => {
+  const jobId = application.jobId;
+  const job = await claimPosition(jobId);
+
+  try {
+    await application.updateStatus('hired', actor, notes);
+  } catch (error) {
+    await releasePosition(jobId);
+    throw error;
+  }
+
+  // The hire stands even if the roster cannot be updated; the employer can assign shifts later
+  try {
+    await assignPickedShifts(application, job);
+  } catch (error) {
+    console.error(`❌ Failed to roster application ${application._id} on its picked shifts:`, error);
+  }
+
+  if (job.filledPositions < (job.positions ?? 1)) {
+    return { job, closed: false, autoRejected: 0 };
+  }
+  const autoRejected = await closeFilledJob(job, services);
+  return { job, closed: true, autoRejected };
+};
@@ -0,0 +1,374 @@
+import { PipelineStage } from 'mongoose';
+import {
+  Job,
+  IJob,
+  JOB_CATEGORIES,
+  JobCategory,
+  JOB_WORK_TYPES,
+  JobWorkType,
+  SALARY_PERIODS,
+  SalaryPeriod
+} from '../models/Job';
+import { ValidationError } from '../middleware/errorHandler';
+import { ParsedSearch, parseSearchText, hasPositiveTerms, buildTextSearch, highlightJob } from '../utils/jobTextSearch';
+import { IGeoPoint } from '../models/GeoPoint';
+import { EARTH_RADIUS_KM, parseLatLng } from '../utils/geo';
+import { STUDENT_ORIGINS, StudentOrigin } from './jobLocationService';
+
+// ?sort= values for the public job list. `score` is the text search relevance and
+// `distanceKm` the distance from the search origin; each is only used (and is the
+// default) when there is a search or an origin.
+export const JOB_SORTS: Record<string, Record<string, 1 | -1>> = {
+  relevance: { score: -1, createdAt: -1 },
+  distance: { distanceKm: 1, createdAt: -1 },
+  newest: { createdAt: -1 },
+  pay_desc: { 'salary.max': -1, createdAt: -1 },
+  pay_asc: { 'salary.min': 1, createdAt: -1 }
+};
+
+// Pay buckets compare an estimated monthly amount so hourly, daily and monthly jobs
+// land in the same scale. Per-task jobs and jobs without a parsed salary are 'unspecified'.
+const HOURS_PER_MONTH = 160;
+const DAYS_PER_MONTH = 26;
+
+export const SALARY_BUCKET_VALUES = ['under_10k', '10k_20k', '20k_35k', '35k_plus', 'unspecified'] as const;
+export type SalaryBucket = typeof SALARY_BUCKET_VALUES[number];
+
+// Estimated monthly pay in [min, max); the last ranged bucket has no upper bound
+const SALARY_BUCKETS: Record<SalaryBucket, { label: string; min?: number; max?: number }> = {
+  under_10k: { label: 'Under ₹10,000 / month', min: 0, max: 10000 },
+  '10k_20k': { label: '₹10,000 - ₹20,000 / month', min: 10000, max: 20000 },
+  '20k_35k': { label: '₹20,000 - ₹35,000 / month', min: 20000, max: 35000 },
+  '35k_plus': { label: '₹35,000+ / month', min: 35000 },
+  unspecified: { label: 'Per task / not specified' }
+};
+
+export const DEFAULT_RADIUS_KM = 10;
+const MAX_RADIUS_KM = 100;
+
+const MAX_PAGE_SIZE = 50;
+const MAX_LOCATION_FACETS = 20;
+
+export interface JobSearchQuery {
+  search?: ParsedSearch;
+  categories: JobCategory[];
+  workTypes: JobWorkType[];
+  locations: string[];
+  salaryBuckets: SalaryBucket[];
+  salaryPeriod?: SalaryPeriod;
+  salaryMin?: number;
+  salaryMax?: number;
+  // Origin for "within radiusKm of me": ?near=lat,lng, or the student's saved home / PG
+  // (?origin=home|pg), which the route resolves into nearPoint
+  nearPoint?: IGeoPoint;
+  origin?: StudentOrigin;
+  radiusKm: number;
+  sort: string;
+  page: number;
+  limit: number;
+}
+
+export interface FacetCount {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export interface JobFacets {
+  categories: FacetCount[];
+  workTypes: FacetCount[];
+  locations: FacetCount[];
+  salaryBuckets: FacetCount[];
+}
+
+type FacetDimension = 'category' | 'workType' | 'location' | 'salaryBucket';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ?category=A&category=B and ?category=A,B both give ['A', 'B']
+const toList = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+const toEnumList = <T extends string>(value: unknown, allowed: readonly T[], name: string): T[] => {
+  const values = toList(value);
+  const invalid = values.filter(item => !allowed.includes(item as T));
+  if (invalid.length > 0) {
+    throw new ValidationError(`${name} must be one of ${allowed.join(', ')}`);
+  }
+  return values as T[];
+};
+
+const toAmount = (value: unknown, name: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const amount = Number(value);
+  if (!Number.isFinite(amount)) {
+    throw new ValidationError(`${name} must be a number`);
+  }
+  return amount;
+};
+
+const toPositiveInt = (value: unknown, fallback: number, max?: number): number => {
+  const number = parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(number) || number < 1) return fallback;
+  return max ? Math.min(number, max) : number;
+};
+
+/**
+ * Read the public job search filters from a query string. Locations are free text, so
+ * commas only split them when the value is repeated (?location=A&location=B).
+ */
+export const parseJobSearchQuery = (query: Record<string, unknown>): JobSearchQuery => {
+  const salaryPeriod = query.salaryPeriod ? String(query.salaryPeriod) : undefined;
+  if (salaryPeriod && !SALARY_PERIODS.includes(salaryPeriod as SalaryPeriod)) {
+    throw new ValidationError(`salaryPeriod must be one of ${SALARY_PERIODS.join(', ')}`);
+  }
+
+  const searchText = query.search ? String(query.search).trim() : '';
+  const search = searchText ? parseSearchText(searchText) : undefined;
+  if (search && !hasPositiveTerms(search)) {
+    throw new ValidationError('Search needs at least one word or phrase to look for, not only exclusions');
+  }
+
+  const nearPoint = query.near ? parseLatLng(String(query.near)) : undefined;
+  const origin = query.origin ? String(query.origin) as StudentOrigin : undefined;
+  if (origin && !STUDENT_ORIGINS.includes(origin)) {
+    throw new ValidationError(`origin must be one of ${STUDENT_ORIGINS.join(', ')}`);
+  }
+  if (nearPoint && origin) {
+    throw new ValidationError('Use either near or origin, not both');
+  }
+  const radiusKm = toAmount(query.radiusKm, 'radiusKm') ?? DEFAULT_RADIUS_KM;
+  if (radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+    throw new ValidationError(`radiusKm must be more than 0 and at most ${MAX_RADIUS_KM}`);
+  }
+  const hasOrigin = Boolean(nearPoint || origin);
+
+  let sort = query.sort ? String(query.sort) : search ? 'relevance' : hasOrigin ? 'distance' : 'newest';
+  if (!JOB_SORTS[sort]) {
+    throw new ValidationError(`sort must be one of ${Object.keys(JOB_SORTS).join(', ')}`);
+  }
+  if ((sort === 'relevance' && !search) || (sort === 'distance' && !hasOrigin)) sort = 'newest';
+
+  const locations = (Array.isArray(query.location) ? query.location : query.location ? [query.location] : [])
+    .map(location => String(location).trim())
+    .filter(Boolean);
+
+  return {
+    search,
+    categories: toEnumList(query.category, JOB_CATEGORIES, 'category'),
+    // `type` is the older name for workType
+    workTypes: toEnumList(query.workType ?? query.type, JOB_WORK_TYPES, 'workType'),
+    locations,
+    salaryBuckets: toEnumList(query.salaryBucket, SALARY_BUCKET_VALUES, 'salaryBucket'),
+    salaryPeriod: salaryPeriod as SalaryPeriod | undefined,
+    salaryMin: toAmount(query.salaryMin, 'salaryMin'),
+    salaryMax: toAmount(query.salaryMax, 'salaryMax'),
+    nearPoint,
+    origin,
+    radiusKm,
+    sort,
+    page: toPositiveInt(query.page, 1),
+    limit: toPositiveInt(query.limit, 10, MAX_PAGE_SIZE)
+  };
+};
+
+// Filters that are not facets: visibility, text search, pay and distance
+const buildBaseMatch = (query: JobSearchQuery): Record<string, any> => {
+  const match: Record<string, any> = {
+    status: 'active',
+    approvalStatus: 'approved' // Only show approved jobs to public
+  };
+
+  if (query.search) {
+    match.$text = { $search: buildTextSearch(query.search) };
+  }
+  if (query.salaryPeriod) match['salary.period'] = query.salaryPeriod;
+  // A job matches when its pay range overlaps the requested one
+  if (query.salaryMin !== undefined) match['salary.max'] = { $gte: query.salaryMin };
+  if (query.salaryMax !== undefined) match['salary.min'] = { $lte: query.salaryMax };
+  // $geoWithin (unlike $near) can be combined with $text; distance is computed separately
+  if (query.nearPoint) {
+    match.locationPoint = {
+      $geoWithin: { $centerSphere: [query.nearPoint.coordinates, query.radiusKm / EARTH_RADIUS_KM] }
+    };
+  }
+
+  return match;
+};
+
+// Facet filters, optionally leaving one out so its own counts show the alternatives
+const buildFacetMatch = (query: JobSearchQuery, exclude?: FacetDimension): Record<string, any> => {
+  const match: Record<string, any> = {};
+  if (exclude !== 'category' && query.categories.length > 0) {
+    match.category = { $in: query.categories };
+  }
+  if (exclude !== 'workType' && query.workTypes.length > 0) {
+    match.workType = { $in: query.workTypes };
+  }
+  if (exclude !== 'location' && query.locations.length > 0) {
+    match.location = { $in: query.locations.map(location => new RegExp(`^${escapeRegex(location)}$`, 'i')) };
+  }
+  if (exclude !== 'salaryBucket' && query.salaryBuckets.length > 0) {
+    match.salaryBucket = { $in: query.salaryBuckets };
+  }
+  return match;
+};
+
+// Filter for a plain Job.find(); salary buckets need the aggregation in searchJobs
+export const buildJobFilter = (query: JobSearchQuery): Record<string, any> => {
+  if (query.salaryBuckets.length > 0) {
+    throw new ValidationError('salaryBucket is only supported by /api/jobs/search');
+  }
+  return { ...buildBaseMatch(query), ...buildFacetMatch(query) };
+};
+
+// Great-circle (haversine) distance in km from the origin to the job, to one decimal
+const distanceExpression = (origin: IGeoPoint) => {
+  const [originLng, originLat] = origin.coordinates.map(value => (value * Math.PI) / 180);
+  const lat = { $degreesToRadians: { $arrayElemAt: ['$locationPoint.coordinates', 1] } };
+  const lng = { $degreesToRadians: { $arrayElemAt: ['$locationPoint.coordinates', 0] } };
+  const halfChord = {
+    $add: [
+      { $pow: [{ $sin: { $divide: [{ $subtract: [lat, originLat] }, 2] } }, 2] },
+      {
+        $multiply: [
+          Math.cos(originLat),
+          { $cos: lat },
+          { $pow: [{ $sin: { $divide: [{ $subtract: [lng, originLng] }, 2] } }, 2] }
+        ]
+      }
+    ]
+  };
+  return { $round: [{ $multiply: [2 * EARTH_RADIUS_KM, { $asin: { $sqrt: halfChord } }] }, 1] };
+};
+
+const estimatedMonthlyPay = {
+  $switch: {
+    branches: [
+      { case: { $eq: ['$salary.period', 'monthly'] }, then: '$salary.max' },
+      { case: { $eq: ['$salary.period', 'daily'] }, then: { $multiply: ['$salary.max', DAYS_PER_MONTH] } },
+      { case: { $eq: ['$salary.period', 'hourly'] }, then: { $multiply: ['$salary.max', HOURS_PER_MONTH] } }
+    ],
+    default: null
+  }
+};
+
+const salaryBucketExpression = {
+  $let: {
+    vars: { monthly: estimatedMonthlyPay },
+    in: {
+      $switch: {
+        branches: SALARY_BUCKET_VALUES.filter(value => SALARY_BUCKETS[value].min !== undefined).map(value => {
+          const { min, max } = SALARY_BUCKETS[value];
+          return {
+            case: {
+              $and: [
+                { $ne: ['$$monthly', null] },
+                { $gte: ['$$monthly', min] },
+                ...(max !== undefined ? [{ $lt: ['$$monthly', max] }] : [])
+              ]
+            },
+            then: value
+          };
+        }),
+        default: 'unspecified'
+      }
+    }
+  }
+};
+
+const countBy = (field: string, exclude: FacetDimension, query: JobSearchQuery): PipelineStage.FacetPipelineStage[] => [
+  { $match: buildFacetMatch(query, exclude) },
+  { $group: { _id: field, count: { $sum: 1 } } },
+  { $sort: { count: -1, _id: 1 } }
+];
+
+// Every allowed value is listed, with 0 for values that have no matching jobs
+const fillCounts = (values: readonly string[], counts: Array<{ _id: string; count: number }>): FacetCount[] => {
+  const byValue = new Map(counts.map(count => [count._id, count.count]));
+  return values.map(value => ({ value, count: byValue.get(value) || 0 }));
+};
+
+/**
+ * Search approved, active jobs and count the matches per category, work type, location
+ * and salary bucket. Each facet's counts apply every other filter but its own, so a
+ * selected category still shows how many jobs the other categories would add.
+ * With a search, jobs carry their relevance `score` and highlighted title and snippet;
+ * with an origin, only jobs within the radius are returned, each with `distanceKm`.
+ */
+export const searchJobs = async (query: JobSearchQuery) => {
+  const skip = (query.page - 1) * query.limit;
+  const fullMatch = buildFacetMatch(query);
+
+  const [result] = await Job.aggregate([
+    { $match: buildBaseMatch(query) },
+    {
+      $addFields: {
+        salaryBucket: salaryBucketExpression,
+        ...(query.search && { score: { $meta: 'textScore' } }),
+        ...(query.nearPoint && { distanceKm: distanceExpression(query.nearPoint) })
+      }
+    },
+    {
+      $facet: {
+        jobs: [
+          { $match: fullMatch },
+          { $sort: JOB_SORTS[query.sort] },
+          { $skip: skip },
+          { $limit: query.limit },
+          // select: false does not apply to aggregates; knockout answers stay server-side
+          { $project: { salaryBucket: 0, 'screeningQuestions.knockout': 0 } }
+        ],
+        total: [{ $match: fullMatch }, { $count: 'count' }],
+        categories: countBy('$category', 'category', query),
+        workTypes: countBy('$workType', 'workType', query),
+        locations: countBy('$location', 'location', query),
+        salaryBuckets: countBy('$salaryBucket', 'salaryBucket', query)
+      }
+    }
+  ]);
+
+  const populated = await Job.populate(result.jobs as IJob[], { path: 'employerId', select: 'name companyName businessType' });
+  const jobs = query.search
+    ? populated.map(job => ({ ...job, highlights: highlightJob(job, query.search!) }))
+    : populated;
+  const total: number = result.total[0]?.count || 0;
+
+  // Selected locations stay listed even when nothing matches them anymore
+  const locations: FacetCount[] = result.locations
+    .filter((location: { _id: string | null }) => location._id)
+    .slice(0, MAX_LOCATION_FACETS)
+    .map((location: { _id: string; count: number }) => ({ value: location._id, count: location.count }));
+  query.locations.forEach(selected => {
+    if (!locations.some(location => location.value.toLowerCase() === selected.toLowerCase())) {
+      locations.push({ value: selected, count: 0 });
+    }
+  });
+
+  const facets: JobFacets = {
+    categories: fillCounts(JOB_CATEGORIES, result.categories),
+    workTypes: fillCounts(JOB_WORK_TYPES, result.workTypes),
+    locations,
+    salaryBuckets: fillCounts(SALARY_BUCKET_VALUES, result.salaryBuckets).map(bucket => ({
+      ...bucket,
+      label: SALARY_BUCKETS[bucket.value as SalaryBucket].label
+    }))
+  };
+
+  return {
+    jobs,
+    facets,
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total,
+      pages: Math.ceil(total / query.limit)
+    }
+  };
+};
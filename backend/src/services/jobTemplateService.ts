@@ -0,0 +1,141 @@
+import mongoose from 'mongoose';
+import Job, { IJob, IScreeningQuestion, JOB_CATEGORIES, JobCategory, JOB_WORK_TYPES, JobWorkType } from '../models/Job';
+import { IJobTemplateFields } from '../models/JobTemplate';
+import { ValidationError } from '../middleware/errorHandler';
+import { parseScreeningQuestions } from './screeningService';
+import { parsePublishAt } from './jobLifecycleService';
+import { parsePositions } from './jobPositionService';
+import { parseSalaryInput } from '../utils/salary';
+import { parseCoordinatesInput } from '../utils/geo';
+
+// Closed and expired jobs are the ones worth posting again; open ones can be edited
+export const DUPLICABLE_JOB_STATUSES = ['closed', 'expired'];
+
+export interface DuplicateJobOptions {
+  applicationDeadline: unknown;
+  status?: unknown;
+  publishAt?: unknown;
+}
+
+const optionalText = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+};
+
+// Questions copied into a new job or template get new ids, so answers to the old
+// job never point at the new one's questions
+const copyQuestions = (questions: IScreeningQuestion[]): IScreeningQuestion[] =>
+  questions.map(({ prompt, type, options, required, knockout }) => ({
+    prompt,
+    type,
+    options: options && options.length > 0 ? [...options] : undefined,
+    required,
+    knockout
+  }));
+
+/**
+ * Validate the job fields of a template. Takes the fields the post-job form sends
+ * (jobTitle, description, location, latitude/longitude, salary, workType, category,
+ * skillsRequired, screeningQuestions, positions); only the title is required.
+ */
+export const parseTemplateFields = (input: unknown): IJobTemplateFields => {
+  if (!input || typeof input !== 'object') {
+    throw new ValidationError('Template job details are required');
+  }
+  const body = input as Record<string, any>;
+
+  const jobTitle = optionalText(body.jobTitle);
+  if (!jobTitle) {
+    throw new ValidationError('A template needs at least a job title');
+  }
+  if (body.workType !== undefined && body.workType !== '' && !JOB_WORK_TYPES.includes(body.workType)) {
+    throw new ValidationError(`workType must be one of ${JOB_WORK_TYPES.join(', ')}`);
+  }
+  if (body.category !== undefined && body.category !== '' && !JOB_CATEGORIES.includes(body.category)) {
+    throw new ValidationError(`category must be one of ${JOB_CATEGORIES.join(', ')}`);
+  }
+  if (body.skillsRequired !== undefined && !Array.isArray(body.skillsRequired)) {
+    throw new ValidationError('skillsRequired must be a list');
+  }
+
+  const salary = parseSalaryInput(body.salary);
+  return {
+    jobTitle,
+    description: optionalText(body.description),
+    location: optionalText(body.location),
+    locationPoint: parseCoordinatesInput(body.latitude, body.longitude),
+    salary,
+    salaryRange: salary ? undefined : optionalText(body.salaryRange),
+    workType: (body.workType || undefined) as JobWorkType | undefined,
+    category: (body.category || undefined) as JobCategory | undefined,
+    skillsRequired: (body.skillsRequired || []).map((skill: unknown) => String(skill).trim()).filter(Boolean),
+    screeningQuestions: copyQuestions(parseScreeningQuestions(body.screeningQuestions)),
+    positions: parsePositions(body.positions)
+  };
+};
+
+// The reusable part of a posted job. Load the job with '+screeningQuestions.knockout'
+// so its knockout rules carry over.
+export const templateFieldsFromJob = (job: IJob): IJobTemplateFields => ({
+  jobTitle: job.jobTitle,
+  description: job.description,
+  location: job.location,
+  locationPoint: job.locationPoint,
+  salary: job.salary ? { min: job.salary.min, max: job.salary.max, currency: job.salary.currency, period: job.salary.period } : undefined,
+  salaryRange: job.salary ? undefined : job.salaryRange,
+  workType: job.workType,
+  category: job.category,
+  skillsRequired: [...(job.skillsRequired || [])],
+  screeningQuestions: copyQuestions(job.screeningQuestions || []),
+  positions: job.positions
+});
+
+/**
+ * Post a closed or expired job again as a new job with a new application deadline.
+ * Applications, invites, hires and the approval history stay with the original, so
+ * the copy starts with all its positions open. Like a new post, the copy is a draft
+ * when `status: 'draft'` or a `publishAt` time is given.
+ * Load the source with '+screeningQuestions.knockout' so its knockout rules are kept.
+ */
+export const duplicateJob = async (source: IJob, options: DuplicateJobOptions): Promise<IJob> => {
+  if (!DUPLICABLE_JOB_STATUSES.includes(source.status)) {
+    throw new ValidationError('Only closed or expired jobs can be duplicated');
+  }
+  if (options.status !== undefined && options.status !== 'draft' && options.status !== 'active') {
+    throw new ValidationError("status must be 'draft' or 'active'");
+  }
+
+  const deadline = new Date(String(options.applicationDeadline ?? ''));
+  if (!options.applicationDeadline || Number.isNaN(deadline.getTime())) {
+    throw new ValidationError('A new applicationDeadline is required');
+  }
+  if (deadline <= new Date()) {
+    throw new ValidationError('The new application deadline must be in the future');
+  }
+  const scheduledAt = parsePublishAt(options.publishAt, deadline);
+  const isDraft = options.status === 'draft' || Boolean(scheduledAt);
+
+  const fields = templateFieldsFromJob(source);
+  const job = await Job.create({
+    ...fields,
+    jobId: new mongoose.Types.ObjectId(),
+    employerId: source.employerId,
+    applicationDeadline: deadline,
+
+    companyName: source.companyName,
+    email: source.email,
+    phone: source.phone,
+    companyLogo: source.companyLogo,
+    businessType: source.businessType,
+    employerName: source.employerName,
+
+    status: isDraft ? 'draft' : 'active',
+    publishAt: scheduledAt,
+    highlighted: true,
+    createdAt: new Date()
+  });
+
+  console.log(`📋 Job ${source._id} duplicated as ${job._id}`);
+  return job;
+};
@@ -0,0 +1,233 @@
+import mongoose from 'mongoose';
+import LedgerEntry, { ILedgerEntry, LedgerAccount, LedgerEntryKind, LedgerSourceType } from '../models/LedgerEntry';
+import PayoutBatch from '../models/PayoutBatch';
+import Timesheet, { ITimesheet } from '../models/Timesheet';
+import Application, { IApplication } from '../models/Application';
+import Job, { IJob } from '../models/Job';
+import User from '../models/User';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Earnings posted per backfill run; the rest are picked up by the next one
+const BACKFILL_BATCH_SIZE = 500;
+
+// Ledger amounts are whole paise; the rest of the app works in rupees
+export const toPaise = (rupees: number): number => Math.round(rupees * 100);
+export const toRupees = (paise: number): number => paise / 100;
+
+export interface LedgerPosting {
+  key: string;
+  kind: LedgerEntryKind;
+  studentId: mongoose.Types.ObjectId;
+  employerId?: mongoose.Types.ObjectId;
+  sourceType: LedgerSourceType;
+  sourceId: mongoose.Types.ObjectId;
+  debit: LedgerAccount; // Account the money moves to
+  credit: LedgerAccount; // Account the money moves from
+  amount: number; // Paise
+  memo: string;
+  postedBy?: mongoose.Types.ObjectId;
+}
+
+// Where a student's money is, in paise
+export interface StudentBalance {
+  earned: number; // Everything approved so far
+  payable: number; // Owed and not yet in a payout batch
+  inTransit: number; // In a batch the bank has not confirmed yet
+  paid: number; // Confirmed by the bank
+}
+
+const emptyBalance = (): StudentBalance => ({ earned: 0, payable: 0, inTransit: 0, paid: 0 });
+
+// autoIndex is off globally; the unique entry key is what stops an event being posted twice
+export const ensureLedgerIndexes = async (): Promise<void> => {
+  try {
+    await Promise.all([LedgerEntry.createIndexes(), PayoutBatch.createIndexes()]);
+  } catch (error) {
+    console.error('❌ Failed to create ledger indexes:', error);
+  }
+};
+
+/**
+ * Post a balanced two-line entry. Posting the same key again returns the
+ * entry already in the ledger, so callers can retry safely.
+ */
+export const postEntry = async (posting: LedgerPosting): Promise<{ entry: ILedgerEntry; created: boolean }> => {
+  const existing = await LedgerEntry.findOne({ key: posting.key });
+  if (existing) return { entry: existing, created: false };
+
+  const { debit, credit, amount, ...rest } = posting;
+  try {
+    const entry = await LedgerEntry.create({
+      ...rest,
+      amount,
+      lines: [
+        { account: debit, debit: amount, credit: 0 },
+        { account: credit, debit: 0, credit: amount }
+      ]
+    });
+    return { entry, created: true };
+  } catch (error: any) {
+    // Lost a race with a concurrent posting of the same event
+    if (error?.code === DUPLICATE_KEY_ERROR) {
+      const entry = await LedgerEntry.findOne({ key: posting.key });
+      if (entry) return { entry, created: false };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Balances per student from the ledger lines. student_payable and
+ * payout_clearing are liabilities (credit minus debit); bank is credited as
+ * money leaves for the student's account.
+ */
+export const getStudentBalances = async (
+  studentIds?: mongoose.Types.ObjectId[]
+): Promise<Map<string, StudentBalance>> => {
+  const rows = await LedgerEntry.aggregate<{ _id: { studentId: mongoose.Types.ObjectId; account: LedgerAccount }; debit: number; credit: number }>([
+    ...(studentIds ? [{ $match: { studentId: { $in: studentIds } } }] : []),
+    { $unwind: '$lines' },
+    {
+      $group: {
+        _id: { studentId: '$studentId', account: '$lines.account' },
+        debit: { $sum: '$lines.debit' },
+        credit: { $sum: '$lines.credit' }
+      }
+    }
+  ]);
+
+  const balances = new Map<string, StudentBalance>();
+  rows.forEach(({ _id, debit, credit }) => {
+    const key = String(_id.studentId);
+    const balance = balances.get(key) || emptyBalance();
+    if (_id.account === 'employer_expense') balance.earned = debit - credit;
+    if (_id.account === 'student_payable') balance.payable = credit - debit;
+    if (_id.account === 'payout_clearing') balance.inTransit = credit - debit;
+    if (_id.account === 'bank') balance.paid = credit - debit;
+    balances.set(key, balance);
+  });
+  return balances;
+};
+
+export const getStudentBalance = async (studentId: mongoose.Types.ObjectId): Promise<StudentBalance> =>
+  (await getStudentBalances([studentId])).get(String(studentId)) || emptyBalance();
+
+// totalEarnings is everything the ledger has recorded as earned by the student
+export const refreshTotalEarnings = async (studentId: mongoose.Types.ObjectId): Promise<number> => {
+  const { earned } = await getStudentBalance(studentId);
+  const totalEarnings = toRupees(earned);
+  await User.updateOne({ _id: studentId }, { $set: { totalEarnings } });
+  return totalEarnings;
+};
+
+// Post an approved timesheet's amount as owed to the student
+export const recordTimesheetEarning = async (timesheet: ITimesheet): Promise<ILedgerEntry | null> => {
+  const amount = toPaise(timesheet.amount);
+  if (timesheet.status !== 'approved' || amount <= 0) return null;
+
+  const { entry, created } = await postEntry({
+    key: `timesheet:${timesheet._id}`,
+    kind: 'earning',
+    studentId: timesheet.studentId,
+    employerId: timesheet.employerId,
+    sourceType: 'timesheet',
+    sourceId: timesheet._id as mongoose.Types.ObjectId,
+    debit: 'employer_expense',
+    credit: 'student_payable',
+    amount,
+    memo: `Timesheet for the week of ${timesheet.weekStart}`,
+    postedBy: timesheet.approvedBy
+  });
+  if (created) await refreshTotalEarnings(timesheet.studentId);
+  return entry;
+};
+
+// Pay of a per-task job, earned once the employer marks the engagement completed
+export const taskPayOf = (job: Pick<IJob, 'salary'>): number | undefined =>
+  job.salary?.period === 'per_task' && job.salary.min > 0 ? job.salary.min : undefined;
+
+export const recordTaskEarning = async (
+  application: IApplication,
+  job: Pick<IJob, 'salary' | 'jobTitle' | 'employerId'>
+): Promise<ILedgerEntry | null> => {
+  const pay = taskPayOf(job);
+  if (pay === undefined || !application.completedDate) return null;
+
+  const { entry, created } = await postEntry({
+    key: `task:${application._id}`,
+    kind: 'earning',
+    studentId: application.studentId,
+    employerId: job.employerId,
+    sourceType: 'task',
+    sourceId: application._id as mongoose.Types.ObjectId,
+    debit: 'employer_expense',
+    credit: 'student_payable',
+    amount: toPaise(pay),
+    memo: `Task completed: ${job.jobTitle}`.slice(0, 200)
+  });
+  if (created) await refreshTotalEarnings(application.studentId);
+  return entry;
+};
+
+/**
+ * Post earnings that are missing from the ledger: work approved before the
+ * ledger existed, or a posting that failed after the approval was saved.
+ * Safe to run any number of times.
+ */
+export const backfillEarnings = async (): Promise<number> => {
+  const [postedTimesheets, postedTasks, perTaskJobs] = await Promise.all([
+    LedgerEntry.distinct('sourceId', { kind: 'earning', sourceType: 'timesheet' }),
+    LedgerEntry.distinct('sourceId', { kind: 'earning', sourceType: 'task' }),
+    Job.find({ 'salary.period': 'per_task' }).select('jobTitle salary employerId')
+  ]);
+
+  const [missingTimesheets, missingTasks] = await Promise.all([
+    Timesheet.find({ status: 'approved', amount: { $gt: 0 }, _id: { $nin: postedTimesheets } })
+      .sort({ approvedAt: 1 })
+      .limit(BACKFILL_BATCH_SIZE),
+    perTaskJobs.length === 0 ? [] : Application.find({
+      jobId: { $in: perTaskJobs.map(job => job._id) },
+      status: 'hired',
+      completedDate: { $exists: true },
+      _id: { $nin: postedTasks }
+    })
+      .sort({ completedDate: 1 })
+      .limit(BACKFILL_BATCH_SIZE)
+  ]);
+
+  let count = 0;
+  for (const timesheet of missingTimesheets) {
+    if (await recordTimesheetEarning(timesheet)) count++;
+  }
+  for (const application of missingTasks) {
+    const job = perTaskJobs.find(j => String(j._id) === String(application.jobId));
+    if (job && await recordTaskEarning(application, job)) count++;
+  }
+  if (count > 0) {
+    console.log(`📒 Posted ${count} missing earning(s) to the ledger`);
+  }
+  return count;
+};
+
+// The student's balance and latest ledger entries, amounts in rupees
+export const getStudentLedger = async (studentId: mongoose.Types.ObjectId, limit = 50) => {
+  const [balance, entries] = await Promise.all([
+    getStudentBalance(studentId),
+    LedgerEntry.find({ studentId })
+      .select('kind sourceType sourceId amount memo createdAt')
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean()
+  ]);
+
+  return {
+    balance: {
+      earned: toRupees(balance.earned),
+      payable: toRupees(balance.payable),
+      inTransit: toRupees(balance.inTransit),
+      paid: toRupees(balance.paid)
+    },
+    entries: entries.map(entry => ({ ...entry, amount: toRupees(entry.amount) }))
+  };
+};
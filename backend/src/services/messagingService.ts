@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import Application, { IApplication, canShareContactDetails, normalizeApplicationStatus } from '../models/Application';
+import Job from '../models/Job';
+import { IMessage } from '../models/Message';
+import { ValidationError, NotFoundError, AuthorizationError } from '../middleware/errorHandler';
+import { redactContactDetails } from '../utils/contactRedaction';
+
+// Applications in these stages keep their history readable but accept no new messages
+const CLOSED_CONVERSATION_STATUSES = ['rejected', 'withdrawn'];
+
+export interface Conversation {
+  application: IApplication;
+  jobId: mongoose.Types.ObjectId;
+  jobTitle: string;
+  role: 'student' | 'employer';
+  userId: string;
+  otherPartyId: string;
+  contactDetailsVisible: boolean;
+  isClosed: boolean;
+}
+
+export interface SerializedMessage {
+  _id: string;
+  application: string;
+  sender: string;
+  senderType: 'student' | 'employer';
+  recipient: string;
+  body: string;
+  redacted: boolean;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+// Resolve the conversation of an application for one of its two participants
+export const getConversation = async (applicationId: string, userId: string): Promise<Conversation> => {
+  if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+    throw new ValidationError('Invalid application ID');
+  }
+
+  const application = await Application.findById(applicationId);
+  if (!application) {
+    throw new NotFoundError('Application not found');
+  }
+
+  const job = await Job.findById(application.jobId).select('employerId jobTitle');
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+
+  const studentId = application.studentId.toString();
+  const employerId = job.employerId.toString();
+  let role: 'student' | 'employer';
+  if (userId === studentId) {
+    role = 'student';
+  } else if (userId === employerId) {
+    role = 'employer';
+  } else {
+    throw new AuthorizationError('Access denied');
+  }
+
+  return {
+    application,
+    jobId: job._id as mongoose.Types.ObjectId,
+    jobTitle: job.jobTitle,
+    role,
+    userId,
+    otherPartyId: role === 'student' ? employerId : studentId,
+    contactDetailsVisible: canShareContactDetails(application),
+    isClosed: CLOSED_CONVERSATION_STATUSES.includes(normalizeApplicationStatus(application.status))
+  };
+};
+
+// Shape a message for the client, hiding contact details until the application is shortlisted
+export const serializeMessage = (message: IMessage, contactDetailsVisible: boolean): SerializedMessage => {
+  const { text, redacted } = contactDetailsVisible
+    ? { text: message.body, redacted: false }
+    : redactContactDetails(message.body);
+
+  return {
+    _id: String(message._id),
+    application: String(message.application),
+    sender: String(message.sender),
+    senderType: message.senderType,
+    recipient: String(message.recipient),
+    body: text,
+    redacted,
+    readAt: message.readAt,
+    createdAt: message.createdAt
+  };
+};
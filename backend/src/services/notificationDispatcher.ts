@@ -0,0 +1,127 @@
+import mongoose from 'mongoose';
+import User, { resolveNotificationPreferences, resolveDigestFrequency, INotificationChannelPreference } from '../models/User';
+import { NotificationType } from '../models/Notification';
+import { createNotification, createNotifications, CreateNotificationInput } from './notificationService';
+
+// Account status changes are always shown in-app, whatever the user's settings
+const ALWAYS_IN_APP: NotificationType[] = ['kyc_status_update'];
+
+// Types whose emails are summarised in the scheduled digest instead of sent one by one
+// while the recipient has the type's digest channel and a digest frequency turned on
+// (see services/digestService)
+const BATCHED_IN_DIGEST: NotificationType[] = ['new_application'];
+
+export interface DispatchInput extends CreateNotificationInput {
+  // Real-time delivery (socket emit), run only when the in-app channel is enabled
+  realtime?: () => void;
+  // Email delivery, run only when the email channel is enabled
+  email?: () => Promise<boolean>;
+}
+
+export interface DispatchResult {
+  inApp: boolean;
+  email: boolean;
+}
+
+export interface BroadcastInput extends Omit<CreateNotificationInput, 'recipient' | 'recipientType'> {
+  // Real-time delivery to the users that have the in-app channel enabled
+  realtime?: (recipientIds: string[]) => void;
+}
+
+// Load the effective channel preference of one user for one notification type
+export const getChannelPreference = async (
+  userId: mongoose.Types.ObjectId | string,
+  type: NotificationType
+): Promise<INotificationChannelPreference> => {
+  const user = await User.findById(userId).select('userType notificationPreferences digestFrequency').lean();
+  const preference = { ...resolveNotificationPreferences(user?.notificationPreferences)[type] };
+
+  if (ALWAYS_IN_APP.includes(type)) {
+    preference.inApp = true;
+  }
+  if (user && BATCHED_IN_DIGEST.includes(type) && preference.digest && resolveDigestFrequency(user) !== 'off') {
+    preference.email = false;
+  }
+  return preference;
+};
+
+/**
+ * Single entry point for user-facing notifications.
+ * Checks the recipient's preferences, then stores the in-app notification,
+ * runs the real-time emit and sends the email for the enabled channels only.
+ * Transactional emails (OTP, password reset) do not go through here.
+ */
+export const dispatchNotification = async (input: DispatchInput): Promise<DispatchResult> => {
+  const result: DispatchResult = { inApp: false, email: false };
+
+  let preference: INotificationChannelPreference;
+  try {
+    preference = await getChannelPreference(input.recipient, input.type);
+  } catch (error) {
+    console.error('❌ Failed to load notification preferences:', error);
+    return result;
+  }
+
+  if (preference.inApp) {
+    await createNotification({
+      recipient: input.recipient,
+      recipientType: input.recipientType,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      payload: input.payload
+    });
+
+    try {
+      input.realtime?.();
+    } catch (error) {
+      console.error('❌ Failed to emit real-time notification:', error);
+    }
+    result.inApp = true;
+  }
+
+  if (preference.email && input.email) {
+    try {
+      result.email = await input.email();
+    } catch (error) {
+      console.error('❌ Failed to send notification email:', error);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Dispatch the same in-app notification to every active user of a type
+ * that has the in-app channel enabled for it.
+ */
+export const dispatchToUserType = async (
+  userType: 'student' | 'employer' | 'admin',
+  input: BroadcastInput
+): Promise<number> => {
+  try {
+    const users = await User.find({ userType, isActive: true }).select('_id notificationPreferences').lean();
+    const recipients = users.filter(user =>
+      ALWAYS_IN_APP.includes(input.type) ||
+      resolveNotificationPreferences(user.notificationPreferences)[input.type].inApp
+    );
+
+    await createNotifications(recipients.map(user => user._id as mongoose.Types.ObjectId), userType, {
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      payload: input.payload
+    });
+
+    try {
+      input.realtime?.(recipients.map(user => String(user._id)));
+    } catch (error) {
+      console.error('❌ Failed to emit real-time notification:', error);
+    }
+
+    return recipients.length;
+  } catch (error) {
+    console.error('❌ Failed to dispatch broadcast notification:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import Notification, { INotification, NotificationType } from '../models/Notification';
+
+export interface CreateNotificationInput {
+  recipient: mongoose.Types.ObjectId | string;
+  recipientType: 'student' | 'employer' | 'admin';
+  type: NotificationType;
+  title: string;
+  message: string;
+  payload?: Record<string, any>;
+}
+
+// autoIndex is off globally; the TTL index on expiresAt is what expires old notifications
+export const ensureNotificationIndexes = async (): Promise<void> => {
+  try {
+    await Notification.createIndexes();
+  } catch (error) {
+    console.error('❌ Failed to create notification indexes:', error);
+  }
+};
+
+// Persist a notification for a single user. Failures are logged and swallowed so
+// that a notification problem never breaks the request that triggered it.
+export const createNotification = async (input: CreateNotificationInput): Promise<INotification | null> => {
+  try {
+    const notification = await Notification.create({
+      recipient: input.recipient,
+      recipientType: input.recipientType,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      payload: input.payload || {}
+    });
+    console.log(`🔔 Notification stored: ${input.type} for user ${input.recipient}`);
+    return notification;
+  } catch (error) {
+    console.error('❌ Failed to store notification:', error);
+    return null;
+  }
+};
+
+// Persist the same notification for many users of one type
+export const createNotifications = async (
+  recipients: Array<mongoose.Types.ObjectId | string>,
+  recipientType: 'student' | 'employer' | 'admin',
+  input: Omit<CreateNotificationInput, 'recipient' | 'recipientType'>
+): Promise<number> => {
+  if (recipients.length === 0) return 0;
+
+  try {
+    const docs = recipients.map(recipient => ({
+      recipient,
+      recipientType,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      payload: input.payload || {}
+    }));
+
+    const inserted = await Notification.insertMany(docs, { ordered: false });
+    console.log(`🔔 Notification stored: ${input.type} for ${inserted.length} ${recipientType}(s)`);
+    return inserted.length;
+  } catch (error) {
+    console.error('❌ Failed to store notifications:', error);
+    return 0;
+  }
+};
+
+// Shape a stored notification for API responses
+export const serializeNotification = (notification: INotification | any) => ({
+  id: notification._id.toString(),
+  type: notification.type,
+  title: notification.title,
+  message: notification.message,
+  data: notification.payload || {},
+  isRead: notification.isRead,
+  isArchived: notification.isArchived,
+  readAt: notification.readAt,
+  createdAt: notification.createdAt
+});
@@ -0,0 +1,453 @@
+import mongoose from 'mongoose';
+import PayoutBatch, { IPayoutBatch, IPayoutItem, PayoutBatchStatus, PAYOUT_BATCH_STATUSES } from '../models/PayoutBatch';
+import KYC from '../models/KYC';
+import User from '../models/User';
+import { dispatchNotification } from './notificationDispatcher';
+import { backfillEarnings, getStudentBalances, postEntry, toPaise, toRupees } from './ledgerService';
+import { todayInIndia } from './shiftService';
+import { ValidationError, NotFoundError } from '../middleware/errorHandler';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// Smallest balance worth a bank transfer, in rupees
+export const DEFAULT_MIN_PAYOUT = 100;
+
+// An empty draft older than this is a build that never finished
+const ABANDONED_BUILD_MS = 10 * 60 * 1000;
+
+// Students paid per batch; anyone left over goes in the next one
+const MAX_BATCH_ITEMS = 1000;
+
+// NEFT bulk files cap beneficiary names and narrations; banks reject longer values
+const NEFT_NAME_LENGTH = 35;
+const NEFT_NARRATION_LENGTH = 30;
+
+export const NEFT_CSV_COLUMNS = [
+  'Transaction Type',
+  'Beneficiary Name',
+  'Beneficiary Account Number',
+  'IFSC Code',
+  'Amount',
+  'Value Date',
+  'Customer Reference',
+  'Narration'
+];
+
+export type PayoutSkipReason = 'no_consent' | 'missing_bank_details' | 'no_kyc';
+
+export interface PayoutCandidate {
+  studentId: mongoose.Types.ObjectId;
+  name: string;
+  email: string;
+  amount: number; // Rupees
+}
+
+export interface PayoutPreview {
+  eligible: (PayoutCandidate & { beneficiaryName: string; ifsc: string })[];
+  skipped: (PayoutCandidate & { reason: PayoutSkipReason })[];
+  totalAmount: number;
+}
+
+export interface PayoutReconcileInput {
+  itemId?: unknown;
+  status?: unknown;
+  utr?: unknown;
+  reason?: unknown;
+}
+
+const parseMinAmount = (value: unknown): number => {
+  if (value === undefined || value === null || value === '') return DEFAULT_MIN_PAYOUT;
+  const minAmount = Number(value);
+  if (!Number.isFinite(minAmount) || minAmount < 1) {
+    throw new ValidationError('minAmount must be at least ₹1');
+  }
+  return minAmount;
+};
+
+/**
+ * Students the ledger owes at least `minAmount`, split into those whose KYC
+ * payroll section has consent and complete bank details and those skipped.
+ * Bank account numbers are read from the raw document (not toJSON) so they
+ * are not masked.
+ */
+const collectPayouts = async (minRupees: number) => {
+  const minAmount = toPaise(minRupees);
+  await backfillEarnings();
+
+  const owed = [...(await getStudentBalances()).entries()]
+    .filter(([, balance]) => balance.payable >= minAmount)
+    .map(([studentId, balance]) => ({ studentId: new mongoose.Types.ObjectId(studentId), amount: balance.payable }));
+  const ids = owed.map(row => row.studentId);
+
+  const [users, kycs] = await Promise.all([
+    User.find({ _id: { $in: ids } }).select('name email').lean(),
+    KYC.find({ userId: { $in: ids }, isActive: true }).select('userId fullName payroll').lean()
+  ]);
+
+  const eligible: (PayoutCandidate & { amountPaise: number; beneficiaryName: string; bankAccount: string; ifsc: string })[] = [];
+  const skipped: (PayoutCandidate & { reason: PayoutSkipReason })[] = [];
+
+  owed.forEach(({ studentId, amount }) => {
+    const user = users.find(u => String(u._id) === String(studentId));
+    const kyc = kycs.find(k => String(k.userId) === String(studentId));
+    const candidate = { studentId, name: user?.name || 'Unknown student', email: user?.email || '', amount: toRupees(amount) };
+    const payroll = kyc?.payroll;
+
+    if (!kyc) {
+      skipped.push({ ...candidate, reason: 'no_kyc' });
+    } else if (!payroll?.consent) {
+      skipped.push({ ...candidate, reason: 'no_consent' });
+    } else if (!payroll.bankAccount || !payroll.ifsc || !/^\d+$/.test(payroll.bankAccount)) {
+      skipped.push({ ...candidate, reason: 'missing_bank_details' });
+    } else {
+      eligible.push({
+        ...candidate,
+        amountPaise: amount,
+        beneficiaryName: (payroll.beneficiaryName || kyc.fullName || candidate.name).trim(),
+        bankAccount: payroll.bankAccount,
+        ifsc: payroll.ifsc.toUpperCase()
+      });
+    }
+  });
+
+  eligible.sort((a, b) => b.amountPaise - a.amountPaise);
+  return { eligible: eligible.slice(0, MAX_BATCH_ITEMS), skipped };
+};
+
+// Who the next batch would pay, and who would be left out and why
+export const previewPayoutBatch = async (minAmount?: unknown): Promise<PayoutPreview> => {
+  const { eligible, skipped } = await collectPayouts(parseMinAmount(minAmount));
+  return {
+    eligible: eligible.map(({ studentId, name, email, amount, beneficiaryName, ifsc }) => ({ studentId, name, email, amount, beneficiaryName, ifsc })),
+    skipped,
+    totalAmount: toRupees(eligible.reduce((total, item) => total + item.amountPaise, 0))
+  };
+};
+
+// PB + YYMMDD (Indian date) + a two-digit sequence for the day
+const nextBatchReference = async (): Promise<string> => {
+  const prefix = `PB${todayInIndia().replace(/-/g, '').slice(2)}`;
+  const count = await PayoutBatch.countDocuments({ reference: { $regex: `^${prefix}` } });
+  return `${prefix}${String(count + 1).padStart(2, '0')}`;
+};
+
+// Move each pending item's amount out of the student's payable balance; safe to repeat
+const reserveItems = async (batch: IPayoutBatch, adminId?: mongoose.Types.ObjectId): Promise<void> => {
+  for (const item of batch.items) {
+    await postEntry({
+      key: `payout:${item._id}:reserved`,
+      kind: 'payout_reserved',
+      studentId: item.studentId,
+      sourceType: 'payout_batch',
+      sourceId: batch._id as mongoose.Types.ObjectId,
+      debit: 'student_payable',
+      credit: 'payout_clearing',
+      amount: item.amount,
+      memo: `Payout ${item.reference}`,
+      postedBy: adminId
+    });
+  }
+};
+
+/**
+ * Build a batch paying every consenting student their full payable balance.
+ * The amounts leave the students' payable balances straight away, so one
+ * draft batch is open at a time: the empty draft is created first (the
+ * one_draft_batch index lets only one exist) and balances are read after it.
+ */
+export const buildPayoutBatch = async (
+  adminId: mongoose.Types.ObjectId,
+  input: { minAmount?: unknown; notes?: unknown } = {}
+): Promise<{ batch: IPayoutBatch; skipped: PayoutPreview['skipped'] }> => {
+  const minAmount = parseMinAmount(input.minAmount);
+  // A draft left empty by a build that died part way would block every later build
+  await PayoutBatch.deleteOne({
+    status: 'draft',
+    'items.0': { $exists: false },
+    createdAt: { $lt: new Date(Date.now() - ABANDONED_BUILD_MS) }
+  });
+  const draft = await PayoutBatch.findOne({ status: 'draft' }).select('reference');
+  if (draft) {
+    throw new ValidationError(`Batch ${draft.reference} has not been exported yet. Export it before building another`);
+  }
+
+  const reference = await nextBatchReference();
+  let batch: IPayoutBatch;
+  try {
+    batch = await PayoutBatch.create({
+      reference,
+      createdBy: adminId,
+      notes: typeof input.notes === 'string' && input.notes.trim() ? input.notes.trim().slice(0, 500) : undefined
+    });
+  } catch (error: any) {
+    // Another admin claimed the draft (or this reference) a moment earlier
+    if (error?.code === DUPLICATE_KEY_ERROR) {
+      throw new ValidationError('Another payout batch is being built. Refresh and try again');
+    }
+    throw error;
+  }
+
+  let reserving = false;
+  try {
+    const { eligible, skipped } = await collectPayouts(minAmount);
+    if (eligible.length === 0) {
+      throw new ValidationError(
+        skipped.length > 0
+          ? `No student with payroll consent and bank details is owed money (${skipped.length} skipped)`
+          : 'No student is owed money right now'
+      );
+    }
+
+    batch.totalAmount = eligible.reduce((total, item) => total + item.amountPaise, 0);
+    batch.set('items', eligible.map((item, index) => ({
+      studentId: item.studentId,
+      reference: `${reference}${String(index + 1).padStart(3, '0')}`,
+      amount: item.amountPaise,
+      beneficiaryName: item.beneficiaryName,
+      bankAccount: item.bankAccount,
+      ifsc: item.ifsc
+    })));
+    await batch.save();
+    reserving = true;
+    await reserveItems(batch, adminId);
+
+    console.log(`💸 Payout batch ${reference} built by ${adminId}: ${batch.items.length} student(s), ₹${toRupees(batch.totalAmount)}; ${skipped.length} skipped`);
+    return { batch, skipped };
+  } catch (error) {
+    // Nothing was reserved yet; free the draft slot. A part-reserved batch stays
+    // so exporting it finishes the reservations
+    if (!reserving) {
+      await PayoutBatch.deleteOne({ _id: batch._id, status: 'draft' });
+    }
+    throw error;
+  }
+};
+
+const findBatch = async (batchId: string): Promise<IPayoutBatch> => {
+  if (!mongoose.Types.ObjectId.isValid(batchId)) {
+    throw new ValidationError('Invalid payout batch ID');
+  }
+  const batch = await PayoutBatch.findById(batchId);
+  if (!batch) {
+    throw new NotFoundError('Payout batch not found');
+  }
+  return batch;
+};
+
+// NEFT only carries letters, digits and a few separators
+const neftText = (value: string, length: number): string =>
+  value.replace(/[^A-Za-z0-9 .\-/]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, length);
+
+const csvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Indian date as DD/MM/YYYY
+const valueDate = (): string => todayInIndia().split('-').reverse().join('/');
+
+/**
+ * The batch as a NEFT bulk-transfer file for the bank's upload portal, one
+ * row per student. Downloading a draft batch marks it exported; it can be
+ * downloaded again later.
+ */
+export const exportPayoutBatch = async (
+  adminId: mongoose.Types.ObjectId,
+  batchId: string
+): Promise<{ filename: string; csv: string }> => {
+  const batch = await findBatch(batchId);
+  await reserveItems(batch, adminId);
+
+  const date = valueDate();
+  const rows = batch.items.map(item => [
+    'NEFT',
+    neftText(item.beneficiaryName, NEFT_NAME_LENGTH),
+    item.bankAccount,
+    item.ifsc,
+    toRupees(item.amount).toFixed(2),
+    date,
+    item.reference,
+    neftText(`MeWork payout ${batch.reference}`, NEFT_NARRATION_LENGTH)
+  ]);
+  const csv = [NEFT_CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+  if (batch.status === 'draft') {
+    batch.status = 'exported';
+    batch.exportedAt = new Date();
+    batch.exportedBy = adminId;
+    await batch.save();
+    console.log(`📤 Payout batch ${batch.reference} exported by ${adminId}`);
+  }
+  return { filename: `neft-${batch.reference}.csv`, csv };
+};
+
+const notifyPayout = async (batch: IPayoutBatch, item: IPayoutItem): Promise<void> => {
+  const amount = toRupees(item.amount);
+  try {
+    await dispatchNotification({
+      recipient: String(item.studentId),
+      recipientType: 'student',
+      type: 'payout_update',
+      title: item.status === 'paid' ? 'Payment Sent' : 'Payment Failed',
+      message: item.status === 'paid'
+        ? `₹${amount} has been sent to your bank account${item.utr ? ` (UTR ${item.utr})` : ''}.`
+        : `We could not send ₹${amount} to your bank account: ${item.failureReason}. Check the bank details in your KYC; the amount will be included in the next payout.`,
+      payload: {
+        batchId: batch._id,
+        itemId: item._id,
+        reference: item.reference,
+        status: item.status,
+        amount
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Failed to notify student about payout ${item.reference}:`, error);
+  }
+};
+
+/**
+ * Record the bank's result for items of an exported batch. Paid items leave
+ * the ledger to the bank; failed items go back to the student's payable
+ * balance for the next batch. The batch is reconciled once no item is pending.
+ */
+export const reconcilePayoutBatch = async (
+  adminId: mongoose.Types.ObjectId,
+  batchId: string,
+  updates: unknown
+): Promise<IPayoutBatch> => {
+  const batch = await findBatch(batchId);
+  if (batch.status === 'draft') {
+    throw new ValidationError('Export the batch and send it to the bank before recording results');
+  }
+  if (batch.status === 'reconciled') {
+    throw new ValidationError('This batch is already reconciled');
+  }
+  if (!Array.isArray(updates) || updates.length === 0) {
+    throw new ValidationError('items must be a list of { itemId, status, utr?, reason? }');
+  }
+
+  // Check every update before posting anything
+  const seen = new Set<string>();
+  const changes = updates.map((raw: PayoutReconcileInput) => {
+    const item = batch.items.find(i => String(i._id) === String(raw?.itemId));
+    if (!item) {
+      throw new ValidationError(`Item ${raw?.itemId} is not in this batch`);
+    }
+    if (seen.has(String(item._id))) {
+      throw new ValidationError(`${item.reference} is listed more than once`);
+    }
+    seen.add(String(item._id));
+    if (item.status !== 'pending') {
+      throw new ValidationError(`${item.reference} is already marked ${item.status}`);
+    }
+    if (raw.status !== 'paid' && raw.status !== 'failed') {
+      throw new ValidationError('status must be paid or failed');
+    }
+    const utr = typeof raw.utr === 'string' && raw.utr.trim() ? raw.utr.trim().slice(0, 50) : undefined;
+    const reason = typeof raw.reason === 'string' ? raw.reason.trim().slice(0, 300) : '';
+    if (raw.status === 'failed' && !reason) {
+      throw new ValidationError(`Give the bank's reason ${item.reference} failed`);
+    }
+    return { item, status: raw.status as 'paid' | 'failed', utr, reason };
+  });
+
+  await reserveItems(batch, adminId);
+  for (const { item, status, utr, reason } of changes) {
+    await postEntry({
+      key: `payout:${item._id}:${status}`,
+      kind: status === 'paid' ? 'payout_paid' : 'payout_failed',
+      studentId: item.studentId,
+      sourceType: 'payout_batch',
+      sourceId: batch._id as mongoose.Types.ObjectId,
+      debit: 'payout_clearing',
+      credit: status === 'paid' ? 'bank' : 'student_payable',
+      amount: item.amount,
+      memo: status === 'paid' ? `Paid ${item.reference}${utr ? ` UTR ${utr}` : ''}` : `Failed ${item.reference}: ${reason}`.slice(0, 200),
+      postedBy: adminId
+    });
+    item.status = status;
+    item.utr = utr;
+    item.failureReason = status === 'failed' ? reason : undefined;
+    item.reconciledAt = new Date();
+    item.reconciledBy = adminId;
+  }
+
+  if (batch.items.every(item => item.status !== 'pending')) {
+    batch.status = 'reconciled';
+    batch.reconciledAt = new Date();
+  }
+  await batch.save();
+
+  const paid = changes.filter(change => change.status === 'paid').length;
+  console.log(`🧾 Payout batch ${batch.reference}: ${paid} paid, ${changes.length - paid} failed by ${adminId}; status ${batch.status}`);
+  for (const { item } of changes) {
+    await notifyPayout(batch, item);
+  }
+  return batch;
+};
+
+export const listPayoutBatches = async (filters: { status?: unknown; page?: unknown; limit?: unknown }) => {
+  const page = Math.max(Number(filters.page) || 1, 1);
+  const limit = Math.min(Math.max(Number(filters.limit) || 20, 1), 100);
+
+  const query: Record<string, unknown> = {};
+  if (filters.status !== undefined && filters.status !== 'all') {
+    if (!PAYOUT_BATCH_STATUSES.includes(filters.status as PayoutBatchStatus)) {
+      throw new ValidationError(`Status must be one of: all, ${PAYOUT_BATCH_STATUSES.join(', ')}`);
+    }
+    query.status = filters.status;
+  }
+
+  const skip = (page - 1) * limit;
+  const [batches, totalCount] = await Promise.all([
+    PayoutBatch.find(query)
+      .select('-items')
+      .populate('createdBy', 'name')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit),
+    PayoutBatch.countDocuments(query)
+  ]);
+
+  return {
+    batches: batches.map(batch => ({ ...batch.toJSON(), totalAmount: toRupees(batch.totalAmount) })),
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalCount / limit),
+      totalCount,
+      hasNext: skip + batches.length < totalCount,
+      hasPrev: page > 1
+    }
+  };
+};
+
+// A batch with its items (account numbers masked) and amounts in rupees
+export const getPayoutBatch = async (batchId: string) => {
+  const batch = await findBatch(batchId);
+  await batch.populate('items.studentId', 'name email');
+  const json = batch.toJSON() as any;
+  return {
+    ...json,
+    totalAmount: toRupees(batch.totalAmount),
+    items: json.items.map((item: any) => ({ ...item, amount: toRupees(item.amount) }))
+  };
+};
+
+// Payouts that included the student, newest first
+export const listStudentPayouts = async (studentId: mongoose.Types.ObjectId) => {
+  const batches = await PayoutBatch.find({ 'items.studentId': studentId })
+    .select('reference status exportedAt items')
+    .sort({ createdAt: -1 })
+    .limit(20);
+  return batches.flatMap(batch => batch.items
+    .filter(item => String(item.studentId) === String(studentId))
+    .map(item => ({
+      _id: item._id,
+      reference: item.reference,
+      amount: toRupees(item.amount),
+      status: item.status,
+      utr: item.utr,
+      failureReason: item.failureReason,
+      bankAccount: item.bankAccount.replace(/\d(?=\d{4})/g, '*'),
+      sentAt: batch.exportedAt,
+      reconciledAt: item.reconciledAt
+    })));
+};
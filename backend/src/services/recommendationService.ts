@@ -0,0 +1,251 @@
+import Job, { JobCategory, JobWorkType } from '../models/Job';
+import Application from '../models/Application';
+import KYC from '../models/KYC';
+import { IUser } from '../models/User';
+import { IGeoPoint } from '../models/GeoPoint';
+import { distanceBetweenKm } from '../utils/geo';
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 10;
+export const MAX_RECOMMENDATION_LIMIT = 30;
+
+// Newest open jobs considered per request; scoring happens in memory
+const CANDIDATE_POOL_SIZE = 300;
+
+// Points each signal can add. Skills carry the most weight because employers
+// list them as requirements; the rest break ties between similar matches.
+const WEIGHTS = {
+  skills: 40,
+  preferredType: 20,
+  availability: 15,
+  distance: 15,
+  history: 10
+};
+
+// Jobs scoring below this have nothing specific to say for the student
+const MIN_SCORE = 10;
+
+// Ring sizes for the distance score: full points within the first, a third within the last
+const DISTANCE_BANDS_KM = [3, 10, 25];
+
+const FULL_TIME_MIN_HOURS = 35;
+const FULL_TIME_MIN_DAYS = 5;
+
+// KYC.preferredJobTypes are blue-collar kinds of work while job categories are broader,
+// so each type also matches on words in the title, category and required skills
+const PREFERRED_TYPE_MATCHES: Record<string, { label: string; categories: JobCategory[]; keywords: string[] }> = {
+  warehouse: { label: 'warehouse', categories: [], keywords: ['warehouse', 'packing', 'picking', 'inventory', 'loading'] },
+  delivery: { label: 'delivery', categories: [], keywords: ['delivery', 'courier', 'rider', 'driver'] },
+  housekeeping: { label: 'housekeeping', categories: [], keywords: ['housekeeping', 'cleaning', 'cleaner'] },
+  construction: { label: 'construction', categories: [], keywords: ['construction', 'mason', 'labour', 'helper'] },
+  kitchen: { label: 'kitchen', categories: [], keywords: ['kitchen', 'cook', 'chef', 'restaurant', 'food'] },
+  retail: { label: 'retail', categories: ['Sales'], keywords: ['retail', 'store', 'shop', 'cashier'] },
+  security: { label: 'security', categories: [], keywords: ['security', 'guard', 'watchman'] },
+  'data-entry': { label: 'data entry', categories: ['Data Entry'], keywords: ['data entry', 'typing'] }
+};
+
+// Case and punctuation insensitive, so "Node.js" and "node js" are the same skill
+export const normalizeTerm = (term: string): string => term.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Whole-word match so "rider" does not match "provider"
+const containsTerm = (text: string, term: string): boolean => ` ${text} `.includes(` ${term} `);
+
+export interface JobRecommendation {
+  score: number;
+  reasons: string[];
+}
+
+interface StudentProfile {
+  skills: Map<string, string>; // normalized -> as the student wrote it
+  preferredJobTypes: string[];
+  hoursPerWeek?: number;
+  availableDays: string[];
+  origins: { label: string; point: IGeoPoint }[];
+  appliedJobIds: Set<string>;
+  appliedCategories: Map<string, number>;
+  appliedWorkTypes: Map<string, number>;
+}
+
+interface CandidateJob {
+  jobTitle: string;
+  category?: JobCategory;
+  workType?: JobWorkType;
+  skillsRequired?: string[];
+  locationPoint?: IGeoPoint;
+}
+
+const listTerms = (terms: string[]): string => {
+  if (terms.length <= 1) return terms.join('');
+  return `${terms.slice(0, -1).join(', ')} and ${terms[terms.length - 1]}`;
+};
+
+const loadStudentProfile = async (student: IUser): Promise<StudentProfile> => {
+  const [kyc, applications] = await Promise.all([
+    KYC.findOne({ userId: student._id, isActive: true })
+      .select('hoursPerWeek availableDays preferredJobTypes homeLocation pgDetails.location')
+      .lean(),
+    Application.find({ studentId: student._id }).select('jobId').lean()
+  ]);
+
+  const appliedJobIds = new Set(
+    applications.filter(application => application.jobId).map(application => String(application.jobId))
+  );
+  const appliedJobs = await Job.find({ _id: { $in: [...appliedJobIds] } }).select('category workType').lean();
+  const appliedCategories = new Map<string, number>();
+  const appliedWorkTypes = new Map<string, number>();
+  appliedJobs.forEach(job => {
+    if (job.category) appliedCategories.set(job.category, (appliedCategories.get(job.category) || 0) + 1);
+    if (job.workType) appliedWorkTypes.set(job.workType, (appliedWorkTypes.get(job.workType) || 0) + 1);
+  });
+
+  const skills = new Map<string, string>();
+  (student.skills || []).forEach(skill => {
+    const normalized = normalizeTerm(skill);
+    if (normalized) skills.set(normalized, skill.trim());
+  });
+
+  const origins: StudentProfile['origins'] = [];
+  if (kyc?.homeLocation?.coordinates?.length) origins.push({ label: 'home', point: kyc.homeLocation });
+  if (kyc?.pgDetails?.location?.coordinates?.length) origins.push({ label: 'PG', point: kyc.pgDetails.location });
+
+  return {
+    skills,
+    preferredJobTypes: kyc?.preferredJobTypes || [],
+    hoursPerWeek: kyc?.hoursPerWeek,
+    availableDays: kyc?.availableDays || [],
+    origins,
+    appliedJobIds,
+    appliedCategories,
+    appliedWorkTypes
+  };
+};
+
+const scoreSkills = (job: CandidateJob, profile: StudentProfile): [number, string | null] => {
+  const required = (job.skillsRequired || []).filter(skill => normalizeTerm(skill));
+  if (required.length === 0 || profile.skills.size === 0) return [0, null];
+
+  const matched = required.filter(skill => profile.skills.has(normalizeTerm(skill)));
+  if (matched.length === 0) return [0, null];
+
+  const score = WEIGHTS.skills * matched.length / required.length;
+  const reason = matched.length === required.length
+    ? `You have every skill it asks for: ${listTerms(matched)}`
+    : `Matches ${matched.length} of ${required.length} required skills: ${listTerms(matched)}`;
+  return [score, reason];
+};
+
+const scorePreferredType = (job: CandidateJob, profile: StudentProfile): [number, string | null] => {
+  const text = normalizeTerm([job.jobTitle, job.category, ...(job.skillsRequired || [])].join(' '));
+  const type = profile.preferredJobTypes.find(preferred => {
+    const match = PREFERRED_TYPE_MATCHES[preferred];
+    if (!match) return false;
+    return (job.category && match.categories.includes(job.category)) ||
+      match.keywords.some(keyword => containsTerm(text, keyword));
+  });
+  if (!type) return [0, null];
+  return [WEIGHTS.preferredType, `It is ${PREFERRED_TYPE_MATCHES[type].label} work, which you said you prefer`];
+};
+
+// Weighs the hours and days on the student's KYC against the job's work type.
+// A full-time job the student has no time for is pushed down, not hidden.
+const scoreAvailability = (job: CandidateJob, profile: StudentProfile): [number, string | null] => {
+  const { hoursPerWeek, availableDays } = profile;
+  if (!hoursPerWeek || !job.workType) return [0, null];
+
+  const days = availableDays.length;
+  const weekendsOnly = days > 0 && availableDays.every(day => day === 'saturday' || day === 'sunday');
+
+  switch (job.workType) {
+    case 'Full-time':
+      if (hoursPerWeek >= FULL_TIME_MIN_HOURS && (days === 0 || days >= FULL_TIME_MIN_DAYS)) {
+        return [WEIGHTS.availability, `Full-time suits the ${hoursPerWeek} hours a week you are available`];
+      }
+      return [-WEIGHTS.availability, null];
+    case 'Part-time':
+      if (weekendsOnly) {
+        return [WEIGHTS.availability, 'Part-time hours can fit around your weekend availability'];
+      }
+      return [WEIGHTS.availability, `Part-time fits the ${hoursPerWeek} hours a week you are available`];
+    case 'Remote':
+      return [WEIGHTS.availability * 2 / 3, 'Remote, so you can work it around your classes'];
+    default:
+      return [0, null];
+  }
+};
+
+const scoreDistance = (job: CandidateJob, profile: StudentProfile): [number, string | null] => {
+  if (job.workType === 'Remote' || !job.locationPoint?.coordinates?.length || profile.origins.length === 0) {
+    return [0, null];
+  }
+
+  const nearest = profile.origins
+    .map(origin => ({ label: origin.label, km: distanceBetweenKm(origin.point, job.locationPoint!) }))
+    .sort((a, b) => a.km - b.km)[0];
+  const band = DISTANCE_BANDS_KM.findIndex(limit => nearest.km <= limit);
+  if (band === -1) return [0, null];
+
+  const score = WEIGHTS.distance * (DISTANCE_BANDS_KM.length - band) / DISTANCE_BANDS_KM.length;
+  const km = nearest.km < 1 ? 'Under 1 km' : `${nearest.km.toFixed(1)} km`;
+  return [score, `${km} from your ${nearest.label}`];
+};
+
+const scoreHistory = (job: CandidateJob, profile: StudentProfile): [number, string | null] => {
+  const categoryCount = job.category ? profile.appliedCategories.get(job.category) || 0 : 0;
+  if (categoryCount > 0 && job.category !== 'Other') {
+    return [
+      WEIGHTS.history,
+      `Similar to ${categoryCount === 1 ? 'a job' : `${categoryCount} jobs`} you applied for in ${job.category}`
+    ];
+  }
+  const workTypeCount = job.workType ? profile.appliedWorkTypes.get(job.workType) || 0 : 0;
+  if (workTypeCount > 0) {
+    return [WEIGHTS.history / 2, `You have applied for ${job.workType!.toLowerCase()} jobs before`];
+  }
+  return [0, null];
+};
+
+const scoreJobForStudent = (job: CandidateJob, profile: StudentProfile): JobRecommendation => {
+  const parts = [
+    scoreSkills(job, profile),
+    scorePreferredType(job, profile),
+    scoreAvailability(job, profile),
+    scoreDistance(job, profile),
+    scoreHistory(job, profile)
+  ];
+
+  const score = parts.reduce((total, [points]) => total + points, 0);
+  return {
+    score: Math.max(0, Math.round(score)),
+    reasons: parts.map(([, reason]) => reason).filter((reason): reason is string => Boolean(reason))
+  };
+};
+
+/**
+ * "Recommended for you": open, approved jobs the student has not applied to, scored
+ * on skill overlap, KYC work preferences and availability, distance from their home
+ * or PG, and what they applied for before. Each job carries the reasons it scored.
+ */
+export const recommendJobsForStudent = async (
+  student: IUser,
+  limit: number = DEFAULT_RECOMMENDATION_LIMIT
+) => {
+  const profile = await loadStudentProfile(student);
+  const now = new Date();
+
+  const candidates = await Job.find({
+    status: 'active',
+    approvalStatus: 'approved',
+    applicationDeadline: { $gt: now },
+    _id: { $nin: [...profile.appliedJobIds] }
+  })
+    .populate('employerId', 'name companyName email')
+    .sort({ createdAt: -1 })
+    .limit(CANDIDATE_POOL_SIZE)
+    .lean();
+
+  return candidates
+    .map(job => ({ ...job, recommendation: scoreJobForStudent(job, profile) }))
+    .filter(job => job.recommendation.score >= MIN_SCORE && job.recommendation.reasons.length > 0)
+    .sort((a, b) => b.recommendation.score - a.recommendation.score ||
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, limit);
+};
@@ -0,0 +1,149 @@
+import mongoose from 'mongoose';
+import path from 'path';
+import User, { IUser, IResume, MAX_RESUMES, MAX_RESUME_SIZE } from '../models/User';
+import Application, { IApplicationResume } from '../models/Application';
+import Job from '../models/Job';
+import { uploadDocument, deleteDocument, getDocumentDownloadUrl } from '../config/cloudinary';
+import { detectDocumentType } from '../utils/fileSignature';
+import { ValidationError, NotFoundError, AuthorizationError } from '../middleware/errorHandler';
+
+// Signed download links stop working after this long
+export const RESUME_LINK_TTL_SECONDS = 5 * 60;
+
+export interface ResumeDownloadLink {
+  url: string;
+  fileName: string;
+  expiresAt: Date;
+}
+
+const findResume = (user: IUser, resumeId: string): IResume & mongoose.Types.Subdocument => {
+  if (!mongoose.Types.ObjectId.isValid(resumeId)) {
+    throw new ValidationError('Invalid resume ID');
+  }
+  const resume = user.resumes.id(resumeId);
+  if (!resume) {
+    throw new NotFoundError('Resume not found');
+  }
+  return resume;
+};
+
+const buildDownloadLink = (publicId: string, fileName: string): ResumeDownloadLink => ({
+  url: getDocumentDownloadUrl(publicId, RESUME_LINK_TTL_SECONDS),
+  fileName,
+  expiresAt: new Date(Date.now() + RESUME_LINK_TTL_SECONDS * 1000)
+});
+
+// Store an uploaded resume on the student's profile; the first one becomes the default
+export const addResume = async (user: IUser, file: Express.Multer.File): Promise<IResume> => {
+  if (user.resumes.length >= MAX_RESUMES) {
+    throw new ValidationError(`You can keep at most ${MAX_RESUMES} resumes. Delete one to upload another.`);
+  }
+  if (file.size > MAX_RESUME_SIZE) {
+    throw new ValidationError('Resume cannot be larger than 5MB');
+  }
+
+  const fileType = detectDocumentType(file.buffer);
+  if (!fileType) {
+    throw new ValidationError('Only PDF and DOCX resumes are allowed');
+  }
+
+  const baseName = path.basename(file.originalname || 'resume', path.extname(file.originalname || '')).slice(0, 150) || 'resume';
+  const fileName = `${baseName}.${fileType}`;
+  const assetName = `${Date.now()}-${Math.round(Math.random() * 1E9)}.${fileType}`;
+
+  const result = await uploadDocument(file.buffer, `studentjobs/resumes/${user._id}`, assetName);
+
+  user.resumes.push({
+    fileName,
+    fileType,
+    size: file.size,
+    publicId: result.public_id,
+    isDefault: user.resumes.length === 0,
+    uploadedAt: new Date()
+  });
+  await user.save();
+
+  console.log(`📄 Resume uploaded for user ${user._id}: ${fileName}`);
+  return user.resumes[user.resumes.length - 1];
+};
+
+export const setDefaultResume = async (user: IUser, resumeId: string): Promise<void> => {
+  findResume(user, resumeId);
+  user.resumes.forEach(resume => {
+    resume.isDefault = String(resume._id) === resumeId;
+  });
+  await user.save();
+};
+
+/**
+ * Remove a resume from the profile. The stored file is kept while any application
+ * still has it attached, so employers can keep downloading what they received.
+ */
+export const removeResume = async (user: IUser, resumeId: string): Promise<void> => {
+  const resume = findResume(user, resumeId);
+  const { publicId, isDefault } = resume;
+
+  resume.deleteOne();
+  if (isDefault && user.resumes.length > 0) {
+    user.resumes[0].isDefault = true;
+  }
+  await user.save();
+
+  const stillAttached = await Application.exists({ 'resume.publicId': publicId });
+  if (!stillAttached) {
+    try {
+      await deleteDocument(publicId);
+    } catch (error) {
+      console.error('❌ Failed to delete resume file:', error);
+    }
+  }
+};
+
+// Snapshot of a profile resume to store on a new application
+export const resolveResumeAttachment = async (studentId: string, resumeId?: unknown): Promise<IApplicationResume | undefined> => {
+  if (resumeId === undefined || resumeId === null || resumeId === '') return undefined;
+
+  const student = await User.findById(studentId).select('resumes');
+  if (!student) {
+    throw new NotFoundError('User not found');
+  }
+  const resume = findResume(student, String(resumeId));
+
+  return {
+    resumeId: resume._id,
+    fileName: resume.fileName,
+    fileType: resume.fileType,
+    size: resume.size,
+    publicId: resume.publicId
+  };
+};
+
+export const getOwnResumeLink = (user: IUser, resumeId: string): ResumeDownloadLink => {
+  const resume = findResume(user, resumeId);
+  return buildDownloadLink(resume.publicId, resume.fileName);
+};
+
+// Download link for the resume attached to an application: the applicant and the job owner only
+export const getApplicationResumeLink = async (applicationId: string, userId: string): Promise<ResumeDownloadLink> => {
+  if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+    throw new ValidationError('Invalid application ID');
+  }
+
+  const application = await Application.findById(applicationId).select('+resume.publicId');
+  if (!application) {
+    throw new NotFoundError('Application not found');
+  }
+
+  if (application.studentId.toString() !== userId) {
+    const job = await Job.findById(application.jobId).select('employerId');
+    if (!job || job.employerId.toString() !== userId) {
+      throw new AuthorizationError('Access denied');
+    }
+  }
+
+  if (!application.resume?.publicId) {
+    throw new NotFoundError('No resume was attached to this application');
+  }
+
+  return buildDownloadLink(application.resume.publicId, application.resume.fileName);
+};
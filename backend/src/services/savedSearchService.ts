@@ -0,0 +1,204 @@
+import mongoose from 'mongoose';
+import { Job, IJob } from '../models/Job';
+import SavedSearch, { ISavedSearch, ISavedSearchCriteria } from '../models/SavedSearch';
+import { IGeoPoint } from '../models/GeoPoint';
+import { ValidationError } from '../middleware/errorHandler';
+import { parseSearchText } from '../utils/jobTextSearch';
+import { parseJobSearchQuery, buildJobFilter, JobSearchQuery, DEFAULT_RADIUS_KM } from './jobSearchService';
+import { findStudentOriginPoints } from './jobLocationService';
+import { dispatchNotification } from './notificationDispatcher';
+import SocketManager from '../utils/socketManager';
+import EmailNotificationService from './emailNotificationService';
+
+// Saved searches checked against a new job per query
+const MATCH_BATCH_SIZE = 100;
+
+// Job search parameters a saved search keeps; paging, sorting and salary buckets are
+// about how results are shown, not which jobs are wanted
+const SAVED_QUERY_KEYS = ['search', 'category', 'workType', 'type', 'location', 'near', 'origin', 'radiusKm', 'salaryMin', 'salaryPeriod'];
+
+/**
+ * Validate the filters of a search to save. Takes the same parameters as the job
+ * search query string (search, category, workType, location, near / origin,
+ * radiusKm, salaryMin, salaryPeriod) so the jobs page can save what it shows.
+ */
+export const parseSavedSearchCriteria = (input: unknown): ISavedSearchCriteria => {
+  if (!input || typeof input !== 'object') {
+    throw new ValidationError('Search filters are required');
+  }
+
+  const picked: Record<string, unknown> = {};
+  SAVED_QUERY_KEYS.forEach(key => {
+    const value = (input as Record<string, unknown>)[key];
+    if (value !== undefined && value !== null) picked[key] = value;
+  });
+  const query = parseJobSearchQuery(picked);
+  const hasOrigin = Boolean(query.nearPoint || query.origin);
+
+  const criteria: ISavedSearchCriteria = {
+    search: query.search ? String(picked.search).trim() : undefined,
+    categories: query.categories,
+    workTypes: query.workTypes,
+    locations: query.locations,
+    nearPoint: query.nearPoint,
+    origin: query.origin,
+    radiusKm: hasOrigin ? query.radiusKm : undefined,
+    salaryMin: query.salaryMin,
+    salaryPeriod: query.salaryPeriod
+  };
+
+  const hasFilter = criteria.search || criteria.categories.length > 0 || criteria.workTypes.length > 0 ||
+    criteria.locations.length > 0 || hasOrigin || criteria.salaryMin !== undefined || criteria.salaryPeriod;
+  if (!hasFilter) {
+    throw new ValidationError('Choose at least one filter before saving a search');
+  }
+  return criteria;
+};
+
+// Rebuild the job search a saved search stands for; `nearPoint` is the resolved origin
+const toJobSearchQuery = (criteria: ISavedSearchCriteria, nearPoint?: IGeoPoint): JobSearchQuery => ({
+  search: criteria.search ? parseSearchText(criteria.search) : undefined,
+  categories: criteria.categories || [],
+  workTypes: criteria.workTypes || [],
+  locations: criteria.locations || [],
+  salaryBuckets: [],
+  salaryPeriod: criteria.salaryPeriod,
+  salaryMin: criteria.salaryMin,
+  nearPoint,
+  radiusKm: criteria.radiusKm ?? DEFAULT_RADIUS_KM,
+  sort: 'newest',
+  page: 1,
+  limit: 1
+});
+
+// Each saved search's fixed point, or the student's current home / PG pin. Undefined when
+// the search has no origin, null when the student has since removed the pin it uses.
+const resolveSearchPoints = async (savedSearches: ISavedSearch[]): Promise<Array<IGeoPoint | undefined | null>> => {
+  const origins = await findStudentOriginPoints(
+    savedSearches.filter(savedSearch => savedSearch.criteria.origin).map(savedSearch => savedSearch.studentId)
+  );
+  return savedSearches.map(({ studentId, criteria }) => {
+    if (!criteria.origin) return criteria.nearPoint;
+    return origins.get(String(studentId))?.[criteria.origin] || null;
+  });
+};
+
+/**
+ * The saved searches whose results include an approved job. Each one runs the same
+ * filter as the jobs list, narrowed to this job, so a match here is a job the student
+ * would see when they open the saved search. MongoDB allows one $text per query, so
+ * searches are checked in one aggregation per search text: the text match first, then
+ * a $facet branch per saved search for the rest of its filter.
+ */
+const findMatchingSavedSearches = async (job: IJob, candidates: ISavedSearch[]): Promise<ISavedSearch[]> => {
+  const points = await resolveSearchPoints(candidates);
+
+  const byText = new Map<string, Array<{ savedSearch: ISavedSearch; filter: Record<string, any> }>>();
+  candidates.forEach((savedSearch, index) => {
+    const point = points[index];
+    if (point === null) return;
+
+    const { $text, ...filter } = buildJobFilter(toJobSearchQuery(savedSearch.criteria, point));
+    const text = $text?.$search ?? '';
+    byText.set(text, [...(byText.get(text) || []), { savedSearch, filter }]);
+  });
+
+  const matched: ISavedSearch[] = [];
+  for (const [text, group] of byText) {
+    for (let offset = 0; offset < group.length; offset += MATCH_BATCH_SIZE) {
+      const batch = group.slice(offset, offset + MATCH_BATCH_SIZE);
+      const [facets] = await Job.aggregate<Record<string, unknown[]>>([
+        { $match: { _id: job._id, ...(text ? { $text: { $search: text } } : {}) } },
+        {
+          $facet: Object.fromEntries(batch.map(({ filter }, index) => [
+            `s${index}`,
+            [{ $match: filter }, { $project: { _id: 1 } }]
+          ]))
+        }
+      ]);
+      batch.forEach(({ savedSearch }, index) => {
+        if (facets?.[`s${index}`]?.length) matched.push(savedSearch);
+      });
+    }
+  }
+  return matched;
+};
+
+/**
+ * Alert students whose saved searches match a job that was just approved.
+ * Each student gets one in-app notification (and socket event) naming every
+ * matching search, plus an email when one of those searches has email alerts on.
+ * Failures are logged and never block the approval.
+ */
+export const notifyMatchingSavedSearches = async (
+  job: IJob,
+  services: { socketManager?: SocketManager; emailService?: EmailNotificationService } = {}
+): Promise<number> => {
+  try {
+    // Category and work type rule out most searches without touching the jobs collection
+    const candidates = await SavedSearch.find({
+      $and: [
+        { $or: [{ 'criteria.categories': { $size: 0 } }, { 'criteria.categories': job.category }] },
+        { $or: [{ 'criteria.workTypes': { $size: 0 } }, { 'criteria.workTypes': job.workType }] }
+      ]
+    });
+
+    const matchesByStudent = new Map<string, ISavedSearch[]>();
+    for (const savedSearch of await findMatchingSavedSearches(job, candidates)) {
+      const studentId = savedSearch.studentId.toString();
+      matchesByStudent.set(studentId, [...(matchesByStudent.get(studentId) || []), savedSearch]);
+    }
+    if (matchesByStudent.size === 0) return 0;
+
+    const matchedIds = [...matchesByStudent.values()].flat().map(savedSearch => savedSearch._id as mongoose.Types.ObjectId);
+    await SavedSearch.updateMany(
+      { _id: { $in: matchedIds } },
+      { $set: { lastMatchedAt: new Date() }, $inc: { matchCount: 1 } }
+    );
+
+    const jobId = String(job._id);
+    const jobData = {
+      jobId,
+      jobTitle: job.jobTitle,
+      companyName: job.companyName,
+      location: job.location,
+      salary: job.salaryRange
+    };
+
+    for (const [studentId, savedSearches] of matchesByStudent) {
+      const searchNames = savedSearches.map(savedSearch => savedSearch.name);
+      const wantsEmail = savedSearches.some(savedSearch => savedSearch.emailAlerts);
+
+      await dispatchNotification({
+        recipient: studentId,
+        recipientType: 'student',
+        type: 'saved_search_match',
+        title: 'New Job For Your Saved Search',
+        message: `${job.jobTitle} at ${job.companyName} matches "${searchNames.join('", "')}"`,
+        payload: {
+          ...jobData,
+          savedSearchIds: savedSearches.map(savedSearch => savedSearch._id),
+          searchNames
+        },
+        realtime: () => services.socketManager?.notifySavedSearchMatch({
+          id: job._id,
+          jobTitle: job.jobTitle,
+          companyName: job.companyName,
+          location: job.location,
+          jobType: job.workType,
+          salary: job.salaryRange,
+          createdAt: job.createdAt
+        }, studentId, searchNames),
+        email: wantsEmail && services.emailService
+          ? () => services.emailService!.sendSavedSearchAlert(studentId, jobData, searchNames)
+          : undefined
+      });
+    }
+
+    console.log(`🔔 Job ${jobId} matched saved searches of ${matchesByStudent.size} student(s)`);
+    return matchesByStudent.size;
+  } catch (error) {
+    console.error('❌ Failed to notify saved search matches:', error);
+    return 0;
+  }
+};
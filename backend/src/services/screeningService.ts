@@ -0,0 +1,241 @@
+import mongoose from 'mongoose';
+import {
+  IScreeningQuestion,
+  IKnockoutRule,
+  SCREENING_QUESTION_TYPES,
+  ScreeningQuestionType,
+  MAX_SCREENING_QUESTIONS
+} from '../models/Job';
+import { IScreeningAnswer, SCREENING_FAILED_TAG } from '../models/Application';
+import { ValidationError } from '../middleware/errorHandler';
+
+const MAX_OPTIONS = 10;
+const MAX_TEXT_ANSWER_LENGTH = 500;
+
+export interface ScreeningResult {
+  answers: IScreeningAnswer[];
+  failedKnockout: boolean;
+}
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    if (lower === 'yes' || lower === 'true') return true;
+    if (lower === 'no' || lower === 'false') return false;
+  }
+  return undefined;
+};
+
+const parseNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const parseKnockout = (
+  type: ScreeningQuestionType,
+  options: string[],
+  rule: any,
+  label: string
+): IKnockoutRule | undefined => {
+  if (rule === undefined || rule === null) return undefined;
+
+  switch (type) {
+    case 'yes_no': {
+      const expected = parseBoolean(rule.expected);
+      if (expected === undefined) {
+        throw new ValidationError(`${label}: knockout rule needs the expected answer (yes or no)`);
+      }
+      return { expected };
+    }
+    case 'multiple_choice': {
+      const accepted = Array.isArray(rule.acceptedOptions) ? rule.acceptedOptions.map((o: any) => String(o).trim()) : [];
+      if (accepted.length === 0 || accepted.some((option: string) => !options.includes(option))) {
+        throw new ValidationError(`${label}: knockout rule must list the accepted options`);
+      }
+      return { acceptedOptions: accepted };
+    }
+    case 'numeric': {
+      const min = parseNumber(rule.min);
+      const max = parseNumber(rule.max);
+      if (min === undefined && max === undefined) {
+        throw new ValidationError(`${label}: knockout rule needs a minimum or maximum`);
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        throw new ValidationError(`${label}: knockout minimum cannot be greater than the maximum`);
+      }
+      return { min, max };
+    }
+    case 'short_text':
+      throw new ValidationError(`${label}: short text questions cannot have knockout rules`);
+  }
+};
+
+// Validate the screening questions an employer submits with a job
+export const parseScreeningQuestions = (input: unknown): IScreeningQuestion[] => {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) {
+    throw new ValidationError('Screening questions must be a list');
+  }
+  if (input.length > MAX_SCREENING_QUESTIONS) {
+    throw new ValidationError(`A job can have at most ${MAX_SCREENING_QUESTIONS} screening questions`);
+  }
+
+  return input.map((raw: any, index) => {
+    const label = `Question ${index + 1}`;
+    const prompt = typeof raw?.prompt === 'string' ? raw.prompt.trim() : '';
+    if (!prompt) {
+      throw new ValidationError(`${label}: question text is required`);
+    }
+    if (!SCREENING_QUESTION_TYPES.includes(raw.type)) {
+      throw new ValidationError(`${label}: type must be one of ${SCREENING_QUESTION_TYPES.join(', ')}`);
+    }
+    const type = raw.type as ScreeningQuestionType;
+
+    let options: string[] = [];
+    if (type === 'multiple_choice') {
+      options = Array.isArray(raw.options)
+        ? Array.from(new Set<string>(raw.options.map((o: any) => String(o).trim()).filter(Boolean)))
+        : [];
+      if (options.length < 2 || options.length > MAX_OPTIONS) {
+        throw new ValidationError(`${label}: multiple choice questions need 2 to ${MAX_OPTIONS} distinct options`);
+      }
+    }
+
+    const question: IScreeningQuestion = {
+      prompt,
+      type,
+      required: raw.required !== false,
+      options: options.length > 0 ? options : undefined,
+      knockout: parseKnockout(type, options, raw.knockout, label)
+    };
+    // Keep ids of existing questions so stored answers still point at them after an edit
+    if (raw._id && mongoose.Types.ObjectId.isValid(raw._id)) {
+      question._id = new mongoose.Types.ObjectId(String(raw._id));
+    }
+    return question;
+  });
+};
+
+const passesKnockout = (question: IScreeningQuestion, answer: boolean | string | number): boolean => {
+  const rule = question.knockout;
+  if (!rule) return true;
+
+  switch (question.type) {
+    case 'yes_no':
+      return rule.expected === undefined || answer === rule.expected;
+    case 'multiple_choice':
+      return !rule.acceptedOptions?.length || rule.acceptedOptions.includes(String(answer));
+    case 'numeric':
+      return (rule.min === undefined || rule.min === null || Number(answer) >= rule.min)
+        && (rule.max === undefined || rule.max === null || Number(answer) <= rule.max);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Check a student's answers against the job's questions.
+ * Missing or malformed answers are rejected; answers that break a knockout rule
+ * are accepted but marked as not passed so the application can be tagged.
+ * The questions must be loaded with their knockout rules.
+ */
+export const evaluateScreeningAnswers = (questions: IScreeningQuestion[], input: unknown): ScreeningResult => {
+  const result: ScreeningResult = { answers: [], failedKnockout: false };
+  if (!questions || questions.length === 0) return result;
+
+  const provided = new Map<string, unknown>();
+  if (Array.isArray(input)) {
+    input.forEach((item: any) => {
+      if (item?.questionId) provided.set(String(item.questionId), item.answer);
+    });
+  }
+
+  for (const question of questions) {
+    const raw = provided.get(String(question._id));
+    const isBlank = raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+    if (isBlank) {
+      if (question.required) {
+        throw new ValidationError(`Please answer the screening question: "${question.prompt}"`);
+      }
+      continue;
+    }
+
+    let answer: boolean | string | number | undefined;
+    switch (question.type) {
+      case 'yes_no':
+        answer = parseBoolean(raw);
+        break;
+      case 'multiple_choice':
+        answer = question.options?.includes(String(raw).trim()) ? String(raw).trim() : undefined;
+        break;
+      case 'numeric':
+        answer = parseNumber(raw);
+        break;
+      case 'short_text':
+        answer = String(raw).trim().slice(0, MAX_TEXT_ANSWER_LENGTH);
+        break;
+    }
+    if (answer === undefined) {
+      throw new ValidationError(`Invalid answer to the screening question: "${question.prompt}"`);
+    }
+
+    const passed = passesKnockout(question, answer);
+    if (!passed) result.failedKnockout = true;
+
+    result.answers.push({
+      questionId: question._id as mongoose.Types.ObjectId,
+      prompt: question.prompt,
+      type: question.type,
+      answer,
+      passed
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Build an Application filter from employer query parameters:
+ *   screening=passed|failed          knockout outcome
+ *   answer.<questionId>=<value>      exact answer to one question (repeatable)
+ */
+export const buildScreeningFilter = (query: Record<string, any>): Record<string, any> => {
+  const filter: Record<string, any> = {};
+  const conditions: any[] = [];
+
+  if (query.screening === 'failed') {
+    filter.tags = SCREENING_FAILED_TAG;
+  } else if (query.screening === 'passed') {
+    filter.tags = { $ne: SCREENING_FAILED_TAG };
+  }
+
+  const answerFilters = typeof query.answer === 'object' && query.answer !== null ? query.answer : {};
+  Object.keys(query)
+    .filter(key => key.startsWith('answer.'))
+    .forEach(key => { answerFilters[key.slice('answer.'.length)] = query[key]; });
+
+  for (const [questionId, value] of Object.entries(answerFilters)) {
+    if (!mongoose.Types.ObjectId.isValid(questionId)) {
+      throw new ValidationError('Invalid screening question ID');
+    }
+    const raw = String(value);
+    const candidates: Array<string | number | boolean> = [raw];
+    const asBoolean = parseBoolean(raw);
+    if (asBoolean !== undefined) candidates.push(asBoolean);
+    const asNumber = parseNumber(raw);
+    if (asNumber !== undefined) candidates.push(asNumber);
+
+    conditions.push({
+      screeningAnswers: {
+        $elemMatch: { questionId: new mongoose.Types.ObjectId(questionId), answer: { $in: candidates } }
+      }
+    });
+  }
+
+  if (conditions.length > 0) {
+    filter.$and = conditions;
+  }
+  return filter;
+};
@@ -0,0 +1,341 @@
+import mongoose from 'mongoose';
+import { IJob } from '../models/Job';
+import Application, { IApplication, OPEN_APPLICATION_STATUSES } from '../models/Application';
+import KYC from '../models/KYC';
+import {
+  IShift,
+  SHIFT_RECURRENCES,
+  ShiftRecurrence,
+  WEEK_DAYS,
+  WeekDay,
+  MAX_JOB_SHIFTS,
+  MAX_SHIFT_HEADCOUNT,
+  MAX_SHIFT_WEEKS,
+  SHIFT_DATE_PATTERN,
+  SHIFT_TIME_PATTERN
+} from '../models/ShiftSchedule';
+import { ValidationError } from '../middleware/errorHandler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upcoming dates listed per shift on the roster
+const ROSTER_UPCOMING_DATES = 4;
+
+export interface RosterStudent {
+  applicationId: mongoose.Types.ObjectId;
+  studentId: mongoose.Types.ObjectId;
+  name: string;
+  email: string;
+  status: string;
+}
+
+export interface RosterShift {
+  shift: IShift;
+  hours: number;
+  upcomingDates: string[];
+  assigned: RosterStudent[];
+  interested: RosterStudent[]; // Open applicants who picked the shift
+}
+
+export interface JobRoster {
+  shifts: RosterShift[];
+  unassigned: RosterStudent[]; // Hired students on no shift yet
+}
+
+const toUtcDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+export const addDays = (date: string, days: number) => toDateString(new Date(toUtcDate(date).getTime() + days * DAY_MS));
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// Rejects look-alikes such as 2026-02-30, which Date quietly rolls over
+export const isCalendarDate = (value: unknown): value is string =>
+  typeof value === 'string' && SHIFT_DATE_PATTERN.test(value) && toDateString(toUtcDate(value)) === value;
+
+// Shift dates are Indian calendar days
+export const todayInIndia = (): string => new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' });
+
+export const weekDayOf = (date: string): WeekDay => WEEK_DAYS[toUtcDate(date).getUTCDay()];
+
+export const shiftName = (shift: IShift, index: number) => shift.label || `Shift ${index + 1}`;
+
+export const shiftHours = (shift: IShift) => (minutesOf(shift.endTime) - minutesOf(shift.startTime)) / 60;
+
+// The weekdays a shift falls on
+export const shiftWeekDays = (shift: IShift): WeekDay[] =>
+  shift.recurrence === 'once' ? [weekDayOf(shift.startDate)] : shift.daysOfWeek;
+
+// Every date the shift runs on from `from` (inclusive), in order
+export const shiftOccurrences = (shift: IShift, from: string = shift.startDate): string[] => {
+  if (shift.recurrence === 'once') {
+    return shift.startDate >= from ? [shift.startDate] : [];
+  }
+  const dates: string[] = [];
+  const last = shift.endDate || shift.startDate;
+  for (let date = from > shift.startDate ? from : shift.startDate; date <= last; date = addDays(date, 1)) {
+    if (shift.daysOfWeek.includes(weekDayOf(date))) dates.push(date);
+  }
+  return dates;
+};
+
+const hasEnded = (shift: IShift, today: string) => shiftOccurrences(shift, today).length === 0;
+
+const includesShift = (ids: mongoose.Types.ObjectId[] | undefined, shift: IShift) =>
+  (ids || []).some(id => String(id) === String(shift._id));
+
+/**
+ * Validate the shifts an employer submits with a job. Each is either one day
+ * (`recurrence: 'once'`, `startDate`) or a weekly pattern (`daysOfWeek` between
+ * `startDate` and `endDate`), with a same-day time window and a headcount.
+ */
+export const parseShifts = (input: unknown): IShift[] => {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) {
+    throw new ValidationError('Shifts must be a list');
+  }
+  if (input.length > MAX_JOB_SHIFTS) {
+    throw new ValidationError(`A job can have at most ${MAX_JOB_SHIFTS} shifts`);
+  }
+
+  return input.map((raw: any, index) => {
+    const label = `Shift ${index + 1}`;
+    if (!SHIFT_RECURRENCES.includes(raw?.recurrence)) {
+      throw new ValidationError(`${label}: recurrence must be one of ${SHIFT_RECURRENCES.join(', ')}`);
+    }
+    const recurrence = raw.recurrence as ShiftRecurrence;
+
+    if (!isCalendarDate(raw.startDate)) {
+      throw new ValidationError(`${label}: startDate must be a date (YYYY-MM-DD)`);
+    }
+    if (!SHIFT_TIME_PATTERN.test(String(raw.startTime)) || !SHIFT_TIME_PATTERN.test(String(raw.endTime))) {
+      throw new ValidationError(`${label}: startTime and endTime must be HH:mm`);
+    }
+    if (minutesOf(raw.endTime) <= minutesOf(raw.startTime)) {
+      throw new ValidationError(`${label}: the shift must end after it starts, on the same day`);
+    }
+
+    const headcount = raw.headcount === undefined || raw.headcount === '' ? 1 : Number(raw.headcount);
+    if (!Number.isInteger(headcount) || headcount < 1 || headcount > MAX_SHIFT_HEADCOUNT) {
+      throw new ValidationError(`${label}: headcount must be a whole number from 1 to ${MAX_SHIFT_HEADCOUNT}`);
+    }
+
+    const shift: IShift = {
+      label: typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim().slice(0, 60) : undefined,
+      recurrence,
+      startDate: raw.startDate,
+      daysOfWeek: [],
+      startTime: raw.startTime,
+      endTime: raw.endTime,
+      headcount
+    };
+
+    if (recurrence === 'weekly') {
+      if (!isCalendarDate(raw.endDate) || raw.endDate < raw.startDate) {
+        throw new ValidationError(`${label}: endDate must be a date on or after startDate`);
+      }
+      if ((toUtcDate(raw.endDate).getTime() - toUtcDate(raw.startDate).getTime()) / DAY_MS >= MAX_SHIFT_WEEKS * 7) {
+        throw new ValidationError(`${label}: a weekly shift can run for at most ${MAX_SHIFT_WEEKS} weeks`);
+      }
+      const days = Array.isArray(raw.daysOfWeek)
+        ? WEEK_DAYS.filter(day => raw.daysOfWeek.map((d: unknown) => String(d).toLowerCase()).includes(day))
+        : [];
+      if (days.length === 0) {
+        throw new ValidationError(`${label}: pick the days of the week it runs on`);
+      }
+      shift.endDate = raw.endDate;
+      shift.daysOfWeek = days;
+      if (shiftOccurrences(shift).length === 0) {
+        throw new ValidationError(`${label}: none of its days fall between startDate and endDate`);
+      }
+    }
+
+    // Keep ids of existing shifts so picks and roster spots still point at them after an edit
+    if (raw._id && mongoose.Types.ObjectId.isValid(raw._id)) {
+      shift._id = new mongoose.Types.ObjectId(String(raw._id));
+    }
+    return shift;
+  });
+};
+
+// Hired students on each of the given shifts, leaving out one application (the one being changed)
+const countAssigned = async (
+  jobId: mongoose.Types.ObjectId,
+  shiftIds: mongoose.Types.ObjectId[],
+  excludeApplicationId?: mongoose.Types.ObjectId
+): Promise<Map<string, number>> => {
+  const rows = await Application.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+    {
+      $match: {
+        jobId,
+        status: 'hired',
+        assignedShiftIds: { $in: shiftIds },
+        ...(excludeApplicationId && { _id: { $ne: excludeApplicationId } })
+      }
+    },
+    { $unwind: '$assignedShiftIds' },
+    { $match: { assignedShiftIds: { $in: shiftIds } } },
+    { $group: { _id: '$assignedShiftIds', count: { $sum: 1 } } }
+  ]);
+  return new Map(rows.map(row => [String(row._id), row.count]));
+};
+
+// Look up each id among the job's shifts, keeping the job's order
+const findJobShifts = (job: IJob, input: unknown): { shift: IShift; index: number }[] => {
+  if (input !== undefined && input !== null && !Array.isArray(input)) {
+    throw new ValidationError('shiftIds must be a list');
+  }
+  const ids = new Set(((input as unknown[]) || []).map(id => String(id)));
+  const found = job.shifts
+    .map((shift, index) => ({ shift, index }))
+    .filter(({ shift }) => ids.has(String(shift._id)));
+  if (found.length !== ids.size) {
+    throw new ValidationError('One or more shifts were not found on this job');
+  }
+  return found;
+};
+
+/**
+ * Check the shifts a student picks when applying: at least one is needed when the
+ * job has shifts, each must still be running and have room, and every weekday it
+ * falls on must be in the student's KYC availableDays.
+ */
+export const resolveShiftPicks = async (
+  job: IJob,
+  studentId: mongoose.Types.ObjectId | string,
+  input: unknown
+): Promise<mongoose.Types.ObjectId[]> => {
+  const picks = findJobShifts(job, input);
+  if (job.shifts.length === 0) return [];
+  if (picks.length === 0) {
+    throw new ValidationError('Pick at least one shift you can work');
+  }
+
+  const today = todayInIndia();
+  const ended = picks.find(({ shift }) => hasEnded(shift, today));
+  if (ended) {
+    throw new ValidationError(`${shiftName(ended.shift, ended.index)} has already ended`);
+  }
+
+  const kyc = await KYC.findOne({ userId: studentId, isActive: true }).select('availableDays').lean();
+  const availableDays = kyc?.availableDays || [];
+  if (availableDays.length === 0) {
+    throw new ValidationError('Add the days you are available to your KYC profile before picking shifts');
+  }
+  for (const { shift, index } of picks) {
+    const missing = shiftWeekDays(shift).filter(day => !availableDays.includes(day));
+    if (missing.length > 0) {
+      throw new ValidationError(`${shiftName(shift, index)} falls on ${missing.join(', ')}, which is not in your KYC availability`);
+    }
+  }
+
+  const ids = picks.map(({ shift }) => shift._id as mongoose.Types.ObjectId);
+  const assigned = await countAssigned(job._id as mongoose.Types.ObjectId, ids);
+  const full = picks.find(({ shift }) => (assigned.get(String(shift._id)) || 0) >= shift.headcount);
+  if (full) {
+    throw new ValidationError(`${shiftName(full.shift, full.index)} is already fully staffed`);
+  }
+  return ids;
+};
+
+/**
+ * Put a hired application on more shifts, then take back any of them that now has
+ * more students than its headcount: a hire or roster move at the same moment got
+ * there too, and whoever counts after both writes backs out. Returns the shifts
+ * that were full.
+ */
+const claimShifts = async (
+  application: IApplication,
+  job: IJob,
+  shiftIds: mongoose.Types.ObjectId[]
+): Promise<mongoose.Types.ObjectId[]> => {
+  if (shiftIds.length === 0) return [];
+
+  await Application.updateOne({ _id: application._id }, { $addToSet: { assignedShiftIds: { $each: shiftIds } } });
+  const assigned = await countAssigned(job._id as mongoose.Types.ObjectId, shiftIds);
+  const full = job.shifts
+    .filter(shift => includesShift(shiftIds, shift) && (assigned.get(String(shift._id)) || 0) > shift.headcount)
+    .map(shift => shift._id as mongoose.Types.ObjectId);
+  if (full.length > 0) {
+    await Application.updateOne({ _id: application._id }, { $pull: { assignedShiftIds: { $in: full } } });
+  }
+  return full;
+};
+
+// On hire the student is rostered on the shifts they picked that still have room
+export const assignPickedShifts = async (application: IApplication, job: IJob): Promise<mongoose.Types.ObjectId[]> => {
+  if (job.shifts.length === 0 || !application.shiftIds?.length) return [];
+
+  // Shifts removed from the job since the student applied are skipped
+  const picks = job.shifts.filter(shift => includesShift(application.shiftIds, shift));
+  const assigned = await countAssigned(job._id as mongoose.Types.ObjectId, application.shiftIds, application._id as mongoose.Types.ObjectId);
+  const ids = picks
+    .filter(shift => (assigned.get(String(shift._id)) || 0) < shift.headcount)
+    .map(shift => shift._id as mongoose.Types.ObjectId);
+
+  const full = await claimShifts(application, job, ids);
+  application.assignedShiftIds = ids.filter(id => !full.some(fullId => String(fullId) === String(id)));
+  return application.assignedShiftIds;
+};
+
+// Employers move hired students between shifts from the roster; headcounts still apply
+export const setAssignedShifts = async (application: IApplication, job: IJob, input: unknown): Promise<IApplication> => {
+  if (application.status !== 'hired') {
+    throw new ValidationError('Only hired students can be put on the roster');
+  }
+  const shifts = findJobShifts(job, input);
+  const ids = shifts.map(({ shift }) => shift._id as mongoose.Types.ObjectId);
+  const assigned = await countAssigned(job._id as mongoose.Types.ObjectId, ids, application._id as mongoose.Types.ObjectId);
+  let full = shifts.find(({ shift }) => (assigned.get(String(shift._id)) || 0) >= shift.headcount);
+  if (full) {
+    throw new ValidationError(`${shiftName(full.shift, full.index)} is already fully staffed`);
+  }
+
+  // The student keeps their current shifts until the new ones are secured
+  const added = shifts
+    .filter(({ shift }) => !includesShift(application.assignedShiftIds, shift))
+    .map(({ shift }) => shift._id as mongoose.Types.ObjectId);
+  const taken = await claimShifts(application, job, added);
+  full = shifts.find(({ shift }) => includesShift(taken, shift));
+  if (full) {
+    throw new ValidationError(`${shiftName(full.shift, full.index)} is already fully staffed`);
+  }
+
+  await Application.updateOne({ _id: application._id }, { $set: { assignedShiftIds: ids } });
+  application.assignedShiftIds = ids;
+  return application;
+};
+
+// Who works which shift, and which open applicants could fill the gaps
+export const buildRoster = async (job: IJob): Promise<JobRoster> => {
+  const applications = await Application.find({
+    jobId: job._id,
+    $or: [
+      { status: 'hired' },
+      { status: { $in: OPEN_APPLICATION_STATUSES }, 'shiftIds.0': { $exists: true } }
+    ]
+  })
+    .select('studentId status shiftIds assignedShiftIds')
+    .populate('studentId', 'name email')
+    .lean();
+
+  const toStudent = (app: any): RosterStudent => ({
+    applicationId: app._id,
+    studentId: app.studentId?._id,
+    name: app.studentId?.name || 'Student',
+    email: app.studentId?.email || '',
+    status: app.status
+  });
+  const today = todayInIndia();
+  const hired = applications.filter(app => app.status === 'hired');
+  const open = applications.filter(app => app.status !== 'hired');
+
+  return {
+    shifts: job.shifts.map(shift => ({
+      shift,
+      hours: shiftHours(shift),
+      upcomingDates: shiftOccurrences(shift, today).slice(0, ROSTER_UPCOMING_DATES),
+      assigned: hired.filter(app => includesShift(app.assignedShiftIds, shift)).map(toStudent),
+      interested: open.filter(app => includesShift(app.shiftIds, shift)).map(toStudent)
+    })),
+    unassigned: hired.filter(app => !app.assignedShiftIds?.length).map(toStudent)
+  };
+};
@@ -0,0 +1,497 @@
+import mongoose from 'mongoose';
+import Timesheet, { ITimesheet, ITimesheetLine, TimesheetAction, TimesheetStatus, TIMESHEET_STATUSES, MAX_TIMESHEET_DAY_HOURS } from '../models/Timesheet';
+import Attendance from '../models/Attendance';
+import Application, { IApplication, IStatusActor } from '../models/Application';
+import Job, { IJob } from '../models/Job';
+import { WEEK_DAYS } from '../models/ShiftSchedule';
+import { dispatchNotification } from './notificationDispatcher';
+import { findStudentEngagement } from './attendanceService';
+import { recordTimesheetEarning } from './ledgerService';
+import { addDays, isCalendarDate, todayInIndia, weekDayOf } from './shiftService';
+import { ValidationError, NotFoundError } from '../middleware/errorHandler';
+
+// Timesheets for last week are generated from check-ins within an hour of Monday starting
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Engagements handled per run; the rest are picked up by the next one
+const BATCH_SIZE = 200;
+
+// A daily wage is turned into an hourly rate over a standard working day
+const HOURS_PER_PAID_DAY = 8;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export const MAX_HOURLY_RATE = 10000;
+
+export interface TimesheetLineInput {
+  date?: unknown;
+  hours?: unknown;
+  note?: unknown;
+}
+
+export interface TimesheetReviewInput {
+  comment?: unknown;
+  hourlyRate?: unknown;
+  lines?: unknown;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sumLines = (lines: ITimesheetLine[]) => round2(lines.reduce((total, line) => total + line.hours, 0));
+
+// Monday of the week a date falls in
+export const weekStartOf = (date: string): string =>
+  addDays(date, -((WEEK_DAYS.indexOf(weekDayOf(date)) + 6) % 7));
+
+export const weekDates = (weekStart: string): string[] =>
+  Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+// Any day of a week that has started; the timesheet is for that whole week
+export const parseWeekStart = (value: unknown): string => {
+  if (!isCalendarDate(value)) {
+    throw new ValidationError('weekStart must be a date (YYYY-MM-DD)');
+  }
+  const weekStart = weekStartOf(value);
+  if (weekStart > todayInIndia()) {
+    throw new ValidationError('That week has not started yet');
+  }
+  return weekStart;
+};
+
+const parseComment = (value: unknown, required: string | false): string | undefined => {
+  const comment = typeof value === 'string' ? value.trim() : '';
+  if (!comment) {
+    if (required) throw new ValidationError(required);
+    return undefined;
+  }
+  if (comment.length > 500) {
+    throw new ValidationError('Comment cannot exceed 500 characters');
+  }
+  return comment;
+};
+
+/**
+ * Check hours entered by hand, one { date, hours, note? } per day of the week.
+ * Days with no hours are dropped; check-ins already linked to a day are kept.
+ */
+export const parseTimesheetLines = (
+  input: unknown,
+  weekStart: string,
+  previous: ITimesheetLine[] = []
+): ITimesheetLine[] => {
+  if (!Array.isArray(input)) {
+    throw new ValidationError('lines must be a list of { date, hours }');
+  }
+  const dates = weekDates(weekStart);
+  const today = todayInIndia();
+  const seen = new Set<string>();
+
+  const lines = input.map((raw: TimesheetLineInput) => {
+    const date = String(raw?.date);
+    if (!dates.includes(date)) {
+      throw new ValidationError(`${date} is not in the week starting ${weekStart}`);
+    }
+    if (date > today) {
+      throw new ValidationError(`Hours cannot be entered for ${date} yet`);
+    }
+    if (seen.has(date)) {
+      throw new ValidationError(`${date} is listed more than once`);
+    }
+    seen.add(date);
+
+    const hours = Number(raw.hours);
+    if (!Number.isFinite(hours) || hours < 0 || hours > MAX_TIMESHEET_DAY_HOURS) {
+      throw new ValidationError(`Hours on ${date} must be from 0 to ${MAX_TIMESHEET_DAY_HOURS}`);
+    }
+    const note = typeof raw.note === 'string' && raw.note.trim() ? raw.note.trim().slice(0, 200) : undefined;
+    return {
+      date,
+      hours: round2(hours),
+      attendanceIds: previous.find(line => line.date === date)?.attendanceIds || [],
+      note
+    };
+  }).filter(line => line.hours > 0);
+
+  if (lines.length === 0) {
+    throw new ValidationError('Enter the hours worked on at least one day');
+  }
+  return lines.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// One line per day from the completed check-ins of the week
+const buildAttendanceLines = async (applicationId: mongoose.Types.ObjectId, weekStart: string): Promise<ITimesheetLine[]> => {
+  const entries = await Attendance.find({
+    applicationId,
+    status: 'completed',
+    date: { $gte: weekStart, $lte: addDays(weekStart, 6) }
+  }).select('date hours').sort({ date: 1 });
+
+  const byDate = new Map<string, ITimesheetLine>();
+  for (const entry of entries) {
+    const line = byDate.get(entry.date) || { date: entry.date, hours: 0, attendanceIds: [] };
+    line.hours = round2(line.hours + entry.hours);
+    line.attendanceIds.push(entry._id as mongoose.Types.ObjectId);
+    byDate.set(entry.date, line);
+  }
+  return Array.from(byDate.values());
+};
+
+// Pay per hour from the job's salary; other pay periods need a rate from the employer
+export const suggestedHourlyRate = (job: Pick<IJob, 'salary'>): number | undefined => {
+  if (job.salary?.period === 'hourly') return job.salary.min;
+  if (job.salary?.period === 'daily') return round2(job.salary.min / HOURS_PER_PAID_DAY);
+  return undefined;
+};
+
+const recordChange = (
+  timesheet: ITimesheet,
+  action: TimesheetAction,
+  actor: IStatusActor,
+  change: { comment?: string; hoursBefore?: number; hoursAfter?: number } = {}
+) => {
+  timesheet.history.push({
+    action,
+    actor: actor.id ? new mongoose.Types.ObjectId(String(actor.id)) : undefined,
+    actorType: actor.type,
+    ...change,
+    at: new Date()
+  });
+};
+
+const notifyTimesheet = async (
+  timesheet: ITimesheet,
+  recipientType: 'student' | 'employer',
+  title: string,
+  message: string
+): Promise<void> => {
+  try {
+    await dispatchNotification({
+      recipient: String(recipientType === 'student' ? timesheet.studentId : timesheet.employerId),
+      recipientType,
+      type: 'timesheet_update',
+      title,
+      message,
+      payload: {
+        timesheetId: timesheet._id,
+        applicationId: timesheet.applicationId,
+        jobId: timesheet.jobId,
+        weekStart: timesheet.weekStart,
+        status: timesheet.status,
+        totalHours: timesheet.totalHours,
+        amount: timesheet.amount
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Failed to notify ${recipientType} about timesheet ${timesheet._id}:`, error);
+  }
+};
+
+const saveTimesheet = async (timesheet: ITimesheet): Promise<void> => {
+  try {
+    await timesheet.save();
+  } catch (error: any) {
+    // Changed by someone else since it was read, e.g. approved while the student resubmitted
+    if (error instanceof mongoose.Error.VersionError) {
+      throw new ValidationError('This timesheet was changed in the meantime. Refresh to see it and try again');
+    }
+    // Generated from check-ins and sent by hand at the same moment; the unique week index kept one
+    if (error?.code === DUPLICATE_KEY_ERROR) {
+      throw new ValidationError(`A timesheet for the week of ${timesheet.weekStart} was just sent. Refresh to see it`);
+    }
+    throw error;
+  }
+};
+
+// Create or replace the week's timesheet of a hired student and send it for approval
+const saveForApproval = async (
+  application: IApplication,
+  weekStart: string,
+  lines: ITimesheetLine[],
+  source: 'attendance' | 'manual',
+  actor: IStatusActor,
+  comment?: string
+): Promise<ITimesheet> => {
+  const existing = await Timesheet.findOne({ applicationId: application._id, weekStart });
+  if (existing?.status === 'approved') {
+    throw new ValidationError(`The timesheet for the week of ${weekStart} is already approved`);
+  }
+  const job = await Job.findById(application.jobId).select('employerId jobTitle');
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+
+  const timesheet = existing || new Timesheet({
+    applicationId: application._id,
+    jobId: job._id,
+    studentId: application.studentId,
+    employerId: job.employerId,
+    weekStart,
+    weekEnd: addDays(weekStart, 6)
+  });
+  const hoursBefore = existing?.totalHours;
+  timesheet.source = source;
+  timesheet.lines = lines;
+  timesheet.totalHours = sumLines(lines);
+  timesheet.status = 'submitted';
+  recordChange(timesheet, source === 'attendance' ? 'generated' : 'submitted', actor, {
+    comment,
+    hoursBefore,
+    hoursAfter: timesheet.totalHours
+  });
+  await saveTimesheet(timesheet);
+
+  await notifyTimesheet(
+    timesheet,
+    'employer',
+    'Timesheet Ready For Approval',
+    `${timesheet.totalHours} hours on "${job.jobTitle}" for the week of ${weekStart} are waiting for your approval.`
+  );
+  return timesheet;
+};
+
+// Student: build the week's timesheet from their check-ins
+export const generateTimesheet = async (
+  studentId: mongoose.Types.ObjectId,
+  applicationId: unknown,
+  weekStartInput: unknown
+): Promise<ITimesheet> => {
+  const application = await findStudentEngagement(studentId, applicationId);
+  const weekStart = parseWeekStart(weekStartInput);
+  const lines = await buildAttendanceLines(application._id as mongoose.Types.ObjectId, weekStart);
+  if (lines.length === 0) {
+    throw new ValidationError(`You have no completed check-ins in the week of ${weekStart}. Enter your hours instead`);
+  }
+  return saveForApproval(application, weekStart, lines, 'attendance', { id: studentId, type: 'student' });
+};
+
+// Student: enter the week's hours by hand, e.g. for work done before check-ins were used
+export const submitTimesheet = async (
+  studentId: mongoose.Types.ObjectId,
+  applicationId: unknown,
+  input: { weekStart?: unknown; lines?: unknown; comment?: unknown }
+): Promise<ITimesheet> => {
+  const application = await findStudentEngagement(studentId, applicationId);
+  const weekStart = parseWeekStart(input.weekStart);
+  const previous = await Timesheet.findOne({ applicationId: application._id, weekStart }).select('lines');
+  const lines = parseTimesheetLines(input.lines, weekStart, previous?.lines);
+  return saveForApproval(application, weekStart, lines, 'manual', { id: studentId, type: 'student' }, parseComment(input.comment, false));
+};
+
+const findEmployerTimesheet = async (employerId: mongoose.Types.ObjectId, timesheetId: string): Promise<ITimesheet> => {
+  if (!mongoose.Types.ObjectId.isValid(timesheetId)) {
+    throw new ValidationError('Invalid timesheet ID');
+  }
+  const timesheet = await Timesheet.findOne({ _id: timesheetId, employerId });
+  if (!timesheet) {
+    throw new NotFoundError('Timesheet not found');
+  }
+  if (timesheet.status === 'approved') {
+    throw new ValidationError('This timesheet is already approved');
+  }
+  return timesheet;
+};
+
+const loadJobTitle = async (timesheet: ITimesheet) =>
+  Job.findById(timesheet.jobId).select('jobTitle salary');
+
+/**
+ * Approve a week's hours at an hourly rate: the one given, or the job's hourly
+ * (or daily) pay. The amount is fixed from then on and is posted to the
+ * student's earnings ledger.
+ */
+export const approveTimesheet = async (
+  employerId: mongoose.Types.ObjectId,
+  timesheetId: string,
+  input: TimesheetReviewInput
+): Promise<ITimesheet> => {
+  const timesheet = await findEmployerTimesheet(employerId, timesheetId);
+  const job = await loadJobTitle(timesheet);
+
+  let hourlyRate = job ? suggestedHourlyRate(job) : undefined;
+  if (input.hourlyRate !== undefined && input.hourlyRate !== null && input.hourlyRate !== '') {
+    hourlyRate = Number(input.hourlyRate);
+    if (!Number.isFinite(hourlyRate) || hourlyRate < 0 || hourlyRate > MAX_HOURLY_RATE) {
+      throw new ValidationError(`hourlyRate must be from 0 to ${MAX_HOURLY_RATE}`);
+    }
+  }
+  if (hourlyRate === undefined) {
+    throw new ValidationError('This job is not paid by the hour or day. Enter the hourly rate to approve the timesheet');
+  }
+
+  timesheet.hourlyRate = round2(hourlyRate);
+  timesheet.amount = round2(timesheet.totalHours * timesheet.hourlyRate);
+  timesheet.status = 'approved';
+  timesheet.approvedAt = new Date();
+  timesheet.approvedBy = employerId;
+  recordChange(timesheet, 'approved', { id: employerId, type: 'employer' }, { comment: parseComment(input.comment, false) });
+  await saveTimesheet(timesheet);
+
+  await recordTimesheetEarning(timesheet);
+  console.log(`✅ Timesheet ${timesheet._id} approved: ${timesheet.totalHours} h, ₹${timesheet.amount}`);
+  await notifyTimesheet(
+    timesheet,
+    'student',
+    'Timesheet Approved',
+    `Your ${timesheet.totalHours} hours on "${job?.jobTitle || 'your job'}" for the week of ${timesheet.weekStart} were approved (₹${timesheet.amount}).`
+  );
+  return timesheet;
+};
+
+// Send a timesheet back to the student with what is wrong
+export const disputeTimesheet = async (
+  employerId: mongoose.Types.ObjectId,
+  timesheetId: string,
+  input: TimesheetReviewInput
+): Promise<ITimesheet> => {
+  const timesheet = await findEmployerTimesheet(employerId, timesheetId);
+  if (timesheet.status === 'disputed') {
+    throw new ValidationError('This timesheet is already disputed');
+  }
+  const comment = parseComment(input.comment, 'Tell the student what is wrong with the timesheet');
+
+  timesheet.status = 'disputed';
+  recordChange(timesheet, 'disputed', { id: employerId, type: 'employer' }, { comment });
+  await saveTimesheet(timesheet);
+
+  const job = await loadJobTitle(timesheet);
+  await notifyTimesheet(
+    timesheet,
+    'student',
+    'Timesheet Disputed',
+    `Your timesheet on "${job?.jobTitle || 'your job'}" for the week of ${timesheet.weekStart} was disputed: ${comment}`
+  );
+  return timesheet;
+};
+
+// Change the hours of a timesheet; it then waits for approval again
+export const adjustTimesheet = async (
+  employerId: mongoose.Types.ObjectId,
+  timesheetId: string,
+  input: TimesheetReviewInput
+): Promise<ITimesheet> => {
+  const timesheet = await findEmployerTimesheet(employerId, timesheetId);
+  const comment = parseComment(input.comment, 'Explain the adjustment to the student');
+  const lines = parseTimesheetLines(input.lines, timesheet.weekStart, timesheet.lines);
+
+  const hoursBefore = timesheet.totalHours;
+  timesheet.lines = lines;
+  timesheet.totalHours = sumLines(lines);
+  timesheet.status = 'submitted';
+  recordChange(timesheet, 'adjusted', { id: employerId, type: 'employer' }, {
+    comment,
+    hoursBefore,
+    hoursAfter: timesheet.totalHours
+  });
+  await saveTimesheet(timesheet);
+
+  const job = await loadJobTitle(timesheet);
+  await notifyTimesheet(
+    timesheet,
+    'student',
+    'Timesheet Adjusted',
+    `Your hours on "${job?.jobTitle || 'your job'}" for the week of ${timesheet.weekStart} were changed from ${hoursBefore} to ${timesheet.totalHours}: ${comment}`
+  );
+  return timesheet;
+};
+
+export const listStudentTimesheets = async (studentId: mongoose.Types.ObjectId) =>
+  Timesheet.find({ studentId })
+    .populate('jobId', 'jobTitle companyName')
+    .sort({ weekStart: -1, createdAt: -1 })
+    .limit(50);
+
+// The employer's timesheets, newest weeks first, with the rate the job's pay suggests
+export const listEmployerTimesheets = async (
+  employerId: mongoose.Types.ObjectId,
+  filters: { status?: unknown; jobId?: unknown } = {}
+) => {
+  const query: Record<string, unknown> = { employerId };
+  if (filters.status !== undefined) {
+    if (!TIMESHEET_STATUSES.includes(filters.status as TimesheetStatus)) {
+      throw new ValidationError(`status must be one of ${TIMESHEET_STATUSES.join(', ')}`);
+    }
+    query.status = filters.status;
+  }
+  if (filters.jobId !== undefined) {
+    if (!mongoose.Types.ObjectId.isValid(String(filters.jobId))) {
+      throw new ValidationError('Invalid job ID');
+    }
+    query.jobId = filters.jobId;
+  }
+
+  const timesheets = await Timesheet.find(query)
+    .populate('studentId', 'name email')
+    .populate('jobId', 'jobTitle salary')
+    .sort({ weekStart: -1, createdAt: -1 })
+    .limit(100)
+    .lean();
+  return timesheets.map((timesheet: any) => ({
+    ...timesheet,
+    suggestedHourlyRate: timesheet.jobId ? suggestedHourlyRate(timesheet.jobId) : undefined
+  }));
+};
+
+// Last week's timesheets for every hired student who checked in during it
+export const generateDueTimesheets = async (): Promise<number> => {
+  const weekStart = addDays(weekStartOf(todayInIndia()), -7);
+  const [worked, existing] = await Promise.all([
+    Attendance.distinct('applicationId', { status: 'completed', date: { $gte: weekStart, $lte: addDays(weekStart, 6) } }),
+    Timesheet.distinct('applicationId', { weekStart })
+  ]);
+  const done = new Set(existing.map(id => String(id)));
+  const due = worked.filter(id => !done.has(String(id))).slice(0, BATCH_SIZE);
+
+  let generated = 0;
+  for (const applicationId of due) {
+    try {
+      const application = await Application.findOne({ _id: applicationId, status: 'hired' });
+      if (!application) continue;
+      const lines = await buildAttendanceLines(application._id as mongoose.Types.ObjectId, weekStart);
+      if (lines.length === 0) continue;
+      await saveForApproval(application, weekStart, lines, 'attendance', { type: 'system' });
+      generated++;
+    } catch (error) {
+      console.error(`❌ Failed to generate the timesheet of application ${applicationId} for ${weekStart}:`, error);
+    }
+  }
+
+  if (generated > 0) {
+    console.log(`🗓️ Generated ${generated} timesheet(s) for the week of ${weekStart}`);
+  }
+  return generated;
+};
+
+let timesheetTimer: NodeJS.Timeout | null = null;
+
+// autoIndex is off globally; the unique { applicationId, weekStart } index stops duplicate weeks
+export const ensureTimesheetIndexes = async (): Promise<void> => {
+  try {
+    await Timesheet.createIndexes();
+  } catch (error) {
+    console.error('❌ Failed to create timesheet indexes:', error);
+  }
+};
+
+export const startTimesheetScheduler = (): void => {
+  if (timesheetTimer) return;
+
+  const tick = async () => {
+    if (mongoose.connection.readyState !== 1) return;
+    try {
+      await generateDueTimesheets();
+    } catch (error) {
+      console.error('❌ Timesheet generation failed:', error);
+    }
+  };
+
+  timesheetTimer = setInterval(tick, CHECK_INTERVAL_MS);
+  console.log('🗓️ Weekly timesheet scheduler started');
+  tick();
+};
+
+export const stopTimesheetScheduler = (): void => {
+  if (timesheetTimer) {
+    clearInterval(timesheetTimer);
+    timesheetTimer = null;
+  }
+};
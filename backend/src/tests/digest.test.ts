@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import User, { resolveDigestFrequency, resolveNotificationPreferences } from '../models/User';
+import Job from '../models/Job';
+import Application from '../models/Application';
+import { runDigests } from '../services/digestService';
+import EmailNotificationService from '../services/emailNotificationService';
+import { connectTestDatabase, disconnectTestDatabase } from './testDatabase';
+
+// 10:30 in India, after the digest hour
+const now = new Date('2026-10-19T05:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+// A user as sign-up stores them, with every preference left at its default
+const defaultUser = (fields: Record<string, unknown>) => new User({
+  name: 'Default User',
+  password: 'not-hashed-in-tests',
+  ...fields
+}).toObject() as Record<string, any>;
+
+// Records the digests instead of queueing emails
+const digestRecorder = () => {
+  const sent: Array<{ kind: 'employer' | 'student'; userId: string; jobs: number }> = [];
+  const emailService = {
+    sendEmployerDigest: async (userId: string, jobs: unknown[]) => {
+      sent.push({ kind: 'employer', userId, jobs: jobs.length });
+      return true;
+    },
+    sendStudentDigest: async (userId: string, jobs: unknown[]) => {
+      sent.push({ kind: 'student', userId, jobs: jobs.length });
+      return true;
+    }
+  } as unknown as EmailNotificationService;
+  return { sent, emailService };
+};
+
+test('a default user is due a digest', () => {
+  const employer = defaultUser({ email: 'shop@example.com', phone: '9000000001', userType: 'employer' });
+  assert.equal(resolveDigestFrequency(employer), 'daily');
+  assert.equal(employer.notificationPreferences.new_application.digest, true);
+
+  const student = defaultUser({ email: 'student@example.com', phone: '9000000002', userType: 'student' });
+  assert.equal(resolveDigestFrequency(student), 'weekly');
+  assert.equal(student.notificationPreferences.job_approved.digest, true);
+
+  // Users saved before preferences existed resolve the same way
+  const preferences = resolveNotificationPreferences(undefined);
+  assert.equal(preferences.new_application.digest, true);
+  assert.equal(preferences.job_approved.digest, true);
+  assert.equal(preferences.interview_update.digest, false);
+});
+
+test('digest run', async t => {
+  const skipReason = await connectTestDatabase();
+  if (skipReason) {
+    t.skip(skipReason);
+    return;
+  }
+
+  try {
+    const employer = defaultUser({ email: 'shop@example.com', phone: '9000000001', userType: 'employer' });
+    const student = defaultUser({ email: 'student@example.com', phone: '9000000002', userType: 'student', skills: ['Barista'] });
+    const optedOut = defaultUser({ email: 'other-shop@example.com', phone: '9000000003', userType: 'employer' });
+    optedOut.notificationPreferences.new_application.digest = false;
+    const legacyEmployerId = new mongoose.Types.ObjectId();
+    await User.collection.insertMany([
+      employer,
+      student,
+      optedOut,
+      { _id: legacyEmployerId, name: 'Legacy Shop', email: 'legacy@example.com', phone: '9000000004', userType: 'employer', isActive: true }
+    ]);
+
+    const jobIds = [employer._id, optedOut._id, legacyEmployerId].map(() => new mongoose.Types.ObjectId());
+    await Job.collection.insertMany([employer._id, optedOut._id, legacyEmployerId].map((employerId, i) => ({
+      _id: jobIds[i],
+      employerId,
+      jobTitle: 'Weekend barista',
+      skillsRequired: ['barista'],
+      approvalStatus: 'approved',
+      status: 'active',
+      approvedAt: hoursAgo(24)
+    })));
+    await Application.collection.insertMany(jobIds.map(jobId => ({
+      jobId,
+      studentId: student._id,
+      status: 'pending',
+      createdAt: hoursAgo(1)
+    })));
+
+    await t.test('reaches default users and skips only those who turned the digest off', async () => {
+      const { sent, emailService } = digestRecorder();
+      const result = await runDigests(emailService, now);
+
+      assert.equal(result.employers, 2);
+      assert.equal(result.students, 1);
+      assert.deepEqual(
+        sent.map(digest => `${digest.kind}:${digest.userId}`).sort(),
+        [`employer:${employer._id}`, `employer:${legacyEmployerId}`, `student:${student._id}`].sort()
+      );
+    });
+  } finally {
+    await disconnectTestDatabase();
+  }
+});
@@ -0,0 +1,205 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import nodemailer from 'nodemailer';
+import EmailOutbox, { REDACTED_EMAIL_BODY } from '../models/EmailOutbox';
+import { EmailOutboxWorker, EnqueueEmailInput, enqueueEmail, retryEmail } from '../services/emailOutbox';
+import { SmtpStandIn } from './smtpStandIn';
+import { connectTestDatabase, disconnectTestDatabase } from './testDatabase';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60 * 1000;
+const ACCEPTED = '250 2.0.0 Queued';
+const REJECTED = '451 4.3.0 Mailbox temporarily unavailable';
+
+const queue = (overrides: Partial<EnqueueEmailInput> = {}) => enqueueEmail({
+  to: 'student@example.com',
+  subject: 'Interview Scheduled - Weekend barista',
+  html: '<p>See you on Saturday</p>',
+  text: 'See you on Saturday',
+  category: 'interview_scheduled',
+  maxAttempts: 3,
+  ...overrides
+});
+
+const reload = async (id: unknown) => (await EmailOutbox.findById(id).lean())!;
+
+// Let the retry come due without waiting out the backoff
+const rewind = (id: unknown) => EmailOutbox.updateOne({ _id: id }, { $set: { nextAttemptAt: new Date(Date.now() - 1) } });
+
+// The real outbox collection and claim queries; only the mail server is a stand-in
+test('email outbox worker', async t => {
+  const skipReason = await connectTestDatabase();
+  if (skipReason) {
+    t.skip(skipReason);
+    return;
+  }
+
+  const smtp = new SmtpStandIn();
+  const port = await smtp.listen();
+  const transporter = nodemailer.createTransport({ host: '127.0.0.1', port, secure: false, ignoreTLS: true });
+  const worker = new EmailOutboxWorker({ transporter, baseDelayMs: BASE_DELAY_MS, maxDelayMs: MAX_DELAY_MS });
+  await EmailOutbox.createIndexes();
+
+  const reset = async () => {
+    await EmailOutbox.deleteMany({});
+    smtp.received = [];
+    smtp.reply = () => ACCEPTED;
+  };
+
+  try {
+    await t.test('delivers a queued email through SMTP', async () => {
+      await reset();
+      const message = await queue();
+
+      assert.equal(await worker.processBatch(), 1);
+      const sent = await reload(message._id);
+      assert.equal(sent.status, 'sent');
+      assert.equal(sent.attempts, 1);
+      assert.ok(sent.sentAt);
+      assert.equal(sent.lockedAt, undefined);
+      assert.equal(smtp.received.length, 1);
+      assert.deepEqual(smtp.received[0].to, ['student@example.com']);
+      assert.match(smtp.received[0].data, /Subject: Interview Scheduled - Weekend barista/);
+    });
+
+    await t.test('queues an idempotency key only once', async () => {
+      await reset();
+      const first = await queue({ idempotencyKey: 'interview:1:0:scheduled:student' });
+      const second = await queue({ idempotencyKey: 'interview:1:0:scheduled:student' });
+
+      assert.equal(String(second._id), String(first._id));
+      assert.equal(await EmailOutbox.countDocuments({}), 1);
+    });
+
+    await t.test('retries a rejected email after the backoff delay', async () => {
+      await reset();
+      const message = await queue();
+      smtp.reply = () => REJECTED;
+
+      const startedAt = Date.now();
+      assert.equal(await worker.processBatch(), 1);
+      let stored = await reload(message._id);
+      assert.equal(stored.status, 'failed');
+      assert.equal(stored.lastError, REJECTED);
+      assert.equal(stored.errorHistory.length, 1);
+      const delay = stored.nextAttemptAt.getTime() - startedAt;
+      assert.ok(delay >= BASE_DELAY_MS && delay < BASE_DELAY_MS + 500, `first retry in ${delay}ms`);
+
+      // Not due yet
+      assert.equal(await worker.processBatch(), 0);
+
+      smtp.reply = () => ACCEPTED;
+      await rewind(message._id);
+      assert.equal(await worker.processBatch(), 1);
+      stored = await reload(message._id);
+      assert.equal(stored.status, 'sent');
+      assert.equal(stored.attempts, 2);
+      assert.equal(stored.lastError, undefined);
+      assert.equal(smtp.received.length, 1);
+    });
+
+    await t.test('doubles the delay each attempt and dead-letters after maxAttempts', async () => {
+      await reset();
+      const message = await queue({ maxAttempts: 3 });
+      smtp.reply = () => REJECTED;
+
+      const delays: number[] = [];
+      for (let attempt = 1; attempt <= 2; attempt++) {
+        const startedAt = Date.now();
+        assert.equal(await worker.processBatch(), 1);
+        const stored = await reload(message._id);
+        assert.equal(stored.status, 'failed');
+        delays.push(stored.nextAttemptAt.getTime() - startedAt);
+        await rewind(message._id);
+      }
+      assert.ok(delays[0] >= BASE_DELAY_MS && delays[0] < BASE_DELAY_MS + 500, `first retry in ${delays[0]}ms`);
+      assert.ok(delays[1] >= 2 * BASE_DELAY_MS && delays[1] < 2 * BASE_DELAY_MS + 500, `second retry in ${delays[1]}ms`);
+
+      assert.equal(await worker.processBatch(), 1);
+      const dead = await reload(message._id);
+      assert.equal(dead.status, 'dead');
+      assert.equal(dead.attempts, 3);
+      assert.equal(dead.errorHistory.length, 3);
+      assert.equal(dead.lastError, REJECTED);
+
+      // Dead letters stay out of the queue
+      await rewind(message._id);
+      assert.equal(await worker.processBatch(), 0);
+      assert.equal(smtp.received.length, 0);
+    });
+
+    await t.test('puts a message locked by a dead worker back in the queue', async () => {
+      await reset();
+      const message = await queue();
+      const lockedAt = new Date(Date.now() - 10 * 60 * 1000);
+      await EmailOutbox.updateOne({ _id: message._id }, { $set: { status: 'sending', lockedAt, attempts: 1 } });
+      const exhausted = await queue({ maxAttempts: 1 });
+      await EmailOutbox.updateOne({ _id: exhausted._id }, { $set: { status: 'sending', lockedAt, attempts: 1 } });
+
+      assert.equal(await worker.processBatch(), 1);
+      const sent = await reload(message._id);
+      assert.equal(sent.status, 'sent');
+      assert.equal(sent.attempts, 2);
+      const dead = await reload(exhausted._id);
+      assert.equal(dead.status, 'dead');
+      assert.equal(dead.lastError, 'Delivery lock expired');
+      assert.equal(smtp.received.length, 1);
+    });
+
+    await t.test('dead-letters an email that expired before delivery without sending it', async () => {
+      await reset();
+      const message = await queue({ expiresAt: new Date(Date.now() - 1000) });
+
+      assert.equal(await worker.processBatch(), 1);
+      const dead = await reload(message._id);
+      assert.equal(dead.status, 'dead');
+      assert.equal(dead.lastError, 'Expired before delivery');
+      assert.equal(smtp.received.length, 0);
+
+      // An admin cannot bring it back either
+      assert.equal(await retryEmail(String(message._id)), null);
+    });
+
+    await t.test('clears a one-time code once it is sent and never re-sends it', async () => {
+      await reset();
+      const sent = await queue({ html: '<p>Your code is 482913</p>', text: 'Your code is 482913', category: 'otp_login', sensitive: true });
+      assert.equal(await worker.processBatch(), 1);
+      const stored = await reload(sent._id);
+      assert.equal(stored.status, 'sent');
+      assert.equal(stored.html, REDACTED_EMAIL_BODY);
+      assert.equal(stored.text, REDACTED_EMAIL_BODY);
+      assert.match(smtp.received[0].data, /482913/);
+
+      smtp.reply = () => REJECTED;
+      const dead = await queue({ html: '<p>Your code is 771204</p>', category: 'otp_login', sensitive: true, maxAttempts: 1 });
+      assert.equal(await worker.processBatch(), 1);
+      const deadStored = await reload(dead._id);
+      assert.equal(deadStored.status, 'dead');
+      assert.equal(deadStored.html, REDACTED_EMAIL_BODY);
+      assert.equal(await retryEmail(String(dead._id)), null);
+    });
+
+    await t.test('re-queues a dead email for an admin and keeps its expiry', async () => {
+      await reset();
+      smtp.reply = () => REJECTED;
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      const message = await queue({ maxAttempts: 1, expiresAt });
+      assert.equal(await worker.processBatch(), 1);
+      assert.equal((await reload(message._id)).status, 'dead');
+
+      const retried = await retryEmail(String(message._id));
+      assert.ok(retried);
+      assert.equal(retried.status, 'pending');
+      assert.equal(retried.attempts, 0);
+      assert.equal(retried.expiresAt?.getTime(), expiresAt.getTime());
+
+      smtp.reply = () => ACCEPTED;
+      assert.equal(await worker.processBatch(), 1);
+      assert.equal((await reload(message._id)).status, 'sent');
+    });
+  } finally {
+    transporter.close();
+    await smtp.close();
+    await disconnectTestDatabase();
+  }
+});
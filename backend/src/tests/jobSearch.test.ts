@@ -0,0 +1,83 @@
+import { test, after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import mongoose from 'mongoose';
+import { Job } from '../models/Job';
+import jobRoutes from '../routes/jobs';
+import { errorHandler } from '../middleware/errorHandler';
+
+// A published job whose screening question disqualifies anyone answering "no"
+const jobWithKnockout = {
+  _id: new mongoose.Types.ObjectId(),
+  jobTitle: 'Weekend barista',
+  category: 'hospitality',
+  workType: 'part_time',
+  location: 'Hyderabad',
+  status: 'active',
+  approvalStatus: 'approved',
+  createdAt: new Date(),
+  screeningQuestions: [{
+    _id: new mongoose.Types.ObjectId(),
+    prompt: 'Can you work Sunday mornings?',
+    type: 'yes_no',
+    required: true,
+    knockout: { expected: true }
+  }]
+};
+
+// Remove the paths a { path: 0 } $project excludes, walking into arrays like MongoDB does
+const unsetPath = (value: any, path: string[]): void => {
+  if (Array.isArray(value)) {
+    value.forEach(item => unsetPath(item, path));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+  const [head, ...rest] = path;
+  if (rest.length === 0) delete value[head];
+  else unsetPath(value[head], rest);
+};
+
+let server: Server;
+let baseUrl: string;
+const originals = { aggregate: Job.aggregate, populate: Job.populate };
+
+before(async () => {
+  // No database here: run the jobs branch of the pipeline's $facet against the fixture
+  (Job as any).aggregate = async (pipeline: any[]) => {
+    const facet = pipeline.find(stage => stage.$facet).$facet;
+    const jobs = [structuredClone(jobWithKnockout)];
+    facet.jobs
+      .filter((stage: any) => stage.$project)
+      .forEach((stage: any) => Object.entries(stage.$project)
+        .filter(([, include]) => include === 0)
+        .forEach(([path]) => jobs.forEach(job => unsetPath(job, path.split('.')))));
+    return [{ jobs, total: [{ count: jobs.length }], categories: [], workTypes: [], locations: [], salaryBuckets: [] }];
+  };
+  (Job as any).populate = async (docs: unknown) => docs;
+
+  const app = express();
+  app.use('/api/jobs', jobRoutes);
+  app.use(errorHandler);
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  (Job as any).aggregate = originals.aggregate;
+  (Job as any).populate = originals.populate;
+  server.close();
+});
+
+test('GET /api/jobs/search does not reveal knockout answers', async () => {
+  const response = await fetch(`${baseUrl}/api/jobs/search`);
+  assert.equal(response.status, 200);
+
+  const body: any = await response.json();
+  assert.equal(body.jobs.length, 1);
+  const [question] = body.jobs[0].screeningQuestions;
+  assert.equal(question.prompt, 'Can you work Sunday mornings?');
+  assert.equal(question.knockout, undefined);
+  assert.equal(JSON.stringify(body).includes('expected'), false);
+});
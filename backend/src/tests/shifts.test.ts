@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Job from '../models/Job';
+import Application from '../models/Application';
+import { assignPickedShifts, setAssignedShifts } from '../services/shiftService';
+import { ValidationError } from '../middleware/errorHandler';
+import { connectTestDatabase, disconnectTestDatabase } from './testDatabase';
+
+const employerId = new mongoose.Types.ObjectId();
+
+// A job with one single-student shift and two hired students who both picked it
+const jobWithContestedShift = async () => {
+  const shiftId = new mongoose.Types.ObjectId();
+  const jobId = new mongoose.Types.ObjectId();
+  await Job.collection.insertOne({
+    _id: jobId,
+    employerId,
+    jobTitle: 'Weekend barista',
+    shifts: [{
+      _id: shiftId,
+      recurrence: 'once',
+      startDate: '2099-01-03',
+      daysOfWeek: [],
+      startTime: '09:00',
+      endTime: '13:00',
+      headcount: 1
+    }]
+  });
+  const applicationIds = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+  await Application.collection.insertMany(applicationIds.map(_id => ({
+    _id,
+    jobId,
+    studentId: new mongoose.Types.ObjectId(),
+    status: 'hired',
+    shiftIds: [shiftId],
+    assignedShiftIds: []
+  })));
+
+  const job = (await Job.findById(jobId))!;
+  const applications = await Promise.all(applicationIds.map(async id => (await Application.findById(id))!));
+  return { job, shiftId, applications };
+};
+
+const onShift = (shiftId: mongoose.Types.ObjectId) => Application.countDocuments({ assignedShiftIds: shiftId });
+
+test('shift headcount', async t => {
+  const skipReason = await connectTestDatabase();
+  if (skipReason) {
+    t.skip(skipReason);
+    return;
+  }
+
+  try {
+    await t.test('two hires at the same moment never overstaff a shift', async () => {
+      for (let round = 0; round < 10; round++) {
+        const { job, shiftId, applications } = await jobWithContestedShift();
+
+        await Promise.all(applications.map(application => assignPickedShifts(application, job)));
+
+        assert.ok(await onShift(shiftId) <= 1, `round ${round} overstaffed the shift`);
+      }
+    });
+
+    await t.test('two roster moves at the same moment never overstaff a shift', async () => {
+      for (let round = 0; round < 10; round++) {
+        const { job, shiftId, applications } = await jobWithContestedShift();
+
+        const results = await Promise.allSettled(
+          applications.map(application => setAssignedShifts(application, job, [String(shiftId)]))
+        );
+
+        assert.ok(await onShift(shiftId) <= 1, `round ${round} overstaffed the shift`);
+        results
+          .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+          .forEach(result => assert.ok(result.reason instanceof ValidationError));
+      }
+    });
+
+    await t.test('a refused move keeps the student on their current shifts', async () => {
+      const { job, shiftId, applications } = await jobWithContestedShift();
+      const [first, second] = applications;
+      const otherShiftId = new mongoose.Types.ObjectId();
+      await Job.updateOne({ _id: job._id }, {
+        $push: { shifts: { _id: otherShiftId, recurrence: 'once', startDate: '2099-01-04', daysOfWeek: [], startTime: '09:00', endTime: '13:00', headcount: 1 } }
+      });
+      const reloaded = (await Job.findById(job._id))!;
+
+      await setAssignedShifts(first, reloaded, [String(shiftId)]);
+      await setAssignedShifts(second, reloaded, [String(otherShiftId)]);
+      await assert.rejects(setAssignedShifts(second, reloaded, [String(shiftId)]), ValidationError);
+
+      const stored = (await Application.findById(second._id))!;
+      assert.deepEqual(stored.assignedShiftIds.map(String), [String(otherShiftId)]);
+    });
+  } finally {
+    await disconnectTestDatabase();
+  }
+});
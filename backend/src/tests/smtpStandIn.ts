@@ -0,0 +1,86 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+
+export interface ReceivedEmail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * A minimal local SMTP server for tests. It accepts plain-text sessions and
+ * answers the end of each message with `reply()`: 250 to accept it, or a
+ * 4xx/5xx line to make the sender treat the delivery as failed.
+ */
+export class SmtpStandIn {
+  public received: ReceivedEmail[] = [];
+  public reply: () => string = () => '250 2.0.0 Queued';
+  private server = net.createServer(socket => this.handle(socket));
+  private sockets = new Set<net.Socket>();
+
+  public async listen(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  public async close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    let envelope: ReceivedEmail = { from: '', to: [], data: '' };
+    let inData = false;
+    const send = (line: string) => socket.write(`${line}\r\n`);
+
+    send('220 localhost ESMTP stand-in');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            const response = this.reply();
+            if (response.startsWith('250')) this.received.push(envelope);
+            envelope = { from: '', to: [], data: '' };
+            send(response);
+          } else {
+            envelope.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO') {
+          send('250-localhost');
+          send('250 8BITMIME');
+        } else if (command === 'HELO' || command === 'RSET' || command === 'NOOP') {
+          send('250 OK');
+        } else if (command === 'MAIL') {
+          envelope.from = line.replace(/^MAIL FROM:\s*<?([^>\s]*)>?.*$/i, '$1');
+          send('250 OK');
+        } else if (command === 'RCPT') {
+          envelope.to.push(line.replace(/^RCPT TO:\s*<?([^>\s]*)>?.*$/i, '$1'));
+          send('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          send('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          send('221 Bye');
+          socket.end();
+        } else {
+          send('502 Command not implemented');
+        }
+      }
+    });
+  }
+}
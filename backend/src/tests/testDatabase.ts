@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+let server: MongoMemoryServer | null = null;
+
+/**
+ * Connect mongoose to a throwaway database for one test file: the server at
+ * MONGODB_TEST_URI when it is set, otherwise a mongodb-memory-server instance
+ * (which downloads mongod the first time). autoIndex is off as in production,
+ * so tests build the indexes they rely on. Returns why the tests have to be
+ * skipped when no MongoDB can be started.
+ */
+export const connectTestDatabase = async (): Promise<string | undefined> => {
+  try {
+    let uri = process.env.MONGODB_TEST_URI;
+    if (!uri) {
+      server = await MongoMemoryServer.create();
+      uri = server.getUri();
+    }
+
+    mongoose.set('autoIndex', false);
+    await mongoose.connect(uri, { dbName: `studentjobs_test_${process.pid}`, serverSelectionTimeoutMS: 5000 });
+    return undefined;
+  } catch (error: any) {
+    await server?.stop();
+    server = null;
+    return `No MongoDB to test against: ${String(error?.message || error).split('\n')[0]}`;
+  }
+};
+
+export const disconnectTestDatabase = async (): Promise<void> => {
+  if (mongoose.connection.readyState === 1) {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  }
+  await server?.stop();
+  server = null;
+};
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Timesheet from '../models/Timesheet';
+import LedgerEntry from '../models/LedgerEntry';
+import Job from '../models/Job';
+import Application from '../models/Application';
+import { approveTimesheet, submitTimesheet, weekStartOf } from '../services/timesheetService';
+import { toPaise } from '../services/ledgerService';
+import { addDays, todayInIndia } from '../services/shiftService';
+import { connectTestDatabase, disconnectTestDatabase } from './testDatabase';
+
+const HOURLY_PAY = 200;
+const lastWeek = addDays(weekStartOf(todayInIndia()), -7);
+const employerId = new mongoose.Types.ObjectId();
+const studentId = new mongoose.Types.ObjectId();
+
+// A student hired on an hourly job, with last week's timesheet waiting for approval
+const hireWithSubmittedTimesheet = async () => {
+  const jobId = new mongoose.Types.ObjectId();
+  const applicationId = new mongoose.Types.ObjectId();
+  await Job.collection.insertOne({
+    _id: jobId,
+    employerId,
+    jobTitle: 'Weekend barista',
+    salary: { period: 'hourly', min: HOURLY_PAY, max: HOURLY_PAY }
+  });
+  await Application.collection.insertOne({ _id: applicationId, jobId, studentId, status: 'hired' });
+
+  const timesheet = await submitTimesheet(studentId, String(applicationId), {
+    weekStart: lastWeek,
+    lines: [{ date: lastWeek, hours: 4 }]
+  });
+  return { applicationId, timesheetId: String(timesheet._id) };
+};
+
+test('timesheet approval', async t => {
+  const skipReason = await connectTestDatabase();
+  if (skipReason) {
+    t.skip(skipReason);
+    return;
+  }
+  await Promise.all([Timesheet.createIndexes(), LedgerEntry.createIndexes()]);
+
+  try {
+    await t.test('a resubmission racing an approval never leaves the ledger and timesheet apart', async () => {
+      for (let round = 0; round < 10; round++) {
+        const { applicationId, timesheetId } = await hireWithSubmittedTimesheet();
+
+        await Promise.allSettled([
+          approveTimesheet(employerId, timesheetId, {}),
+          submitTimesheet(studentId, String(applicationId), { weekStart: lastWeek, lines: [{ date: lastWeek, hours: 6 }] })
+        ]);
+
+        const timesheet = (await Timesheet.findById(timesheetId))!;
+        const entries = await LedgerEntry.find({ key: `timesheet:${timesheetId}` });
+        if (timesheet.status === 'approved') {
+          assert.equal(entries.length, 1);
+          assert.equal(timesheet.amount, timesheet.totalHours * HOURLY_PAY);
+          assert.equal(entries[0].amount, toPaise(timesheet.amount));
+        } else {
+          assert.equal(timesheet.status, 'submitted');
+          assert.equal(timesheet.totalHours, 6);
+          assert.equal(entries.length, 0);
+        }
+      }
+    });
+
+    await t.test('a timesheet read before the approval cannot be saved over it', async () => {
+      const { timesheetId } = await hireWithSubmittedTimesheet();
+      const stale = (await Timesheet.findById(timesheetId))!;
+
+      await approveTimesheet(employerId, timesheetId, {});
+      stale.totalHours = 6;
+      stale.status = 'submitted';
+      await assert.rejects(stale.save(), mongoose.Error.VersionError);
+
+      const timesheet = (await Timesheet.findById(timesheetId))!;
+      assert.equal(timesheet.status, 'approved');
+      assert.equal(timesheet.totalHours, 4);
+      const entry = (await LedgerEntry.findOne({ key: `timesheet:${timesheetId}` }))!;
+      assert.equal(entry.amount, toPaise(4 * HOURLY_PAY));
+    });
+
+    await t.test('approving hours that changed after they were read is refused', async () => {
+      const { applicationId, timesheetId } = await hireWithSubmittedTimesheet();
+      const read = (await Timesheet.findById(timesheetId))!;
+
+      await submitTimesheet(studentId, String(applicationId), { weekStart: lastWeek, lines: [{ date: lastWeek, hours: 6 }] });
+      read.status = 'approved';
+      await assert.rejects(read.save(), mongoose.Error.VersionError);
+      assert.equal(await LedgerEntry.countDocuments({ key: `timesheet:${timesheetId}` }), 0);
+    });
+  } finally {
+    await disconnectTestDatabase();
+  }
+});
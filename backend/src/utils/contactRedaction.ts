@@ -0,0 +1,28 @@
+// Detects contact details students and employers try to swap before a shortlist:
+// plain and lightly obfuscated emails ("name [at] gmail [dot] com") and phone
+// numbers with 10 or more digits, however they are spaced or punctuated.
+const EMAIL_PATTERN = /[a-z0-9._%+-]+\s*(?:@|\(at\)|\[at\]|\sat\s)\s*[a-z0-9-]+(?:\s*(?:\.|\(dot\)|\[dot\]|\sdot\s)\s*[a-z0-9-]+)*\s*(?:\.|\(dot\)|\[dot\]|\sdot\s)\s*[a-z]{2,}/gi;
+const PHONE_PATTERN = /\+?\d(?:[\s().-]*\d){9,}/g;
+
+export const EMAIL_PLACEHOLDER = '[email hidden]';
+export const PHONE_PLACEHOLDER = '[phone hidden]';
+
+export interface RedactionResult {
+  text: string;
+  redacted: boolean;
+}
+
+export function redactContactDetails(text: string): RedactionResult {
+  let redacted = false;
+  const result = text
+    .replace(EMAIL_PATTERN, () => {
+      redacted = true;
+      return EMAIL_PLACEHOLDER;
+    })
+    .replace(PHONE_PATTERN, () => {
+      redacted = true;
+      return PHONE_PLACEHOLDER;
+    });
+
+  return { text: result, redacted };
+}
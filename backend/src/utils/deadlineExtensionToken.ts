@@ -0,0 +1,50 @@
+import jwt from 'jsonwebtoken';
+
+export interface DeadlineExtensionTokenPayload {
+  jobId: string;
+  employerId: string;
+  // The deadline that passed; once it has been moved the link stops working
+  deadline: number;
+}
+
+// Long enough to act on the expiry email, short enough that stale links lapse
+const TOKEN_TTL = '30d';
+
+const getSecret = (): string => {
+  return process.env.UNSUBSCRIBE_SECRET || process.env.JWT_SECRET!;
+};
+
+/**
+ * Sign a deadline extension token. It is tied to the deadline that passed, so a
+ * link clicked twice (or fetched by a mail scanner first) extends the job once.
+ */
+export function signDeadlineExtensionToken(payload: DeadlineExtensionTokenPayload): string {
+  return jwt.sign(
+    { sub: payload.jobId, employerId: payload.employerId, deadline: payload.deadline, purpose: 'extend_deadline' },
+    getSecret(),
+    { expiresIn: TOKEN_TTL }
+  );
+}
+
+/**
+ * Verify a deadline extension token - returns null for invalid, expired or foreign tokens
+ */
+export function verifyDeadlineExtensionToken(token: string): DeadlineExtensionTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, getSecret()) as any;
+    if (decoded.purpose !== 'extend_deadline' || !decoded.sub || !decoded.employerId || typeof decoded.deadline !== 'number') {
+      return null;
+    }
+    return { jobId: decoded.sub, employerId: decoded.employerId, deadline: decoded.deadline };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Build the public one-click link that extends an expired job's deadline
+ */
+export function buildDeadlineExtensionUrl(jobId: string, employerId: string, deadline: Date): string {
+  const token = signDeadlineExtensionToken({ jobId, employerId, deadline: deadline.getTime() });
+  return `${process.env.BASE_URL || 'http://localhost:5000'}/api/enhanced-jobs/extend-deadline/${token}`;
+}
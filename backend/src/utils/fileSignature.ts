@@ -0,0 +1,48 @@
+import { ResumeFileType } from '../models/User';
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * Detect a resume's real type from its first bytes. The mimetype header and the
+ * extension come from the client and are not trusted.
+ * DOCX files are ZIP archives, so a ZIP only counts when it carries a Word document part.
+ */
+export function detectDocumentType(buffer: Buffer): ResumeFileType | null {
+  if (!buffer || buffer.length < ZIP_SIGNATURE.length) return null;
+
+  if (buffer.subarray(0, PDF_SIGNATURE.length).equals(PDF_SIGNATURE)) {
+    return 'pdf';
+  }
+
+  if (buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+    // Entry names are stored uncompressed in the local headers and central directory
+    if (buffer.includes('[Content_Types].xml') && buffer.includes('word/document.xml')) {
+      return 'docx';
+    }
+  }
+
+  return null;
+}
+
+export type SpreadsheetFileType = 'csv' | 'xlsx';
+
+/**
+ * Detect an uploaded spreadsheet's type from its content. XLSX files are ZIP archives
+ * with a workbook part; anything else has to be UTF-8 text to count as CSV.
+ */
+export function detectSpreadsheetType(buffer: Buffer): SpreadsheetFileType | null {
+  if (!buffer || buffer.length === 0) return null;
+
+  if (buffer.length >= ZIP_SIGNATURE.length && buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+    return buffer.includes('[Content_Types].xml') && buffer.includes('xl/workbook.xml') ? 'xlsx' : null;
+  }
+
+  if (buffer.includes(0)) return null;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return 'csv';
+  } catch {
+    return null;
+  }
+}
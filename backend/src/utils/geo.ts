@@ -0,0 +1,51 @@
+import { IGeoPoint } from '../models/GeoPoint';
+import { ValidationError } from '../middleware/errorHandler';
+
+// Mean equatorial radius, as used by MongoDB's $centerSphere
+export const EARTH_RADIUS_KM = 6378.1;
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Lenient: stored strings such as EmployerKYC.latitude that are missing or invalid give undefined
+export const toGeoPoint = (latitude: unknown, longitude: unknown): IGeoPoint | undefined => {
+  const lat = toNumber(latitude);
+  const lng = toNumber(longitude);
+  if (lat === undefined || lng === undefined) return undefined;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return undefined;
+  return { type: 'Point', coordinates: [lng, lat] };
+};
+
+// Strict: coordinates sent by a client must be both present and valid, or both absent
+export const parseCoordinatesInput = (latitude: unknown, longitude: unknown): IGeoPoint | undefined => {
+  if (toNumber(latitude) === undefined && toNumber(longitude) === undefined) return undefined;
+  const point = toGeoPoint(latitude, longitude);
+  if (!point) {
+    throw new ValidationError('Location needs a valid latitude (-90 to 90) and longitude (-180 to 180)');
+  }
+  return point;
+};
+
+// "17.4474,78.3762" (latitude first, as maps show it)
+export const parseLatLng = (value: string): IGeoPoint => {
+  const [latitude, longitude] = value.split(',');
+  const point = toGeoPoint(latitude?.trim(), longitude?.trim());
+  if (!point) {
+    throw new ValidationError('near must be "latitude,longitude"');
+  }
+  return point;
+};
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle (haversine) distance in km, the in-memory twin of jobSearchService's distance expression
+export const distanceBetweenKm = (from: IGeoPoint, to: IGeoPoint): number => {
+  const [fromLng, fromLat] = from.coordinates;
+  const [toLng, toLat] = to.coordinates;
+  const a = Math.sin(toRadians(toLat - fromLat) / 2) ** 2 +
+    Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(toRadians(toLng - fromLng) / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
@@ -0,0 +1,7 @@
+// Escape user-entered text before putting it into HTML (emails and server-rendered pages)
+export const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
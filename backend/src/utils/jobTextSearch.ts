@@ -0,0 +1,173 @@
+/**
+ * Query parsing, skill synonyms and highlighting for the job text index.
+ *
+ * Search syntax: plain words match any of them, "quoted phrases" must appear as
+ * written, and a leading minus excludes a word or phrase (-unpaid, -"night shift").
+ */
+
+// Spellings of the same skill. The text index splits on punctuation, so "React.js" is
+// stored as "react" + "js"; dotted forms are only used for highlighting.
+const SKILL_SYNONYMS: string[][] = [
+  ['react', 'reactjs', 'react.js'],
+  ['node', 'nodejs', 'node.js'],
+  ['vue', 'vuejs', 'vue.js'],
+  ['angular', 'angularjs', 'angular.js'],
+  ['next', 'nextjs', 'next.js'],
+  ['express', 'expressjs', 'express.js'],
+  ['javascript', 'js', 'ecmascript'],
+  ['typescript', 'ts'],
+  ['mongodb', 'mongo'],
+  ['postgresql', 'postgres', 'psql'],
+  ['python', 'py'],
+  ['golang', 'go-lang'],
+  ['csharp', 'c#'],
+  ['cpp', 'c++'],
+  ['excel', 'ms-excel'],
+  ['powerpoint', 'ppt'],
+  ['photoshop', 'adobe-photoshop'],
+  ['ml', 'machine-learning']
+];
+
+const SYNONYMS_BY_TERM = new Map<string, string[]>();
+SKILL_SYNONYMS.forEach(group => group.forEach(term => SYNONYMS_BY_TERM.set(term, group)));
+
+const MAX_TERMS = 20;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+
+export interface ParsedSearch {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+}
+
+export interface HighlightPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface JobHighlights {
+  title: HighlightPart[];
+  snippet: HighlightPart[];
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Trim punctuation around a word but keep it inside (react.js) and at the end of c++ / c#
+const normalizeTerm = (word: string) =>
+  word.toLowerCase().replace(/^[^\w#+]+/, '').replace(/[^\w#+]+$/, '');
+
+const isSingleToken = (term: string) => /^\w+$/.test(term);
+
+export const parseSearchText = (input: string): ParsedSearch => {
+  const parsed: ParsedSearch = { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [] };
+  const tokenPattern = /(-?)"([^"]*)"|(-?)([^\s"]+)/g;
+
+  for (const match of input.matchAll(tokenPattern)) {
+    if (match[2] !== undefined) {
+      const phrase = match[2].trim().replace(/\s+/g, ' ').toLowerCase();
+      if (!phrase) continue;
+      (match[1] ? parsed.excludedPhrases : parsed.phrases).push(phrase);
+    } else {
+      const term = normalizeTerm(match[4]);
+      if (!term) continue;
+      (match[3] ? parsed.excludedTerms : parsed.terms).push(term);
+    }
+  }
+
+  parsed.terms = [...new Set(parsed.terms)].slice(0, MAX_TERMS);
+  parsed.excludedTerms = [...new Set(parsed.excludedTerms)].slice(0, MAX_TERMS);
+  return parsed;
+};
+
+export const hasPositiveTerms = (search: ParsedSearch) => search.terms.length > 0 || search.phrases.length > 0;
+
+// All spellings of a term, e.g. "React.js" -> react, reactjs, react.js
+const expandTerm = (term: string): string[] => SYNONYMS_BY_TERM.get(term) || [term];
+
+// Forms the text index can match as a single token
+const indexForms = (term: string): string[] => {
+  const forms = expandTerm(term).filter(isSingleToken);
+  return forms.length > 0 ? forms : [term];
+};
+
+/**
+ * Build the $text $search string. MongoDB ORs plain words, requires every quoted
+ * phrase and drops documents containing a negated word or phrase.
+ */
+export const buildTextSearch = (search: ParsedSearch): string => {
+  const parts = [
+    ...search.terms.flatMap(indexForms),
+    ...search.phrases.map(phrase => `"${phrase}"`),
+    ...search.excludedTerms.flatMap(indexForms).map(term => `-${term}`),
+    ...search.excludedPhrases.map(phrase => `-"${phrase}"`)
+  ];
+  return [...new Set(parts)].join(' ');
+};
+
+// Rough English stem so "developers" also highlights "developer" and "developing".
+// Short words only match whole words, otherwise "js" would light up "jsx" and "ts" "tsx".
+const wordPattern = (term: string) => {
+  if (!isSingleToken(term)) return escapeRegex(term);
+  if (term.length <= 3) return `${escapeRegex(term)}(?!\\w)`;
+  return `${escapeRegex(term.length > 4 ? term.replace(/(ing|ers|er|ed|es|s)$/, '') : term)}\\w*`;
+};
+
+const buildHighlightPattern = (search: ParsedSearch): RegExp | null => {
+  const wordPatterns = search.terms
+    .flatMap(expandTerm)
+    .map(wordPattern);
+  const phrasePatterns = search.phrases.map(phrase => phrase.split(' ').map(escapeRegex).join('\\s+'));
+  const patterns = [...phrasePatterns, ...wordPatterns];
+  if (patterns.length === 0) return null;
+  // Longest first so a phrase wins over the words inside it
+  patterns.sort((a, b) => b.length - a.length);
+  return new RegExp(`(?<![\\w#+])(?:${patterns.join('|')})(?![#+])`, 'gi');
+};
+
+const splitMatches = (text: string, pattern: RegExp | null): HighlightPart[] => {
+  if (!text) return [];
+  if (!pattern) return [{ text, highlight: false }];
+
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (match[0].length === 0) continue;
+    if (start > last) parts.push({ text: text.slice(last, start), highlight: false });
+    parts.push({ text: match[0], highlight: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), highlight: false });
+  return parts;
+};
+
+// A window of the description around the first match, cut at word boundaries
+const snippetWindow = (text: string, pattern: RegExp | null): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= SNIPPET_LENGTH) return clean;
+
+  const firstMatch = pattern ? clean.search(new RegExp(pattern.source, 'i')) : -1;
+  let start = firstMatch > SNIPPET_LEAD ? firstMatch - SNIPPET_LEAD : 0;
+  if (start > 0) {
+    const space = clean.indexOf(' ', start);
+    start = space === -1 || space > firstMatch ? start : space + 1;
+  }
+  let end = Math.min(clean.length, start + SNIPPET_LENGTH);
+  if (end < clean.length) {
+    const space = clean.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  return `${start > 0 ? '…' : ''}${clean.slice(start, end)}${end < clean.length ? '…' : ''}`;
+};
+
+// Title and description snippet split into plain and highlighted parts for the client
+export const highlightJob = (job: { jobTitle?: string; description?: string }, search: ParsedSearch): JobHighlights => {
+  const pattern = buildHighlightPattern(search);
+  return {
+    title: splitMatches(job.jobTitle || '', pattern),
+    snippet: splitMatches(snippetWindow(job.description || '', pattern), pattern)
+  };
+};
@@ -0,0 +1,110 @@
+import { ISalary, SalaryPeriod, SALARY_PERIODS } from '../models/Job';
+import { ValidationError } from '../middleware/errorHandler';
+
+const PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  hourly: 'hour',
+  daily: 'day',
+  monthly: 'month',
+  per_task: 'task'
+};
+
+const INR_FORMATTER = new Intl.NumberFormat('en-IN', { maximumFractionDigits: 0 });
+
+// e.g. "₹15,000 - ₹20,000 / month" or "₹500 / day"
+export const formatSalary = (salary: Pick<ISalary, 'min' | 'max' | 'period'>): string => {
+  const min = `₹${INR_FORMATTER.format(salary.min)}`;
+  const max = `₹${INR_FORMATTER.format(salary.max)}`;
+  const amount = salary.min === salary.max ? min : `${min} - ${max}`;
+  return `${amount} / ${PERIOD_LABELS[salary.period]}`;
+};
+
+const toAmount = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : undefined;
+};
+
+/**
+ * Validate a structured salary sent by a client: { min, max?, period, currency? }.
+ * Returns undefined when no salary was sent.
+ */
+export const parseSalaryInput = (input: any): ISalary | undefined => {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object') {
+    throw new ValidationError('Salary must be an object with min, max and period');
+  }
+
+  const min = toAmount(input.min);
+  const max = toAmount(input.max) ?? min;
+  if (min === undefined || max === undefined || min < 0) {
+    throw new ValidationError('Salary needs a valid minimum amount');
+  }
+  if (max < min) {
+    throw new ValidationError('Maximum salary cannot be less than the minimum');
+  }
+  if (!SALARY_PERIODS.includes(input.period)) {
+    throw new ValidationError(`Salary period must be one of ${SALARY_PERIODS.join(', ')}`);
+  }
+  if (input.currency !== undefined && input.currency !== 'INR') {
+    throw new ValidationError('Only INR salaries are supported');
+  }
+
+  return { min, max, currency: 'INR', period: input.period };
+};
+
+// Amounts like "25,000", "12.5k", "3 lakh" or "4 LPA"
+const AMOUNT_PATTERN = /(\d+(?:,\d+)*(?:\.\d+)?)\s*(k|lpa|lakhs?|lacs?|l)?\b/gi;
+
+const MULTIPLIERS: Record<string, number> = { k: 1000, lpa: 100000, l: 100000, lakh: 100000, lakhs: 100000, lac: 100000, lacs: 100000 };
+
+/**
+ * Best-effort parse of a free-text salary such as "₹15,000-20,000/month", "500 per day"
+ * or "3 LPA". Yearly and weekly pay are converted to monthly amounts. Without a period
+ * keyword, amounts of 5,000 or more are taken as monthly and smaller ones as hourly.
+ * Returns null when no amount can be found.
+ */
+export const parseSalaryText = (text: string): ISalary | null => {
+  const normalized = String(text || '').toLowerCase();
+  const parts: Array<{ value: number; unit?: string }> = [];
+
+  for (const match of normalized.matchAll(AMOUNT_PATTERN)) {
+    const value = parseFloat(match[1].replace(/,/g, ''));
+    if (!Number.isFinite(value)) continue;
+    parts.push({ value, unit: match[2]?.toLowerCase() });
+    if (parts.length === 2) break;
+  }
+  if (parts.length === 0) return null;
+
+  // "10-15k" means 10k-15k: a unit on one end of a range applies to both
+  const sharedUnit = parts.find(part => part.unit)?.unit;
+  const amounts = parts.map(part => {
+    const unit = part.unit || sharedUnit;
+    return unit ? part.value * MULTIPLIERS[unit] : part.value;
+  });
+
+  let min = Math.min(...amounts);
+  let max = Math.max(...amounts);
+  let period: SalaryPeriod;
+
+  if (/lpa|per annum|annum|year|yr|p\.a/.test(normalized)) {
+    min = min / 12;
+    max = max / 12;
+    period = 'monthly';
+  } else if (/week/.test(normalized)) {
+    min = (min * 52) / 12;
+    max = (max * 52) / 12;
+    period = 'monthly';
+  } else if (/month|\bmo\b|pm\b/.test(normalized)) {
+    period = 'monthly';
+  } else if (/day|daily/.test(normalized)) {
+    period = 'daily';
+  } else if (/hour|\bhr|\/h\b/.test(normalized)) {
+    period = 'hourly';
+  } else if (/task|gig|project|piece/.test(normalized)) {
+    period = 'per_task';
+  } else {
+    period = max >= 5000 ? 'monthly' : 'hourly';
+  }
+
+  return { min: Math.round(min), max: Math.round(max), currency: 'INR', period };
+};
@@ -2,6 +2,7 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import User from '../models/User';
+import { getConversation } from '../services/messagingService';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -151,6 +152,22 @@ class SocketManager {
         console.log(`🔌 User ${authSocket.userEmail} left job room: ${jobId}`);
       });
 
+      // Typing indicator in an application conversation, relayed to the other participant
+      authSocket.on('message:typing', async (data: { applicationId?: string; isTyping?: boolean }) => {
+        if (!authSocket.userId || !data?.applicationId) return;
+        try {
+          const conversation = await getConversation(data.applicationId, authSocket.userId);
+          this.io.to(`user:${conversation.otherPartyId}`).emit('message:typing', {
+            applicationId: data.applicationId,
+            userId: authSocket.userId,
+            isTyping: data.isTyping !== false,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error) {
+          console.log(`❌ Ignoring typing event from ${authSocket.userEmail} for application ${data.applicationId}`);
+        }
+      });
+
       // Handle KYC status requests
       authSocket.on('kyc:status:request', () => {
         if (authSocket.userId) {
@@ -243,11 +260,18 @@ class SocketManager {
 
   // ===== JOB-RELATED NOTIFICATIONS =====
 
-  // Emit job approval notification to all students
-  public notifyJobApproved(jobData: any) {
+  // Emit job approval notification to all students, or only to the given students
+  public notifyJobApproved(jobData: any, studentIds?: string[]) {
+    // io.to([]) would reach every connected socket, employers and admins included
+    if (studentIds && studentIds.length === 0) return;
+
     console.log(`📢 Broadcasting job approval: ${jobData.jobTitle} at ${jobData.companyName}`);
     
-    this.io.to('student').emit('job_approved', {
+    const target = studentIds
+      ? this.io.to(studentIds.map(id => `user:${id}`))
+      : this.io.to('student');
+
+    target.emit('job_approved', {
       type: 'job_approved',
       job: jobData,
       timestamp: new Date().toISOString(),
@@ -255,6 +279,59 @@ class SocketManager {
     });
   }
 
+  // Emit a newly approved job to a student whose saved searches it matches
+  public notifySavedSearchMatch(jobData: any, studentId: string, searchNames: string[]) {
+    console.log(`📢 Notifying saved search match to student: ${studentId}`);
+
+    this.io.to(`user:${studentId}`).emit('saved_search_match', {
+      type: 'saved_search_match',
+      job: jobData,
+      searchNames,
+      timestamp: new Date().toISOString(),
+      message: `New job for "${searchNames.join('", "')}": ${jobData.jobTitle} at ${jobData.companyName}`
+    });
+  }
+
+  // Remind a student that a job they bookmarked stops taking applications soon
+  public notifyBookmarkDeadline(jobData: any, studentId: string) {
+    console.log(`📢 Reminding student ${studentId} of bookmarked job deadline: ${jobData.jobTitle}`);
+
+    this.io.to(`user:${studentId}`).emit('bookmark_deadline_reminder', {
+      type: 'bookmark_deadline_reminder',
+      job: jobData,
+      timestamp: new Date().toISOString(),
+      message: `Applications for "${jobData.jobTitle}" at ${jobData.companyName} close within 24 hours`
+    });
+  }
+
+  // Tell a student an employer invited them to apply to a job
+  public notifyJobInvite(jobData: any, studentId: string, inviteMessage?: string) {
+    console.log(`📢 Notifying job invite to student: ${studentId}`);
+
+    this.io.to(`user:${studentId}`).emit('job_invite', {
+      type: 'job_invite',
+      job: jobData,
+      inviteMessage,
+      timestamp: new Date().toISOString(),
+      message: `${jobData.companyName} invited you to apply for "${jobData.jobTitle}"`
+    });
+  }
+
+  // Tell the employer (who can extend the deadline) or an applicant that a job expired
+  public notifyJobExpired(jobData: any, userId: string, audience: 'employer' | 'student') {
+    console.log(`📢 Notifying job expiry to ${audience}: ${userId}`);
+
+    this.io.to(`user:${userId}`).emit('job_expired', {
+      type: 'job_expired',
+      job: jobData,
+      audience,
+      timestamp: new Date().toISOString(),
+      message: audience === 'employer'
+        ? `Your job "${jobData.jobTitle}" reached its application deadline`
+        : `"${jobData.jobTitle}" at ${jobData.companyName} is no longer taking applications`
+    });
+  }
+
   // Emit job rejection notification to employer
   public notifyJobRejected(jobData: any, employerId: string) {
     console.log(`📢 Notifying job rejection to employer: ${employerId}`);
@@ -299,6 +376,44 @@ class SocketManager {
     });
   }
 
+  // ===== INTERVIEW NOTIFICATIONS =====
+
+  // Emit an interview change (proposed, scheduled, rescheduled, cancelled) to the given participants
+  public notifyInterviewUpdate(interviewData: any, userIds: string[]) {
+    console.log(`📢 Notifying interview ${interviewData.event}: ${interviewData.id}`);
+
+    this.io.to(userIds.map(id => `user:${id}`)).emit('interview_update', {
+      type: 'interview_update',
+      interview: interviewData,
+      timestamp: new Date().toISOString(),
+      message: `Interview ${interviewData.event} for "${interviewData.jobTitle}"`
+    });
+  }
+
+  // ===== MESSAGING =====
+
+  // Deliver a new conversation message to both participants
+  public emitNewMessage(message: any, userIds: string[], jobTitle: string) {
+    console.log(`📡 Emitting message ${message._id} on application ${message.application}`);
+
+    this.io.to(userIds.map(id => `user:${id}`)).emit('message:new', {
+      type: 'message:new',
+      message,
+      jobTitle,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Tell the sender that their messages in a conversation were read
+  public emitMessagesRead(applicationId: string, readerId: string, senderId: string, readAt: Date) {
+    this.io.to(`user:${senderId}`).emit('message:read', {
+      applicationId,
+      readerId,
+      readAt: readAt.toISOString(),
+      timestamp: new Date().toISOString()
+    });
+  }
+
   // Get socket instance
   public getIO(): SocketIOServer {
     return this.io;
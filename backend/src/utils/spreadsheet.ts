@@ -0,0 +1,204 @@
+import zlib from 'zlib';
+import { ValidationError } from '../middleware/errorHandler';
+import { detectSpreadsheetType } from './fileSignature';
+
+// Guards against ZIP bombs: no sheet of a few hundred job rows comes close
+const MAX_XLSX_PART_BYTES = 20 * 1024 * 1024;
+
+export interface SpreadsheetRow {
+  row: number; // 1-based, as the spreadsheet app numbers it
+  cells: string[];
+}
+
+const isBlank = (cells: string[]) => cells.every(cell => cell.trim() === '');
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, line breaks and doubled quotes.
+ * A UTF-8 byte order mark (added by Excel's "CSV UTF-8" export) is dropped.
+ */
+export const parseCsv = (text: string): SpreadsheetRow[] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: SpreadsheetRow[] = [];
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false;
+  let row = 1;
+
+  const endRow = () => {
+    cells.push(field);
+    if (!isBlank(cells)) rows.push({ row, cells });
+    cells = [];
+    field = '';
+    row++;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new ValidationError(`CSV row ${row} has an unclosed quote`);
+  }
+  if (field !== '' || cells.length > 0) endRow();
+
+  return rows;
+};
+
+// ---- XLSX: a ZIP of XML parts. Only the first worksheet's cell values are read. ----
+
+const readZipEntries = (buffer: Buffer): Map<string, Buffer> => {
+  // End of central directory record, followed by an optional comment of up to 64KB
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new ValidationError('The XLSX file is damaged');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new ValidationError('The XLSX file is damaged');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // Sizes are taken from the central directory; local headers may leave them out
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, zlib.inflateRawSync(data, { maxOutputLength: MAX_XLSX_PART_BYTES }));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const decodeXml = (text: string): string => text
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Text of all <t> runs in a shared or inline string, skipping phonetic hints
+const readTextRuns = (xml: string): string => {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetics.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+};
+
+const readAttribute = (attributes: string, name: string): string | undefined =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+// "AB12" -> 27 (zero-based column)
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const findFirstSheetPath = (entries: Map<string, Buffer>): string => {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') || '';
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+  const sheetTag = workbook.match(/<sheet\b[^>]*>/)?.[0];
+  const relationId = sheetTag && readAttribute(sheetTag, 'r:id');
+
+  if (relationId) {
+    for (const [tag] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (readAttribute(tag, 'Id') !== relationId) continue;
+      const target = readAttribute(tag, 'Target') || '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+};
+
+/**
+ * Cell values of the first worksheet as text. Numbers come back as Excel stores them,
+ * so dates are day serials; formulas give their last calculated value.
+ */
+export const parseXlsx = (buffer: Buffer): SpreadsheetRow[] => {
+  const entries = readZipEntries(buffer);
+  const sheet = entries.get(findFirstSheetPath(entries))?.toString('utf8');
+  if (!sheet) {
+    throw new ValidationError('The XLSX file has no worksheet');
+  }
+
+  const sharedStrings = [...(entries.get('xl/sharedStrings.xml')?.toString('utf8') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => readTextRuns(match[1]));
+
+  const rows: SpreadsheetRow[] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row = parseInt(readAttribute(rowMatch[1], 'r') || String(rows.length + 1), 10);
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const type = readAttribute(attributes, 't');
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') text = sharedStrings[parseInt(value || '', 10)] ?? '';
+      else if (type === 'inlineStr') text = readTextRuns(content);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== undefined) text = decodeXml(value);
+
+      const reference = readAttribute(attributes, 'r');
+      cells[reference ? columnIndex(reference) : cells.length] = text;
+    }
+
+    const filled = Array.from(cells, cell => cell ?? '');
+    if (!isBlank(filled)) rows.push({ row, cells: filled });
+  }
+
+  return rows;
+};
+
+// Rows of an uploaded CSV or XLSX file; the type is read from the content, not the name
+export const readSpreadsheet = (buffer: Buffer): SpreadsheetRow[] => {
+  const type = detectSpreadsheetType(buffer);
+  if (type === 'xlsx') return parseXlsx(buffer);
+  if (type === 'csv') return parseCsv(buffer.toString('utf8'));
+  throw new ValidationError('Upload a CSV or XLSX file');
+};
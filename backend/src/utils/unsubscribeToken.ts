@@ -0,0 +1,57 @@
+import jwt from 'jsonwebtoken';
+import { NotificationType } from '../models/Notification';
+
+export type UnsubscribeChannel = 'email' | 'digest';
+
+export interface UnsubscribeTokenPayload {
+  userId: string;
+  type: NotificationType | 'all';
+  channel: UnsubscribeChannel;
+}
+
+// Links stop working after this long; older emails point users to their settings instead
+const UNSUBSCRIBE_TOKEN_TTL = '90d';
+
+const getSecret = (): string => {
+  return process.env.UNSUBSCRIBE_SECRET || process.env.JWT_SECRET!;
+};
+
+/**
+ * Sign an unsubscribe token. Tokens only grant the ability to turn a channel off,
+ * and expire so that a leaked link does not work forever.
+ */
+export function signUnsubscribeToken(payload: UnsubscribeTokenPayload): string {
+  return jwt.sign(
+    { sub: payload.userId, type: payload.type, channel: payload.channel, purpose: 'unsubscribe' },
+    getSecret(),
+    { expiresIn: UNSUBSCRIBE_TOKEN_TTL }
+  );
+}
+
+/**
+ * Verify an unsubscribe token - returns null for invalid, expired or foreign tokens
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, getSecret()) as any;
+    // Links signed before tokens expired carry no exp and are refused
+    if (decoded.purpose !== 'unsubscribe' || !decoded.exp || !decoded.sub || !decoded.type || !decoded.channel) {
+      return null;
+    }
+    return { userId: decoded.sub, type: decoded.type, channel: decoded.channel };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Build the public one-click unsubscribe URL for an email
+ */
+export function buildUnsubscribeUrl(
+  userId: string,
+  type: NotificationType | 'all',
+  channel: UnsubscribeChannel = 'email'
+): string {
+  const token = signUnsubscribeToken({ userId, type, channel });
+  return `${process.env.BASE_URL || 'http://localhost:5000'}/api/users/unsubscribe/${token}`;
+}
@@ -0,0 +1,423 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { apiService, type PayoutBatch, type PayoutPreview, type PayoutResult } from '../../../services/api';
+import ProtectedRoute from '../../../components/ProtectedRoute';
+import {
+  PAYOUT_BATCH_STATUSES,
+  PAYOUT_BATCH_STATUS_COLORS,
+  PAYOUT_BATCH_STATUS_LABELS,
+  PAYOUT_ITEM_STATUS_COLORS,
+  PAYOUT_ITEM_STATUS_LABELS,
+  PAYOUT_SKIP_REASON_LABELS,
+  type PayoutBatchStatus
+} from '../../../lib/constants';
+import { ArrowLeft, CheckCircle, Download, Eye, RefreshCw, Wallet, XCircle } from 'lucide-react';
+
+// The bank's answer being entered for one pending item
+interface ItemResult {
+  status: '' | 'paid' | 'failed';
+  utr: string;
+  reason: string;
+}
+
+const emptyResult: ItemResult = { status: '', utr: '', reason: '' };
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : '';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+const PayoutsPage: React.FC = () => {
+  const [status, setStatus] = useState<PayoutBatchStatus | 'all'>('all');
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [selected, setSelected] = useState<PayoutBatch | null>(null);
+  const [minAmount, setMinAmount] = useState('100');
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<PayoutPreview | null>(null);
+  const [results, setResults] = useState<Record<string, ItemResult>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const { batches: list } = await apiService.getPayoutBatches(status);
+      setBatches(list);
+    } catch (err: any) {
+      setError(err?.message || 'Could not load payout batches');
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError('');
+      setMessage('');
+      await action();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openBatch = (id: string) => run(async () => {
+    setSelected(await apiService.getPayoutBatch(id));
+    setResults({});
+  });
+
+  const loadPreview = () => run(async () => {
+    setPreview(await apiService.getPayoutPreview(Number(minAmount) || undefined));
+  });
+
+  const buildBatch = () => run(async () => {
+    const { batch, skipped } = await apiService.buildPayoutBatch({
+      minAmount: Number(minAmount) || undefined,
+      notes: notes.trim() || undefined
+    });
+    setSelected(batch);
+    setPreview(null);
+    setNotes('');
+    setMessage(`Batch ${batch.reference} created for ${batch.items.length} student(s)${skipped.length > 0 ? `; ${skipped.length} left out` : ''}.`);
+    await fetchBatches();
+  });
+
+  const downloadBatch = (batch: PayoutBatch) => run(async () => {
+    const { filename, csv } = await apiService.exportPayoutBatch(batch._id);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    setSelected(await apiService.getPayoutBatch(batch._id));
+    await fetchBatches();
+  });
+
+  const setResult = (itemId: string, change: Partial<ItemResult>) =>
+    setResults(previous => ({ ...previous, [itemId]: { ...emptyResult, ...previous[itemId], ...change } }));
+
+  const markAllPaid = () => {
+    if (!selected) return;
+    selected.items
+      .filter(item => item.status === 'pending' && !results[item._id]?.status)
+      .forEach(item => setResult(item._id, { status: 'paid' }));
+  };
+
+  const saveResults = () => run(async () => {
+    if (!selected) return;
+    const items: PayoutResult[] = Object.entries(results)
+      .filter(([, result]) => result.status)
+      .map(([itemId, result]) => ({
+        itemId,
+        status: result.status as 'paid' | 'failed',
+        utr: result.utr.trim() || undefined,
+        reason: result.reason.trim() || undefined
+      }));
+    const batch = await apiService.reconcilePayoutBatch(selected._id, items);
+    setSelected(batch);
+    setResults({});
+    setMessage(`Recorded ${items.length} result(s) for ${batch.reference}.`);
+    await fetchBatches();
+  });
+
+  const chosen = Object.values(results).filter(result => result.status);
+  const missingReason = chosen.some(result => result.status === 'failed' && !result.reason.trim());
+
+  return (
+    <ProtectedRoute requiredUserType="admin">
+      <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => window.history.back()}
+                className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Student Payouts</h1>
+                <p className="text-gray-600 mt-2">Pay approved earnings by NEFT bulk transfer and record what the bank paid</p>
+              </div>
+            </div>
+            <button
+              onClick={() => run(fetchBatches)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+
+          {error && <p className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+          {message && <p className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg">{message}</p>}
+
+          {/* Next batch */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-4"
+          >
+            <div className="flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-green-600" />
+              <h2 className="text-lg font-semibold text-gray-900">Next payout</h2>
+            </div>
+            <p className="text-sm text-gray-600">
+              Every student owed at least the minimum is paid their full balance. Students without payroll consent or bank details in their KYC are left out.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="text-sm text-gray-700">
+                Minimum balance (₹)
+                <input type="number" min={1} value={minAmount} onChange={(e) => setMinAmount(e.target.value)} className={inputClass} />
+              </label>
+              <label className="text-sm text-gray-700 sm:col-span-2">
+                Notes
+                <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} placeholder="Optional" className={inputClass} />
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={loadPreview}
+                disabled={busy}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Eye className="w-4 h-4" />
+                Preview
+              </button>
+              <button
+                onClick={buildBatch}
+                disabled={busy}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                <Wallet className="w-4 h-4" />
+                Build batch
+              </button>
+            </div>
+
+            {preview && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">
+                    Will be paid: {preview.eligible.length} student(s), {rupees(preview.totalAmount)}
+                  </h3>
+                  <ul className="divide-y divide-gray-100 text-sm max-h-64 overflow-y-auto">
+                    {preview.eligible.map(candidate => (
+                      <li key={candidate.studentId} className="py-2 flex justify-between gap-3">
+                        <span className="truncate">{candidate.name} · <span className="text-gray-500">{candidate.beneficiaryName}, {candidate.ifsc}</span></span>
+                        <span className="font-medium">{rupees(candidate.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Left out: {preview.skipped.length}</h3>
+                  <ul className="divide-y divide-gray-100 text-sm max-h-64 overflow-y-auto">
+                    {preview.skipped.map(candidate => (
+                      <li key={candidate.studentId} className="py-2 flex justify-between gap-3">
+                        <span className="truncate">{candidate.name} · <span className="text-gray-500">{candidate.email}</span></span>
+                        <span className="text-orange-600 whitespace-nowrap">{rupees(candidate.amount)} · {PAYOUT_SKIP_REASON_LABELS[candidate.reason] || candidate.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+          </motion.div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Batches */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(['all', ...PAYOUT_BATCH_STATUSES] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setStatus(option)}
+                    className={`px-3 py-1 rounded-full text-sm border ${
+                      status === option ? 'bg-green-100 border-green-300 text-green-700' : 'bg-white border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    {option === 'all' ? 'All' : PAYOUT_BATCH_STATUS_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+              {batches.length === 0 ? (
+                <p className="text-sm text-gray-500">No payout batches yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {batches.map(batch => (
+                    <li key={batch._id}>
+                      <button
+                        onClick={() => openBatch(batch._id)}
+                        className={`w-full text-left py-3 px-2 rounded-lg hover:bg-gray-50 ${selected?._id === batch._id ? 'bg-gray-50' : ''}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-900">{batch.reference}</span>
+                          <span className={`text-xs px-2 py-1 rounded-full ${PAYOUT_BATCH_STATUS_COLORS[batch.status]}`}>
+                            {PAYOUT_BATCH_STATUS_LABELS[batch.status]}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600">{rupees(batch.totalAmount)} · {formatDate(batch.createdAt)}</p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Selected batch */}
+            <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+              {!selected ? (
+                <p className="text-sm text-gray-500">Select a batch to see its transfers.</p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">
+                        {selected.reference}{' '}
+                        <span className={`text-xs px-2 py-1 rounded-full align-middle ${PAYOUT_BATCH_STATUS_COLORS[selected.status]}`}>
+                          {PAYOUT_BATCH_STATUS_LABELS[selected.status]}
+                        </span>
+                      </h2>
+                      <p className="text-sm text-gray-600">
+                        {selected.items.length} transfer(s) · {rupees(selected.totalAmount)}
+                        {selected.exportedAt && ` · sent ${formatDate(selected.exportedAt)}`}
+                        {selected.reconciledAt && ` · reconciled ${formatDate(selected.reconciledAt)}`}
+                      </p>
+                      {selected.notes && <p className="text-sm text-gray-500 italic">{selected.notes}</p>}
+                    </div>
+                    <button
+                      onClick={() => downloadBatch(selected)}
+                      disabled={busy}
+                      className="inline-flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      <Download className="w-4 h-4" />
+                      {selected.status === 'draft' ? 'Export NEFT file' : 'Download NEFT file'}
+                    </button>
+                  </div>
+                  {selected.status === 'draft' && (
+                    <p className="text-sm text-gray-600">Export the file and upload it to the bank, then record which transfers were paid.</p>
+                  )}
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                          <th className="py-2 pr-3">Student</th>
+                          <th className="py-2 pr-3">Beneficiary</th>
+                          <th className="py-2 pr-3">Amount</th>
+                          <th className="py-2 pr-3">Status</th>
+                          {selected.status === 'exported' && <th className="py-2">Bank result</th>}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {selected.items.map(item => {
+                          const result = results[item._id];
+                          return (
+                            <tr key={item._id} className="align-top">
+                              <td className="py-2 pr-3">
+                                <p className="font-medium text-gray-900">{typeof item.studentId === 'object' ? item.studentId.name : 'Student'}</p>
+                                <p className="text-xs text-gray-500">{item.reference}</p>
+                              </td>
+                              <td className="py-2 pr-3">
+                                <p>{item.beneficiaryName}</p>
+                                <p className="text-xs text-gray-500">{item.bankAccount} · {item.ifsc}</p>
+                              </td>
+                              <td className="py-2 pr-3 font-medium whitespace-nowrap">{rupees(item.amount)}</td>
+                              <td className="py-2 pr-3">
+                                <span className={`text-xs px-2 py-1 rounded-full ${PAYOUT_ITEM_STATUS_COLORS[item.status]}`}>
+                                  {PAYOUT_ITEM_STATUS_LABELS[item.status]}
+                                </span>
+                                {item.utr && <p className="text-xs text-gray-500 mt-1">UTR {item.utr}</p>}
+                                {item.failureReason && <p className="text-xs text-red-600 mt-1">{item.failureReason}</p>}
+                              </td>
+                              {selected.status === 'exported' && (
+                                <td className="py-2 min-w-[14rem]">
+                                  {item.status === 'pending' && (
+                                    <div className="space-y-2">
+                                      <div className="flex gap-2">
+                                        <button
+                                          onClick={() => setResult(item._id, { status: result?.status === 'paid' ? '' : 'paid' })}
+                                          className={`inline-flex items-center gap-1 px-2 py-1 text-xs rounded-lg border ${
+                                            result?.status === 'paid' ? 'bg-green-600 border-green-600 text-white' : 'border-gray-300 hover:bg-gray-50'
+                                          }`}
+                                        >
+                                          <CheckCircle className="w-3 h-3" />
+                                          Paid
+                                        </button>
+                                        <button
+                                          onClick={() => setResult(item._id, { status: result?.status === 'failed' ? '' : 'failed' })}
+                                          className={`inline-flex items-center gap-1 px-2 py-1 text-xs rounded-lg border ${
+                                            result?.status === 'failed' ? 'bg-red-600 border-red-600 text-white' : 'border-gray-300 hover:bg-gray-50'
+                                          }`}
+                                        >
+                                          <XCircle className="w-3 h-3" />
+                                          Failed
+                                        </button>
+                                      </div>
+                                      {result?.status === 'paid' && (
+                                        <input
+                                          type="text"
+                                          value={result.utr}
+                                          onChange={(e) => setResult(item._id, { utr: e.target.value })}
+                                          maxLength={50}
+                                          placeholder="UTR (optional)"
+                                          className={inputClass}
+                                        />
+                                      )}
+                                      {result?.status === 'failed' && (
+                                        <input
+                                          type="text"
+                                          value={result.reason}
+                                          onChange={(e) => setResult(item._id, { reason: e.target.value })}
+                                          maxLength={300}
+                                          placeholder="Bank's reason (required)"
+                                          className={inputClass}
+                                        />
+                                      )}
+                                    </div>
+                                  )}
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {selected.status === 'exported' && (
+                    <div className="flex justify-end gap-2">
+                      <button onClick={markAllPaid} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-50">
+                        Mark the rest paid
+                      </button>
+                      <button
+                        onClick={saveResults}
+                        disabled={busy || chosen.length === 0 || missingReason}
+                        className="px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Save {chosen.length > 0 ? `${chosen.length} result(s)` : 'results'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default PayoutsPage;
@@ -15,9 +15,22 @@ import {
   MapPin,
   Building,
   Star,
-  User
+  User,
+  MessageSquare,
+  ShieldAlert,
+  FileText
 } from 'lucide-react';
-import { apiService } from '../../../services/api';
+import { apiService, type ScreeningQuestion, type ScreeningAnswer } from '../../../services/api';
+import ApplicationChat from '../../../components/ApplicationChat';
+import { openResumeLink, formatFileSize } from '../../../components/ResumeManager';
+import {
+  APPLICATION_STATUS_COLORS,
+  APPLICATION_STATUS_LABELS,
+  NEXT_APPLICATION_STATUS,
+  OPEN_APPLICATION_STATUSES,
+  SCREENING_FAILED_TAG,
+  type ApplicationStatus
+} from '../../../lib/constants';
 
 interface Application {
   _id: string;
@@ -42,6 +55,9 @@ interface Application {
   coverLetter?: string;
   expectedPay?: number;
   availability?: string;
+  screeningAnswers?: ScreeningAnswer[];
+  tags?: string[];
+  resume?: { fileName: string; fileType: string; size: number } | null;
 }
 
 interface Job {
@@ -49,6 +65,7 @@ interface Job {
   jobTitle: string;
   location: string;
   salaryRange: string;
+  screeningQuestions?: ScreeningQuestion[];
   applications: Application[];
 }
 
@@ -69,6 +86,20 @@ const EmployerApplicationsPage = () => {
   const [loading, setLoading] = useState(true);
   const [selectedJob, setSelectedJob] = useState<string>('all');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [selectedScreening, setSelectedScreening] = useState<'all' | 'passed' | 'failed'>('all');
+  const [answerFilters, setAnswerFilters] = useState<Record<string, string>>({});
+  const [schedulingFor, setSchedulingFor] = useState<string | null>(null);
+  const [interviewForm, setInterviewForm] = useState({
+    mode: 'in-person' as 'in-person' | 'phone' | 'video',
+    slotStarts: [''],
+    duration: 30,
+    location: '',
+    phoneNumber: '',
+    videoLink: '',
+    notes: ''
+  });
+  const [schedulingInterview, setSchedulingInterview] = useState(false);
+  const [chatApplication, setChatApplication] = useState<Application | null>(null);
 
   // Fetch applications data
   useEffect(() => {
@@ -117,12 +148,16 @@ const EmployerApplicationsPage = () => {
                   coverLetter: applicant.coverLetter || applicant.summary || '',
                   expectedPay: applicant.expectedPay,
                   availability: applicant.availability,
+                  screeningAnswers: Array.isArray(applicant.screeningAnswers) ? applicant.screeningAnswers : [],
+                  tags: Array.isArray(applicant.tags) ? applicant.tags : [],
+                  resume: applicant.resume || null,
                 };
               })
             : [];
 
           jobsWithApplications.push({
             ...jobSummary,
+            screeningQuestions: Array.isArray(job.screeningQuestions) ? job.screeningQuestions : [],
             applications: jobApplications,
           });
 
@@ -143,13 +178,33 @@ const EmployerApplicationsPage = () => {
     fetchApplications();
   }, []);
 
+  // Answer filters only make sense for the questions of one job
+  const selectedJobQuestions = selectedJob === 'all'
+    ? []
+    : (jobs.find(job => job._id === selectedJob)?.screeningQuestions || [])
+        .filter(question => question._id && question.type !== 'short_text');
+
+  const matchesAnswerFilters = (app: Application) =>
+    Object.entries(answerFilters).every(([questionId, value]) => {
+      if (!value) return true;
+      const answer = app.screeningAnswers?.find(a => a.questionId === questionId);
+      if (!answer) return false;
+      if (typeof answer.answer === 'boolean') return (answer.answer ? 'yes' : 'no') === value;
+      return String(answer.answer) === value;
+    });
+
   // Filter applications
   const filteredApplications = applications.filter(app => {
     const matchesJob = selectedJob === 'all' || app.jobId._id === selectedJob;
     const matchesStatus = selectedStatus === 'all' || app.status === selectedStatus;
-    return matchesJob && matchesStatus;
+    const failedScreening = app.tags?.includes(SCREENING_FAILED_TAG) || false;
+    const matchesScreening = selectedScreening === 'all' || (selectedScreening === 'failed') === failedScreening;
+    return matchesJob && matchesStatus && matchesScreening && matchesAnswerFilters(app);
   });
 
+  const formatScreeningAnswer = (answer: ScreeningAnswer['answer']) =>
+    typeof answer === 'boolean' ? (answer ? 'Yes' : 'No') : String(answer);
+
   // Approve application
   const handleApprove = async (applicationId: string) => {
     try {
@@ -159,12 +214,12 @@ const EmployerApplicationsPage = () => {
       setApplications(prev => 
         prev.map(app => 
           app._id === applicationId 
-            ? { ...app, status: 'accepted' }
+            ? { ...app, status: 'shortlisted' }
             : app
         )
       );
       
-      alert('Application approved successfully!');
+      alert('Application shortlisted successfully!');
     } catch (error: any) {
       console.error('Error approving application:', error);
       alert(error.message || 'Failed to approve application');
@@ -192,24 +247,72 @@ const EmployerApplicationsPage = () => {
     }
   };
 
+  // Move a shortlisted application to the next stage of the pipeline
+  const handleAdvance = async (applicationId: string, nextStatus: ApplicationStatus) => {
+    try {
+      await apiService.updateApplicationStatus(applicationId, nextStatus);
+
+      setApplications(prev =>
+        prev.map(app =>
+          app._id === applicationId
+            ? { ...app, status: nextStatus }
+            : app
+        )
+      );
+    } catch (error: any) {
+      console.error('Error updating application status:', error);
+      alert(error.message || 'Failed to update application status');
+    }
+  };
+
+  // Propose interview slots for a shortlisted application
+  const handleScheduleInterview = async (applicationId: string) => {
+    const starts = interviewForm.slotStarts.filter(Boolean);
+    if (starts.length === 0) {
+      alert('Add at least one time slot');
+      return;
+    }
+
+    try {
+      setSchedulingInterview(true);
+      await apiService.scheduleInterview({
+        applicationId,
+        mode: interviewForm.mode,
+        slots: starts.map(start => {
+          const startDate = new Date(start);
+          return {
+            start: startDate.toISOString(),
+            end: new Date(startDate.getTime() + interviewForm.duration * 60 * 1000).toISOString()
+          };
+        }),
+        location: interviewForm.location || undefined,
+        phoneNumber: interviewForm.phoneNumber || undefined,
+        videoLink: interviewForm.videoLink || undefined,
+        notes: interviewForm.notes || undefined
+      });
+      setSchedulingFor(null);
+      setInterviewForm(prev => ({ ...prev, slotStarts: [''], notes: '' }));
+      alert('Interview slots sent to the candidate');
+    } catch (error: any) {
+      console.error('Error scheduling interview:', error);
+      alert(error.message || 'Failed to schedule interview');
+    } finally {
+      setSchedulingInterview(false);
+    }
+  };
+
   // Get status color
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'accepted':
-        return 'bg-green-100 text-green-600';
-      case 'rejected':
-        return 'bg-red-100 text-red-600';
-      default:
-        return 'bg-yellow-100 text-yellow-600';
-    }
+    return APPLICATION_STATUS_COLORS[status as ApplicationStatus] || 'bg-yellow-100 text-yellow-600';
   };
 
   // Get status icon
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'accepted':
+      case 'hired':
         return CheckCircle;
       case 'rejected':
+      case 'withdrawn':
         return XCircle;
       default:
         return Clock;
@@ -247,13 +350,16 @@ const EmployerApplicationsPage = () => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Filters */}
         <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 mb-8">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             {/* Job Filter */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Filter by Job</label>
               <select
                 value={selectedJob}
-                onChange={(e) => setSelectedJob(e.target.value)}
+                onChange={(e) => {
+                  setSelectedJob(e.target.value);
+                  setAnswerFilters({});
+                }}
                 className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
               >
                 <option value="all">All Jobs</option>
@@ -272,9 +378,23 @@ const EmployerApplicationsPage = () => {
                 className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
               >
                 <option value="all">All Status</option>
-                <option value="applied">Applied</option>
-                <option value="accepted">Accepted</option>
-                <option value="rejected">Rejected</option>
+                {Object.entries(APPLICATION_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Screening Filter */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Screening</label>
+              <select
+                value={selectedScreening}
+                onChange={(e) => setSelectedScreening(e.target.value as 'all' | 'passed' | 'failed')}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              >
+                <option value="all">All Applicants</option>
+                <option value="passed">Passed screening</option>
+                <option value="failed">Failed screening</option>
               </select>
             </div>
 
@@ -289,9 +409,9 @@ const EmployerApplicationsPage = () => {
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-600">
-                    {applications.filter(app => app.status === 'accepted').length}
+                    {applications.filter(app => ['shortlisted', 'interview', 'offered', 'hired'].includes(app.status)).length}
                   </div>
-                  <div className="text-sm text-gray-500">Accepted</div>
+                  <div className="text-sm text-gray-500">In Pipeline</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-red-600">
@@ -302,6 +422,42 @@ const EmployerApplicationsPage = () => {
               </div>
             </div>
           </div>
+          {selectedJobQuestions.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 pt-4 border-t border-gray-100">
+              {selectedJobQuestions.map(question => (
+                <div key={question._id}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2 truncate" title={question.prompt}>
+                    {question.prompt}
+                  </label>
+                  {question.type === 'numeric' ? (
+                    <input
+                      type="number"
+                      value={answerFilters[question._id!] || ''}
+                      onChange={(e) => setAnswerFilters(prev => ({ ...prev, [question._id!]: e.target.value }))}
+                      placeholder="Any answer"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    />
+                  ) : (
+                    <select
+                      value={answerFilters[question._id!] || ''}
+                      onChange={(e) => setAnswerFilters(prev => ({ ...prev, [question._id!]: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    >
+                      <option value="">Any answer</option>
+                      {question.type === 'yes_no' ? (
+                        <>
+                          <option value="yes">Yes</option>
+                          <option value="no">No</option>
+                        </>
+                      ) : (question.options || []).map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Applications List */}
@@ -341,9 +497,22 @@ const EmployerApplicationsPage = () => {
                   </div>
 
                   <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setChatApplication(application)}
+                      className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 bg-blue-50 rounded-full hover:bg-blue-100 transition-colors"
+                    >
+                      <MessageSquare className="w-4 h-4" />
+                      Message
+                    </button>
+                    {application.tags?.includes(SCREENING_FAILED_TAG) && (
+                      <span className="flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium bg-red-50 text-red-700">
+                        <ShieldAlert className="w-4 h-4" />
+                        Failed screening
+                      </span>
+                    )}
                     <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(application.status)}`}>
                       <StatusIcon className="w-4 h-4 inline mr-1" />
-                      {application.status}
+                      {APPLICATION_STATUS_LABELS[application.status as ApplicationStatus] || application.status}
                     </span>
                   </div>
                 </div>
@@ -398,6 +567,40 @@ const EmployerApplicationsPage = () => {
                   )}
                 </div>
 
+                {/* Resume */}
+                {application.resume && (
+                  <div className="mb-4">
+                    <button
+                      onClick={() => openResumeLink(() => apiService.getApplicationResumeLink(application._id))}
+                      className="flex items-center gap-2 px-4 py-2 text-sm text-blue-700 bg-blue-50 rounded-xl hover:bg-blue-100 transition-colors"
+                    >
+                      <FileText className="w-4 h-4" />
+                      {application.resume.fileName}
+                      <span className="text-xs text-blue-500">({formatFileSize(application.resume.size)})</span>
+                    </button>
+                  </div>
+                )}
+
+                {/* Screening Answers */}
+                {application.screeningAnswers && application.screeningAnswers.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Screening Answers</h4>
+                    <div className="space-y-2">
+                      {application.screeningAnswers.map(answer => (
+                        <div
+                          key={answer.questionId}
+                          className={`flex items-start justify-between gap-4 rounded-xl px-4 py-2 text-sm ${
+                            answer.passed ? 'bg-gray-50 text-gray-700' : 'bg-red-50 text-red-700'
+                          }`}
+                        >
+                          <span>{answer.prompt}</span>
+                          <span className="font-medium whitespace-nowrap">{formatScreeningAnswer(answer.answer)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Cover Letter */}
                 {application.coverLetter && (
                   <div className="mb-4">
@@ -414,7 +617,7 @@ const EmployerApplicationsPage = () => {
                       className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors"
                     >
                       <CheckCircle className="w-4 h-4" />
-                      Approve
+                      Shortlist
                     </button>
                     <button
                       onClick={() => handleReject(application._id)}
@@ -433,7 +636,146 @@ const EmployerApplicationsPage = () => {
                   </div>
                 )}
 
-                {application.status !== 'applied' && (
+                {application.status !== 'applied' && OPEN_APPLICATION_STATUSES.includes(application.status as ApplicationStatus) && (
+                  <div className="flex items-center gap-3 pt-4 border-t border-gray-200">
+                    <button
+                      onClick={() => handleAdvance(application._id, NEXT_APPLICATION_STATUS[application.status as ApplicationStatus]!)}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Move to {APPLICATION_STATUS_LABELS[NEXT_APPLICATION_STATUS[application.status as ApplicationStatus]!]}
+                    </button>
+                    {(application.status === 'shortlisted' || application.status === 'interview') && (
+                      <button
+                        onClick={() => setSchedulingFor(schedulingFor === application._id ? null : application._id)}
+                        className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors"
+                      >
+                        <Calendar className="w-4 h-4" />
+                        Schedule Interview
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleReject(application._id)}
+                      className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+
+                {/* Interview Scheduling */}
+                {schedulingFor === application._id && (
+                  <div className="mt-4 p-4 bg-purple-50 rounded-xl border border-purple-200 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+                        <select
+                          value={interviewForm.mode}
+                          onChange={(e) => setInterviewForm(prev => ({ ...prev, mode: e.target.value as 'in-person' | 'phone' | 'video' }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value="in-person">In person</option>
+                          <option value="phone">Phone</option>
+                          <option value="video">Video call</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+                        <select
+                          value={interviewForm.duration}
+                          onChange={(e) => setInterviewForm(prev => ({ ...prev, duration: Number(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value={15}>15 minutes</option>
+                          <option value={30}>30 minutes</option>
+                          <option value={45}>45 minutes</option>
+                          <option value={60}>1 hour</option>
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Proposed times</label>
+                      <div className="space-y-2">
+                        {interviewForm.slotStarts.map((start, index) => (
+                          <input
+                            key={index}
+                            type="datetime-local"
+                            value={start}
+                            onChange={(e) => setInterviewForm(prev => ({
+                              ...prev,
+                              slotStarts: prev.slotStarts.map((value, i) => i === index ? e.target.value : value)
+                            }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          />
+                        ))}
+                      </div>
+                      {interviewForm.slotStarts.length < 5 && (
+                        <button
+                          type="button"
+                          onClick={() => setInterviewForm(prev => ({ ...prev, slotStarts: [...prev.slotStarts, ''] }))}
+                          className="mt-2 text-sm text-purple-600 hover:text-purple-700"
+                        >
+                          + Add another time
+                        </button>
+                      )}
+                    </div>
+
+                    {interviewForm.mode === 'in-person' && (
+                      <input
+                        type="text"
+                        placeholder="Location (defaults to your company address)"
+                        value={interviewForm.location}
+                        onChange={(e) => setInterviewForm(prev => ({ ...prev, location: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    )}
+                    {interviewForm.mode === 'phone' && (
+                      <input
+                        type="tel"
+                        placeholder="Phone number you will call from"
+                        value={interviewForm.phoneNumber}
+                        onChange={(e) => setInterviewForm(prev => ({ ...prev, phoneNumber: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    )}
+                    {interviewForm.mode === 'video' && (
+                      <input
+                        type="url"
+                        placeholder="Meeting link"
+                        value={interviewForm.videoLink}
+                        onChange={(e) => setInterviewForm(prev => ({ ...prev, videoLink: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                    )}
+                    <textarea
+                      placeholder="Notes for the candidate (optional)"
+                      value={interviewForm.notes}
+                      onChange={(e) => setInterviewForm(prev => ({ ...prev, notes: e.target.value }))}
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => handleScheduleInterview(application._id)}
+                        disabled={schedulingInterview}
+                        className="px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors disabled:opacity-50"
+                      >
+                        {schedulingInterview ? 'Sending...' : 'Send Invite'}
+                      </button>
+                      <button
+                        onClick={() => setSchedulingFor(null)}
+                        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {!OPEN_APPLICATION_STATUSES.includes(application.status as ApplicationStatus) && (
                   <div className="pt-4 border-t border-gray-200">
                     <div className="flex items-center gap-2 text-sm text-gray-500">
                       <StatusIcon className="w-4 h-4" />
@@ -457,6 +799,15 @@ const EmployerApplicationsPage = () => {
           </div>
         )}
       </div>
+
+      {chatApplication && (
+        <ApplicationChat
+          applicationId={chatApplication._id}
+          title={chatApplication.studentId.name}
+          subtitle={chatApplication.jobId.jobTitle}
+          onClose={() => setChatApplication(null)}
+        />
+      )}
     </div>
   );
 };
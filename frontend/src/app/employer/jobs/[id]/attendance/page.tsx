@@ -0,0 +1,280 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, CheckCircle, Clock, LogIn, LogOut, Pencil, Plus } from 'lucide-react';
+import { apiService, type AttendanceEntry, type AttendancePunch, type Job, type JobAttendance } from '../../../../../services/api';
+import { formatShiftDate } from '../../../../../lib/utils';
+
+// An entry being recorded for a student, or one being corrected
+interface AttendanceForm {
+  applicationId: string;
+  entryId?: string;
+  checkInAt: string; // datetime-local value
+  checkOutAt: string;
+  original?: { checkInAt: string; checkOutAt: string }; // Values of the entry being corrected
+  reason: string;
+}
+
+const formatTime = (at: string) =>
+  new Date(at).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+// datetime-local inputs work in the browser's zone without seconds
+const toInputValue = (at?: string) => {
+  if (!at) return '';
+  const date = new Date(at);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const describePunch = (punch: AttendancePunch) =>
+  punch.overriddenBy
+    ? `by you: ${punch.overrideReason}${punch.originalAt ? ` (was ${formatTime(punch.originalAt)})` : ''}`
+    : punch.distanceMeters !== undefined ? `${punch.distanceMeters} m away` : '';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const JobAttendancePage = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [job, setJob] = useState<Job | null>(null);
+  const [attendance, setAttendance] = useState<JobAttendance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<AttendanceForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    apiService.getJob(id)
+      .then(setJob)
+      .catch((err) => console.error('Failed to load job:', err));
+  }, [id]);
+
+  const fetchAttendance = useCallback(async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setAttendance(await apiService.getJobAttendance(id));
+    } catch (err: any) {
+      console.error('Failed to load attendance:', err);
+      setError(err?.message || 'Failed to load attendance.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [fetchAttendance]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setSaving(true);
+      await action();
+      setForm(null);
+      await fetchAttendance();
+    } catch (err: any) {
+      console.error(failure, err);
+      // eslint-disable-next-line no-alert
+      alert(err?.message || failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Quick check-in or check-out at the current time, e.g. when the student's location fails
+  const punchNow = (applicationId: string, openEntry?: AttendanceEntry) => {
+    const reason = window.prompt(openEntry ? 'Why are you checking them out?' : 'Why are you checking them in?');
+    if (!reason) return;
+    const now = new Date().toISOString();
+    run(
+      () => openEntry
+        ? apiService.overrideAttendance(openEntry._id, { checkOutAt: now, reason })
+        : apiService.recordAttendance(applicationId, { checkInAt: now, reason }),
+      'Could not record attendance'
+    );
+  };
+
+  const saveForm = () => {
+    if (!form) return;
+    // Only times that were changed are sent, so the other punch keeps the student's own time
+    const changed = (key: 'checkInAt' | 'checkOutAt') =>
+      form[key] && form[key] !== form.original?.[key] ? new Date(form[key]).toISOString() : undefined;
+    const checkInAt = changed('checkInAt');
+    const checkOutAt = changed('checkOutAt');
+    run(
+      () => form.entryId
+        ? apiService.overrideAttendance(form.entryId, { checkInAt, checkOutAt, reason: form.reason })
+        : apiService.recordAttendance(form.applicationId, { checkInAt, checkOutAt, reason: form.reason }),
+      'Could not save attendance'
+    );
+  };
+
+  const complete = (applicationId: string, name: string) => {
+    if (!window.confirm(`Mark ${name}'s work on this job as completed? They will not be able to check in again.`)) return;
+    run(() => apiService.completeEngagement(applicationId), 'Could not complete the engagement');
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={() => router.back()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <div className="text-right min-w-0">
+          <h1 className="text-2xl font-bold text-gray-900">Attendance</h1>
+          <p className="text-sm text-gray-600 truncate">
+            {job ? `Hours worked on "${job.title}"` : 'Hours worked'}
+            {attendance && ` · ${formatShiftDate(attendance.from)} to ${formatShiftDate(attendance.to)}`}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading && !attendance ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-orange-600"></div>
+        </div>
+      ) : attendance && attendance.engagements.length === 0 ? (
+        <div className="bg-white rounded-2xl border border-gray-200 p-8 text-center text-gray-600">
+          Nobody has been hired for this job yet.
+        </div>
+      ) : attendance?.engagements.map(({ applicationId, student, totalHours, completedDate, entries }) => {
+        const openEntry = entries.find(entry => entry.status === 'open');
+        return (
+          <div key={applicationId} className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4 sm:p-6 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+              <div className="min-w-0">
+                <h2 className="text-lg font-semibold text-gray-900">{student.name}</h2>
+                <p className="text-sm text-gray-500 truncate">{student.email}</p>
+                <p className="text-sm text-gray-600 mt-1 flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  {totalHours} h in total
+                  {openEntry && ` · checked in since ${formatTime(openEntry.checkIn.at)}`}
+                </p>
+              </div>
+              {completedDate ? (
+                <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-green-100 text-green-700 whitespace-nowrap">
+                  <CheckCircle className="w-4 h-4" />
+                  Completed {new Date(completedDate).toLocaleDateString('en-IN')}
+                </span>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => punchNow(applicationId, openEntry)}
+                    disabled={saving}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {openEntry ? <LogOut className="w-4 h-4" /> : <LogIn className="w-4 h-4" />}
+                    {openEntry ? 'Check out now' : 'Check in now'}
+                  </button>
+                  <button
+                    onClick={() => setForm({ applicationId, checkInAt: '', checkOutAt: '', reason: '' })}
+                    disabled={saving}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add hours
+                  </button>
+                  <button
+                    onClick={() => complete(applicationId, student.name)}
+                    disabled={saving || !!openEntry || totalHours === 0}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                    Mark completed
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {form?.applicationId === applicationId && (
+              <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="text-sm text-gray-700">
+                    Checked in
+                    <input
+                      type="datetime-local"
+                      value={form.checkInAt}
+                      onChange={(e) => setForm({ ...form, checkInAt: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Checked out
+                    <input
+                      type="datetime-local"
+                      value={form.checkOutAt}
+                      onChange={(e) => setForm({ ...form, checkOutAt: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+                <input
+                  type="text"
+                  value={form.reason}
+                  onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                  placeholder="Reason (e.g., Phone had no location)"
+                  maxLength={300}
+                  className={inputClass}
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setForm(null)} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-100">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={saveForm}
+                    disabled={saving || !form.reason.trim()}
+                    className="px-3 py-1.5 text-sm rounded-lg bg-orange-600 text-white hover:bg-orange-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-500">No attendance in this period.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {entries.map(entry => (
+                  <li key={entry._id} className="flex items-start justify-between gap-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {formatShiftDate(entry.date)} · {formatTime(entry.checkIn.at)} - {entry.checkOut ? formatTime(entry.checkOut.at) : 'still in'}
+                        {entry.status === 'completed' && <span className="text-gray-600 font-normal"> · {entry.hours} h</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        In {describePunch(entry.checkIn)}
+                        {entry.checkOut && ` · Out ${describePunch(entry.checkOut)}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => {
+                        const values = { checkInAt: toInputValue(entry.checkIn.at), checkOutAt: toInputValue(entry.checkOut?.at) };
+                        setForm({ applicationId, entryId: entry._id, ...values, original: values, reason: '' });
+                      }}
+                      disabled={saving}
+                      className="inline-flex items-center gap-1 text-gray-500 hover:text-orange-600 disabled:opacity-50"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Correct
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default JobAttendancePage;
@@ -0,0 +1,319 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle, GraduationCap, Search, Send, Shield, Star, Users } from 'lucide-react';
+import { apiService, type Candidate, type CandidateFilters, type Job, type StudentAvailability } from '../../../../../services/api';
+import { STUDENT_AVAILABILITY_LABELS } from '../../../../../lib/constants';
+
+const PAGE_SIZE = 10;
+
+const JobCandidatesPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [job, setJob] = useState<Job | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [pagination, setPagination] = useState({ current: 1, pages: 1, total: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    skills: '',
+    college: '',
+    availability: '' as StudentAvailability | '',
+    minRating: '',
+    kycApproved: false
+  });
+  const [filters, setFilters] = useState<CandidateFilters>({ page: 1, limit: PAGE_SIZE });
+  const [invitingId, setInvitingId] = useState<string | null>(null);
+  const [inviteMessage, setInviteMessage] = useState('');
+  const [sendingInvite, setSendingInvite] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    apiService.getJob(id)
+      .then(setJob)
+      .catch((err) => console.error('Failed to load job:', err));
+  }, [id]);
+
+  const fetchCandidates = useCallback(async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await apiService.getJobCandidates(id, filters);
+      setCandidates(data?.candidates || []);
+      setPagination(data?.pagination || { current: 1, pages: 1, total: 0 });
+    } catch (err: any) {
+      console.error('Failed to load candidates:', err);
+      setError(err?.message || 'Failed to load candidates.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, filters]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({
+      skills: form.skills.trim() || undefined,
+      college: form.college.trim() || undefined,
+      availability: form.availability ? [form.availability] : undefined,
+      minRating: form.minRating ? Number(form.minRating) : undefined,
+      kycApproved: form.kycApproved,
+      page: 1,
+      limit: PAGE_SIZE
+    });
+  };
+
+  const handleInvite = async (candidate: Candidate) => {
+    try {
+      setSendingInvite(true);
+      const result = await apiService.inviteCandidate(id, candidate._id, inviteMessage.trim() || undefined);
+      setCandidates(prev => prev.map(c => c._id === candidate._id
+        ? { ...c, invite: { status: 'sent', invitedAt: result?.invite?.createdAt || new Date().toISOString() } }
+        : c));
+      setInvitingId(null);
+      setInviteMessage('');
+    } catch (err: any) {
+      console.error('Failed to invite candidate:', err);
+      // eslint-disable-next-line no-alert
+      alert(err?.message || 'Could not send the invite');
+    } finally {
+      setSendingInvite(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={() => router.back()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <div className="text-right min-w-0">
+          <h1 className="text-2xl font-bold text-gray-900">Find Candidates</h1>
+          <p className="text-sm text-gray-600 truncate">
+            {job ? `Students ranked for "${job.title}"` : 'Students ranked for this job'}
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSearch} className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4 sm:p-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <input
+            type="text"
+            value={form.skills}
+            onChange={(e) => setForm(prev => ({ ...prev, skills: e.target.value }))}
+            placeholder="Skills, comma separated"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+          <input
+            type="text"
+            value={form.college}
+            onChange={(e) => setForm(prev => ({ ...prev, college: e.target.value }))}
+            placeholder="College"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+          <select
+            value={form.availability}
+            onChange={(e) => setForm(prev => ({ ...prev, availability: e.target.value as StudentAvailability | '' }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            <option value="">Any availability</option>
+            {Object.entries(STUDENT_AVAILABILITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={form.minRating}
+            onChange={(e) => setForm(prev => ({ ...prev, minRating: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            <option value="">Any rating</option>
+            {[3, 4, 4.5].map(rating => (
+              <option key={rating} value={rating}>{rating}+ stars</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mt-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.kycApproved}
+              onChange={(e) => setForm(prev => ({ ...prev, kycApproved: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            KYC verified only
+          </label>
+          <button
+            type="submit"
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Search className="w-4 h-4" />
+            Search
+          </button>
+        </div>
+      </form>
+
+      {error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-xl p-6">{error}</div>
+      ) : loading ? (
+        <div className="flex items-center justify-center min-h-[30vh]">
+          <div className="animate-spin h-10 w-10 rounded-full border-b-2 border-blue-600" />
+        </div>
+      ) : candidates.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-2xl border border-gray-200">
+          <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No candidates found</h3>
+          <p className="text-gray-600">Try fewer filters, or check back as more students join</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">{pagination.total} candidate{pagination.total === 1 ? '' : 's'}</p>
+          {candidates.map((candidate) => {
+            const matched = new Set(candidate.match.matchedSkills.map(skill => skill.toLowerCase()));
+            return (
+              <motion.div
+                key={candidate._id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-white rounded-xl border border-gray-200 p-4 sm:p-5"
+              >
+                <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{candidate.name}</h3>
+                      <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">
+                        {candidate.match.score}% match
+                      </span>
+                      {candidate.kycStatus === 'approved' && (
+                        <span className="flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs">
+                          <Shield className="w-3 h-3" />
+                          KYC verified
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 mt-1 text-sm text-gray-600">
+                      {candidate.college && (
+                        <span className="flex items-center gap-1">
+                          <GraduationCap className="w-4 h-4" />
+                          {candidate.college}
+                        </span>
+                      )}
+                      {!!candidate.rating && (
+                        <span className="flex items-center gap-1">
+                          <Star className="w-4 h-4 text-yellow-500" />
+                          {candidate.rating.toFixed(1)}
+                        </span>
+                      )}
+                      {candidate.availability && (
+                        <span>{STUDENT_AVAILABILITY_LABELS[candidate.availability]}</span>
+                      )}
+                    </div>
+                    {candidate.skills.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {candidate.skills.map(skill => (
+                          <span
+                            key={skill}
+                            className={`px-2 py-0.5 rounded-full text-xs ${
+                              matched.has(skill.toLowerCase()) ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                            }`}
+                          >
+                            {skill}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {candidate.match.reasons.length > 0 && (
+                      <ul className="mt-2 space-y-0.5">
+                        {candidate.match.reasons.map(reason => (
+                          <li key={reason} className="flex items-center gap-1.5 text-xs text-gray-600">
+                            <CheckCircle className="w-3 h-3 text-green-600 flex-shrink-0" />
+                            {reason}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div className="sm:w-56">
+                    {candidate.invite ? (
+                      <div className="flex items-center justify-center gap-1 px-3 py-2 bg-green-50 text-green-700 rounded-lg text-sm">
+                        <CheckCircle className="w-4 h-4" />
+                        Invited {new Date(candidate.invite.invitedAt).toLocaleDateString()}
+                      </div>
+                    ) : invitingId === candidate._id ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={inviteMessage}
+                          onChange={(e) => setInviteMessage(e.target.value)}
+                          maxLength={500}
+                          rows={3}
+                          placeholder="Add a note (optional)"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                        />
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleInvite(candidate)}
+                            disabled={sendingInvite}
+                            className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+                          >
+                            {sendingInvite ? 'Sending...' : 'Send'}
+                          </button>
+                          <button
+                            onClick={() => { setInvitingId(null); setInviteMessage(''); }}
+                            className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => { setInvitingId(candidate._id); setInviteMessage(''); }}
+                        disabled={job?.status !== undefined && job.status !== 'active'}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                      >
+                        <Send className="w-4 h-4" />
+                        Invite to apply
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+
+          {pagination.pages > 1 && (
+            <div className="flex items-center justify-center gap-3 pt-2">
+              <button
+                onClick={() => setFilters(prev => ({ ...prev, page: pagination.current - 1 }))}
+                disabled={pagination.current <= 1}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {pagination.current} of {pagination.pages}</span>
+              <button
+                onClick={() => setFilters(prev => ({ ...prev, page: pagination.current + 1 }))}
+                disabled={pagination.current >= pagination.pages}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobCandidatesPage;
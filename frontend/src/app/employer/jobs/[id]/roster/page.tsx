@@ -0,0 +1,196 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, CalendarDays, Clock, UserMinus, Users } from 'lucide-react';
+import { apiService, type Job, type JobRoster, type RosterStudent } from '../../../../../services/api';
+import { formatShift, formatShiftDate } from '../../../../../lib/utils';
+
+const JobRosterPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [job, setJob] = useState<Job | null>(null);
+  const [roster, setRoster] = useState<JobRoster | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    apiService.getJob(id)
+      .then(setJob)
+      .catch((err) => console.error('Failed to load job:', err));
+  }, [id]);
+
+  const fetchRoster = useCallback(async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setRoster(await apiService.getJobRoster(id));
+    } catch (err: any) {
+      console.error('Failed to load roster:', err);
+      setError(err?.message || 'Failed to load the roster.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster]);
+
+  // Every hired student with the shifts they are on, to add or remove one at a time
+  const hired = useMemo(() => {
+    const byApplication = new Map<string, { student: RosterStudent; shiftIds: string[] }>();
+    roster?.unassigned.forEach(student => byApplication.set(student.applicationId, { student, shiftIds: [] }));
+    roster?.shifts.forEach(({ shift, assigned }) => assigned.forEach(student => {
+      const entry = byApplication.get(student.applicationId) || { student, shiftIds: [] };
+      entry.shiftIds.push(shift._id || '');
+      byApplication.set(student.applicationId, entry);
+    }));
+    return byApplication;
+  }, [roster]);
+
+  const updateShifts = async (applicationId: string, shiftIds: string[]) => {
+    try {
+      setSavingId(applicationId);
+      await apiService.updateRosterShifts(id, applicationId, shiftIds);
+      await fetchRoster();
+    } catch (err: any) {
+      console.error('Failed to update roster:', err);
+      // eslint-disable-next-line no-alert
+      alert(err?.message || 'Could not update the roster');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={() => router.back()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <div className="text-right min-w-0">
+          <h1 className="text-2xl font-bold text-gray-900">Shift Roster</h1>
+          <p className="text-sm text-gray-600 truncate">
+            {job ? `Who works which shift for "${job.title}"` : 'Who works which shift'}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading && !roster ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-orange-600"></div>
+        </div>
+      ) : roster && roster.shifts.length === 0 ? (
+        <div className="bg-white rounded-2xl border border-gray-200 p-8 text-center text-gray-600">
+          This job has no shifts. Add shifts when posting a job to plan a roster.
+        </div>
+      ) : roster && (
+        <>
+          {roster.unassigned.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 text-sm text-amber-800">
+              Hired but on no shift yet: {roster.unassigned.map(student => student.name).join(', ')}
+            </div>
+          )}
+
+          {roster.shifts.map(({ shift, hours, upcomingDates, assigned, interested }, index) => {
+            const shiftId = shift._id || '';
+            const addable = Array.from(hired.values()).filter(({ shiftIds }) => !shiftIds.includes(shiftId));
+            const full = assigned.length >= shift.headcount;
+            return (
+              <div key={shiftId} className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4 sm:p-6 space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{shift.label || `Shift ${index + 1}`}</h2>
+                    <p className="text-sm text-gray-600 flex items-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      {formatShift(shift)} ({hours} h)
+                    </p>
+                    <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
+                      <CalendarDays className="w-4 h-4" />
+                      {upcomingDates.length > 0
+                        ? `Next: ${upcomingDates.map(formatShiftDate).join(', ')}`
+                        : 'No upcoming dates'}
+                    </p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-sm whitespace-nowrap ${
+                    full ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'
+                  }`}>
+                    {assigned.length} of {shift.headcount} staffed
+                  </span>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    Assigned
+                  </h3>
+                  {assigned.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nobody yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {assigned.map(student => (
+                        <li key={student.applicationId} className="flex items-center justify-between gap-3 py-2 text-sm">
+                          <span className="min-w-0">
+                            <span className="font-medium text-gray-900">{student.name}</span>
+                            <span className="text-gray-500 ml-2 truncate">{student.email}</span>
+                          </span>
+                          <button
+                            type="button"
+                            disabled={savingId === student.applicationId}
+                            onClick={() => updateShifts(
+                              student.applicationId,
+                              (hired.get(student.applicationId)?.shiftIds || []).filter(sid => sid !== shiftId)
+                            )}
+                            className="inline-flex items-center gap-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                          >
+                            <UserMinus className="w-4 h-4" />
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {!full && addable.length > 0 && (
+                  <select
+                    value=""
+                    disabled={savingId !== null}
+                    onChange={(e) => {
+                      const entry = hired.get(e.target.value);
+                      if (entry) updateShifts(e.target.value, [...entry.shiftIds, shiftId]);
+                    }}
+                    className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  >
+                    <option value="">Add a hired student...</option>
+                    {addable.map(({ student }) => (
+                      <option key={student.applicationId} value={student.applicationId}>{student.name}</option>
+                    ))}
+                  </select>
+                )}
+
+                {interested.length > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Applicants who can work this shift: {interested.map(student => student.name).join(', ')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobRosterPage;
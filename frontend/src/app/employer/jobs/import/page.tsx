@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, CheckCircle, Download, FileSpreadsheet, Upload, XCircle } from 'lucide-react';
+import { apiService, type JobImportResult } from '../../../../services/api';
+import { JOB_IMPORT_COLUMNS, JOB_WORK_TYPES, MAX_IMPORT_ROWS } from '../../../../lib/constants';
+
+const SAMPLE_ROW = [
+  'Store Helper',
+  'Billing and shelf stocking at our Banjara Hills store. Training provided.',
+  'Banjara Hills, Hyderabad',
+  '15000',
+  '18000',
+  'monthly',
+  'Part-time',
+  'Sales',
+  'Billing; Stocking',
+  new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  '3',
+  '',
+  '',
+];
+
+const toCsvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// A header row and one example so employers start from columns the server accepts
+const downloadSampleSheet = () => {
+  const csv = [JOB_IMPORT_COLUMNS, SAMPLE_ROW].map(row => row.map(toCsvField).join(',')).join('\r\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'job-import-sample.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ImportJobsPage = () => {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [asDrafts, setAsDrafts] = useState(false);
+  const [result, setResult] = useState<JobImportResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    try {
+      setSubmitting(true);
+      setError(null);
+      setResult(await apiService.importJobs(file, { dryRun, status: asDrafts ? 'draft' : 'active' }));
+    } catch (err: any) {
+      console.error('Job import failed:', err);
+      setError(err?.message || 'Could not read the file.');
+      setResult(null);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setResult(null);
+    setError(null);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={() => router.back()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <div className="text-right">
+          <h1 className="text-2xl font-bold text-gray-900">Import Jobs</h1>
+          <p className="text-sm text-gray-600">Post up to {MAX_IMPORT_ROWS} openings from a CSV or Excel sheet</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4 sm:p-6 space-y-4">
+        <div className="text-sm text-gray-600 space-y-1">
+          <p>
+            One job per row. Required columns: jobTitle, description, location, salaryMin (or salary),
+            workType and applicationDeadline.
+          </p>
+          <p>
+            workType is one of {JOB_WORK_TYPES.join(', ')}. Deadlines can be YYYY-MM-DD or DD/MM/YYYY.
+            Separate skills with semicolons. positions is how many people the job hires (1 if empty).
+          </p>
+        </div>
+
+        <button
+          type="button"
+          onClick={downloadSampleSheet}
+          className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50"
+        >
+          <Download className="w-4 h-4" />
+          Download sample CSV
+        </button>
+
+        <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-orange-400">
+          <FileSpreadsheet className="w-8 h-8 text-orange-500" />
+          <span className="text-sm text-gray-700">{file ? file.name : 'Choose a .csv or .xlsx file'}</span>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={asDrafts}
+            onChange={(e) => setAsDrafts(e.target.checked)}
+            className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+          />
+          Import as drafts, to review and publish from the dashboard
+        </label>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            type="button"
+            onClick={() => runImport(true)}
+            disabled={!file || submitting}
+            className="flex items-center justify-center gap-2 px-5 py-2.5 border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CheckCircle className="w-4 h-4" />
+            Check File
+          </button>
+          <button
+            type="button"
+            onClick={() => runImport(false)}
+            disabled={!file || submitting}
+            className="flex items-center justify-center gap-2 px-5 py-2.5 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-4 h-4" />
+            {submitting ? 'Working...' : 'Import Valid Rows'}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {result && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4 sm:p-6 space-y-4">
+          <div className="flex flex-wrap gap-3 text-sm">
+            <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-700">{result.totalRows} row(s)</span>
+            <span className="px-3 py-1 rounded-full bg-green-100 text-green-700">{result.validRows} valid</span>
+            <span className="px-3 py-1 rounded-full bg-red-100 text-red-700">{result.invalidRows} with errors</span>
+            {!result.dryRun && (
+              <span className="px-3 py-1 rounded-full bg-orange-100 text-orange-700">{result.created.length} imported</span>
+            )}
+          </div>
+
+          {result.dryRun && result.validRows > 0 && (
+            <p className="text-sm text-gray-600">
+              Nothing has been posted yet. Fix the rows below or choose Import Valid Rows to post the {result.validRows} valid job(s).
+            </p>
+          )}
+          {result.ignoredColumns.length > 0 && (
+            <p className="text-sm text-gray-500">Ignored columns: {result.ignoredColumns.join(', ')}</p>
+          )}
+
+          {result.errors.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Row</th>
+                    <th className="py-2 pr-4 font-medium">Column</th>
+                    <th className="py-2 font-medium">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.errors.flatMap(rowError => rowError.errors.map((fieldError, index) => (
+                    <tr key={`${rowError.row}-${fieldError.field}`} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-4 text-gray-900">{index === 0 ? rowError.row : ''}</td>
+                      <td className="py-2 pr-4 text-gray-700">{fieldError.field}</td>
+                      <td className="py-2 text-red-600 flex items-start gap-1">
+                        <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        {fieldError.message}
+                      </td>
+                    </tr>
+                  )))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!result.dryRun && result.created.length > 0 && (
+            <button
+              onClick={() => router.push('/employer-home')}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg text-sm hover:bg-orange-700"
+            >
+              Go to your jobs
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportJobsPage;
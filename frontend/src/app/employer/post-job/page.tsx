@@ -18,9 +18,15 @@ import {
   Star,
   Eye,
   CheckCircle,
+  Tag,
   X
 } from 'lucide-react';
-import { apiService } from '../../../services/api';
+import { apiService, type ScreeningQuestion, type JobTemplateFields, type JobShift } from '../../../services/api';
+import ScreeningQuestionsEditor from '../../../components/ScreeningQuestionsEditor';
+import ShiftScheduleEditor from '../../../components/ShiftScheduleEditor';
+import JobTemplatePicker from '../../../components/JobTemplatePicker';
+import { SALARY_PERIODS, SALARY_PERIOD_LABELS, JOB_CATEGORIES, MAX_JOB_POSITIONS, type SalaryPeriod, type JobCategory } from '../../../lib/constants';
+import { formatSalary, getCurrentPosition } from '../../../lib/utils';
 
 const PostJobPage = () => {
   const router = useRouter();
@@ -31,11 +37,20 @@ const PostJobPage = () => {
     jobTitle: '',
     description: '',
     location: '',
-    salaryRange: '',
+    salaryMin: '',
+    salaryMax: '',
+    salaryPeriod: 'monthly' as SalaryPeriod,
     workType: 'Full-time',
+    category: 'Other' as JobCategory,
     skillsRequired: [] as string[],
-    applicationDeadline: ''
+    applicationDeadline: '',
+    publishAt: '',
+    positions: '1'
   });
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([]);
+  const [shifts, setShifts] = useState<JobShift[]>([]);
+  const [locationPin, setLocationPin] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [pinning, setPinning] = useState(false);
 
   // Simplified - just enable job posting without complex checks
   useEffect(() => {
@@ -75,33 +90,101 @@ const PostJobPage = () => {
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Without a pin the server uses the coordinates from the employer's business verification
+  const pinCurrentLocation = async () => {
+    try {
+      setPinning(true);
+      setLocationPin(await getCurrentPosition());
+    } catch (error: any) {
+      alert(error.message);
+    } finally {
+      setPinning(false);
+    }
+  };
+
+  // Fill the form from a template or past job; the deadline and publish time stay as entered
+  const loadTemplateFields = (fields: JobTemplateFields) => {
+    setFormData(prev => ({
+      ...prev,
+      jobTitle: fields.jobTitle || '',
+      description: fields.description || '',
+      location: fields.location || '',
+      salaryMin: fields.salary ? String(fields.salary.min) : '',
+      salaryMax: fields.salary ? String(fields.salary.max) : '',
+      salaryPeriod: fields.salary?.period || prev.salaryPeriod,
+      workType: fields.workType || prev.workType,
+      category: (fields.category as JobCategory) || prev.category,
+      skillsRequired: fields.skillsRequired || [],
+      positions: String(fields.positions || 1)
+    }));
+    setScreeningQuestions(fields.screeningQuestions || []);
+    const coordinates = fields.locationPoint?.coordinates;
+    setLocationPin(coordinates ? { latitude: coordinates[1], longitude: coordinates[0] } : null);
+  };
+
+  // The job fields as the API takes them, shared by posting and saving a template
+  const buildJobPayload = () => ({
+    jobTitle: formData.jobTitle,
+    description: formData.description,
+    location: formData.location,
+    ...(locationPin || {}),
+    // A template may be saved before the pay is filled in
+    ...(isSalaryValid() && {
+      salary: {
+        min: Number(formData.salaryMin),
+        max: Number(formData.salaryMax || formData.salaryMin),
+        currency: 'INR',
+        period: formData.salaryPeriod
+      }
+    }),
+    workType: formData.workType,
+    category: formData.category,
+    skillsRequired: formData.skillsRequired,
+    positions: Number(formData.positions) || 1,
+    screeningQuestions: screeningQuestions
+      .filter(question => question.prompt.trim())
+      .map(question => ({
+        ...question,
+        options: question.options?.map(option => option.trim()).filter(Boolean)
+      }))
+  });
+
+  // Drafts stay hidden until published from the dashboard; a publish time schedules the job
+  const submitJob = async (asDraft: boolean) => {
     setLoading(true);
 
     try {
       const jobData = {
-        jobTitle: formData.jobTitle,
-        description: formData.description,
-        location: formData.location,
-        salaryRange: formData.salaryRange,
-        workType: formData.workType,
-        skillsRequired: formData.skillsRequired,
-        applicationDeadline: formData.applicationDeadline
+        ...buildJobPayload(),
+        applicationDeadline: formData.applicationDeadline,
+        shifts,
+        ...(asDraft && { status: 'draft' }),
+        ...(formData.publishAt && { publishAt: new Date(formData.publishAt).toISOString() })
       };
 
       await apiService.createJob(jobData);
       
-      alert('Job posted successfully! Your job will stay highlighted until you delete it, helping it stand out to applicants.');
+      if (formData.publishAt) {
+        alert(`Job scheduled! It will be published on ${new Date(formData.publishAt).toLocaleString()}.`);
+      } else if (asDraft) {
+        alert('Draft saved. Publish it from your dashboard when you are ready.');
+      } else {
+        alert('Job posted successfully! Your job will stay highlighted until you delete it, helping it stand out to applicants.');
+      }
       router.push('/employer-home');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error posting job:', error);
-      alert('Failed to post job. Please try again.');
+      alert(error?.message || 'Failed to post job. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitJob(false);
+  };
+
   const commonSkills = [
     'Team Collaboration',
     'Problem Solving',
@@ -117,13 +200,33 @@ const PostJobPage = () => {
     'Safety Awareness'
   ];
 
+  const isSalaryValid = () => {
+    const min = Number(formData.salaryMin);
+    const max = formData.salaryMax === '' ? min : Number(formData.salaryMax);
+    return formData.salaryMin !== '' && min >= 0 && max >= min;
+  };
+
+  const salaryDisplay = isSalaryValid()
+    ? formatSalary({
+        min: Number(formData.salaryMin),
+        max: Number(formData.salaryMax || formData.salaryMin),
+        period: formData.salaryPeriod
+      })
+    : '';
+
+  const isPositionsValid = () => {
+    const positions = Number(formData.positions);
+    return Number.isInteger(positions) && positions >= 1 && positions <= MAX_JOB_POSITIONS;
+  };
+
   // Form validation
   const isFormValid = () => {
     return (
       formData.jobTitle.trim() !== '' &&
       formData.description.trim() !== '' &&
       formData.location.trim() !== '' &&
-      formData.salaryRange.trim() !== '' &&
+      isSalaryValid() &&
+      isPositionsValid() &&
       formData.applicationDeadline !== '' &&
       kycOK
     );
@@ -135,8 +238,11 @@ const PostJobPage = () => {
         jobTitle: 'Warehouse Worker',
         description: 'Looking for hardworking individuals to join our warehouse team. Responsibilities include package sorting, inventory management, and maintaining warehouse cleanliness. No prior experience required - we provide full training.',
         location: 'Hyderabad, Telangana',
-        salaryRange: '₹18,000/month',
+        salaryMin: '18000',
+        salaryMax: '18000',
+        salaryPeriod: 'monthly' as SalaryPeriod,
         workType: 'Full-time',
+        category: 'Other' as JobCategory,
         skillsRequired: ['Team Collaboration', 'Physical Fitness', 'Reliability'],
         applicationDeadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
       },
@@ -144,8 +250,11 @@ const PostJobPage = () => {
         jobTitle: 'Delivery Executive',
         description: 'Join our delivery team and earn daily wages! Deliver packages across the city using our company vehicles. Flexible timing and good incentives for performance.',
         location: 'Bangalore, Karnataka',
-        salaryRange: '₹500/day',
+        salaryMin: '500',
+        salaryMax: '500',
+        salaryPeriod: 'daily' as SalaryPeriod,
         workType: 'Part-time',
+        category: 'Other' as JobCategory,
         skillsRequired: ['Communication', 'Time Management', 'Reliability'],
         applicationDeadline: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
       },
@@ -153,8 +262,11 @@ const PostJobPage = () => {
         jobTitle: 'Restaurant Helper',
         description: 'Assist kitchen staff with food preparation, cleaning, and customer service. Great opportunity for students to earn while learning hospitality skills.',
         location: 'Mumbai, Maharashtra',
-        salaryRange: '₹400/day',
+        salaryMin: '400',
+        salaryMax: '450',
+        salaryPeriod: 'daily' as SalaryPeriod,
         workType: 'Part-time',
+        category: 'Customer Service' as JobCategory,
         skillsRequired: ['Customer Service', 'Organization', 'Adaptability'],
         applicationDeadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
       }
@@ -167,8 +279,11 @@ const PostJobPage = () => {
       jobTitle: randomJob.jobTitle,
       description: randomJob.description,
       location: randomJob.location,
-      salaryRange: randomJob.salaryRange,
+      salaryMin: randomJob.salaryMin,
+      salaryMax: randomJob.salaryMax,
+      salaryPeriod: randomJob.salaryPeriod,
       workType: randomJob.workType,
+      category: randomJob.category,
       skillsRequired: randomJob.skillsRequired,
       applicationDeadline: randomJob.applicationDeadline
     }));
@@ -207,12 +322,22 @@ const PostJobPage = () => {
                 </div>
                 <div className="flex items-center gap-1">
                   <DollarSign className="w-4 h-4" />
-                  <span>{formData.salaryRange}</span>
+                  <span>{salaryDisplay}</span>
                 </div>
                 <div className="flex items-center gap-1">
                   <Briefcase className="w-4 h-4" />
                   <span>{formData.workType}</span>
                 </div>
+                <div className="flex items-center gap-1">
+                  <Tag className="w-4 h-4" />
+                  <span>{formData.category}</span>
+                </div>
+                {Number(formData.positions) > 1 && (
+                  <div className="flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    <span>{formData.positions} openings</span>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -389,8 +514,9 @@ const PostJobPage = () => {
                 <div>Job Title: {formData.jobTitle.trim() !== '' ? '✅' : '❌'}</div>
                 <div>Description: {formData.description.trim() !== '' ? '✅' : '❌'}</div>
                 <div>Location: {formData.location.trim() !== '' ? '✅' : '❌'}</div>
-                <div>Salary: {formData.salaryRange.trim() !== '' ? '✅' : '❌'}</div>
+                <div>Salary: {isSalaryValid() ? '✅' : '❌'}</div>
                 <div>Deadline: {formData.applicationDeadline !== '' ? '✅' : '❌'}</div>
+                <div>Openings: {isPositionsValid() ? '✅' : '❌'}</div>
                 <div>KYC Status: {kycOK ? '✅ Approved' : '❌ Pending'}</div>
               </div>
             </div>
@@ -398,6 +524,24 @@ const PostJobPage = () => {
         </motion.div>
       )}
 
+      {/* Start From A Template Or Past Job */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.18 }}
+        className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Hiring for this role again?</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Fill the form from a saved template or one of your past jobs, then set a new deadline.
+        </p>
+        <JobTemplatePicker
+          currentJob={buildJobPayload()}
+          canSave={formData.jobTitle.trim() !== ''}
+          onLoad={loadTemplateFields}
+        />
+      </motion.div>
+
       {/* Essential Fields Only Form */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -452,25 +596,82 @@ const PostJobPage = () => {
                   placeholder="e.g., Hyderabad, Remote, On-site"
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                 />
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                  {locationPin ? (
+                    <>
+                      <span>Pinned at {locationPin.latitude}, {locationPin.longitude}</span>
+                      <button type="button" onClick={() => setLocationPin(null)} className="text-orange-600 hover:underline">
+                        Remove pin
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span>Students see distance from your business address.</span>
+                      <button type="button" onClick={pinCurrentLocation} disabled={pinning} className="text-orange-600 hover:underline disabled:opacity-50">
+                        {pinning ? 'Locating...' : 'Pin my current location instead'}
+                      </button>
+                    </>
+                  )}
+                </div>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Salary Range *
+                  Pay (₹) *
                 </label>
-                <input
-                  type="text"
-                  name="salaryRange"
-                  value={formData.salaryRange}
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="number"
+                    name="salaryMin"
+                    min={0}
+                    value={formData.salaryMin}
+                    onChange={handleInputChange}
+                    required
+                    placeholder="Min"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  />
+                  <input
+                    type="number"
+                    name="salaryMax"
+                    min={0}
+                    value={formData.salaryMax}
+                    onChange={handleInputChange}
+                    placeholder="Max"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  />
+                  <select
+                    name="salaryPeriod"
+                    value={formData.salaryPeriod}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  >
+                    {SALARY_PERIODS.map(period => (
+                      <option key={period} value={period}>{SALARY_PERIOD_LABELS[period]}</option>
+                    ))}
+                  </select>
+                </div>
+                {salaryDisplay && <p className="text-xs text-gray-500 mt-1">Shown as {salaryDisplay}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Category *
+                </label>
+                <select
+                  name="category"
+                  value={formData.category}
                   onChange={handleInputChange}
                   required
-                  placeholder="e.g., ₹15,000/month, ₹500/day, ₹200/hour"
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                />
+                >
+                  {JOB_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
               </div>
-            </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Work Type *
@@ -503,6 +704,24 @@ const PostJobPage = () => {
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Number of Openings *
+                </label>
+                <input
+                  type="number"
+                  name="positions"
+                  value={formData.positions}
+                  onChange={handleInputChange}
+                  required
+                  min={1}
+                  max={MAX_JOB_POSITIONS}
+                  step={1}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">The job closes by itself once this many people are hired</p>
+              </div>
             </div>
 
             <div>
@@ -560,6 +779,41 @@ const PostJobPage = () => {
             </div>
           </div>
 
+          {/* Shifts */}
+          <div className="pt-6 border-t border-gray-200">
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Shifts (optional)</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              For shift work, like weekend promotions. Applicants pick the shifts they can do, and you see who works which shift on the roster.
+            </p>
+            <ShiftScheduleEditor shifts={shifts} onChange={setShifts} />
+          </div>
+
+          {/* Screening Questions */}
+          <div className="pt-6 border-t border-gray-200">
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Screening Questions (optional)</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              Applicants answer these when they apply. Answers that break a knockout rule are flagged for you.
+            </p>
+            <ScreeningQuestionsEditor questions={screeningQuestions} onChange={setScreeningQuestions} />
+          </div>
+
+          {/* Scheduled Publishing */}
+          <div className="pt-6 border-t border-gray-200">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Publish Later (optional)
+            </label>
+            <p className="text-sm text-gray-500 mb-3">
+              The job is saved as a draft and goes live automatically at this time.
+            </p>
+            <input
+              type="datetime-local"
+              name="publishAt"
+              value={formData.publishAt}
+              onChange={handleInputChange}
+              className="w-full sm:w-auto px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            />
+          </div>
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4 pt-6 border-t border-gray-200">
             <button
@@ -580,8 +834,19 @@ const PostJobPage = () => {
               ) : (
                 <Send className="w-5 h-5" />
               )}
-              {loading ? 'Posting Job...' : 'Post Job'}
+              {loading ? 'Saving...' : formData.publishAt ? 'Schedule Job' : 'Post Job'}
             </button>
+            {!formData.publishAt && (
+              <button
+                type="button"
+                onClick={() => submitJob(true)}
+                disabled={loading || !isFormValid()}
+                className="flex items-center justify-center gap-2 px-6 py-3 border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileText className="w-5 h-5" />
+                Save as Draft
+              </button>
+            )}
             <button
               type="button"
               onClick={() => router.back()}
@@ -20,7 +20,13 @@ import {
   Phone,
   ExternalLink
 } from 'lucide-react';
-import { apiService } from '../../../services/api';
+import { apiService, type ScreeningQuestion, type Resume, type JobShift } from '../../../services/api';
+import { formatShift } from '../../../lib/utils';
+import ScreeningQuestionsForm, {
+  type ScreeningAnswerInput,
+  toScreeningAnswers,
+  hasUnansweredRequired
+} from '../../../components/ScreeningQuestionsForm';
 
 interface Job {
   _id: string;
@@ -39,13 +45,26 @@ interface Job {
   contactPhone: string;
   postedDate: string;
   status: string;
+  positions?: number;
+  filledPositions?: number;
+  shifts?: JobShift[];
   employer: {
     _id: string;
     companyName: string;
     email: string;
   };
+  screeningQuestions?: ScreeningQuestion[];
 }
 
+// "3 of 5 positions left"; jobs posted before positions existed hire one person
+const positionsLabel = (job: Job) => {
+  const positions = job.positions ?? 1;
+  const left = Math.max(0, positions - (job.filledPositions ?? 0));
+  if (left === 0) return 'All positions filled';
+  if (positions === 1) return 'Active position';
+  return `${left} of ${positions} positions left`;
+};
+
 const JobDetailsPage = () => {
   const router = useRouter();
   const params = useParams();
@@ -56,6 +75,11 @@ const JobDetailsPage = () => {
   const [applying, setApplying] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   const [hasApplied, setHasApplied] = useState(false);
+  const [showApplyForm, setShowApplyForm] = useState(false);
+  const [screeningAnswers, setScreeningAnswers] = useState<ScreeningAnswerInput>({});
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [selectedResumeId, setSelectedResumeId] = useState('');
+  const [selectedShiftIds, setSelectedShiftIds] = useState<string[]>([]);
 
   useEffect(() => {
     const fetchJobDetails = async () => {
@@ -74,6 +98,16 @@ const JobDetailsPage = () => {
             })
           : false;
         setHasApplied(hasAppliedToJob);
+
+        // Profile resumes to choose from; the default one is preselected
+        try {
+          const resumeData = await apiService.getResumes();
+          const profileResumes = resumeData?.resumes || [];
+          setResumes(profileResumes);
+          setSelectedResumeId(profileResumes.find(resume => resume.isDefault)?._id || '');
+        } catch (resumeError) {
+          console.error('Error fetching resumes:', resumeError);
+        }
         
       } catch (error) {
         console.error('Error fetching job details:', error);
@@ -111,14 +145,35 @@ const JobDetailsPage = () => {
     }
   }, [jobId]);
 
+  const questions = job?.screeningQuestions || [];
+  const shifts = job?.shifts || [];
+  const isFilled = Boolean(job && (job.filledPositions ?? 0) >= (job.positions ?? 1));
+
   const handleApply = async () => {
+    // Shifts, screening answers and the resume choice are collected before submitting
+    if ((shifts.length > 0 || questions.length > 0 || resumes.length > 0) && !showApplyForm) {
+      setShowApplyForm(true);
+      return;
+    }
+    if (shifts.length > 0 && selectedShiftIds.length === 0) {
+      alert('Please pick at least one shift you can work.');
+      return;
+    }
+    if (hasUnansweredRequired(questions, screeningAnswers)) {
+      alert('Please answer all required screening questions.');
+      return;
+    }
+
     try {
       setApplying(true);
       await apiService.applyToJob(jobId, {
         coverLetter: 'I am interested in this position and believe my skills align well with your requirements.',
-        resume: 'resume.pdf'
+        resumeId: selectedResumeId || undefined,
+        shiftIds: selectedShiftIds,
+        screeningAnswers: toScreeningAnswers(questions, screeningAnswers)
       });
       setHasApplied(true);
+      setShowApplyForm(false);
       alert('Application submitted successfully!');
     } catch (error) {
       console.error('Error applying to job:', error);
@@ -126,6 +181,8 @@ const JobDetailsPage = () => {
       if (message.toLowerCase().includes('already applied')) {
         alert('You have already applied for this job.');
         setHasApplied(true);
+      } else if (['screening question', 'resume', 'shift'].some(topic => message.toLowerCase().includes(topic))) {
+        alert(message);
       } else {
         alert('Failed to apply to job. Please try again.');
       }
@@ -238,6 +295,11 @@ const JobDetailsPage = () => {
                 <CheckCircle className="w-5 h-5" />
                 <span className="font-medium">Applied</span>
               </div>
+            ) : isFilled ? (
+              <div className="flex items-center gap-2 p-4 bg-gray-100 text-gray-600 rounded-lg">
+                <Users className="w-5 h-5" />
+                <span className="font-medium">All positions filled</span>
+              </div>
             ) : (
               <button
                 onClick={handleApply}
@@ -260,13 +322,84 @@ const JobDetailsPage = () => {
               </div>
               <div className="flex items-center gap-2 text-sm text-gray-600">
                 <Users className="w-4 h-4" />
-                <span>Active position</span>
+                <span>{positionsLabel(job)}</span>
               </div>
             </div>
           </div>
         </div>
       </motion.div>
 
+      {/* Application Form */}
+      {showApplyForm && !hasApplied && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-2xl shadow-sm border border-blue-200 p-6"
+        >
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Apply to {job.company}</h2>
+          {resumes.length > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Resume</label>
+              <select
+                value={selectedResumeId}
+                onChange={(e) => setSelectedResumeId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Don&apos;t attach a resume</option>
+                {resumes.map(resume => (
+                  <option key={resume._id} value={resume._id}>{resume.fileName}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {shifts.length > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Shifts you can work</label>
+              <p className="text-sm text-gray-500 mb-2">Only shifts on the days in your KYC availability can be picked.</p>
+              <div className="space-y-2">
+                {shifts.map((shift, index) => (
+                  <label key={shift._id} className="flex items-start gap-2 p-3 border border-gray-200 rounded-lg text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedShiftIds.includes(shift._id || '')}
+                      onChange={(e) => setSelectedShiftIds(prev => e.target.checked
+                        ? [...prev, shift._id || '']
+                        : prev.filter(id => id !== shift._id))}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-900">{shift.label || `Shift ${index + 1}`}</span>
+                      <span className="block text-gray-600">{formatShift(shift)}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          {questions.length > 0 && (
+            <>
+              <p className="text-sm text-gray-600 mb-4">Answer these questions to complete your application.</p>
+              <ScreeningQuestionsForm questions={questions} answers={screeningAnswers} onChange={setScreeningAnswers} />
+            </>
+          )}
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={handleApply}
+              disabled={applying}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {applying ? 'Submitting...' : 'Submit Application'}
+            </button>
+            <button
+              onClick={() => setShowApplyForm(false)}
+              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </motion.div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -286,6 +419,32 @@ const JobDetailsPage = () => {
             </div>
           </motion.div>
 
+          {/* Shifts */}
+          {shifts.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.15 }}
+              className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6"
+            >
+              <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Clock className="w-5 h-5 text-blue-600" />
+                Shifts
+              </h2>
+              <div className="space-y-2">
+                {shifts.map((shift, index) => (
+                  <div key={shift._id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{shift.label || `Shift ${index + 1}`}</p>
+                      <p className="text-gray-600">{formatShift(shift)}</p>
+                    </div>
+                    <span className="text-gray-500 whitespace-nowrap">{shift.headcount} needed</span>
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          )}
+
           {/* Requirements */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
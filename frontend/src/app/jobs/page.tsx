@@ -1,7 +1,7 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
 import { motion } from "framer-motion";
@@ -13,11 +13,18 @@ import {
   Clock,
   IndianRupee,
   Eye,
-  ArrowLeft
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Navigation,
+  Bookmark
 } from "lucide-react";
 
-import { apiService } from "../../services/api";
+import { apiService, type JobSalary, type JobFacets, type FacetCount, type JobHighlights, type HighlightPart } from "../../services/api";
 import { useAuth } from "../../contexts/AuthContext";
+import { SALARY_PERIODS, SALARY_PERIOD_LABELS, JOB_SORT_OPTIONS, SEARCH_RADIUS_KM_OPTIONS } from "../../lib/constants";
+import { getCurrentPosition } from "../../lib/utils";
+import SavedSearches from "../../components/SavedSearches";
 
 interface Job {
   _id: string;
@@ -26,6 +33,10 @@ interface Job {
   company: string;
   location: string;
   salary?: number;
+  salaryRange?: string;
+  salaryDetails?: JobSalary;
+  highlights?: JobHighlights;
+  distanceKm?: number;
   payType?: string;
   type: string;
   category: string;
@@ -37,16 +48,6 @@ interface Job {
   requirements?: string[];
 }
 
-interface JobsResponse {
-  jobs: Job[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    pages: number;
-  };
-}
-
 interface ApplicationsResponse {
   applications: Array<{
     _id: string;
@@ -58,56 +59,254 @@ interface ApplicationsResponse {
   }>;
 }
 
-const JobsPage = () => {
+// Facets are multi-select and kept in the URL as repeated params (?category=A&category=B)
+const FACET_GROUPS: Array<{ param: string; key: keyof JobFacets; title: string }> = [
+  { param: "category", key: "categories", title: "Category" },
+  { param: "workType", key: "workTypes", title: "Work type" },
+  { param: "location", key: "locations", title: "Location" },
+  { param: "salaryBucket", key: "salaryBuckets", title: "Pay (est. per month)" }
+];
+
+// Typed filters are written to the URL once typing settles
+const TEXT_PARAMS = ["search", "salaryMin", "salaryMax"] as const;
+type TextParam = typeof TEXT_PARAMS[number];
+
+const readTextParams = (params: URLSearchParams) =>
+  Object.fromEntries(TEXT_PARAMS.map(name => [name, params.get(name) || ""])) as Record<TextParam, string>;
+
+const FacetGroup = ({
+  title,
+  options,
+  selected,
+  onToggle
+}: {
+  title: string;
+  options: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) => (
+  <div>
+    <h3 className="text-sm font-semibold text-gray-900 mb-2">{title}</h3>
+    {options.length === 0 ? (
+      <p className="text-xs text-gray-400">No options</p>
+    ) : (
+      <div className="space-y-1.5">
+        {options.map(option => {
+          const checked = selected.includes(option.value);
+          return (
+            <label
+              key={option.value}
+              className={`flex items-center justify-between gap-2 text-sm cursor-pointer ${option.count === 0 && !checked ? "text-gray-400" : "text-gray-700"}`}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => onToggle(option.value)}
+                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                />
+                <span className="truncate">{option.label || option.value}</span>
+              </span>
+              <span className="text-xs text-gray-500">{option.count}</span>
+            </label>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+const Highlighted = ({ parts }: { parts: HighlightPart[] }) => (
+  <>
+    {parts.map((part, index) =>
+      part.highlight ? (
+        <mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </>
+);
+
+const JobsLoading = () => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-orange-600 mx-auto" />
+      <p className="mt-4 text-gray-600">Loading jobs...</p>
+    </div>
+  </div>
+);
+
+const JobsPageContent = () => {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
   const { user, isAuthenticated } = useAuth();
 
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [facets, setFacets] = useState<JobFacets | null>(null);
+  const [pagination, setPagination] = useState({ page: 1, pages: 0, total: 0 });
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedLocation, setSelectedLocation] = useState("");
-  const [selectedType, setSelectedType] = useState("");
+  const [searchError, setSearchError] = useState("");
+  const [locating, setLocating] = useState(false);
   const [appliedJobs, setAppliedJobs] = useState<string[]>([]);
+  const [bookmarkedJobs, setBookmarkedJobs] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState(() => readTextParams(searchParams));
+
+  // The URL is the source of truth for filters, so links and back/forward restore a search
+  const updateQuery = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(queryString);
+    update(params);
+    const next = params.toString();
+    router.replace(next ? `/jobs?${next}` : "/jobs", { scroll: false });
+  };
 
-  useEffect(() => {
-    const fetchData = async () => {
+  // Any filter change starts again from the first page
+  const setParam = (name: string, value: string) => updateQuery(params => {
+    if (value) params.set(name, value);
+    else params.delete(name);
+    params.delete("page");
+  });
+
+  const toggleFacet = (name: string, value: string) => updateQuery(params => {
+    const values = params.getAll(name);
+    params.delete(name);
+    (values.includes(value) ? values.filter(item => item !== value) : [...values, value])
+      .forEach(item => params.append(name, item));
+    params.delete("page");
+  });
+
+  const goToPage = (page: number) => updateQuery(params => {
+    if (page > 1) params.set("page", String(page));
+    else params.delete("page");
+  });
+
+  // "Near" is either a browser position (?near=lat,lng) or the student's saved home / PG (?origin=)
+  const setNearOrigin = async (choice: string) => {
+    if (choice === "current") {
       try {
-        setLoading(true);
-
-        const jobsResponse = await apiService.getJobs() as JobsResponse;
-        setJobs(jobsResponse.jobs || []);
-
-        if (isAuthenticated && user?.userType === "student") {
-          try {
-            const applicationsResponse = await apiService.getUserApplications() as ApplicationsResponse;
-            const appliedJobIds = (applicationsResponse.applications || []).map(app =>
-              typeof app.job === "string" ? app.job : app.job._id
-            );
-            setAppliedJobs(appliedJobIds);
-          } catch (error) {
-            console.error("Error fetching applications:", error);
-          }
-        }
-      } catch (error) {
-        console.error("Error fetching jobs:", error);
-        setJobs([]);
+        setLocating(true);
+        const { latitude, longitude } = await getCurrentPosition();
+        updateQuery(params => {
+          params.set("near", `${latitude},${longitude}`);
+          params.delete("origin");
+          params.delete("page");
+        });
+      } catch (error: any) {
+        setSearchError(error.message);
       } finally {
-        setLoading(false);
+        setLocating(false);
       }
+      return;
+    }
+
+    updateQuery(params => {
+      params.delete("near");
+      params.delete("page");
+      if (choice) {
+        params.set("origin", choice);
+      } else {
+        params.delete("origin");
+        params.delete("radiusKm");
+      }
+    });
+  };
+
+  const clearFilters = () => {
+    setDrafts(readTextParams(new URLSearchParams()));
+    router.replace("/jobs", { scroll: false });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setSearchError("");
+
+    apiService.searchJobs(queryString)
+      .then(result => {
+        if (cancelled) return;
+        setJobs(result.jobs as Job[]);
+        setFacets(result.facets);
+        setPagination(result.pagination);
+      })
+      .catch(error => {
+        console.error("Error fetching jobs:", error);
+        if (cancelled) return;
+        setJobs([]);
+        setPagination({ page: 1, pages: 0, total: 0 });
+        setSearchError(error?.message || "Could not load jobs. Please try again.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [queryString]);
 
-    fetchData();
-  }, [isAuthenticated, user]);
+  // Keep the inputs in step when the URL changes from outside (back/forward, shared link)
+  useEffect(() => {
+    setDrafts(readTextParams(new URLSearchParams(queryString)));
+  }, [queryString]);
 
-  const filteredJobs = jobs.filter(job => {
-    const matchesSearch = [job.title, job.description, job.company]
-      .some(value => value.toLowerCase().includes(searchTerm.toLowerCase()));
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const current = readTextParams(new URLSearchParams(queryString));
+      const changed = TEXT_PARAMS.filter(name => current[name] !== drafts[name].trim());
+      if (changed.length === 0) return;
+
+      updateQuery(params => {
+        changed.forEach(name => {
+          if (drafts[name].trim()) params.set(name, drafts[name].trim());
+          else params.delete(name);
+        });
+        params.delete("page");
+      });
+    }, 400);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [drafts]);
 
-    const matchesLocation = !selectedLocation || job.location.toLowerCase().includes(selectedLocation.toLowerCase());
-    const matchesType = !selectedType || job.type === selectedType;
+  useEffect(() => {
+    const fetchApplications = async () => {
+      if (!isAuthenticated || user?.userType !== "student") return;
+      try {
+        const applicationsResponse = await apiService.getUserApplications() as ApplicationsResponse;
+        const appliedJobIds = (applicationsResponse.applications || []).map(app =>
+          typeof app.job === "string" ? app.job : app.job._id
+        );
+        setAppliedJobs(appliedJobIds);
+      } catch (error) {
+        console.error("Error fetching applications:", error);
+      }
 
-    return matchesSearch && matchesLocation && matchesType;
-  });
+      try {
+        const bookmarks = await apiService.getBookmarks();
+        setBookmarkedJobs(bookmarks.map(bookmark => bookmark.jobId));
+      } catch (error) {
+        console.error("Error fetching saved jobs:", error);
+      }
+    };
+
+    fetchApplications();
+  }, [isAuthenticated, user]);
+
+  const handleBookmark = async (jobId: string) => {
+    const saved = bookmarkedJobs.includes(jobId);
+    try {
+      if (saved) {
+        await apiService.removeBookmark(jobId);
+        setBookmarkedJobs(prev => prev.filter(id => id !== jobId));
+      } else {
+        await apiService.bookmarkJob(jobId);
+        setBookmarkedJobs(prev => [...prev, jobId]);
+      }
+    } catch (error: any) {
+      console.error("Error updating saved job:", error);
+      alert(error?.message || "Could not update your saved jobs");
+    }
+  };
 
   const handleApply = async (jobId: string) => {
     if (!isAuthenticated || user?.userType !== "student") {
@@ -125,62 +324,16 @@ const JobsPage = () => {
     }
   };
 
-  const salaryRanges: Record<string, string> = {
-    "Catering boy / Catering staff": "₹180-260/hr",
-    "Waiter / Server": "₹150-230/hr",
-    "Barista (coffee shop staff)": "₹180-240/hr",
-    "Fast food crew (KFC, McDonald's, Domino's, etc.)": "₹12,000-17,000/mo",
-    "Delivery boy (food delivery like Zomato/Swiggy)": "₹22,000-32,000/mo",
-    "Dishwasher / Kitchen helper": "₹140-200/hr",
-    "Event staff (serving, cleaning, organizing)": "₹800-1,200/shift",
-    "Bartender assistant": "₹200-320/hr",
-    "Sales associate (mall, clothing store, electronics shop)": "₹14,000-20,000/mo",
-    "Cashier": "₹13,000-18,000/mo",
-    "Customer service helper": "₹15,000-22,000/mo",
-    "Store stocker / Shelf organizer": "₹700-1,000/shift",
-    "Promotional staff (handing flyers, samples, etc.)": "₹900-1,400/shift",
-    "Mall kiosk helper": "₹12,000-16,000/mo",
-    "Courier delivery (Amazon, Flipkart, DTDC, etc.)": "₹18,000-26,000/mo",
-    "Warehouse helper": "₹700-1,100/day",
-    "Loading/unloading staff": "₹750-1,200/day",
-    "Bike/Car driver (with license)": "₹20,000-28,000/mo",
-    "Office boy / Peon": "₹12,000-16,000/mo",
-    "Part-time tutor (school/college subjects)": "₹400-700/hr",
-    "Home tuition teacher": "₹500-900/hr",
-    "Library assistant": "₹10,000-14,000/mo",
-    "Teaching assistant (for coaching institutes)": "₹15,000-22,000/mo",
-    "Construction helper": "₹750-1,200/day",
-    "Painter's helper": "₹700-1,100/day",
-    "Security guard": "₹14,000-20,000/mo",
-    "Housekeeping staff (hotels, offices, apartments)": "₹12,000-17,000/mo",
-    "Cleaning boy / Janitor": "₹500-800/shift",
-    "Gardener": "₹600-900/day",
-    "Event coordinator assistant": "₹1,000-1,600/shift",
-    "Wedding helper (decoration, serving, setup)": "₹900-1,400/shift",
-    "Ticket checker (cinema, events, exhibitions)": "₹9,000-13,000/mo",
-    "Stage setup crew": "₹800-1,300/shift",
-    "Data entry (basic, offline)": "₹10,000-15,000/mo",
-    "Call center (voice/non-voice, non-tech support)": "₹16,000-24,000/mo",
-    "Babysitting / Caretaker": "₹300-500/hr",
-    "Pet walking / Pet care": "₹200-350/hr",
-    "Delivery of newspapers/milk": "₹6,000-10,000/mo",
-    "Packing staff (factories, small industries)": "₹700-1,000/shift"
-  };
-
-  const getSalaryRange = (jobTitle: string) => salaryRanges[jobTitle] ?? "₹500-900/shift";
-
-  const locations = [...new Set(jobs.map(job => job.location).filter(Boolean))];
-  const workTypes = [...new Set(jobs.map(job => job.type).filter(Boolean))];
+  // Searching ranks by relevance unless another order was picked
+  const nearOrigin = searchParams.get("origin") || (searchParams.get("near") ? "current" : "");
+  const defaultSort = searchParams.get("search") ? "relevance" : nearOrigin ? "distance" : "newest";
+  const sortOptions = JOB_SORT_OPTIONS.filter(option =>
+    (option.value !== "relevance" || searchParams.get("search")) && (option.value !== "distance" || nearOrigin)
+  );
+  const currentSort = sortOptions.find(option => option.value === searchParams.get("sort"))?.value || defaultSort;
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-orange-600 mx-auto" />
-          <p className="mt-4 text-gray-600">Loading jobs...</p>
-        </div>
-      </div>
-    );
+  if (loading && !facets) {
+    return <JobsLoading />;
   }
 
   return (
@@ -212,7 +365,7 @@ const JobsPage = () => {
                 <p className="text-gray-600">Find your next opportunity</p>
               </div>
               <span className="text-sm text-gray-500 hidden sm:inline">
-                {filteredJobs.length} jobs found
+                {pagination.total} jobs found
               </span>
             </div>
           </div>
@@ -222,144 +375,260 @@ const JobsPage = () => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
         <section className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
           <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
-            <div className="relative">
+            <div className="relative md:col-span-2">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
               <input
                 type="text"
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                placeholder="Search jobs..."
-                value={searchTerm}
-                onChange={(event) => setSearchTerm(event.target.value)}
+                placeholder='Search jobs... e.g. react "part time" -unpaid'
+                value={drafts.search}
+                onChange={(event) => setDrafts(prev => ({ ...prev, search: event.target.value }))}
               />
             </div>
 
             <select
-              value={selectedLocation}
-              onChange={(event) => setSelectedLocation(event.target.value)}
+              value={currentSort}
+              onChange={(event) => setParam("sort", event.target.value === defaultSort ? "" : event.target.value)}
               className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
             >
-              <option value="">All Locations</option>
-              {locations.map(location => (
-                <option key={location} value={location}>{location}</option>
+              {sortOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
               ))}
             </select>
 
+            <button
+              onClick={clearFilters}
+              className="px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
+            >
+              Clear Filters
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 mt-4 md:grid-cols-5">
+            <input
+              type="number"
+              min={0}
+              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              placeholder="Min pay (₹)"
+              value={drafts.salaryMin}
+              onChange={(event) => setDrafts(prev => ({ ...prev, salaryMin: event.target.value }))}
+            />
+
+            <input
+              type="number"
+              min={0}
+              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              placeholder="Max pay (₹)"
+              value={drafts.salaryMax}
+              onChange={(event) => setDrafts(prev => ({ ...prev, salaryMax: event.target.value }))}
+            />
+
             <select
-              value={selectedType}
-              onChange={(event) => setSelectedType(event.target.value)}
+              value={searchParams.get("salaryPeriod") || ""}
+              onChange={(event) => setParam("salaryPeriod", event.target.value)}
               className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
             >
-              <option value="">All Types</option>
-              {workTypes.map(type => (
-                <option key={type} value={type}>{type}</option>
+              <option value="">Any pay period</option>
+              {SALARY_PERIODS.map(period => (
+                <option key={period} value={period}>{SALARY_PERIOD_LABELS[period]}</option>
               ))}
             </select>
 
-            <button
-              onClick={() => {
-                setSearchTerm("");
-                setSelectedLocation("");
-                setSelectedType("");
-              }}
-              className="px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
+            <select
+              value={nearOrigin}
+              onChange={(event) => setNearOrigin(event.target.value)}
+              disabled={locating}
+              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:opacity-50"
             >
-              Clear Filters
-            </button>
+              <option value="">{locating ? "Finding you..." : "Anywhere"}</option>
+              <option value="current">Near my current location</option>
+              {isAuthenticated && user?.userType === "student" && (
+                <>
+                  <option value="home">Near my home</option>
+                  <option value="pg">Near my PG</option>
+                </>
+              )}
+            </select>
+
+            <select
+              value={searchParams.get("radiusKm") || "10"}
+              onChange={(event) => setParam("radiusKm", event.target.value === "10" ? "" : event.target.value)}
+              disabled={!nearOrigin}
+              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:opacity-50"
+            >
+              {SEARCH_RADIUS_KM_OPTIONS.map(radius => (
+                <option key={radius} value={radius}>Within {radius} km</option>
+              ))}
+            </select>
           </div>
+
+          {searchError && <p className="mt-4 text-sm text-red-600">{searchError}</p>}
+
+          {isAuthenticated && user?.userType === "student" && (
+            <SavedSearches
+              currentQuery={queryString}
+              onOpen={(query) => router.replace(query ? `/jobs?${query}` : "/jobs", { scroll: false })}
+            />
+          )}
         </section>
 
-        <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
-          {filteredJobs.map((job, index) => (
-            <motion.article
-              key={job._id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: index * 0.05 }}
-              className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow"
-            >
-              <div className="flex flex-col gap-4">
-                <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
-                  <div className="flex items-start gap-3">
-                    <div className="w-12 h-12 bg-gray-100 rounded-xl flex items-center justify-center overflow-hidden">
-                      <Building className="w-6 h-6 text-gray-400" />
-                    </div>
-                    <div>
-                      <h3 className="font-semibold text-gray-900 text-lg">{job.title}</h3>
-                      <p className="text-gray-600">{job.company}</p>
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+          <aside className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-6 h-fit">
+            {FACET_GROUPS.map(group => (
+              <FacetGroup
+                key={group.param}
+                title={group.title}
+                options={facets?.[group.key] || []}
+                selected={searchParams.getAll(group.param)}
+                onToggle={(value) => toggleFacet(group.param, value)}
+              />
+            ))}
+          </aside>
+
+          <div className={`lg:col-span-3 space-y-6 transition-opacity ${loading ? "opacity-60" : ""}`}>
+            {jobs.length === 0 ? (
+              <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+                No jobs match these filters. Try removing some of them.
+              </div>
+            ) : (
+              <section className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+              {jobs.map((job, index) => (
+                <motion.article
+                  key={job._id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: index * 0.05 }}
+                  className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow"
+                >
+                  <div className="flex flex-col gap-4">
+                    <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                      <div className="flex items-start gap-3">
+                        <div className="w-12 h-12 bg-gray-100 rounded-xl flex items-center justify-center overflow-hidden">
+                          <Building className="w-6 h-6 text-gray-400" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-gray-900 text-lg">
+                            {job.highlights ? <Highlighted parts={job.highlights.title} /> : job.title}
+                          </h3>
+                          <p className="text-gray-600">{job.company}</p>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-3 text-sm text-gray-500">
+                        <span className="inline-flex items-center gap-1">
+                          <MapPin className="w-4 h-4" />
+                          {job.location}
+                        </span>
+                        {job.distanceKm !== undefined && (
+                          <span className="inline-flex items-center gap-1 text-blue-600">
+                            <Navigation className="w-4 h-4" />
+                            {job.distanceKm} km away
+                          </span>
+                        )}
+                        <span className="inline-flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          {job.type}
+                        </span>
+                        <span className="inline-flex items-center gap-1 text-green-600 font-semibold">
+                          <IndianRupee className="w-4 h-4" />
+                          {job.salaryRange || "Pay not specified"}
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex flex-wrap gap-3 text-sm text-gray-500">
-                    <span className="inline-flex items-center gap-1">
-                      <MapPin className="w-4 h-4" />
-                      {job.location}
-                    </span>
-                    <span className="inline-flex items-center gap-1">
-                      <Clock className="w-4 h-4" />
-                      {job.type}
-                    </span>
-                    <span className="inline-flex items-center gap-1 text-green-600 font-semibold">
-                      <IndianRupee className="w-4 h-4" />
-                      {getSalaryRange(job.title)}
-                    </span>
-                  </div>
-                </div>
 
-                <p className="text-gray-700 line-clamp-3">{job.description}</p>
-
-                {job.requirements && job.requirements.length > 0 && (
-                  <div className="flex flex-wrap gap-2">
-                    {job.requirements.slice(0, 3).map((requirement, requirementIndex) => (
-                      <span key={requirementIndex} className="bg-blue-100 text-blue-600 px-2 py-1 rounded-full text-xs">
-                        {requirement}
-                      </span>
-                    ))}
-                    {job.requirements.length > 3 && (
-                      <span className="text-gray-500 text-xs px-2 py-1">
-                        +{job.requirements.length - 3} more
-                      </span>
+                    <p className="text-gray-700 line-clamp-3">
+                      {job.highlights ? <Highlighted parts={job.highlights.snippet} /> : job.description}
+                    </p>
+
+                    {job.requirements && job.requirements.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {job.requirements.slice(0, 3).map((requirement, requirementIndex) => (
+                          <span key={requirementIndex} className="bg-blue-100 text-blue-600 px-2 py-1 rounded-full text-xs">
+                            {requirement}
+                          </span>
+                        ))}
+                        {job.requirements.length > 3 && (
+                          <span className="text-gray-500 text-xs px-2 py-1">
+                            +{job.requirements.length - 3} more
+                          </span>
+                        )}
+                      </div>
                     )}
-                  </div>
-                )}
 
-                <div className="flex flex-col gap-4 border-t border-gray-200 pt-4 text-sm text-gray-500 sm:flex-row sm:items-center sm:justify-between">
-                  <div className="flex flex-wrap items-center gap-4">
-                    <span>Posted {new Date(job.createdAt).toLocaleDateString()}</span>
-                    <span>Views: {job.views || 0}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={() => router.push(`/jobs/${job._id}`)}
-                      className="px-3 py-2 text-gray-600 hover:text-gray-900 transition-colors"
-                    >
-                      <Eye className="w-4 h-4" />
-                    </button>
-                    {isAuthenticated && user?.userType === "student" ? (
-                      appliedJobs.includes(job._id) ? (
-                        <span className="px-4 py-2 bg-green-100 text-green-600 rounded-xl text-sm font-medium">
-                          Applied
-                        </span>
-                      ) : (
+                    <div className="flex flex-col gap-4 border-t border-gray-200 pt-4 text-sm text-gray-500 sm:flex-row sm:items-center sm:justify-between">
+                      <div className="flex flex-wrap items-center gap-4">
+                        <span>Posted {new Date(job.createdAt).toLocaleDateString()}</span>
+                        <span>Views: {job.views || 0}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
                         <button
-                          onClick={() => handleApply(job._id)}
-                          className="px-4 py-2 bg-orange-600 text-white rounded-xl hover:bg-orange-700 transition-colors"
+                          onClick={() => router.push(`/jobs/${job._id}`)}
+                          className="px-3 py-2 text-gray-600 hover:text-gray-900 transition-colors"
                         >
-                          Apply Now
+                          <Eye className="w-4 h-4" />
                         </button>
-                      )
-                    ) : (
-                      <button
-                        onClick={() => router.push("/login")}
-                        className="px-4 py-2 bg-orange-600 text-white rounded-xl hover:bg-orange-700 transition-colors"
-                      >
-                        Login to Apply
-                      </button>
-                    )}
+                        {isAuthenticated && user?.userType === "student" && (
+                          <button
+                            onClick={() => handleBookmark(job._id)}
+                            title={bookmarkedJobs.includes(job._id) ? "Remove from saved jobs" : "Save for later"}
+                            className={`px-3 py-2 transition-colors ${bookmarkedJobs.includes(job._id) ? "text-purple-600" : "text-gray-600 hover:text-purple-600"}`}
+                          >
+                            <Bookmark className={`w-4 h-4 ${bookmarkedJobs.includes(job._id) ? "fill-current" : ""}`} />
+                          </button>
+                        )}
+                        {isAuthenticated && user?.userType === "student" ? (
+                          appliedJobs.includes(job._id) ? (
+                            <span className="px-4 py-2 bg-green-100 text-green-600 rounded-xl text-sm font-medium">
+                              Applied
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => handleApply(job._id)}
+                              className="px-4 py-2 bg-orange-600 text-white rounded-xl hover:bg-orange-700 transition-colors"
+                            >
+                              Apply Now
+                            </button>
+                          )
+                        ) : (
+                          <button
+                            onClick={() => router.push("/login")}
+                            className="px-4 py-2 bg-orange-600 text-white rounded-xl hover:bg-orange-700 transition-colors"
+                          >
+                            Login to Apply
+                          </button>
+                        )}
+                      </div>
+                    </div>
                   </div>
-                </div>
+                </motion.article>
+              ))}
+              </section>
+            )}
+
+            {pagination.pages > 1 && (
+              <div className="flex items-center justify-center gap-4">
+                <button
+                  onClick={() => goToPage(pagination.page - 1)}
+                  disabled={pagination.page <= 1}
+                  className="inline-flex items-center gap-1 px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {pagination.page} of {pagination.pages}
+                </span>
+                <button
+                  onClick={() => goToPage(pagination.page + 1)}
+                  disabled={pagination.page >= pagination.pages}
+                  className="inline-flex items-center gap-1 px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4" />
+                </button>
               </div>
-            </motion.article>
-          ))}
-        </section>
+            )}
+          </div>
+        </div>
 
         <section className="py-16 bg-gradient-to-r from-green-600 to-blue-600 rounded-3xl">
           <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
@@ -445,4 +714,11 @@ const JobsPage = () => {
   );
 };
 
-export default JobsPage;
\ No newline at end of file
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+const JobsPage = () => (
+  <Suspense fallback={<JobsLoading />}>
+    <JobsPageContent />
+  </Suspense>
+);
+
+export default JobsPage;
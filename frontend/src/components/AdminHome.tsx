@@ -599,7 +599,8 @@ const AdminHome: React.FC = () => {
   const quickActions = [
     { name: 'Manage Students', icon: Users, href: '/admin?tab=students', color: 'blue' },
     { name: 'Employer KYC Management', icon: ShieldCheckIcon, href: '/employer-kyc-management', color: 'purple' },
-    { name: 'View Reports', icon: Eye, href: '/admin/reports', color: 'orange' }
+    { name: 'View Reports', icon: Eye, href: '/admin/reports', color: 'orange' },
+    { name: 'Student Payouts', icon: CreditCard, href: '/admin/payouts', color: 'green' }
   ];
 
   const handleLogout = () => {
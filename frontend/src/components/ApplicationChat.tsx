@@ -0,0 +1,268 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Send, ShieldAlert, CheckCheck } from 'lucide-react';
+import { apiService } from '../services/api';
+import socketService, { ChatMessage, NewMessageEvent, MessagesReadEvent, TypingEvent } from '../services/socketService';
+import { useAuth } from '../contexts/AuthContext';
+
+interface ApplicationChatProps {
+  applicationId: string;
+  title: string;
+  subtitle?: string;
+  onClose: () => void;
+}
+
+// How long after the last keystroke the other side stops seeing "typing..."
+const TYPING_IDLE_MS = 3000;
+
+const ApplicationChat: React.FC<ApplicationChatProps> = ({ applicationId, title, subtitle, onClose }) => {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [contactDetailsVisible, setContactDetailsVisible] = useState(true);
+  const [isClosed, setIsClosed] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const [error, setError] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const otherTypingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Merge messages by id and keep them oldest first
+  const mergeMessages = useCallback((incoming: ChatMessage[]) => {
+    setMessages(prev => {
+      const byId = new Map(prev.map(message => [message._id, message]));
+      incoming.forEach(message => byId.set(message._id, message));
+      return Array.from(byId.values()).sort((a, b) => a._id.localeCompare(b._id));
+    });
+  }, []);
+
+  const markRead = useCallback(() => {
+    apiService.markMessagesRead(applicationId).catch(err => {
+      console.error('Error marking messages as read:', err);
+    });
+  }, [applicationId]);
+
+  // Initial page
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const data = await apiService.getMessages(applicationId);
+        setMessages([]);
+        mergeMessages(data?.messages || []);
+        setNextCursor(data?.nextCursor || null);
+        setContactDetailsVisible(data?.contactDetailsVisible !== false);
+        setIsClosed(!!data?.isClosed);
+        markRead();
+      } catch (err: any) {
+        setError(err?.message || 'Could not load messages');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [applicationId, mergeMessages, markRead]);
+
+  // Live delivery, read receipts and typing
+  useEffect(() => {
+    socketService.ensureConnected();
+
+    const handleNewMessage = (data: NewMessageEvent) => {
+      if (data.message.application !== applicationId) return;
+      mergeMessages([data.message]);
+      if (data.message.sender !== user?._id) {
+        setOtherTyping(false);
+        markRead();
+      }
+    };
+
+    const handleRead = (data: MessagesReadEvent) => {
+      if (data.applicationId !== applicationId) return;
+      setMessages(prev => prev.map(message =>
+        message.recipient === data.readerId && !message.readAt
+          ? { ...message, readAt: data.readAt }
+          : message
+      ));
+    };
+
+    const handleTyping = (data: TypingEvent) => {
+      if (data.applicationId !== applicationId || data.userId === user?._id) return;
+      setOtherTyping(data.isTyping);
+      if (otherTypingTimeout.current) clearTimeout(otherTypingTimeout.current);
+      if (data.isTyping) {
+        otherTypingTimeout.current = setTimeout(() => setOtherTyping(false), TYPING_IDLE_MS * 2);
+      }
+    };
+
+    socketService.onNewMessage(handleNewMessage);
+    socketService.onMessagesRead(handleRead);
+    socketService.onTyping(handleTyping);
+
+    return () => {
+      socketService.off('message:new', handleNewMessage);
+      socketService.off('message:read', handleRead);
+      socketService.off('message:typing', handleTyping);
+      if (typingTimeout.current) clearTimeout(typingTimeout.current);
+      if (otherTypingTimeout.current) clearTimeout(otherTypingTimeout.current);
+    };
+  }, [applicationId, user?._id, mergeMessages, markRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, otherTyping]);
+
+  const loadOlder = async () => {
+    if (!nextCursor) return;
+    try {
+      const data = await apiService.getMessages(applicationId, nextCursor);
+      mergeMessages(data?.messages || []);
+      setNextCursor(data?.nextCursor || null);
+    } catch (err: any) {
+      setError(err?.message || 'Could not load older messages');
+    }
+  };
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (!typingTimeout.current) {
+      socketService.sendTyping(applicationId, true);
+    } else {
+      clearTimeout(typingTimeout.current);
+    }
+    typingTimeout.current = setTimeout(() => {
+      socketService.sendTyping(applicationId, false);
+      typingTimeout.current = null;
+    }, TYPING_IDLE_MS);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+
+    try {
+      setSending(true);
+      setError('');
+      const data = await apiService.sendMessage(applicationId, body);
+      if (data?.message) mergeMessages([data.message]);
+      setDraft('');
+      if (typingTimeout.current) {
+        clearTimeout(typingTimeout.current);
+        typingTimeout.current = null;
+      }
+      socketService.sendTyping(applicationId, false);
+    } catch (err: any) {
+      setError(err?.message || 'Message could not be sent');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const lastOwnMessage = [...messages].reverse().find(message => message.sender === user?._id);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white w-full sm:max-w-lg h-[85vh] sm:h-[600px] rounded-t-2xl sm:rounded-2xl shadow-xl flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h2 className="font-semibold text-gray-900 truncate">{title}</h2>
+            {subtitle && <p className="text-sm text-gray-500 truncate">{subtitle}</p>}
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!contactDetailsVisible && (
+          <div className="flex items-start gap-2 px-4 py-2 bg-yellow-50 text-yellow-800 text-xs border-b border-yellow-100">
+            <ShieldAlert className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>Phone numbers and email addresses are hidden until the application is shortlisted.</span>
+          </div>
+        )}
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {nextCursor && (
+            <div className="text-center">
+              <button onClick={loadOlder} className="text-xs text-blue-600 hover:text-blue-700">
+                Load older messages
+              </button>
+            </div>
+          )}
+          {loading && <p className="text-center text-sm text-gray-500">Loading messages...</p>}
+          {!loading && messages.length === 0 && (
+            <p className="text-center text-sm text-gray-500">No messages yet. Say hello!</p>
+          )}
+          {messages.map(message => {
+            const isOwn = message.sender === user?._id;
+            return (
+              <div key={message._id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[80%] px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words ${
+                  isOwn ? 'bg-blue-600 text-white rounded-br-sm' : 'bg-gray-100 text-gray-900 rounded-bl-sm'
+                }`}>
+                  {message.body}
+                  <div className={`flex items-center gap-1 mt-1 text-[10px] ${isOwn ? 'text-blue-100 justify-end' : 'text-gray-500'}`}>
+                    {new Date(message.createdAt).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' })}
+                    {isOwn && message._id === lastOwnMessage?._id && message.readAt && (
+                      <>
+                        <CheckCheck className="w-3 h-3" />
+                        Seen
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {otherTyping && <p className="text-xs text-gray-500 italic">typing...</p>}
+          <div ref={bottomRef} />
+        </div>
+
+        {error && <p className="px-4 py-1 text-xs text-red-600">{error}</p>}
+
+        {/* Composer */}
+        {isClosed ? (
+          <div className="p-4 border-t border-gray-200 text-center text-sm text-gray-500">
+            This conversation is closed.
+          </div>
+        ) : (
+          <form onSubmit={handleSend} className="flex items-end gap-2 p-4 border-t border-gray-200">
+            <textarea
+              value={draft}
+              onChange={(e) => handleDraftChange(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend(e);
+                }
+              }}
+              rows={1}
+              maxLength={2000}
+              placeholder="Write a message..."
+              className="flex-1 resize-none px-3 py-2 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={sending || !draft.trim()}
+              className="p-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default ApplicationChat;
@@ -27,17 +27,26 @@ import {
   FileText,
   Bookmark,
   Settings,
+  UserPlus,
   BarChart3,
   X,
   LogOut,
-  RefreshCcw
+  RefreshCcw,
+  Send,
+  CalendarPlus,
+  Copy,
+  Upload,
+  CalendarDays,
+  ClipboardCheck
 } from 'lucide-react';
 import StatsCard from './StatsCard';
 import NotificationCard from './NotificationCard';
+import EmployerTimesheets from './EmployerTimesheets';
 import { apiService, type JobsResponse, type Job, type ApplicationsResponse } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
 import NotificationDropdown from './NotificationDropdown';
+import { APPLICATION_STATUS_COLORS, APPLICATION_STATUS_LABELS, DEFAULT_DEADLINE_EXTENSION_DAYS, type ApplicationStatus } from '../lib/constants';
 
 interface JobPosting extends Job {
   jobTitle?: string;
@@ -45,6 +54,11 @@ interface JobPosting extends Job {
   approvalStatus?: string;
   salaryRange?: string;
   workType?: string;
+  applicationDeadline?: string;
+  publishAt?: string;
+  positions?: number;
+  filledPositions?: number;
+  shiftsCount?: number;
   applications: number;
   applicants?: Array<{
     applicationId: string;
@@ -93,6 +107,17 @@ interface Notification {
   isRead: boolean;
 }
 
+interface UpcomingInterview {
+  _id: string;
+  job: { _id: string; jobTitle: string };
+  student: { _id: string; name: string; email: string };
+  proposedSlots: Array<{ _id: string; start: string; end: string }>;
+  proposedBy: 'student' | 'employer';
+  selectedSlot?: { start: string; end: string };
+  mode: 'in-person' | 'phone' | 'video';
+  status: 'proposed' | 'scheduled';
+}
+
 interface EmployerHomeProps {
   user: any;
 }
@@ -128,6 +153,49 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
   const [kycStep, setKycStep] = useState<number>(1);
   const totalKycSteps = 4;
   const [proofUploading, setProofUploading] = useState<boolean>(false);
+  const [interviews, setInterviews] = useState<UpcomingInterview[]>([]);
+
+  const fetchInterviews = React.useCallback(async () => {
+    try {
+      const interviewsData = await apiService.getUpcomingInterviews();
+      setInterviews(Array.isArray(interviewsData?.interviews) ? interviewsData.interviews : []);
+    } catch (error) {
+      console.error('Error fetching interviews:', error);
+      setInterviews([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInterviews();
+    window.addEventListener('interviewUpdate', fetchInterviews);
+    return () => window.removeEventListener('interviewUpdate', fetchInterviews);
+  }, [fetchInterviews]);
+
+  const handleConfirmInterview = async (interviewId: string, slotId: string) => {
+    try {
+      await apiService.confirmInterview(interviewId, slotId);
+      fetchInterviews();
+    } catch (error: any) {
+      alert(error?.message || 'Could not confirm this slot');
+    }
+  };
+
+  const handleCancelInterview = async (interviewId: string) => {
+    const reason = window.prompt('Let the candidate know why you are cancelling (optional)');
+    if (reason === null) return;
+    try {
+      await apiService.cancelInterview(interviewId, reason || undefined);
+      fetchInterviews();
+    } catch (error: any) {
+      alert(error?.message || 'Could not cancel the interview');
+    }
+  };
+
+  const formatInterviewTime = (slot: { start: string; end: string }) => {
+    const start = new Date(slot.start);
+    const end = new Date(slot.end);
+    return `${start.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' })}, ${start.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' })} - ${end.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' })}`;
+  };
 
   // Fetch data from API
   const fetchData = React.useCallback(async () => {
@@ -260,7 +328,7 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
             stats: {
               ...prev.stats,
               totalApplications: applicationsData.applications?.length || 0,
-              pendingApprovals: (applicationsData.applications || []).filter(app => app.status === 'pending').length
+              pendingApprovals: (applicationsData.applications || []).filter(app => app.status === 'applied').length
             }
           }));
         }).catch(console.error);
@@ -361,6 +429,31 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
     }
   };
 
+  const handleExtendDeadline = async (jobId: string) => {
+    try {
+      await apiService.extendJobDeadline(jobId, DEFAULT_DEADLINE_EXTENSION_DAYS);
+      await fetchData();
+    } catch (error) {
+      console.error('Error extending job deadline:', error);
+      alert(error instanceof Error ? error.message : 'Failed to extend the deadline. Please try again.');
+    }
+  };
+
+  // The copy is a draft, so the employer can check it before publishing
+  const handleDuplicateJob = async (jobId: string) => {
+    const suggested = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const deadline = prompt('Application deadline for the new job (YYYY-MM-DD):', suggested);
+    if (!deadline) return;
+    try {
+      await apiService.duplicateJob(jobId, { applicationDeadline: deadline, status: 'draft' });
+      await fetchData();
+      alert('Job duplicated as a draft. Publish it when you are ready.');
+    } catch (error) {
+      console.error('Error duplicating job:', error);
+      alert(error instanceof Error ? error.message : 'Failed to duplicate the job. Please try again.');
+    }
+  };
+
   const handleVerifyJob = async (jobId: string) => {
     try {
       const jobDetails = await apiService.getJob(jobId);
@@ -614,13 +707,22 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
             <h2 className="text-lg font-semibold text-gray-900">Your Job Postings</h2>
           </div>
           {canPostJob ? (
-            <Link
-              href="/employer/post-job"
-              className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm font-medium"
-            >
-              <Plus className="w-4 h-4" />
-              Post New Job
-            </Link>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/employer/jobs/import"
+                className="flex items-center gap-2 px-4 py-2 border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 transition-colors text-sm font-medium"
+              >
+                <Upload className="w-4 h-4" />
+                Import Jobs
+              </Link>
+              <Link
+                href="/employer/post-job"
+                className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                Post New Job
+              </Link>
+            </div>
           ) : (
             <button
               onClick={() => router.push('/employer/kyc')}
@@ -723,9 +825,11 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
                         <span className={`text-xs px-2 py-1 rounded-full ${
                           job.status === 'active' ? 'bg-green-100 text-green-600' : 
                           job.status === 'pending' ? 'bg-orange-100 text-orange-600' :
+                          job.status === 'draft' ? 'bg-blue-100 text-blue-600' :
+                          job.status === 'expired' ? 'bg-red-100 text-red-600' :
                           'bg-gray-100 text-gray-600'
                         }`}>
-                          {job.status}
+                          {job.status === 'draft' && job.publishAt ? 'scheduled' : job.status}
                         </span>
                       </div>
                     </div>
@@ -746,6 +850,24 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
                         <Users className="w-4 h-4" />
                         <span>{job.applications} applications</span>
                       </div>
+                      {(job.positions ?? 1) > 1 && (
+                        <div className={`flex items-center gap-1 ${(job.filledPositions ?? 0) >= (job.positions ?? 1) ? 'text-green-600' : ''}`}>
+                          <CheckCircle className="w-4 h-4" />
+                          <span>{job.filledPositions ?? 0} of {job.positions} hired</span>
+                        </div>
+                      )}
+                      {job.status === 'draft' && job.publishAt && (
+                        <div className="flex items-center gap-1 text-blue-600">
+                          <Clock className="w-4 h-4" />
+                          <span>Publishes {new Date(job.publishAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                        </div>
+                      )}
+                      {job.status === 'expired' && job.applicationDeadline && (
+                        <div className="flex items-center gap-1 text-red-600">
+                          <Clock className="w-4 h-4" />
+                          <span>Expired {new Date(job.applicationDeadline).toLocaleDateString()}</span>
+                        </div>
+                      )}
                     </div>
                     
                     <p className="text-gray-700 mb-4 line-clamp-2">{job.description}</p>
@@ -777,7 +899,7 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
                                 <div className="text-sm font-medium text-gray-900">{a.name}</div>
                                 <div className="text-xs text-gray-600">{a.email}</div>
                               </div>
-                              <span className={`text-[10px] px-2 py-0.5 rounded-full ${a.status === 'accepted' ? 'bg-green-100 text-green-600' : a.status === 'rejected' ? 'bg-red-100 text-red-600' : 'bg-yellow-100 text-yellow-700'}`}>{a.status}</span>
+                              <span className={`text-[10px] px-2 py-0.5 rounded-full ${APPLICATION_STATUS_COLORS[a.status as ApplicationStatus] || 'bg-yellow-100 text-yellow-700'}`}>{APPLICATION_STATUS_LABELS[a.status as ApplicationStatus] || a.status}</span>
                             </div>
                           ))}
                         </div>
@@ -799,6 +921,34 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
                         View Applications ({job.applications})
                       </Link>
                       
+                      <Link
+                        href={`/employer/jobs/${job._id}/candidates`}
+                        className="flex items-center justify-center gap-2 px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 transition-colors"
+                      >
+                        <UserPlus className="w-4 h-4" />
+                        Find Candidates
+                      </Link>
+
+                      {(job.shiftsCount ?? 0) > 0 && (
+                        <Link
+                          href={`/employer/jobs/${job._id}/roster`}
+                          className="flex items-center justify-center gap-2 px-4 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors"
+                        >
+                          <CalendarDays className="w-4 h-4" />
+                          Shift Roster
+                        </Link>
+                      )}
+
+                      {(job.filledPositions ?? 0) > 0 && (
+                        <Link
+                          href={`/employer/jobs/${job._id}/attendance`}
+                          className="flex items-center justify-center gap-2 px-4 py-2 border border-green-300 text-green-700 rounded-lg hover:bg-green-50 transition-colors"
+                        >
+                          <ClipboardCheck className="w-4 h-4" />
+                          Attendance
+                        </Link>
+                      )}
+
                       <Link 
                         href={`/employer/jobs/${job._id}/edit`}
                         className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -807,6 +957,16 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
                         Edit Job
                       </Link>
 
+                      {(job.status === 'closed' || job.status === 'expired') && (
+                        <button
+                          onClick={() => handleDuplicateJob(job._id)}
+                          className="flex items-center justify-center gap-2 px-4 py-2 border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 transition-colors"
+                        >
+                          <Copy className="w-4 h-4" />
+                          Duplicate
+                        </button>
+                      )}
+
                       <button
                         onClick={() => handleVerifyJob(job._id)}
                         className="flex items-center justify-center gap-2 px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 transition-colors"
@@ -815,7 +975,23 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
                         Verify Job
                       </button>
                       
-                      {job.status === 'active' ? (
+                      {job.status === 'draft' ? (
+                        <button
+                          onClick={() => handleUpdateJobStatus(job._id, 'active')}
+                          className="flex items-center justify-center gap-2 px-4 py-2 border border-green-300 text-green-700 rounded-lg hover:bg-green-50 transition-colors"
+                        >
+                          <Send className="w-4 h-4" />
+                          Publish Now
+                        </button>
+                      ) : job.status === 'expired' ? (
+                        <button
+                          onClick={() => handleExtendDeadline(job._id)}
+                          className="flex items-center justify-center gap-2 px-4 py-2 border border-green-300 text-green-700 rounded-lg hover:bg-green-50 transition-colors"
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                          Extend {DEFAULT_DEADLINE_EXTENSION_DAYS} Days
+                        </button>
+                      ) : job.status === 'active' ? (
                         <button
                           onClick={() => handleUpdateJobStatus(job._id, 'closed')}
                           className="flex items-center justify-center gap-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
@@ -876,12 +1052,8 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
                   )}
                 </div>
                 <div className="text-right">
-                  <span className={`text-xs px-2 py-1 rounded-full ${
-                    application.status === 'accepted' ? 'bg-green-100 text-green-600' :
-                    application.status === 'reviewing' ? 'bg-blue-100 text-blue-600' :
-                    'bg-orange-100 text-orange-600'
-                  }`}>
-                    {application.status}
+                  <span className={`text-xs px-2 py-1 rounded-full ${APPLICATION_STATUS_COLORS[application.status as ApplicationStatus] || 'bg-orange-100 text-orange-600'}`}>
+                    {APPLICATION_STATUS_LABELS[application.status as ApplicationStatus] || application.status}
                   </span>
                   <p className="text-xs text-gray-500 mt-1">{application.appliedDate}</p>
                 </div>
@@ -945,6 +1117,68 @@ const EmployerHome: React.FC<EmployerHomeProps> = ({ user }) => {
         </motion.div>
       </div>
 
+      {/* Upcoming Interviews */}
+      {interviews.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.45 }}
+          className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6"
+        >
+          <div className="flex items-center gap-2 mb-4">
+            <Calendar className="w-5 h-5 text-purple-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Upcoming Interviews</h2>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {interviews.map((interview) => (
+              <div key={interview._id} className="p-4 bg-purple-50 rounded-xl border border-purple-200">
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <div className="min-w-0">
+                    <h3 className="font-medium text-gray-900 truncate">{interview.student?.name}</h3>
+                    <p className="text-sm text-gray-600 truncate">{interview.job?.jobTitle}</p>
+                  </div>
+                  <span className="text-xs bg-purple-100 text-purple-600 px-2 py-1 rounded-full capitalize whitespace-nowrap">
+                    {interview.mode}
+                  </span>
+                </div>
+                {interview.status === 'scheduled' && interview.selectedSlot ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <Clock className="w-4 h-4 text-gray-500" />
+                    {formatInterviewTime(interview.selectedSlot)}
+                  </div>
+                ) : interview.proposedBy === 'student' ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">Candidate asked for a new time:</p>
+                    {interview.proposedSlots.map((slot) => (
+                      <button
+                        key={slot._id}
+                        onClick={() => handleConfirmInterview(interview._id, slot._id)}
+                        className="block w-full text-left text-sm px-3 py-2 bg-white border border-purple-200 rounded-lg hover:bg-purple-100 transition-colors"
+                      >
+                        {formatInterviewTime(slot)}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">Waiting for the candidate to pick one of {interview.proposedSlots.length} slot(s)</p>
+                )}
+                <div className="mt-3 text-right">
+                  <button
+                    onClick={() => handleCancelInterview(interview._id)}
+                    className="text-xs text-red-600 hover:text-red-700"
+                  >
+                    Cancel interview
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
+      {/* Timesheets of hired students */}
+      <EmployerTimesheets />
+
       {/* Notifications */}
       {data.notifications.length > 0 && (
         <motion.div
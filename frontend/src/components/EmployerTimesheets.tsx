@@ -0,0 +1,236 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, ClipboardList, History, Pencil, XCircle } from 'lucide-react';
+import { apiService, type Timesheet } from '../services/api';
+import { TIMESHEET_STATUSES, TIMESHEET_STATUS_COLORS, TIMESHEET_STATUS_LABELS, type TimesheetStatus } from '../lib/constants';
+import { formatShiftDate } from '../lib/utils';
+import TimesheetWeekEditor, { fromTimesheetLines, toTimesheetLines } from './TimesheetWeekEditor';
+import TimesheetHistory from './TimesheetHistory';
+
+type ReviewAction = 'approve' | 'dispute' | 'adjust';
+
+// The review being filled in for one timesheet
+interface Review {
+  timesheetId: string;
+  action: ReviewAction;
+  comment: string;
+  hourlyRate: string;
+  hours: Record<string, string>;
+}
+
+const studentName = (timesheet: Timesheet) =>
+  typeof timesheet.studentId === 'object' ? timesheet.studentId.name : 'Student';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+// Approve, dispute or adjust the weekly hours of hired students
+const EmployerTimesheets: React.FC = () => {
+  const [status, setStatus] = useState<TimesheetStatus>('submitted');
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [review, setReview] = useState<Review | null>(null);
+  const [openHistory, setOpenHistory] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const fetchTimesheets = useCallback(async () => {
+    try {
+      const list = await apiService.getEmployerTimesheets({ status });
+      setTimesheets(list);
+      if (status === 'submitted') setPendingCount(list.length);
+    } catch (err) {
+      console.error('Error fetching timesheets:', err);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchTimesheets();
+  }, [fetchTimesheets]);
+
+  const startReview = (timesheet: Timesheet, action: ReviewAction) => {
+    setReview({
+      timesheetId: timesheet._id,
+      action,
+      comment: '',
+      hourlyRate: timesheet.suggestedHourlyRate !== undefined ? String(timesheet.suggestedHourlyRate) : '',
+      hours: fromTimesheetLines(timesheet.lines)
+    });
+  };
+
+  const submitReview = async () => {
+    if (!review) return;
+    try {
+      setSaving(true);
+      await apiService.reviewTimesheet(review.timesheetId, review.action, {
+        comment: review.comment || undefined,
+        ...(review.action === 'approve' && review.hourlyRate !== '' && { hourlyRate: Number(review.hourlyRate) }),
+        ...(review.action === 'adjust' && { lines: toTimesheetLines(review.hours) })
+      });
+      setReview(null);
+      await fetchTimesheets();
+    } catch (err: any) {
+      console.error('Failed to review timesheet:', err);
+      // eslint-disable-next-line no-alert
+      alert(err?.message || 'Could not update the timesheet');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.45 }}
+      className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-orange-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Timesheets</h2>
+          {pendingCount > 0 && (
+            <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded-full">{pendingCount} to review</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {TIMESHEET_STATUSES.map(option => (
+            <button
+              key={option}
+              onClick={() => { setStatus(option); setReview(null); }}
+              className={`px-3 py-1 rounded-full text-sm border ${
+                status === option ? 'bg-orange-100 border-orange-300 text-orange-700' : 'bg-white border-gray-300 text-gray-600'
+              }`}
+            >
+              {TIMESHEET_STATUS_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {timesheets.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {status === 'submitted' ? 'No timesheets are waiting for your approval.' : `No ${TIMESHEET_STATUS_LABELS[status].toLowerCase()} timesheets.`}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {timesheets.map(timesheet => {
+            const reviewing = review?.timesheetId === timesheet._id ? review : null;
+            return (
+              <li key={timesheet._id} className="py-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {studentName(timesheet)} · <span className="text-gray-600 font-normal">{timesheet.jobId?.jobTitle}</span>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatShiftDate(timesheet.weekStart)} to {formatShiftDate(timesheet.weekEnd)} · {timesheet.totalHours} h
+                      {timesheet.source === 'manual' ? ' · entered by the student' : ' · from check-ins'}
+                      {timesheet.status === 'approved' && ` · ₹${timesheet.amount.toLocaleString('en-IN')} at ₹${timesheet.hourlyRate}/h`}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {timesheet.lines.map(line => `${formatShiftDate(line.date)}: ${line.hours} h`).join(' · ')}
+                    </p>
+                  </div>
+                  <span className={`self-start text-xs px-2 py-1 rounded-full whitespace-nowrap ${TIMESHEET_STATUS_COLORS[timesheet.status]}`}>
+                    {TIMESHEET_STATUS_LABELS[timesheet.status]}
+                  </span>
+                </div>
+
+                {timesheet.status !== 'approved' && !reviewing && (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => startReview(timesheet, 'approve')}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => startReview(timesheet, 'adjust')}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-50"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Adjust
+                    </button>
+                    {timesheet.status === 'submitted' && (
+                      <button
+                        onClick={() => startReview(timesheet, 'dispute')}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-red-300 text-red-600 hover:bg-red-50"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Dispute
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {reviewing && (
+                  <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+                    {reviewing.action === 'approve' && (
+                      <label className="block text-sm text-gray-700">
+                        Hourly rate (₹)
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={reviewing.hourlyRate}
+                          onChange={(e) => setReview({ ...reviewing, hourlyRate: e.target.value })}
+                          placeholder="Rate for this job's pay"
+                          className={inputClass}
+                        />
+                        {reviewing.hourlyRate !== '' && (
+                          <span className="text-xs text-gray-500">
+                            {timesheet.totalHours} h × ₹{reviewing.hourlyRate} = ₹{(timesheet.totalHours * Number(reviewing.hourlyRate)).toFixed(2)}
+                          </span>
+                        )}
+                      </label>
+                    )}
+                    {reviewing.action === 'adjust' && (
+                      <TimesheetWeekEditor
+                        weekStart={timesheet.weekStart}
+                        hours={reviewing.hours}
+                        onChange={(hours) => setReview({ ...reviewing, hours })}
+                      />
+                    )}
+                    <input
+                      type="text"
+                      value={reviewing.comment}
+                      onChange={(e) => setReview({ ...reviewing, comment: e.target.value })}
+                      placeholder={reviewing.action === 'approve' ? 'Comment (optional)' : 'Comment for the student (required)'}
+                      maxLength={500}
+                      className={inputClass}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setReview(null)} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-100">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={submitReview}
+                        disabled={saving || (reviewing.action !== 'approve' && !reviewing.comment.trim())}
+                        className="px-3 py-1.5 text-sm rounded-lg bg-orange-600 text-white hover:bg-orange-700 disabled:opacity-50 capitalize"
+                      >
+                        {saving ? 'Saving...' : reviewing.action}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <button
+                  onClick={() => setOpenHistory(openHistory === timesheet._id ? null : timesheet._id)}
+                  className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                >
+                  <History className="w-3 h-3" />
+                  History
+                </button>
+                {openHistory === timesheet._id && <TimesheetHistory history={timesheet.history} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+};
+
+export default EmployerTimesheets;
@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Copy, FileText, Save, X } from 'lucide-react';
+import { apiService, type JobTemplate, type JobTemplateFields } from '../services/api';
+import { MAX_JOB_TEMPLATES } from '../lib/constants';
+
+interface PastJob {
+  _id: string;
+  title: string;
+  status: string;
+  createdAt: string;
+}
+
+interface JobTemplatePickerProps {
+  // The post-job form as it would be sent, saved when the employer keeps it as a template
+  currentJob: Record<string, any>;
+  canSave: boolean;
+  onLoad: (fields: JobTemplateFields) => void;
+}
+
+const JobTemplatePicker: React.FC<JobTemplatePickerProps> = ({ currentJob, canSave, onLoad }) => {
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [pastJobs, setPastJobs] = useState<PastJob[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [loadingJob, setLoadingJob] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getJobTemplates()
+      .then(data => setTemplates(data?.templates || []))
+      .catch(err => console.error('Error fetching job templates:', err));
+    apiService.getEmployerDashboardJobs()
+      .then(data => setPastJobs((data?.jobs || []) as unknown as PastJob[]))
+      .catch(err => console.error('Error fetching past jobs:', err));
+  }, []);
+
+  const handleLoadTemplate = (templateId: string) => {
+    const template = templates.find(item => item._id === templateId);
+    if (template) onLoad(template);
+  };
+
+  const handleLoadPastJob = async (jobId: string) => {
+    if (!jobId) return;
+    try {
+      setLoadingJob(true);
+      setError('');
+      const data = await apiService.getJobTemplateFieldsFromJob(jobId);
+      onLoad(data.fields);
+    } catch (err: any) {
+      setError(err?.message || 'Could not load that job');
+    } finally {
+      setLoadingJob(false);
+    }
+  };
+
+  // Not a <form>: the picker sits inside the post-job form
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      const data = await apiService.createJobTemplate({ name: name.trim(), job: currentJob });
+      setTemplates(prev => [data.template, ...prev]);
+      setShowForm(false);
+      setName('');
+    } catch (err: any) {
+      setError(err?.message || 'Could not save the template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: JobTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Jobs posted from it are not affected.`)) return;
+    try {
+      await apiService.deleteJobTemplate(template._id);
+      setTemplates(prev => prev.filter(item => item._id !== template._id));
+    } catch (err: any) {
+      setError(err?.message || 'Could not delete the template');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <FileText className="w-4 h-4 inline mr-1" />
+            From a template
+          </label>
+          <select
+            value=""
+            onChange={(e) => handleLoadTemplate(e.target.value)}
+            disabled={templates.length === 0}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:bg-gray-50"
+          >
+            <option value="">{templates.length === 0 ? 'No templates yet' : 'Choose a template'}</option>
+            {templates.map(template => (
+              <option key={template._id} value={template._id}>{template.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <Copy className="w-4 h-4 inline mr-1" />
+            From a past job
+          </label>
+          <select
+            value=""
+            onChange={(e) => handleLoadPastJob(e.target.value)}
+            disabled={pastJobs.length === 0 || loadingJob}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:bg-gray-50"
+          >
+            <option value="">{loadingJob ? 'Loading...' : pastJobs.length === 0 ? 'No past jobs' : 'Choose a job'}</option>
+            {pastJobs.map(job => (
+              <option key={job._id} value={job._id}>
+                {job.title} ({job.status}, {new Date(job.createdAt).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {templates.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600 mr-1">Your templates:</span>
+          {templates.map(template => (
+            <span
+              key={template._id}
+              className="inline-flex items-center gap-1 pl-3 pr-1 py-1 bg-orange-50 text-orange-800 rounded-full text-sm"
+            >
+              <button type="button" onClick={() => onLoad(template)} className="hover:underline">
+                {template.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(template)}
+                title="Delete template"
+                className="p-1 rounded-full hover:bg-orange-100"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {showForm ? (
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            placeholder="Template name, e.g. Semester warehouse helpers"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || !name.trim()}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg text-sm hover:bg-orange-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setShowForm(false); setError(''); }}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : templates.length < MAX_JOB_TEMPLATES && (
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          disabled={!canSave}
+          title={canSave ? undefined : 'Enter a job title first'}
+          className="inline-flex items-center gap-1 px-3 py-1 border border-orange-300 text-orange-700 rounded-full text-sm hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-3.5 h-3.5" />
+          Save this form as a template
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default JobTemplatePicker;
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNotifications } from '../contexts/NotificationContext';
+import { apiService } from '../services/api';
 import {
   Bell,
   X,
@@ -9,10 +10,15 @@ import {
   FileText,
   Briefcase,
   Clock,
+  Calendar,
   Eye,
   EyeOff,
   Trash2,
-  CheckCheck
+  CheckCheck,
+  Search,
+  Mail,
+  ClipboardList,
+  Wallet
 } from 'lucide-react';
 
 const NotificationDropdown: React.FC = () => {
@@ -27,17 +33,51 @@ const NotificationDropdown: React.FC = () => {
   } = useNotifications();
 
   const [isOpen, setIsOpen] = useState(false);
+  const [digestFrequency, setDigestFrequency] = useState<'off' | 'daily' | 'weekly' | null>(null);
+
+  // Load the email digest setting the first time the dropdown is opened
+  useEffect(() => {
+    if (!isOpen || digestFrequency !== null) return;
+    apiService.getNotificationPreferences()
+      .then((data: any) => setDigestFrequency(data?.digestFrequency || 'off'))
+      .catch((error) => console.error('Failed to load notification preferences:', error));
+  }, [isOpen, digestFrequency]);
+
+  const handleDigestFrequencyChange = async (frequency: 'off' | 'daily' | 'weekly') => {
+    const previous = digestFrequency;
+    setDigestFrequency(frequency);
+    try {
+      await apiService.updateDigestFrequency(frequency);
+    } catch (error) {
+      console.error('Failed to update digest frequency:', error);
+      setDigestFrequency(previous);
+    }
+  };
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'job_approved':
         return <CheckCircle className="w-5 h-5 text-green-500" />;
+      case 'saved_search_match':
+        return <Search className="w-5 h-5 text-orange-500" />;
+      case 'bookmark_deadline_reminder':
+        return <Clock className="w-5 h-5 text-purple-500" />;
+      case 'job_invite':
+        return <Mail className="w-5 h-5 text-blue-500" />;
+      case 'job_expired':
+        return <Clock className="w-5 h-5 text-amber-500" />;
       case 'job_rejected':
         return <XCircle className="w-5 h-5 text-red-500" />;
       case 'new_application':
         return <FileText className="w-5 h-5 text-blue-500" />;
       case 'application_status_update':
         return <Briefcase className="w-5 h-5 text-purple-500" />;
+      case 'interview_update':
+        return <Calendar className="w-5 h-5 text-indigo-500" />;
+      case 'timesheet_update':
+        return <ClipboardList className="w-5 h-5 text-orange-500" />;
+      case 'payout_update':
+        return <Wallet className="w-5 h-5 text-green-600" />;
       default:
         return <Bell className="w-5 h-5 text-gray-500" />;
     }
@@ -193,6 +233,23 @@ const NotificationDropdown: React.FC = () => {
               )}
             </div>
 
+            {/* Digest setting */}
+            {digestFrequency !== null && (
+              <div className="px-4 py-2 border-t border-gray-200 flex items-center justify-between text-sm text-gray-600">
+                <label htmlFor="digest-frequency">Email digest</label>
+                <select
+                  id="digest-frequency"
+                  value={digestFrequency}
+                  onChange={(e) => handleDigestFrequencyChange(e.target.value as 'off' | 'daily' | 'weekly')}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="off">Off</option>
+                </select>
+              </div>
+            )}
+
             {/* Footer */}
             {notifications.length > 0 && (
               <div className="p-3 border-t border-gray-200 bg-gray-50">
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileText, Upload, Trash2, Star, Download } from 'lucide-react';
+import { apiService, type Resume } from '../services/api';
+import { MAX_RESUMES, RESUME_ACCEPT } from '../lib/constants';
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Signed links expire within minutes, so they are fetched on click and opened right away
+export const openResumeLink = async (getLink: () => Promise<{ url: string }>) => {
+  try {
+    const link = await getLink();
+    window.open(link.url, '_blank', 'noopener');
+  } catch (error: any) {
+    alert(error?.message || 'Could not open the resume. Please try again.');
+  }
+};
+
+const ResumeManager: React.FC = () => {
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    apiService.getResumes()
+      .then(data => setResumes(data?.resumes || []))
+      .catch(err => console.error('Error fetching resumes:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      setError('');
+      const data = await apiService.uploadResume(file);
+      setResumes(data?.resumes || []);
+    } catch (err: any) {
+      setError(err?.message || 'Upload failed. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSetDefault = async (resumeId: string) => {
+    try {
+      const data = await apiService.setDefaultResume(resumeId);
+      setResumes(data?.resumes || []);
+    } catch (err: any) {
+      setError(err?.message || 'Could not update the default resume');
+    }
+  };
+
+  const handleDelete = async (resumeId: string) => {
+    if (!confirm('Delete this resume? Applications you already sent keep their copy.')) return;
+    try {
+      const data = await apiService.deleteResume(resumeId);
+      setResumes(data?.resumes || []);
+    } catch (err: any) {
+      setError(err?.message || 'Could not delete the resume');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.45 }}
+      className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+          <h2 className="text-base sm:text-lg font-semibold text-gray-900">My Resumes</h2>
+        </div>
+        {resumes.length < MAX_RESUMES && (
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={uploading}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            {uploading ? 'Uploading...' : 'Upload'}
+          </button>
+        )}
+        <input ref={fileInput} type="file" accept={RESUME_ACCEPT} onChange={handleUpload} className="hidden" />
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading resumes...</p>
+      ) : resumes.length === 0 ? (
+        <p className="text-sm text-gray-500">Upload a PDF or DOCX resume (up to 5 MB) to attach it when you apply.</p>
+      ) : (
+        <div className="space-y-2">
+          {resumes.map(resume => (
+            <div key={resume._id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{resume.fileName}</p>
+                <p className="text-xs text-gray-500">
+                  {resume.fileType.toUpperCase()} · {formatFileSize(resume.size)}
+                  {resume.isDefault && <span className="ml-2 text-blue-600">Default</span>}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => openResumeLink(() => apiService.getResumeDownloadLink(resume._id))}
+                  className="p-2 text-gray-500 hover:text-blue-600"
+                  aria-label="Download resume"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                {!resume.isDefault && (
+                  <button
+                    onClick={() => handleSetDefault(resume._id)}
+                    className="p-2 text-gray-500 hover:text-yellow-600"
+                    aria-label="Make default"
+                  >
+                    <Star className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(resume._id)}
+                  className="p-2 text-gray-500 hover:text-red-600"
+                  aria-label="Delete resume"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ResumeManager;
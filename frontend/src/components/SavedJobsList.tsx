@@ -0,0 +1,102 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { Bookmark as BookmarkIcon, Clock, Eye, MapPin, Trash2 } from 'lucide-react';
+import { type Bookmark } from '../services/api';
+import { BOOKMARK_STATE_LABELS } from '../lib/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "Closes today at 6:00 pm" inside the last day, otherwise the date
+const formatDeadline = (deadline: string) => {
+  const date = new Date(deadline);
+  const time = date.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' });
+  if (date.getTime() - Date.now() < DAY_MS) {
+    return date.toDateString() === new Date().toDateString() ? `Closes today at ${time}` : `Closes tomorrow at ${time}`;
+  }
+  return `Closes ${date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`;
+};
+
+interface SavedJobsListProps {
+  bookmarks: Bookmark[];
+  onRemove: (jobId: string) => void;
+}
+
+const SavedJobsList: React.FC<SavedJobsListProps> = ({ bookmarks, onRemove }) => {
+  if (bookmarks.length === 0) {
+    return (
+      <div className="text-center py-6 sm:py-8">
+        <BookmarkIcon className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 mx-auto mb-3 sm:mb-4" />
+        <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No saved jobs yet</h3>
+        <p className="text-gray-600 text-sm sm:text-base">Bookmark jobs to keep them here. We remind you a day before they close.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {bookmarks.map(bookmark => {
+        const isOpen = bookmark.state === 'open';
+        const closingSoon = isOpen && bookmark.applicationDeadline &&
+          new Date(bookmark.applicationDeadline).getTime() - Date.now() < DAY_MS;
+
+        return (
+          <div
+            key={bookmark._id}
+            className={`flex flex-col sm:flex-row sm:items-center gap-3 p-3 sm:p-4 rounded-lg border ${isOpen ? 'border-gray-200' : 'border-gray-200 bg-gray-50'}`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <h3 className={`font-semibold truncate text-sm sm:text-base ${isOpen ? 'text-gray-900' : 'text-gray-500'}`}>
+                  {bookmark.job?.title || bookmark.jobSnapshot.jobTitle}
+                </h3>
+                {!isOpen && (
+                  <span className="px-2 py-0.5 bg-gray-200 text-gray-700 rounded-full text-xs flex-shrink-0">
+                    {BOOKMARK_STATE_LABELS[bookmark.state] || bookmark.state}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs sm:text-sm text-gray-600 truncate">
+                {bookmark.job?.company || bookmark.jobSnapshot.companyName}
+              </p>
+              <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+                <span className="flex items-center gap-1">
+                  <MapPin className="w-3 h-3" />
+                  {bookmark.job?.location || bookmark.jobSnapshot.location}
+                </span>
+                {isOpen && bookmark.applicationDeadline && (
+                  <span className={`flex items-center gap-1 ${closingSoon ? 'text-orange-600 font-medium' : ''}`}>
+                    <Clock className="w-3 h-3" />
+                    {formatDeadline(bookmark.applicationDeadline)}
+                  </span>
+                )}
+                <span>Saved {new Date(bookmark.savedAt).toLocaleDateString()}</span>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {bookmark.state !== 'removed' && (
+                <Link
+                  href={`/jobs/${bookmark.jobId}`}
+                  className="flex items-center justify-center gap-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-xs sm:text-sm"
+                >
+                  <Eye className="w-4 h-4" />
+                  View
+                </Link>
+              )}
+              <button
+                onClick={() => onRemove(bookmark.jobId)}
+                className="flex items-center justify-center gap-1 px-3 py-2 text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors text-xs sm:text-sm"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SavedJobsList;
@@ -0,0 +1,170 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Bell, BellOff, X } from 'lucide-react';
+import { apiService, type SavedSearch } from '../services/api';
+import { MAX_SAVED_SEARCHES } from '../lib/constants';
+import { savedSearchToQuery, searchParamsToRecord } from '../lib/utils';
+
+// Filters of the jobs page that a saved search cannot keep
+const UNSAVED_PARAMS = ['salaryMax', 'salaryBucket'];
+// Parameters about how results are shown rather than which jobs are wanted
+const VIEW_PARAMS = ['sort', 'page', 'limit'];
+
+interface SavedSearchesProps {
+  // Query string of the search currently shown on the jobs page
+  currentQuery: string;
+  onOpen: (query: string) => void;
+}
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({ currentQuery, onOpen }) => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [emailAlerts, setEmailAlerts] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiService.getSavedSearches()
+      .then(data => setSavedSearches(data?.savedSearches || []))
+      .catch(err => console.error('Error fetching saved searches:', err));
+  }, []);
+
+  const params = new URLSearchParams(currentQuery);
+  VIEW_PARAMS.forEach(param => params.delete(param));
+  const hasFilters = Array.from(params.keys()).some(key => !UNSAVED_PARAMS.includes(key));
+  const droppedFilters = UNSAVED_PARAMS.some(param => params.has(param));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError('');
+      const data = await apiService.createSavedSearch({
+        name: name.trim(),
+        query: searchParamsToRecord(params),
+        emailAlerts
+      });
+      setSavedSearches(prev => [data.savedSearch, ...prev]);
+      setShowForm(false);
+      setName('');
+      setEmailAlerts(false);
+    } catch (err: any) {
+      setError(err?.message || 'Could not save this search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEmail = async (savedSearch: SavedSearch) => {
+    try {
+      const data = await apiService.updateSavedSearch(savedSearch._id, { emailAlerts: !savedSearch.emailAlerts });
+      setSavedSearches(prev => prev.map(item => item._id === savedSearch._id ? data.savedSearch : item));
+    } catch (err: any) {
+      setError(err?.message || 'Could not update email alerts');
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${savedSearch.name}"? You will stop getting alerts for it.`)) return;
+    try {
+      await apiService.deleteSavedSearch(savedSearch._id);
+      setSavedSearches(prev => prev.filter(item => item._id !== savedSearch._id));
+    } catch (err: any) {
+      setError(err?.message || 'Could not delete the saved search');
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700 mr-1">Saved searches:</span>
+        {savedSearches.length === 0 && (
+          <span className="text-sm text-gray-400">None yet</span>
+        )}
+        {savedSearches.map(savedSearch => (
+          <span
+            key={savedSearch._id}
+            className="inline-flex items-center gap-1 pl-3 pr-1 py-1 bg-orange-50 text-orange-800 rounded-full text-sm"
+          >
+            <button onClick={() => onOpen(savedSearchToQuery(savedSearch.criteria))} className="hover:underline">
+              {savedSearch.name}
+            </button>
+            <button
+              onClick={() => handleToggleEmail(savedSearch)}
+              title={savedSearch.emailAlerts ? 'Email alerts on - click to turn off' : 'Email alerts off - click to turn on'}
+              className="p-1 rounded-full hover:bg-orange-100"
+            >
+              {savedSearch.emailAlerts ? <Bell className="w-3.5 h-3.5" /> : <BellOff className="w-3.5 h-3.5 text-orange-400" />}
+            </button>
+            <button
+              onClick={() => handleDelete(savedSearch)}
+              title="Delete saved search"
+              className="p-1 rounded-full hover:bg-orange-100"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </span>
+        ))}
+
+        {!showForm && savedSearches.length < MAX_SAVED_SEARCHES && (
+          <button
+            onClick={() => setShowForm(true)}
+            disabled={!hasFilters}
+            title={hasFilters ? undefined : 'Choose some filters first'}
+            className="inline-flex items-center gap-1 px-3 py-1 border border-orange-300 text-orange-700 rounded-full text-sm hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Bookmark className="w-3.5 h-3.5" />
+            Save this search
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-center">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            placeholder="Name, e.g. Weekend cafe jobs near PG"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            autoFocus
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={emailAlerts}
+              onChange={(e) => setEmailAlerts(e.target.checked)}
+              className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+            />
+            Email me new matches
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg text-sm hover:bg-orange-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+      {showForm && droppedFilters && (
+        <p className="mt-2 text-xs text-gray-500">Max pay and pay bands are not kept in saved searches; alerts use the other filters.</p>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default SavedSearches;
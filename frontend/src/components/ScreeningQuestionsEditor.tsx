@@ -0,0 +1,207 @@
+"use client";
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { ScreeningQuestion } from '../services/api';
+import {
+  SCREENING_QUESTION_TYPES,
+  SCREENING_QUESTION_TYPE_LABELS,
+  MAX_SCREENING_QUESTIONS,
+  type ScreeningQuestionType
+} from '../lib/constants';
+
+interface ScreeningQuestionsEditorProps {
+  questions: ScreeningQuestion[];
+  onChange: (questions: ScreeningQuestion[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const ScreeningQuestionsEditor: React.FC<ScreeningQuestionsEditorProps> = ({ questions, onChange }) => {
+  const update = (index: number, changes: Partial<ScreeningQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const changeType = (index: number, type: ScreeningQuestionType) => {
+    update(index, {
+      type,
+      options: type === 'multiple_choice' ? ['', ''] : undefined,
+      knockout: undefined
+    });
+  };
+
+  const addQuestion = () => {
+    onChange([...questions, { prompt: '', type: 'yes_no', required: true }]);
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  const toggleAcceptedOption = (index: number, option: string) => {
+    const accepted = questions[index].knockout?.acceptedOptions || [];
+    const next = accepted.includes(option) ? accepted.filter(o => o !== option) : [...accepted, option];
+    update(index, { knockout: next.length > 0 ? { acceptedOptions: next } : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, index) => (
+        <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3 bg-gray-50">
+          <div className="flex items-start gap-2">
+            <input
+              type="text"
+              value={question.prompt}
+              onChange={(e) => update(index, { prompt: e.target.value })}
+              placeholder="e.g., Do you have a two-wheeler licence?"
+              maxLength={300}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => removeQuestion(index)}
+              className="p-2 text-gray-500 hover:text-red-600"
+              aria-label="Remove question"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select
+              value={question.type}
+              onChange={(e) => changeType(index, e.target.value as ScreeningQuestionType)}
+              className={inputClass}
+            >
+              {SCREENING_QUESTION_TYPES.map(type => (
+                <option key={type} value={type}>{SCREENING_QUESTION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={question.required}
+                onChange={(e) => update(index, { required: e.target.checked })}
+              />
+              Answer required
+            </label>
+          </div>
+
+          {question.type === 'multiple_choice' && (
+            <div className="space-y-2">
+              {(question.options || []).map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => update(index, {
+                      options: (question.options || []).map((o, i) => (i === optionIndex ? e.target.value : o)),
+                      knockout: undefined
+                    })}
+                    placeholder={`Option ${optionIndex + 1}`}
+                    className={inputClass}
+                  />
+                  {(question.options || []).length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => update(index, {
+                        options: (question.options || []).filter((_, i) => i !== optionIndex),
+                        knockout: undefined
+                      })}
+                      className="p-2 text-gray-500 hover:text-red-600"
+                      aria-label="Remove option"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {(question.options || []).length < 10 && (
+                <button
+                  type="button"
+                  onClick={() => update(index, { options: [...(question.options || []), ''] })}
+                  className="text-sm text-orange-600 hover:text-orange-700"
+                >
+                  + Add option
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Knockout rule */}
+          {question.type === 'yes_no' && (
+            <select
+              value={question.knockout?.expected === undefined ? '' : question.knockout.expected ? 'yes' : 'no'}
+              onChange={(e) => update(index, {
+                knockout: e.target.value === '' ? undefined : { expected: e.target.value === 'yes' }
+              })}
+              className={inputClass}
+            >
+              <option value="">No knockout rule</option>
+              <option value="yes">Reject applicants who answer No</option>
+              <option value="no">Reject applicants who answer Yes</option>
+            </select>
+          )}
+
+          {question.type === 'multiple_choice' && (question.options || []).some(Boolean) && (
+            <div>
+              <p className="text-xs text-gray-600 mb-1">Knockout: only accept these answers (leave empty to accept all)</p>
+              <div className="flex flex-wrap gap-2">
+                {(question.options || []).filter(Boolean).map(option => (
+                  <label key={option} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={question.knockout?.acceptedOptions?.includes(option) || false}
+                      onChange={() => toggleAcceptedOption(index, option)}
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {question.type === 'numeric' && (
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="number"
+                value={question.knockout?.min ?? ''}
+                onChange={(e) => {
+                  const min = e.target.value === '' ? undefined : Number(e.target.value);
+                  const max = question.knockout?.max;
+                  update(index, { knockout: min === undefined && max === undefined ? undefined : { min, max } });
+                }}
+                placeholder="Knockout below (min)"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                value={question.knockout?.max ?? ''}
+                onChange={(e) => {
+                  const max = e.target.value === '' ? undefined : Number(e.target.value);
+                  const min = question.knockout?.min;
+                  update(index, { knockout: min === undefined && max === undefined ? undefined : { min, max } });
+                }}
+                placeholder="Knockout above (max)"
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {questions.length < MAX_SCREENING_QUESTIONS && (
+        <button
+          type="button"
+          onClick={addQuestion}
+          className="flex items-center gap-2 px-4 py-2 border border-dashed border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 transition-colors text-sm font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          Add screening question
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ScreeningQuestionsEditor;
@@ -0,0 +1,86 @@
+"use client";
+
+import React from 'react';
+import type { ScreeningQuestion } from '../services/api';
+
+export type ScreeningAnswerInput = Record<string, string>;
+
+interface ScreeningQuestionsFormProps {
+  questions: ScreeningQuestion[];
+  answers: ScreeningAnswerInput;
+  onChange: (answers: ScreeningAnswerInput) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Answers in the shape the apply endpoints expect
+export const toScreeningAnswers = (questions: ScreeningQuestion[], answers: ScreeningAnswerInput) =>
+  questions
+    .filter(question => question._id && answers[question._id] !== undefined && answers[question._id] !== '')
+    .map(question => ({ questionId: question._id!, answer: answers[question._id!] }));
+
+export const hasUnansweredRequired = (questions: ScreeningQuestion[], answers: ScreeningAnswerInput) =>
+  questions.some(question => question.required && question._id && !answers[question._id]?.trim());
+
+const ScreeningQuestionsForm: React.FC<ScreeningQuestionsFormProps> = ({ questions, answers, onChange }) => {
+  const setAnswer = (questionId: string, value: string) => {
+    onChange({ ...answers, [questionId]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.filter(question => question._id).map(question => {
+        const id = question._id!;
+        return (
+          <div key={id}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {question.prompt}{question.required ? ' *' : ''}
+            </label>
+            {question.type === 'yes_no' && (
+              <div className="flex gap-4">
+                {['yes', 'no'].map(value => (
+                  <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name={`screening-${id}`}
+                      checked={answers[id] === value}
+                      onChange={() => setAnswer(id, value)}
+                    />
+                    {value === 'yes' ? 'Yes' : 'No'}
+                  </label>
+                ))}
+              </div>
+            )}
+            {question.type === 'multiple_choice' && (
+              <select value={answers[id] || ''} onChange={(e) => setAnswer(id, e.target.value)} className={inputClass}>
+                <option value="">Select an option</option>
+                {(question.options || []).map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+            {question.type === 'numeric' && (
+              <input
+                type="number"
+                value={answers[id] || ''}
+                onChange={(e) => setAnswer(id, e.target.value)}
+                className={inputClass}
+              />
+            )}
+            {question.type === 'short_text' && (
+              <input
+                type="text"
+                value={answers[id] || ''}
+                maxLength={500}
+                onChange={(e) => setAnswer(id, e.target.value)}
+                className={inputClass}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScreeningQuestionsForm;
@@ -0,0 +1,171 @@
+"use client";
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { JobShift, ShiftRecurrence } from '../services/api';
+import {
+  MAX_JOB_SHIFTS,
+  MAX_SHIFT_HEADCOUNT,
+  WEEK_DAYS,
+  WEEK_DAY_SHORT_LABELS,
+} from '../lib/constants';
+
+interface ShiftScheduleEditorProps {
+  shifts: JobShift[];
+  onChange: (shifts: JobShift[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+const ShiftScheduleEditor: React.FC<ShiftScheduleEditorProps> = ({ shifts, onChange }) => {
+  const update = (index: number, changes: Partial<JobShift>) => {
+    onChange(shifts.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)));
+  };
+
+  const changeRecurrence = (index: number, recurrence: ShiftRecurrence) => {
+    update(index, {
+      recurrence,
+      endDate: recurrence === 'weekly' ? shifts[index].endDate || shifts[index].startDate : undefined,
+      daysOfWeek: recurrence === 'weekly' ? shifts[index].daysOfWeek : []
+    });
+  };
+
+  const toggleDay = (index: number, day: string) => {
+    const days = shifts[index].daysOfWeek;
+    update(index, { daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  const addShift = () => {
+    onChange([...shifts, {
+      recurrence: 'weekly',
+      startDate: today(),
+      endDate: today(),
+      daysOfWeek: ['saturday', 'sunday'],
+      startTime: '10:00',
+      endTime: '16:00',
+      headcount: 1
+    }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {shifts.map((shift, index) => (
+        <div key={shift._id || index} className="p-4 border border-gray-200 rounded-lg space-y-3 bg-gray-50">
+          <div className="flex items-start gap-2">
+            <input
+              type="text"
+              value={shift.label || ''}
+              onChange={(e) => update(index, { label: e.target.value })}
+              placeholder={`Shift ${index + 1} (e.g., Weekend mornings)`}
+              maxLength={60}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(shifts.filter((_, i) => i !== index))}
+              className="p-2 text-gray-500 hover:text-red-600"
+              aria-label="Remove shift"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <select
+              value={shift.recurrence}
+              onChange={(e) => changeRecurrence(index, e.target.value as ShiftRecurrence)}
+              className={inputClass}
+            >
+              <option value="weekly">Repeats weekly</option>
+              <option value="once">One day</option>
+            </select>
+            <input
+              type="date"
+              value={shift.startDate}
+              min={today()}
+              onChange={(e) => update(index, { startDate: e.target.value })}
+              className={inputClass}
+              aria-label={shift.recurrence === 'weekly' ? 'First day' : 'Date'}
+            />
+            {shift.recurrence === 'weekly' && (
+              <input
+                type="date"
+                value={shift.endDate || ''}
+                min={shift.startDate}
+                onChange={(e) => update(index, { endDate: e.target.value })}
+                className={inputClass}
+                aria-label="Last day"
+              />
+            )}
+          </div>
+
+          {shift.recurrence === 'weekly' && (
+            <div className="flex flex-wrap gap-2">
+              {WEEK_DAYS.map(day => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(index, day)}
+                  className={`px-3 py-1 rounded-full text-sm border ${
+                    shift.daysOfWeek.includes(day)
+                      ? 'bg-orange-100 border-orange-300 text-orange-700'
+                      : 'bg-white border-gray-300 text-gray-600'
+                  }`}
+                >
+                  {WEEK_DAY_SHORT_LABELS[day]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-sm text-gray-700">
+              From
+              <input
+                type="time"
+                value={shift.startTime}
+                onChange={(e) => update(index, { startTime: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              To
+              <input
+                type="time"
+                value={shift.endTime}
+                onChange={(e) => update(index, { endTime: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Students needed
+              <input
+                type="number"
+                value={shift.headcount}
+                min={1}
+                max={MAX_SHIFT_HEADCOUNT}
+                onChange={(e) => update(index, { headcount: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {shifts.length < MAX_JOB_SHIFTS && (
+        <button
+          type="button"
+          onClick={addShift}
+          className="flex items-center gap-2 px-4 py-2 border border-dashed border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add shift
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ShiftScheduleEditor;
@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { Wallet } from 'lucide-react';
+import { apiService, type StudentEarnings as Earnings } from '../services/api';
+import { PAYOUT_ITEM_STATUS_COLORS, PAYOUT_ITEM_STATUS_LABELS } from '../lib/constants';
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// What the student has earned, what is still owed and the bank transfers made so far
+const StudentEarnings: React.FC = () => {
+  const [earnings, setEarnings] = useState<Earnings | null>(null);
+
+  useEffect(() => {
+    apiService.getMyEarnings()
+      .then(setEarnings)
+      .catch(err => console.error('Error fetching earnings:', err));
+  }, []);
+
+  if (!earnings || (earnings.balance.earned === 0 && earnings.payouts.length === 0)) return null;
+
+  const { balance, payouts, payrollReady } = earnings;
+  const figures = [
+    { label: 'Earned', value: balance.earned, className: 'text-gray-900' },
+    { label: 'Owed to you', value: balance.payable, className: 'text-orange-600' },
+    { label: 'On the way', value: balance.inTransit, className: 'text-yellow-600' },
+    { label: 'Paid', value: balance.paid, className: 'text-green-600' },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.45 }}
+      className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6"
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <Wallet className="w-4 h-4 sm:w-5 sm:h-5 text-orange-600" />
+        <h2 className="text-base sm:text-lg font-semibold text-gray-900">Earnings</h2>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        {figures.map(figure => (
+          <div key={figure.label} className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">{figure.label}</p>
+            <p className={`text-base sm:text-lg font-semibold ${figure.className}`}>{rupees(figure.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {!payrollReady && balance.payable > 0 && (
+        <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4">
+          Add your bank details and payroll consent in your{' '}
+          <Link href="/kyc-profile" className="underline font-medium">KYC profile</Link>{' '}
+          to be included in the next payout.
+        </p>
+      )}
+
+      {payouts.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {payouts.map(payout => (
+            <li key={payout._id} className="py-2 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{rupees(payout.amount)} to {payout.bankAccount}</p>
+                <p className="text-xs text-gray-500">
+                  {payout.sentAt ? `Sent ${new Date(payout.sentAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}` : 'Being prepared'}
+                  {payout.utr && ` · UTR ${payout.utr}`}
+                </p>
+                {payout.failureReason && <p className="text-xs text-red-600">{payout.failureReason}</p>}
+              </div>
+              <span className={`text-xs px-2 py-1 rounded-full whitespace-nowrap ${PAYOUT_ITEM_STATUS_COLORS[payout.status]}`}>
+                {PAYOUT_ITEM_STATUS_LABELS[payout.status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+};
+
+export default StudentEarnings;
@@ -28,15 +28,24 @@ import {
   ChevronDown,
   ChevronUp,
   LogOut,
-  Shield
+  Shield,
+  MessageSquare,
+  Sparkles
 } from 'lucide-react';
 import StatsCard from './StatsCard';
 import TaskCard from './TaskCard';
 import NotificationCard from './NotificationCard';
-import { apiService, type JobsResponse, type ApplicationsResponse, type Job, type Application } from '../services/api';
+import { apiService, type JobsResponse, type ApplicationsResponse, type Job, type Application, type Bookmark as SavedJob, type RecommendedJob } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
+import ApplicationChat from './ApplicationChat';
+import ResumeManager from './ResumeManager';
+import WorkCheckIn from './WorkCheckIn';
+import StudentTimesheets from './StudentTimesheets';
+import StudentEarnings from './StudentEarnings';
+import SavedJobsList from './SavedJobsList';
 import { useNotifications } from '../contexts/NotificationContext';
 import NotificationDropdown from './NotificationDropdown';
+import { APPLICATION_STATUS_COLORS, APPLICATION_STATUS_LABELS, BOOKMARK_STATE_LABELS, type ApplicationStatus } from '../lib/constants';
 import { kycStatusService } from '../services/kycStatusService';
 
 interface AppliedJob {
@@ -47,20 +56,23 @@ interface AppliedJob {
   notes?: string;
 }
 
-interface SavedJob {
+interface InterviewSlot {
   _id: string;
-  job: Job;
-  savedDate: string;
+  start: string;
+  end: string;
 }
 
 interface Interview {
   _id: string;
-  job: Job;
-  date: string;
-  time: string;
-  type: string;
-  location: string;
-  status: string;
+  job: { _id: string; jobTitle: string; companyName: string; location?: string };
+  proposedSlots: InterviewSlot[];
+  proposedBy: 'student' | 'employer';
+  selectedSlot?: InterviewSlot;
+  mode: 'in-person' | 'phone' | 'video';
+  location?: string;
+  phoneNumber?: string;
+  videoLink?: string;
+  status: 'proposed' | 'scheduled' | 'cancelled' | 'completed';
 }
 
 interface Notification {
@@ -143,7 +155,9 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [appliedJobs, setAppliedJobs] = useState<AppliedJob[]>([]);
   const [savedJobs, setSavedJobs] = useState<SavedJob[]>([]);
+  const [recommendedJobs, setRecommendedJobs] = useState<RecommendedJob[]>([]);
   const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [chatApplication, setChatApplication] = useState<AppliedJob | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
   const [errorMessage, setErrorMessage] = useState<string>('');
@@ -151,6 +165,7 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
   const [selectedLocation, setSelectedLocation] = useState('');
   const [selectedType, setSelectedType] = useState('');
   const [showFilters, setShowFilters] = useState(false);
+  const [jobsTab, setJobsTab] = useState<'all' | 'saved'>('all');
   const [filteredJobs, setFilteredJobs] = useState<Job[]>([]);
   const [kycStatus, setKycStatus] = useState<{isCompleted: boolean, status: string}>({isCompleted: false, status: 'not-submitted'});
 
@@ -199,10 +214,32 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
           setErrorMessage(prev => prev || 'Unable to fetch your applications right now.');
         }
         
-        // Initialize empty arrays for saved jobs, interviews, and notifications
-        // TODO: Implement real API calls for these features
-        setSavedJobs([]);
-        setInterviews([]);
+        // Fetch upcoming interviews
+        try {
+          const interviewsData = await apiService.getUpcomingInterviews();
+          setInterviews(Array.isArray(interviewsData?.interviews) ? interviewsData.interviews : []);
+        } catch (interviewsErr) {
+          console.error('Error fetching interviews:', interviewsErr);
+          setInterviews([]);
+        }
+
+        // Fetch recommendations
+        try {
+          setRecommendedJobs(await apiService.getRecommendedJobs(6));
+        } catch (recommendationsErr) {
+          console.error('Error fetching recommended jobs:', recommendationsErr);
+          setRecommendedJobs([]);
+        }
+
+        // Fetch bookmarked jobs
+        try {
+          setSavedJobs(await apiService.getBookmarks());
+        } catch (bookmarksErr) {
+          console.error('Error fetching saved jobs:', bookmarksErr);
+          setSavedJobs([]);
+        }
+
+        // TODO: Implement real API call for notifications
         setNotifications([]);
         
         // Check KYC status
@@ -234,6 +271,41 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
     fetchData();
   }, []);
 
+  const refreshInterviews = () => {
+    apiService.getUpcomingInterviews().then((data) => {
+      setInterviews(Array.isArray(data?.interviews) ? data.interviews : []);
+    }).catch(console.error);
+  };
+
+  const handleConfirmInterview = async (interviewId: string, slotId: string) => {
+    try {
+      await apiService.confirmInterview(interviewId, slotId);
+      refreshInterviews();
+    } catch (error: any) {
+      alert(error?.message || 'Could not confirm this slot');
+    }
+  };
+
+  const handleCancelInterview = async (interviewId: string) => {
+    const reason = window.prompt('Let the employer know why you are cancelling (optional)');
+    if (reason === null) return;
+    try {
+      await apiService.cancelInterview(interviewId, reason || undefined);
+      refreshInterviews();
+    } catch (error: any) {
+      alert(error?.message || 'Could not cancel the interview');
+    }
+  };
+
+  const formatInterviewSlot = (slot: InterviewSlot) => {
+    const start = new Date(slot.start);
+    const end = new Date(slot.end);
+    return {
+      date: start.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' }),
+      time: `${start.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' })} - ${end.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' })}`
+    };
+  };
+
   // Set up real-time updates for job approvals
   useEffect(() => {
     const token = localStorage.getItem('token');
@@ -254,9 +326,11 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
 
       const listener: EventListener = handleJobApproved;
       window.addEventListener('jobApproved', listener);
+      window.addEventListener('interviewUpdate', refreshInterviews);
 
       return () => {
         window.removeEventListener('jobApproved', listener);
+        window.removeEventListener('interviewUpdate', refreshInterviews);
         socketService.disconnect();
       };
     });
@@ -300,6 +374,14 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
         return;
       }
 
+      const job = jobs.find(j => j._id === jobId) || recommendedJobs.find(j => j._id === jobId);
+
+      // Screening questions are answered on the job page
+      if (job?.screeningQuestions?.length) {
+        router.push(`/jobs/${jobId}`);
+        return;
+      }
+
       const allowedAvailability = ['weekdays', 'weekends', 'both', 'flexible'];
       let availabilityPreference = typeof user?.availability === 'string' ? user.availability.toLowerCase() : undefined;
       if (!availabilityPreference || !allowedAvailability.includes(availabilityPreference)) {
@@ -311,7 +393,6 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
       });
       
       // Update applied jobs list
-      const job = jobs.find(j => j._id === jobId);
       if (job) {
         setAppliedJobs(prev => [...prev, {
           _id: Date.now().toString(),
@@ -334,18 +415,20 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
     }
   };
 
-  const handleSaveJob = (jobId: string) => {
-    const job = jobs.find(j => j._id === jobId);
-    if (job && Array.isArray(savedJobs) && !savedJobs.find(sj => sj.job._id === jobId)) {
-      setSavedJobs(prev => Array.isArray(prev) ? [...prev, {
-        _id: Date.now().toString(),
-        job,
-        savedDate: new Date().toISOString().split('T')[0]
-      }] : [{
-        _id: Date.now().toString(),
-        job,
-        savedDate: new Date().toISOString().split('T')[0]
-      }]);
+  // Bookmark toggle; the list is reloaded so states and deadlines come from the server
+  const handleSaveJob = async (jobId: string) => {
+    const isSaved = savedJobs.some(sj => sj.jobId === jobId);
+    try {
+      if (isSaved) {
+        await apiService.removeBookmark(jobId);
+      } else {
+        await apiService.bookmarkJob(jobId);
+      }
+      setSavedJobs(await apiService.getBookmarks());
+    } catch (error: any) {
+      console.error('Error updating saved job:', error);
+      // eslint-disable-next-line no-alert
+      alert(error?.message || 'Could not update your saved jobs');
     }
   };
 
@@ -554,7 +637,7 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
           value={Array.isArray(savedJobs) ? savedJobs.length : 0}
           icon={Bookmark}
           color="purple"
-          change={`+${Array.isArray(savedJobs) ? savedJobs.filter(job => new Date(job.savedDate) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)).length : 0} this week`}
+          change={`+${Array.isArray(savedJobs) ? savedJobs.filter(job => new Date(job.savedAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)).length : 0} this week`}
           changeType="positive"
         />
         <StatsCard
@@ -562,7 +645,11 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
           value={interviews.filter(i => i.status === 'scheduled').length}
           icon={Calendar}
           color="orange"
-          change={interviews.length > 0 ? `Next: ${interviews[0].date}` : 'No upcoming'}
+          change={(() => {
+            const next = interviews.find(i => i.status === 'scheduled' && i.selectedSlot);
+            if (next?.selectedSlot) return `Next: ${formatInterviewSlot(next.selectedSlot).date}`;
+            return interviews.length > 0 ? `${interviews.length} awaiting a time` : 'No upcoming';
+          })()}
           changeType="neutral"
         />
         <StatsCard
@@ -575,6 +662,86 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
         />
       </div>
 
+      {/* Recommended Jobs Section */}
+      {recommendedJobs.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.1 }}
+          className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6"
+        >
+          <div className="flex items-center gap-2 mb-4">
+            <div className="p-2 bg-blue-600 rounded-full">
+              <Sparkles className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h2 className="text-base sm:text-lg font-semibold text-gray-900">Recommended for you</h2>
+              <p className="text-xs sm:text-sm text-gray-600">Picked from your skills, work preferences, availability and location</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+            {recommendedJobs.map((job) => {
+              const isApplied = Array.isArray(appliedJobs) ? appliedJobs.some(aj => getJobIdFromRef(aj?.job) === job._id) : false;
+
+              return (
+                <div key={job._id} className="flex flex-col border border-gray-200 rounded-lg p-3 sm:p-4 hover:shadow-md transition-shadow">
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <h3 className="font-semibold text-gray-900 text-sm sm:text-base line-clamp-2">{job.title}</h3>
+                    <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs font-medium flex-shrink-0">
+                      {job.recommendation.score}% match
+                    </span>
+                  </div>
+                  <p className="text-xs sm:text-sm text-blue-600 font-medium truncate mb-2">{job.company}</p>
+
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2 mb-3 text-xs text-gray-600">
+                    <div className="flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      <span className="truncate">{job.location}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <DollarSign className="w-3 h-3" />
+                      <span className="truncate">{formatSalaryToINR(job.salary)}</span>
+                    </div>
+                  </div>
+
+                  <ul className="space-y-1 mb-3 flex-1">
+                    {job.recommendation.reasons.map((reason) => (
+                      <li key={reason} className="flex items-start gap-1.5 text-xs text-gray-700">
+                        <CheckCircle className="w-3 h-3 text-green-600 mt-0.5 flex-shrink-0" />
+                        <span>{reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    {isApplied ? (
+                      <div className="flex items-center justify-center gap-1 px-3 py-2 bg-green-100 text-green-700 rounded-lg text-xs">
+                        <CheckCircle className="w-3 h-3" />
+                        <span>Applied</span>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => handleApplyJob(job._id)}
+                        className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-xs font-medium"
+                      >
+                        Apply Now
+                      </button>
+                    )}
+                    <Link
+                      href={`/jobs/${job._id}`}
+                      className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-xs text-center"
+                    >
+                      Details
+                    </Link>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </motion.div>
+      )}
+
       {/* Featured Non-IT Jobs Section - Mobile Optimized */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -598,7 +765,7 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
             .slice(0, 3)
             .map((job) => {
               const isApplied = Array.isArray(appliedJobs) ? appliedJobs.some(aj => aj.job._id === job._id) : false;
-              const isSaved = Array.isArray(savedJobs) ? savedJobs.some(sj => sj.job._id === job._id) : false;
+              const isSaved = Array.isArray(savedJobs) ? savedJobs.some(sj => sj.jobId === job._id) : false;
               
               return (
                 <motion.div
@@ -694,184 +861,205 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
         transition={{ duration: 0.5, delay: 0.1 }}
         className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6"
       >
-        <div className="flex items-center gap-2 mb-4">
-          <Search className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
-          <h2 className="text-base sm:text-lg font-semibold text-gray-900">Find Your Perfect Job</h2>
-        </div>
-        
-        {/* Search Bar - Mobile Optimized */}
-        <div className="flex flex-col gap-3 sm:gap-4 mb-4">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4 sm:w-5 sm:h-5" />
-            <input
-              type="text"
-              placeholder="Search jobs, companies, or keywords..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 sm:pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm sm:text-base"
-            />
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Search className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+            <h2 className="text-base sm:text-lg font-semibold text-gray-900">Find Your Perfect Job</h2>
+          </div>
+          <div className="flex bg-gray-100 rounded-lg p-1 w-fit">
+            {([['all', 'All Jobs'], ['saved', `Saved (${savedJobs.length})`]] as const).map(([tab, label]) => (
+              <button
+                key={tab}
+                onClick={() => setJobsTab(tab)}
+                className={`px-3 py-1.5 rounded-md text-xs sm:text-sm font-medium transition-colors ${
+                  jobsTab === tab ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
-          <button
-            onClick={() => setShowFilters(!showFilters)}
-            className="flex items-center justify-center gap-2 px-4 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm sm:text-base"
-          >
-            <Filter className="w-4 h-4 sm:w-5 sm:h-5" />
-            <span>Filters</span>
-            {showFilters ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-          </button>
         </div>
 
-        {/* Filters - Mobile Optimized */}
-        {showFilters && (
-          <motion.div
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: 'auto' }}
-            exit={{ opacity: 0, height: 0 }}
-            className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4 p-3 sm:p-4 bg-gray-50 rounded-lg"
-          >
-            <div>
-              <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Job Type</label>
-              <select
-                value={selectedType}
-                onChange={(e) => setSelectedType(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        {jobsTab === 'saved' ? (
+          <SavedJobsList bookmarks={savedJobs} onRemove={handleSaveJob} />
+        ) : (
+          <>
+            {/* Search Bar - Mobile Optimized */}
+            <div className="flex flex-col gap-3 sm:gap-4 mb-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4 sm:w-5 sm:h-5" />
+                <input
+                  type="text"
+                  placeholder="Search jobs, companies, or keywords..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full pl-10 sm:pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm sm:text-base"
+                />
+              </div>
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className="flex items-center justify-center gap-2 px-4 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm sm:text-base"
               >
-                {jobTypes.map(type => (
-                  <option key={type} value={type === 'All' ? '' : type}>
-                    {type}
-                  </option>
-                ))}
-              </select>
+                <Filter className="w-4 h-4 sm:w-5 sm:h-5" />
+                <span>Filters</span>
+                {showFilters ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
             </div>
-            <div>
-              <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Location</label>
-              <select
-                value={selectedLocation}
-                onChange={(e) => setSelectedLocation(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+
+            {/* Filters - Mobile Optimized */}
+            {showFilters && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4 p-3 sm:p-4 bg-gray-50 rounded-lg"
               >
-                {locations.map(location => (
-                  <option key={location} value={location === 'All' ? '' : location}>
-                    {location}
-                  </option>
-                ))}
-              </select>
-            </div>
-          </motion.div>
-        )}
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Job Type</label>
+                  <select
+                    value={selectedType}
+                    onChange={(e) => setSelectedType(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
+                    {jobTypes.map(type => (
+                      <option key={type} value={type === 'All' ? '' : type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">Location</label>
+                  <select
+                    value={selectedLocation}
+                    onChange={(e) => setSelectedLocation(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
+                    {locations.map(location => (
+                      <option key={location} value={location === 'All' ? '' : location}>
+                        {location}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </motion.div>
+            )}
 
-        {/* Job Listings - Mobile Optimized */}
-        <div className="space-y-3 sm:space-y-4">
-          {filteredJobs.length === 0 ? (
-            <div className="text-center py-6 sm:py-8">
-              <Briefcase className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 mx-auto mb-3 sm:mb-4" />
-              <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No jobs found</h3>
-              <p className="text-gray-600 text-sm sm:text-base">Try adjusting your search criteria or filters</p>
-            </div>
-          ) : (
-            filteredJobs.map((job) => {
-              const isApplied = Array.isArray(appliedJobs)
-                ? appliedJobs.some(aj => getJobIdFromRef(aj?.job) === job._id)
-                : false;
-
-              const isSaved = Array.isArray(savedJobs)
-                ? savedJobs.some(sj => getJobIdFromRef(sj?.job) === job._id)
-                : false;
+            {/* Job Listings - Mobile Optimized */}
+            <div className="space-y-3 sm:space-y-4">
+              {filteredJobs.length === 0 ? (
+                <div className="text-center py-6 sm:py-8">
+                  <Briefcase className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 mx-auto mb-3 sm:mb-4" />
+                  <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No jobs found</h3>
+                  <p className="text-gray-600 text-sm sm:text-base">Try adjusting your search criteria or filters</p>
+                </div>
+              ) : (
+                filteredJobs.map((job) => {
+                  const isApplied = Array.isArray(appliedJobs)
+                    ? appliedJobs.some(aj => getJobIdFromRef(aj?.job) === job._id)
+                    : false;
+
+                  const isSaved = Array.isArray(savedJobs)
+                    ? savedJobs.some(sj => sj.jobId === job._id)
+                    : false;
               
-              return (
-                <motion.div
-                  key={job._id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="border border-gray-200 rounded-lg sm:rounded-xl p-4 sm:p-6 hover:shadow-md transition-shadow"
-                >
-                  <div className="flex flex-col gap-4">
-                    <div className="flex-1">
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex-1 min-w-0">
-                          <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-1 truncate">{job.title}</h3>
-                          <p className="text-base sm:text-lg text-blue-600 font-medium truncate">{job.company}</p>
-                        </div>
-                        <div className="flex items-center gap-2 ml-3">
-                          <button
-                            onClick={() => handleSaveJob(job._id)}
-                            className={`p-2 rounded-full transition-colors ${
-                              isSaved 
-                                ? 'bg-purple-100 text-purple-600' 
-                                : 'bg-gray-100 text-gray-400 hover:bg-purple-100 hover:text-purple-600'
-                            }`}
-                          >
-                            <Bookmark className={`w-4 h-4 sm:w-5 sm:h-5 ${isSaved ? 'fill-current' : ''}`} />
-                          </button>
-                        </div>
-                      </div>
+                  return (
+                    <motion.div
+                      key={job._id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="border border-gray-200 rounded-lg sm:rounded-xl p-4 sm:p-6 hover:shadow-md transition-shadow"
+                    >
+                      <div className="flex flex-col gap-4">
+                        <div className="flex-1">
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex-1 min-w-0">
+                              <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-1 truncate">{job.title}</h3>
+                              <p className="text-base sm:text-lg text-blue-600 font-medium truncate">{job.company}</p>
+                            </div>
+                            <div className="flex items-center gap-2 ml-3">
+                              <button
+                                onClick={() => handleSaveJob(job._id)}
+                                className={`p-2 rounded-full transition-colors ${
+                                  isSaved 
+                                    ? 'bg-purple-100 text-purple-600' 
+                                    : 'bg-gray-100 text-gray-400 hover:bg-purple-100 hover:text-purple-600'
+                                }`}
+                              >
+                                <Bookmark className={`w-4 h-4 sm:w-5 sm:h-5 ${isSaved ? 'fill-current' : ''}`} />
+                              </button>
+                            </div>
+                          </div>
                       
-                      <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4 text-sm text-gray-600">
-                        <div className="flex items-center gap-1">
-                          <MapPin className="w-4 h-4" />
-                          <span className="truncate">{job.location}</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <DollarSign className="w-4 h-4" />
-                          <span className="truncate">{formatSalaryToINR(job.salary)}</span>
-                        </div>
-                        <span className="px-2 py-1 bg-blue-100 text-blue-600 rounded-full text-xs w-fit">
-                          {job.type}
-                        </span>
-                      </div>
+                          <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-4 text-sm text-gray-600">
+                            <div className="flex items-center gap-1">
+                              <MapPin className="w-4 h-4" />
+                              <span className="truncate">{job.location}</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <DollarSign className="w-4 h-4" />
+                              <span className="truncate">{formatSalaryToINR(job.salary)}</span>
+                            </div>
+                            <span className="px-2 py-1 bg-blue-100 text-blue-600 rounded-full text-xs w-fit">
+                              {job.type}
+                            </span>
+                          </div>
                       
-                      <p className="text-gray-700 mb-4 line-clamp-2 text-sm sm:text-base">{job.description}</p>
+                          <p className="text-gray-700 mb-4 line-clamp-2 text-sm sm:text-base">{job.description}</p>
                       
-                      <div className="flex flex-wrap gap-2 mb-4">
-                        {job.requirements?.slice(0, 3).map((req, index) => (
-                          <span key={index} className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-xs sm:text-sm truncate">
-                            {req}
-                          </span>
-                        ))}
-                        {job.requirements && job.requirements.length > 3 && (
-                          <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-xs sm:text-sm">
-                            +{job.requirements.length - 3} more
-                          </span>
-                        )}
-                      </div>
-                    </div>
+                          <div className="flex flex-wrap gap-2 mb-4">
+                            {job.requirements?.slice(0, 3).map((req, index) => (
+                              <span key={index} className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-xs sm:text-sm truncate">
+                                {req}
+                              </span>
+                            ))}
+                            {job.requirements && job.requirements.length > 3 && (
+                              <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-xs sm:text-sm">
+                                +{job.requirements.length - 3} more
+                              </span>
+                            )}
+                          </div>
+                        </div>
                     
-                    <div className="flex flex-col gap-3">
-                      <div className="text-xs sm:text-sm text-gray-500">
-                        Posted {new Date(job.createdAt).toLocaleDateString()}
-                      </div>
-                      
-                      <div className="flex flex-col sm:flex-row gap-2">
-                        {isApplied ? (
-                          <div className="flex items-center justify-center gap-2 px-4 py-2 bg-green-100 text-green-700 rounded-lg">
-                            <CheckCircle className="w-4 h-4" />
-                            <span className="text-sm font-medium">Applied</span>
+                        <div className="flex flex-col gap-3">
+                          <div className="text-xs sm:text-sm text-gray-500">
+                            Posted {new Date(job.createdAt).toLocaleDateString()}
                           </div>
-                        ) : (
-                          <button
-                            onClick={() => handleApplyJob(job._id)}
-                            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium text-sm sm:text-base"
-                          >
-                            <Plus className="w-4 h-4" />
-                            Apply Now
-                          </button>
-                        )}
+                      
+                          <div className="flex flex-col sm:flex-row gap-2">
+                            {isApplied ? (
+                              <div className="flex items-center justify-center gap-2 px-4 py-2 bg-green-100 text-green-700 rounded-lg">
+                                <CheckCircle className="w-4 h-4" />
+                                <span className="text-sm font-medium">Applied</span>
+                              </div>
+                            ) : (
+                              <button
+                                onClick={() => handleApplyJob(job._id)}
+                                className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium text-sm sm:text-base"
+                              >
+                                <Plus className="w-4 h-4" />
+                                Apply Now
+                              </button>
+                            )}
                         
-                        <Link 
-                          href={`/jobs/${job._id}`}
-                          className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm sm:text-base"
-                        >
-                          <Eye className="w-4 h-4" />
-                          View Details
-                        </Link>
+                            <Link 
+                              href={`/jobs/${job._id}`}
+                              className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm sm:text-base"
+                            >
+                              <Eye className="w-4 h-4" />
+                              View Details
+                            </Link>
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                </motion.div>
-              );
-            })
-          )}
-        </div>
+                    </motion.div>
+                  );
+                })
+              )}
+            </div>
+          </>
+        )}
       </motion.div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
@@ -894,14 +1082,17 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
                   <p className="text-xs sm:text-sm text-gray-600 truncate">{application.job.company} • {application.job.location}</p>
                 </div>
                 <div className="flex items-center justify-between sm:flex-col sm:items-end gap-2">
-                  <span className={`text-xs px-2 py-1 rounded-full ${
-                    application.status === 'accepted' ? 'bg-green-100 text-green-600' :
-                    application.status === 'reviewing' ? 'bg-blue-100 text-blue-600' :
-                    'bg-yellow-100 text-yellow-600'
-                  }`}>
-                    {application.status}
+                  <span className={`text-xs px-2 py-1 rounded-full ${APPLICATION_STATUS_COLORS[application.status as ApplicationStatus] || 'bg-yellow-100 text-yellow-600'}`}>
+                    {APPLICATION_STATUS_LABELS[application.status as ApplicationStatus] || application.status}
                   </span>
                   <p className="text-xs text-gray-500">{application.appliedDate}</p>
+                  <button
+                    onClick={() => setChatApplication(application)}
+                    className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    <MessageSquare className="w-3 h-3" />
+                    Message
+                  </button>
                 </div>
               </div>
             )) : null}
@@ -929,17 +1120,27 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
               <div key={savedJob._id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
                 <div className="flex items-start justify-between gap-2">
                   <div className="flex-1 min-w-0">
-                    <h3 className="font-medium text-gray-900 text-sm sm:text-base truncate">{savedJob.job?.title || 'Job Title Not Available'}</h3>
-                    <p className="text-xs sm:text-sm text-gray-600 truncate">{savedJob.job?.company || 'Company Not Available'}</p>
+                    <h3 className="font-medium text-gray-900 text-sm sm:text-base truncate">{savedJob.job?.title || savedJob.jobSnapshot.jobTitle}</h3>
+                    <p className="text-xs sm:text-sm text-gray-600 truncate">{savedJob.job?.company || savedJob.jobSnapshot.companyName}</p>
                     <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2 mt-2">
-                      <span className="text-xs bg-green-100 text-green-600 px-2 py-1 rounded-full w-fit">
-                        {formatSalaryToINR(savedJob.job?.salary)}
-                      </span>
-                      <span className="text-xs text-gray-500 truncate">{savedJob.job?.location || 'Location Not Available'}</span>
+                      {savedJob.state === 'open' ? (
+                        <span className="text-xs bg-green-100 text-green-600 px-2 py-1 rounded-full w-fit">
+                          {formatSalaryToINR(savedJob.job?.salary)}
+                        </span>
+                      ) : (
+                        <span className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded-full w-fit">
+                          {BOOKMARK_STATE_LABELS[savedJob.state] || savedJob.state}
+                        </span>
+                      )}
+                      <span className="text-xs text-gray-500 truncate">{savedJob.job?.location || savedJob.jobSnapshot.location}</span>
                     </div>
                   </div>
-                  <button className="text-purple-600 hover:text-purple-700 flex-shrink-0">
-                    <Star className="w-4 h-4 sm:w-5 sm:h-5 fill-current" />
+                  <button
+                    onClick={() => handleSaveJob(savedJob.jobId)}
+                    title="Remove from saved jobs"
+                    className="text-purple-600 hover:text-purple-700 flex-shrink-0"
+                  >
+                    <Bookmark className="w-4 h-4 sm:w-5 sm:h-5 fill-current" />
                   </button>
                 </div>
               </div>
@@ -971,31 +1172,87 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
                 <div className="flex items-center gap-3 mb-3">
                   <Building className="w-4 h-4 sm:w-5 sm:h-5 text-orange-600" />
                   <div className="min-w-0 flex-1">
-                    <h3 className="font-medium text-gray-900 text-sm sm:text-base truncate">{interview.job.company}</h3>
-                    <p className="text-xs sm:text-sm text-gray-600 truncate">{interview.job.title}</p>
+                    <h3 className="font-medium text-gray-900 text-sm sm:text-base truncate">{interview.job?.companyName}</h3>
+                    <p className="text-xs sm:text-sm text-gray-600 truncate">{interview.job?.jobTitle}</p>
                   </div>
                 </div>
-                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
-                  <div className="flex items-center gap-2">
-                    <Calendar className="w-3 h-3 sm:w-4 sm:h-4 text-gray-500" />
-                    <span className="text-xs sm:text-sm text-gray-600">{interview.date}</span>
+                {interview.status === 'scheduled' && interview.selectedSlot ? (
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
+                    <div className="flex items-center gap-2">
+                      <Calendar className="w-3 h-3 sm:w-4 sm:h-4 text-gray-500" />
+                      <span className="text-xs sm:text-sm text-gray-600">{formatInterviewSlot(interview.selectedSlot).date}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-gray-500" />
+                      <span className="text-xs sm:text-sm text-gray-600">{formatInterviewSlot(interview.selectedSlot).time}</span>
+                    </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-gray-500" />
-                    <span className="text-xs sm:text-sm text-gray-600">{interview.time}</span>
+                ) : interview.proposedBy === 'employer' ? (
+                  <div className="mb-3">
+                    <p className="text-xs sm:text-sm text-gray-600 mb-2">Pick a time that works for you:</p>
+                    <div className="flex flex-col gap-2">
+                      {interview.proposedSlots.map((slot) => (
+                        <button
+                          key={slot._id}
+                          onClick={() => handleConfirmInterview(interview._id, slot._id)}
+                          className="text-left text-xs sm:text-sm px-3 py-2 bg-white border border-orange-200 rounded-lg hover:bg-orange-100 transition-colors"
+                        >
+                          {formatInterviewSlot(slot).date} · {formatInterviewSlot(slot).time}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
-                <div>
-                  <span className="text-xs bg-orange-100 text-orange-600 px-2 py-1 rounded-full">
-                    {interview.type} Interview
+                ) : (
+                  <p className="text-xs sm:text-sm text-gray-600 mb-3">Waiting for the employer to confirm a time</p>
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs bg-orange-100 text-orange-600 px-2 py-1 rounded-full capitalize">
+                    {interview.mode} Interview
                   </span>
+                  <button
+                    onClick={() => handleCancelInterview(interview._id)}
+                    className="text-xs text-red-600 hover:text-red-700"
+                  >
+                    Cancel
+                  </button>
                 </div>
+                {interview.status === 'scheduled' && (
+                  <p className="text-xs text-gray-500 mt-2 truncate">
+                    {interview.mode === 'video' && interview.videoLink ? (
+                      <a href={interview.videoLink} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Join video call</a>
+                    ) : interview.mode === 'phone' ? (
+                      interview.phoneNumber ? `Phone: ${interview.phoneNumber}` : 'Phone interview'
+                    ) : (
+                      interview.location
+                    )}
+                  </p>
+                )}
               </div>
             ))}
           </div>
         </motion.div>
       )}
 
+      {/* Check-in for hired jobs */}
+      <WorkCheckIn />
+
+      {/* Weekly timesheets for hired jobs */}
+      <StudentTimesheets
+        hiredJobs={appliedJobs
+          .filter(application => application.status === 'hired' && application.job)
+          .map(application => ({
+            applicationId: application._id,
+            jobTitle: application.job.title,
+            companyName: application.job.company
+          }))}
+      />
+
+      {/* Earnings ledger and bank payouts */}
+      <StudentEarnings />
+
+      {/* Resumes */}
+      <ResumeManager />
+
       {/* Notifications - Mobile Optimized */}
       {notifications.length > 0 && (
         <motion.div
@@ -1048,6 +1305,15 @@ const StudentHome: React.FC<StudentHomeProps> = ({ user }) => {
           ))}
         </div>
       </motion.div>
+
+      {chatApplication && (
+        <ApplicationChat
+          applicationId={chatApplication._id}
+          title={chatApplication.job.company}
+          subtitle={chatApplication.job.title}
+          onClose={() => setChatApplication(null)}
+        />
+      )}
     </div>
   );
 };
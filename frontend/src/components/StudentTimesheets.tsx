@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ClipboardList, History, RefreshCcw, Send } from 'lucide-react';
+import { apiService, type Timesheet } from '../services/api';
+import { TIMESHEET_STATUS_COLORS, TIMESHEET_STATUS_LABELS } from '../lib/constants';
+import { formatShiftDate, timesheetWeekStart } from '../lib/utils';
+import TimesheetWeekEditor, { fromTimesheetLines, toTimesheetLines } from './TimesheetWeekEditor';
+import TimesheetHistory from './TimesheetHistory';
+
+export interface HiredJob {
+  applicationId: string;
+  jobTitle: string;
+  companyName: string;
+}
+
+interface StudentTimesheetsProps {
+  hiredJobs: HiredJob[];
+}
+
+const thisWeek = () => timesheetWeekStart(new Date().toLocaleDateString('en-CA'));
+
+// Weekly timesheets: sent from check-ins or entered by hand, then approved by the employer
+const StudentTimesheets: React.FC<StudentTimesheetsProps> = ({ hiredJobs }) => {
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [applicationId, setApplicationId] = useState('');
+  const [weekStart, setWeekStart] = useState(thisWeek);
+  const [hours, setHours] = useState<Record<string, string> | null>(null);
+  const [comment, setComment] = useState('');
+  const [openHistory, setOpenHistory] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchTimesheets = useCallback(async () => {
+    try {
+      setTimesheets(await apiService.getMyTimesheets());
+    } catch (err) {
+      console.error('Error fetching timesheets:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTimesheets();
+  }, [fetchTimesheets]);
+
+  useEffect(() => {
+    if (!applicationId && hiredJobs.length > 0) setApplicationId(hiredJobs[0].applicationId);
+  }, [applicationId, hiredJobs]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setBusy(true);
+      setError('');
+      await action();
+      setHours(null);
+      setComment('');
+      await fetchTimesheets();
+    } catch (err: any) {
+      setError(err?.message || 'Could not send the timesheet. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Reopen a disputed week with its hours filled in
+  const fixTimesheet = (timesheet: Timesheet) => {
+    setApplicationId(timesheet.applicationId);
+    setWeekStart(timesheet.weekStart);
+    setHours(fromTimesheetLines(timesheet.lines));
+  };
+
+  if (hiredJobs.length === 0 && timesheets.length === 0) return null;
+
+  const approvedTotal = timesheets
+    .filter(timesheet => timesheet.status === 'approved')
+    .reduce((total, timesheet) => total + timesheet.amount, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.4 }}
+      className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-4 h-4 sm:w-5 sm:h-5 text-orange-600" />
+          <h2 className="text-base sm:text-lg font-semibold text-gray-900">Timesheets</h2>
+        </div>
+        {approvedTotal > 0 && (
+          <span className="text-sm text-green-700">₹{approvedTotal.toLocaleString('en-IN')} approved</span>
+        )}
+      </div>
+
+      {hiredJobs.length > 0 && (
+        <div className="p-3 sm:p-4 bg-orange-50 rounded-lg border border-orange-200 space-y-3 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select
+              value={applicationId}
+              onChange={(e) => setApplicationId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              {hiredJobs.map(job => (
+                <option key={job.applicationId} value={job.applicationId}>{job.jobTitle} · {job.companyName}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Week of
+              <input
+                type="date"
+                value={weekStart}
+                max={new Date().toLocaleDateString('en-CA')}
+                onChange={(e) => e.target.value && setWeekStart(timesheetWeekStart(e.target.value))}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              />
+            </label>
+          </div>
+
+          {hours ? (
+            <>
+              <TimesheetWeekEditor weekStart={weekStart} hours={hours} onChange={setHours} />
+              <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Note for your employer (optional)"
+                maxLength={500}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setHours(null)} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-100">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => run(() => apiService.submitTimesheet(applicationId, weekStart, toTimesheetLines(hours), comment || undefined))}
+                  disabled={busy || toTimesheetLines(hours).length === 0}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-orange-600 text-white hover:bg-orange-700 disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4" />
+                  Send for approval
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button
+                onClick={() => run(() => apiService.generateTimesheet(applicationId, weekStart))}
+                disabled={busy || !applicationId}
+                className="flex-1 inline-flex items-center justify-center gap-1 px-3 py-2 text-sm rounded-lg bg-orange-600 text-white hover:bg-orange-700 disabled:opacity-50"
+              >
+                <RefreshCcw className="w-4 h-4" />
+                Send hours from my check-ins
+              </button>
+              <button
+                onClick={() => setHours({})}
+                disabled={busy || !applicationId}
+                className="flex-1 px-3 py-2 text-sm rounded-lg border border-orange-300 text-orange-700 hover:bg-orange-100 disabled:opacity-50"
+              >
+                Enter hours myself
+              </button>
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {timesheets.length === 0 ? (
+        <p className="text-sm text-gray-500">No timesheets yet. Last week&apos;s check-ins are sent for approval every Monday.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {timesheets.map(timesheet => {
+            const lastComment = [...timesheet.history].reverse().find(change => change.actorType === 'employer' && change.comment);
+            return (
+              <li key={timesheet._id} className="py-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{timesheet.jobId?.jobTitle}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatShiftDate(timesheet.weekStart)} to {formatShiftDate(timesheet.weekEnd)} · {timesheet.totalHours} h
+                      {timesheet.status === 'approved' && ` · ₹${timesheet.amount.toLocaleString('en-IN')}`}
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2 py-1 rounded-full whitespace-nowrap ${TIMESHEET_STATUS_COLORS[timesheet.status]}`}>
+                    {TIMESHEET_STATUS_LABELS[timesheet.status]}
+                  </span>
+                </div>
+                {lastComment && timesheet.status !== 'approved' && (
+                  <p className="text-xs text-gray-600 italic">Employer: &ldquo;{lastComment.comment}&rdquo;</p>
+                )}
+                <div className="flex gap-3 text-xs">
+                  <button
+                    onClick={() => setOpenHistory(openHistory === timesheet._id ? null : timesheet._id)}
+                    className="inline-flex items-center gap-1 text-gray-500 hover:text-gray-700"
+                  >
+                    <History className="w-3 h-3" />
+                    History
+                  </button>
+                  {timesheet.status === 'disputed' && (
+                    <button onClick={() => fixTimesheet(timesheet)} className="text-orange-600 hover:text-orange-700">
+                      Fix and resend
+                    </button>
+                  )}
+                </div>
+                {openHistory === timesheet._id && <TimesheetHistory history={timesheet.history} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+};
+
+export default StudentTimesheets;
@@ -0,0 +1,37 @@
+"use client";
+
+import React from 'react';
+import type { TimesheetChange } from '../services/api';
+import { TIMESHEET_ACTION_LABELS } from '../lib/constants';
+
+const ACTOR_LABELS: Record<TimesheetChange['actorType'], string> = {
+  student: 'student',
+  employer: 'employer',
+  admin: 'admin',
+  system: 'automatically',
+};
+
+// The audit trail of a timesheet, oldest change first
+const TimesheetHistory: React.FC<{ history: TimesheetChange[] }> = ({ history }) => (
+  <ol className="border-l-2 border-gray-200 pl-3 space-y-2">
+    {history.map((change, index) => (
+      <li key={index} className="text-xs text-gray-600">
+        <span className="font-medium text-gray-800">{TIMESHEET_ACTION_LABELS[change.action] || change.action}</span>
+        {change.actorType === 'system' ? ` ${ACTOR_LABELS.system}` : ` by ${ACTOR_LABELS[change.actorType]}`}
+        {' · '}
+        {new Date(change.at).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+        {change.hoursAfter !== undefined && (
+          <span>
+            {' · '}
+            {change.hoursBefore !== undefined && change.hoursBefore !== change.hoursAfter
+              ? `${change.hoursBefore} h → ${change.hoursAfter} h`
+              : `${change.hoursAfter} h`}
+          </span>
+        )}
+        {change.comment && <p className="text-gray-500 italic">&ldquo;{change.comment}&rdquo;</p>}
+      </li>
+    ))}
+  </ol>
+);
+
+export default TimesheetHistory;
@@ -0,0 +1,50 @@
+"use client";
+
+import React from 'react';
+import type { TimesheetLine } from '../services/api';
+import { MAX_TIMESHEET_DAY_HOURS } from '../lib/constants';
+import { formatShiftDate, timesheetWeekDates } from '../lib/utils';
+
+interface TimesheetWeekEditorProps {
+  weekStart: string;
+  hours: Record<string, string>; // Hours typed per YYYY-MM-DD
+  onChange: (hours: Record<string, string>) => void;
+}
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Lines to send for the days that have hours
+export const toTimesheetLines = (hours: Record<string, string>): TimesheetLine[] =>
+  Object.entries(hours)
+    .map(([date, value]) => ({ date, hours: Number(value) }))
+    .filter(line => Number.isFinite(line.hours) && line.hours > 0);
+
+export const fromTimesheetLines = (lines: TimesheetLine[]): Record<string, string> =>
+  Object.fromEntries(lines.map(line => [line.date, String(line.hours)]));
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+// Hours for each day of a Monday-to-Sunday week; days still to come cannot be filled in
+const TimesheetWeekEditor: React.FC<TimesheetWeekEditorProps> = ({ weekStart, hours, onChange }) => (
+  <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+    {timesheetWeekDates(weekStart).map((date, index) => (
+      <label key={date} className="text-xs text-gray-600 text-center">
+        <span className="block font-medium text-gray-800">{DAY_LABELS[index]}</span>
+        <span className="block mb-1">{formatShiftDate(date)}</span>
+        <input
+          type="number"
+          min={0}
+          max={MAX_TIMESHEET_DAY_HOURS}
+          step={0.25}
+          value={hours[date] || ''}
+          disabled={date > today()}
+          onChange={(e) => onChange({ ...hours, [date]: e.target.value })}
+          className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-center focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:bg-gray-100"
+          aria-label={`Hours on ${date}`}
+        />
+      </label>
+    ))}
+  </div>
+);
+
+export default TimesheetWeekEditor;
@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Building, Clock, LogIn, LogOut, MapPin } from 'lucide-react';
+import { apiService, type StudentEngagement } from '../services/api';
+import { formatShiftDate, getCurrentPosition } from '../lib/utils';
+
+const formatTime = (at: string) =>
+  new Date(at).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+// Check in and out of hired jobs from the workplace; the location is checked against the employer's geofence
+const WorkCheckIn: React.FC = () => {
+  const [engagements, setEngagements] = useState<StudentEngagement[]>([]);
+  const [geofenceMeters, setGeofenceMeters] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [pickedShift, setPickedShift] = useState<Record<string, string>>({});
+
+  const fetchAttendance = useCallback(async () => {
+    try {
+      const data = await apiService.getMyAttendance();
+      setEngagements((data?.engagements || []).filter(engagement => !engagement.completedDate || engagement.openEntry));
+      setGeofenceMeters(data?.geofenceMeters || 0);
+    } catch (err) {
+      console.error('Error fetching attendance:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [fetchAttendance]);
+
+  const punch = async (engagement: StudentEngagement) => {
+    try {
+      setBusyId(engagement.applicationId);
+      setError('');
+      const location = await getCurrentPosition();
+      if (engagement.openEntry) {
+        await apiService.checkOut(engagement.applicationId, location);
+      } else {
+        await apiService.checkIn(engagement.applicationId, location, pickedShift[engagement.applicationId]);
+      }
+      await fetchAttendance();
+    } catch (err: any) {
+      setError(err?.message || 'Could not record your attendance. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (engagements.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.4 }}
+      className="bg-white rounded-xl sm:rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6"
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <MapPin className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />
+        <h2 className="text-base sm:text-lg font-semibold text-gray-900">Work Check-in</h2>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-500 mb-4">
+        Check in and out within {geofenceMeters} m of your workplace. Your employer can record it for you if your location does not work.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+        {engagements.map(engagement => {
+          const { applicationId, job, openEntry, todayShifts, recentEntries } = engagement;
+          return (
+            <div key={applicationId} className="p-3 sm:p-4 bg-green-50 rounded-lg sm:rounded-xl border border-green-200 space-y-3">
+              <div className="flex items-center gap-3">
+                <Building className="w-4 h-4 sm:w-5 sm:h-5 text-green-700" />
+                <div className="min-w-0 flex-1">
+                  <h3 className="font-medium text-gray-900 text-sm sm:text-base truncate">{job.jobTitle}</h3>
+                  <p className="text-xs sm:text-sm text-gray-600 truncate">{job.companyName}</p>
+                </div>
+                <span className="text-xs text-gray-600 whitespace-nowrap">{engagement.totalHours} h worked</span>
+              </div>
+
+              {openEntry ? (
+                <p className="text-xs sm:text-sm text-green-800 flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  Checked in at {formatTime(openEntry.checkIn.at)}
+                </p>
+              ) : todayShifts.length > 1 ? (
+                <select
+                  value={pickedShift[applicationId] || ''}
+                  onChange={(e) => setPickedShift(prev => ({ ...prev, [applicationId]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                >
+                  <option value="">Which shift are you starting?</option>
+                  {todayShifts.map(shift => (
+                    <option key={shift._id} value={shift._id}>{shift.name} · {shift.startTime}-{shift.endTime}</option>
+                  ))}
+                </select>
+              ) : todayShifts.length === 1 ? (
+                <p className="text-xs sm:text-sm text-gray-600 flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  Today: {todayShifts[0].name} · {todayShifts[0].startTime}-{todayShifts[0].endTime}
+                </p>
+              ) : null}
+
+              <button
+                onClick={() => punch(engagement)}
+                disabled={busyId !== null}
+                className={`w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm text-white transition-colors disabled:opacity-50 ${
+                  openEntry ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+                }`}
+              >
+                {openEntry ? <LogOut className="w-4 h-4" /> : <LogIn className="w-4 h-4" />}
+                {busyId === applicationId ? 'Getting your location...' : openEntry ? 'Check out' : 'Check in'}
+              </button>
+
+              {recentEntries.length > 0 && (
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {recentEntries.map(entry => (
+                    <li key={entry._id} className="flex justify-between gap-2">
+                      <span>{formatShiftDate(entry.date)} · {formatTime(entry.checkIn.at)}-{entry.checkOut ? formatTime(entry.checkOut.at) : ''}</span>
+                      <span>{entry.hours} h</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
+
+export default WorkCheckIn;
@@ -13,8 +13,11 @@ import {
   Calendar,
   ChevronDown,
   HelpCircle,
-  FileText
+  FileText,
+  MapPin
 } from 'lucide-react';
+import { getCurrentPosition } from '../../lib/utils';
+import type { KYCGeoPoint } from '../../services/kycService';
 
 // Input Component
 interface InputProps {
@@ -967,3 +970,70 @@ export const KYCHelpTooltip: React.FC<HelpTooltipProps> = ({
     </div>
   );
 };
+
+// Location Pin Component
+interface LocationPinProps {
+  label: string;
+  value?: KYCGeoPoint;
+  onChange: (value: KYCGeoPoint | undefined) => void;
+  help?: string;
+}
+
+export const KYCLocationPin: React.FC<LocationPinProps> = ({
+  label,
+  value,
+  onChange,
+  help
+}) => {
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState('');
+
+  const pinCurrentLocation = async () => {
+    try {
+      setLocating(true);
+      setError('');
+      const { latitude, longitude } = await getCurrentPosition();
+      onChange({ type: 'Point', coordinates: [longitude, latitude] });
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div className="kyc-form-group">
+      <span className="kyc-label">{label}</span>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={pinCurrentLocation}
+          disabled={locating}
+          className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <MapPin className="w-4 h-4" />
+          {locating ? 'Locating...' : value ? 'Update pin' : 'Pin my current location'}
+        </button>
+        {value && (
+          <>
+            <span className="kyc-xs kyc-text-muted">
+              Pinned at {value.coordinates[1]}, {value.coordinates[0]}
+            </span>
+            <button type="button" onClick={() => onChange(undefined)} className="kyc-xs text-red-600 hover:underline">
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+
+      {error ? (
+        <div className="kyc-error" role="alert">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      ) : help && (
+        <div className="kyc-small kyc-text-muted mt-1">{help}</div>
+      )}
+    </div>
+  );
+};
@@ -38,12 +38,13 @@ import {
   KYCRadioGroup,
   KYCCheckbox,
   KYCProgressBar,
-  KYCHelpTooltip
+  KYCHelpTooltip,
+  KYCLocationPin
 } from './KYCFormComponents';
 import ThemeToggle from './ThemeToggle';
 import SuccessAnimation from './SuccessAnimation';
 import DocumentUpload from './DocumentUpload';
-import { kycService, type KYCProfileData } from '../../services/kycService';
+import { kycService, type KYCProfileData, type KYCGeoPoint } from '../../services/kycService';
 import { apiService } from '../../services/api';
 import { useAuth } from '../../contexts/AuthContext';
 
@@ -56,6 +57,7 @@ interface ProfileData {
   phone: string;
   email: string;
   address: string;
+  homeLocation?: KYCGeoPoint;
   
   // Academic Info
   college: string;
@@ -66,6 +68,7 @@ interface ProfileData {
   pgName: string;
   pgAddress: string;
   pgContact: string;
+  pgLocation?: KYCGeoPoint;
   hoursPerWeek: number;
   availableDays: string[];
   
@@ -331,13 +334,15 @@ const ProfileVerification: React.FC<ProfileVerificationProps> = ({ isDisabled =
         phone: formData.phone,
         email: formData.email,
         address: formData.address,
+        homeLocation: formData.homeLocation ?? null,
         college: formData.college,
         courseYear: formData.courseYear,
         stayType: formData.stayType as 'home' | 'pg',
         pgDetails: formData.stayType === 'pg' ? {
           name: formData.pgName,
           address: formData.pgAddress,
-          contact: formData.pgContact
+          contact: formData.pgContact,
+          location: formData.pgLocation
         } : undefined,
         hoursPerWeek: formData.hoursPerWeek,
         availableDays: formData.availableDays,
@@ -380,12 +385,14 @@ const ProfileVerification: React.FC<ProfileVerificationProps> = ({ isDisabled =
             phone: kyc.phone || '',
             email: kyc.email || '',
             address: kyc.address || '',
+            homeLocation: kyc.homeLocation || undefined,
             college: kyc.college || '',
             courseYear: kyc.courseYear || '',
             stayType: kyc.stayType || '',
             pgName: kyc.pgDetails?.name || '',
             pgAddress: kyc.pgDetails?.address || '',
             pgContact: kyc.pgDetails?.contact || '',
+            pgLocation: kyc.pgDetails?.location,
             hoursPerWeek: kyc.hoursPerWeek || 20,
             availableDays: kyc.availableDays || [],
             // govtIdType: kyc.govtIdType || '',
@@ -757,6 +764,7 @@ const ProfileVerification: React.FC<ProfileVerificationProps> = ({ isDisabled =
         phone: formData.phone,
         email: formData.email,
         address: formData.address,
+        homeLocation: formData.homeLocation ?? null,
         
         // Academic Information
         college: formData.college,
@@ -767,7 +775,8 @@ const ProfileVerification: React.FC<ProfileVerificationProps> = ({ isDisabled =
         pgDetails: formData.stayType === 'pg' ? {
           name: formData.pgName,
           address: formData.pgAddress,
-          contact: formData.pgContact
+          contact: formData.pgContact,
+          location: formData.pgLocation
         } : undefined,
         hoursPerWeek: formData.hoursPerWeek,
         availableDays: formData.availableDays,
@@ -956,6 +965,13 @@ const ProfileVerification: React.FC<ProfileVerificationProps> = ({ isDisabled =
               rows={3}
               help="Include house number, street, city, state, and PIN code"
             />
+
+            <KYCLocationPin
+              label="Home Location"
+              value={formData.homeLocation}
+              onChange={(value) => updateField('homeLocation', value)}
+              help="Optional. Pin it while you are at home to see how far jobs are from here."
+            />
           </motion.div>
         );
 
@@ -1055,6 +1071,13 @@ const ProfileVerification: React.FC<ProfileVerificationProps> = ({ isDisabled =
                     error={errors.pgAddress}
                     rows={2}
                   />
+
+                  <KYCLocationPin
+                    label="PG Location"
+                    value={formData.pgLocation}
+                    onChange={(value) => updateField('pgLocation', value)}
+                    help="Optional. Pin it while you are at your PG to search for jobs near it."
+                  />
                   
                   <KYCInput
                     label="PG Contact Number"
@@ -15,5 +15,6 @@ export {
   KYCRadioGroup,
   KYCCheckbox,
   KYCProgressBar,
-  KYCHelpTooltip
+  KYCHelpTooltip,
+  KYCLocationPin
 } from './KYCFormComponents';
@@ -1,12 +1,18 @@
 "use client";
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import apiService from '../services/api';
 import socketService, { 
   NotificationData, 
   JobApprovedNotification, 
+  SavedSearchMatchNotification,
+  BookmarkDeadlineNotification,
+  JobInviteNotification,
+  JobExpiredNotification,
   JobRejectedNotification, 
   NewApplicationNotification, 
-  ApplicationStatusUpdateNotification 
+  ApplicationStatusUpdateNotification,
+  InterviewUpdateNotification
 } from '../services/socketService';
 
 export interface Notification {
@@ -27,6 +33,7 @@ interface NotificationContextType {
   markAllAsRead: () => void;
   removeNotification: (id: string) => void;
   clearAllNotifications: () => void;
+  refreshNotifications: () => Promise<void>;
   isConnected: boolean;
 }
 
@@ -48,27 +55,34 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isConnected, setIsConnected] = useState(false);
 
-  // Load notifications from localStorage on mount
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedNotifications = localStorage.getItem('notifications');
-      if (savedNotifications) {
-        try {
-          const parsed = JSON.parse(savedNotifications);
-          setNotifications(parsed);
-        } catch (error) {
-          console.error('Error parsing saved notifications:', error);
-        }
-      }
+  // Map a stored server notification to the shape used by the UI
+  const fromServer = (raw: any): Notification => ({
+    id: raw.id || raw._id,
+    type: raw.type,
+    title: raw.title,
+    message: raw.message,
+    timestamp: raw.createdAt,
+    data: raw.data,
+    read: !!raw.isRead
+  });
+
+  // Load notification history from the server
+  const refreshNotifications = useCallback(async () => {
+    if (typeof window === 'undefined' || !localStorage.getItem('token')) {
+      return;
+    }
+    try {
+      const payload = await apiService.getNotifications({ limit: 50 });
+      const items = Array.isArray(payload?.notifications) ? payload.notifications : [];
+      setNotifications(items.map(fromServer));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
     }
   }, []);
 
-  // Save notifications to localStorage whenever notifications change
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('notifications', JSON.stringify(notifications));
-    }
-  }, [notifications]);
+    refreshNotifications();
+  }, [refreshNotifications]);
 
   // Setup socket event listeners
   useEffect(() => {
@@ -82,6 +96,46 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
       });
     };
 
+    const handleSavedSearchMatch = (data: SavedSearchMatchNotification) => {
+      addNotification({
+        type: 'saved_search_match',
+        title: 'New Job For Your Saved Search 🔔',
+        message: data.message,
+        timestamp: data.timestamp,
+        data: data.job
+      });
+    };
+
+    const handleBookmarkDeadline = (data: BookmarkDeadlineNotification) => {
+      addNotification({
+        type: 'bookmark_deadline_reminder',
+        title: 'Saved Job Closing Soon ⏰',
+        message: data.message,
+        timestamp: data.timestamp,
+        data: data.job
+      });
+    };
+
+    const handleJobInvite = (data: JobInviteNotification) => {
+      addNotification({
+        type: 'job_invite',
+        title: 'You Are Invited To Apply ✉️',
+        message: data.message,
+        timestamp: data.timestamp,
+        data: data.job
+      });
+    };
+
+    const handleJobExpired = (data: JobExpiredNotification) => {
+      addNotification({
+        type: 'job_expired',
+        title: data.audience === 'employer' ? 'Job Expired ⌛' : 'Job Closed For Applications ⌛',
+        message: data.message,
+        timestamp: data.timestamp,
+        data: data.job
+      });
+    };
+
     const handleJobRejected = (data: JobRejectedNotification) => {
       addNotification({
         type: 'job_rejected',
@@ -112,15 +166,37 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
       });
     };
 
+    const handleInterviewUpdate = (data: InterviewUpdateNotification) => {
+      addNotification({
+        type: 'interview_update',
+        title: 'Interview Update 📅',
+        message: data.message,
+        timestamp: data.timestamp,
+        data: data.interview
+      });
+      // Let open dashboards refresh their interview lists
+      window.dispatchEvent(new CustomEvent('interviewUpdate', {
+        detail: data.interview
+      }));
+    };
+
     const handleConnectionStatus = () => {
       setIsConnected(socketService.isSocketConnected());
+      if (socketService.isSocketConnected()) {
+        refreshNotifications();
+      }
     };
 
     // Register event listeners
     socketService.onJobApproved(handleJobApproved);
+    socketService.onSavedSearchMatch(handleSavedSearchMatch);
+    socketService.onBookmarkDeadline(handleBookmarkDeadline);
+    socketService.onJobInvite(handleJobInvite);
+    socketService.onJobExpired(handleJobExpired);
     socketService.onJobRejected(handleJobRejected);
     socketService.onNewApplication(handleNewApplication);
     socketService.onApplicationStatusUpdate(handleApplicationStatusUpdate);
+    socketService.onInterviewUpdate(handleInterviewUpdate);
     socketService.on('connect', handleConnectionStatus);
     socketService.on('disconnect', handleConnectionStatus);
 
@@ -130,13 +206,18 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     // Cleanup
     return () => {
       socketService.off('job_approved', handleJobApproved);
+      socketService.off('saved_search_match', handleSavedSearchMatch);
+      socketService.off('bookmark_deadline_reminder', handleBookmarkDeadline);
+      socketService.off('job_invite', handleJobInvite);
+      socketService.off('job_expired', handleJobExpired);
       socketService.off('job_rejected', handleJobRejected);
       socketService.off('new_application', handleNewApplication);
       socketService.off('application_status_update', handleApplicationStatusUpdate);
+      socketService.off('interview_update', handleInterviewUpdate);
       socketService.off('connect', handleConnectionStatus);
       socketService.off('disconnect', handleConnectionStatus);
     };
-  }, []);
+  }, [refreshNotifications]);
 
   const addNotification = (notification: Omit<Notification, 'id' | 'read'>) => {
     const newNotification: Notification = {
@@ -155,6 +236,9 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
         tag: newNotification.id
       });
     }
+
+    // The server has already stored this notification; reload so ids match the stored copy
+    refreshNotifications();
   };
 
   const markAsRead = (id: string) => {
@@ -165,20 +249,32 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
           : notification
       )
     );
+    apiService.markNotificationRead(id).catch(error => {
+      console.error('Error marking notification as read:', error);
+    });
   };
 
   const markAllAsRead = () => {
     setNotifications(prev =>
       prev.map(notification => ({ ...notification, read: true }))
     );
+    apiService.markAllNotificationsRead().catch(error => {
+      console.error('Error marking all notifications as read:', error);
+    });
   };
 
   const removeNotification = (id: string) => {
     setNotifications(prev => prev.filter(notification => notification.id !== id));
+    apiService.deleteNotification(id).catch(error => {
+      console.error('Error deleting notification:', error);
+    });
   };
 
   const clearAllNotifications = () => {
     setNotifications([]);
+    apiService.clearNotifications().catch(error => {
+      console.error('Error clearing notifications:', error);
+    });
   };
 
   const unreadCount = notifications.filter(notification => !notification.read).length;
@@ -191,6 +287,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     markAllAsRead,
     removeNotification,
     clearAllNotifications,
+    refreshNotifications,
     isConnected
   };
 
@@ -14,14 +14,220 @@ export const JOB_STATUS = {
   DRAFT: 'draft',
 } as const;
 
+// Days added by the one-click "Extend" on an expired job (mirrors the backend default)
+export const DEFAULT_DEADLINE_EXTENSION_DAYS = 7;
+
+// Hiring pipeline: applied -> shortlisted -> interview -> offered -> hired,
+// rejected/withdrawn from any open stage (mirrors the backend Application model)
 export const APPLICATION_STATUS = {
-  PENDING: 'pending',
-  REVIEWING: 'reviewing',
-  ACCEPTED: 'accepted',
+  APPLIED: 'applied',
+  SHORTLISTED: 'shortlisted',
+  INTERVIEW: 'interview',
+  OFFERED: 'offered',
+  HIRED: 'hired',
   REJECTED: 'rejected',
   WITHDRAWN: 'withdrawn',
 } as const;
 
+export type ApplicationStatus = typeof APPLICATION_STATUS[keyof typeof APPLICATION_STATUS];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  applied: 'Applied',
+  shortlisted: 'Shortlisted',
+  interview: 'Interview',
+  offered: 'Offered',
+  hired: 'Hired',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+export const OPEN_APPLICATION_STATUSES: ApplicationStatus[] = ['applied', 'shortlisted', 'interview', 'offered'];
+
+// The next forward stage an employer can move an application to
+export const NEXT_APPLICATION_STATUS: Partial<Record<ApplicationStatus, ApplicationStatus>> = {
+  applied: 'shortlisted',
+  shortlisted: 'interview',
+  interview: 'offered',
+  offered: 'hired',
+};
+
+export const APPLICATION_STATUS_COLORS: Record<ApplicationStatus, string> = {
+  applied: 'bg-yellow-100 text-yellow-700',
+  shortlisted: 'bg-indigo-100 text-indigo-600',
+  interview: 'bg-purple-100 text-purple-600',
+  offered: 'bg-teal-100 text-teal-600',
+  hired: 'bg-green-100 text-green-600',
+  rejected: 'bg-red-100 text-red-600',
+  withdrawn: 'bg-gray-100 text-gray-600',
+};
+
+export const SCREENING_QUESTION_TYPES = ['yes_no', 'multiple_choice', 'short_text', 'numeric'] as const;
+
+export type ScreeningQuestionType = typeof SCREENING_QUESTION_TYPES[number];
+
+export const SCREENING_QUESTION_TYPE_LABELS: Record<ScreeningQuestionType, string> = {
+  yes_no: 'Yes / No',
+  multiple_choice: 'Multiple choice',
+  short_text: 'Short answer',
+  numeric: 'Number',
+};
+
+export const MAX_SCREENING_QUESTIONS = 10;
+
+// Tag the server adds to applicants who fail a knockout question
+export const SCREENING_FAILED_TAG = 'screening_failed';
+
+// Structured job pay (amounts are INR per period)
+export const SALARY_PERIODS = ['hourly', 'daily', 'monthly', 'per_task'] as const;
+export type SalaryPeriod = typeof SALARY_PERIODS[number];
+
+export const SALARY_PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  hourly: 'Per hour',
+  daily: 'Per day',
+  monthly: 'Per month',
+  per_task: 'Per task'
+};
+
+// 'relevance' ranks text search matches and is the default while searching;
+// 'distance' is the default when searching near a location
+export const JOB_SORT_OPTIONS = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'distance', label: 'Nearest first' },
+  { value: 'newest', label: 'Newest first' },
+  { value: 'pay_desc', label: 'Highest pay' },
+  { value: 'pay_asc', label: 'Lowest pay' }
+] as const;
+
+// "Jobs within N km" choices; the server allows up to 100 km and defaults to 10
+export const SEARCH_RADIUS_KM_OPTIONS = [2, 5, 10, 25, 50] as const;
+
+// Labels for bookmarked jobs that no longer take applications
+export const BOOKMARK_STATE_LABELS: Record<string, string> = {
+  paused: 'Paused',
+  closed: 'Closed',
+  expired: 'Deadline passed',
+  removed: 'No longer listed',
+};
+
+// User.availability on a student profile, as employers see it in candidate search
+export const STUDENT_AVAILABILITY_LABELS: Record<string, string> = {
+  weekdays: 'Weekdays',
+  weekends: 'Weekends',
+  both: 'Weekdays & weekends',
+  flexible: 'Flexible',
+};
+
+// Openings one job can hire for (mirrors MAX_JOB_POSITIONS in the backend)
+export const MAX_JOB_POSITIONS = 100;
+
+// Job shifts (mirrors models/ShiftSchedule.ts in the backend). Days are in Date#getDay
+// order and spelled as in KYC availableDays.
+export const MAX_JOB_SHIFTS = 20;
+export const MAX_SHIFT_HEADCOUNT = 100;
+export const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type WeekDay = typeof WEEK_DAYS[number];
+
+export const WEEK_DAY_SHORT_LABELS: Record<WeekDay, string> = {
+  sunday: 'Sun',
+  monday: 'Mon',
+  tuesday: 'Tue',
+  wednesday: 'Wed',
+  thursday: 'Thu',
+  friday: 'Fri',
+  saturday: 'Sat',
+};
+
+// Weekly timesheets of hired students (backend models/Timesheet.ts)
+export const TIMESHEET_STATUSES = ['submitted', 'approved', 'disputed'] as const;
+export type TimesheetStatus = typeof TIMESHEET_STATUSES[number];
+export const MAX_TIMESHEET_DAY_HOURS = 24;
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  disputed: 'Disputed',
+};
+
+export const TIMESHEET_STATUS_COLORS: Record<TimesheetStatus, string> = {
+  submitted: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-green-100 text-green-600',
+  disputed: 'bg-red-100 text-red-600',
+};
+
+export const TIMESHEET_ACTION_LABELS: Record<string, string> = {
+  generated: 'Generated from check-ins',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  disputed: 'Disputed',
+  adjusted: 'Adjusted',
+};
+
+// Payout batches mirror backend/src/models/PayoutBatch.ts
+export const PAYOUT_BATCH_STATUSES = ['draft', 'exported', 'reconciled'] as const;
+export type PayoutBatchStatus = typeof PAYOUT_BATCH_STATUSES[number];
+
+export const PAYOUT_ITEM_STATUSES = ['pending', 'paid', 'failed'] as const;
+export type PayoutItemStatus = typeof PAYOUT_ITEM_STATUSES[number];
+
+export const PAYOUT_BATCH_STATUS_LABELS: Record<PayoutBatchStatus, string> = {
+  draft: 'Draft',
+  exported: 'Sent to bank',
+  reconciled: 'Reconciled',
+};
+
+export const PAYOUT_BATCH_STATUS_COLORS: Record<PayoutBatchStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  exported: 'bg-yellow-100 text-yellow-700',
+  reconciled: 'bg-green-100 text-green-600',
+};
+
+export const PAYOUT_ITEM_STATUS_LABELS: Record<PayoutItemStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  failed: 'Failed',
+};
+
+export const PAYOUT_ITEM_STATUS_COLORS: Record<PayoutItemStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  paid: 'bg-green-100 text-green-600',
+  failed: 'bg-red-100 text-red-600',
+};
+
+export const PAYOUT_SKIP_REASON_LABELS: Record<string, string> = {
+  no_kyc: 'No KYC on file',
+  no_consent: 'No payroll consent',
+  missing_bank_details: 'Bank details missing',
+};
+
+// Saved job templates an employer can keep (post-job form)
+export const MAX_JOB_TEMPLATES = 25;
+
+// Bulk job import (mirrors the backend): rows per file and the columns of the sample sheet
+export const MAX_IMPORT_ROWS = 200;
+export const JOB_IMPORT_COLUMNS = [
+  'jobTitle',
+  'description',
+  'location',
+  'salaryMin',
+  'salaryMax',
+  'salaryPeriod',
+  'workType',
+  'category',
+  'skills',
+  'applicationDeadline',
+  'positions',
+  'latitude',
+  'longitude',
+] as const;
+
+// Named job searches a student can keep; newly approved matching jobs trigger an alert
+export const MAX_SAVED_SEARCHES = 10;
+
+// Resumes on a student's profile (checked again on the server by file content)
+export const MAX_RESUMES = 5;
+export const RESUME_ACCEPT = '.pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Keep in sync with JOB_CATEGORIES in the backend's models/Job.ts
 export const JOB_CATEGORIES = [
   'Technology',
   'Marketing',
@@ -35,6 +241,10 @@ export const JOB_CATEGORIES = [
   'Other',
 ] as const;
 
+export type JobCategory = typeof JOB_CATEGORIES[number];
+
+export const JOB_WORK_TYPES = ['Part-time', 'Full-time', 'Remote', 'On-site'] as const;
+
 export const LOCATIONS = [
   'Hyderabad',
   'Bangalore',
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { WEEK_DAY_SHORT_LABELS, type WeekDay } from './constants';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -21,6 +22,106 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+const SALARY_PERIOD_UNITS: Record<string, string> = {
+  hourly: 'hour',
+  daily: 'day',
+  monthly: 'month',
+  per_task: 'task',
+};
+
+// Same format as the server's display string, e.g. "₹15,000 - ₹20,000 / month"
+export function formatSalary(salary: { min: number; max: number; period: string }): string {
+  const format = (amount: number) => `₹${new Intl.NumberFormat('en-IN', { maximumFractionDigits: 0 }).format(amount)}`;
+  const amount = salary.min === salary.max ? format(salary.min) : `${format(salary.min)} - ${format(salary.max)}`;
+  return `${amount} / ${SALARY_PERIOD_UNITS[salary.period] || salary.period}`;
+}
+
+// Shift dates are YYYY-MM-DD calendar days; read them as such so no time zone moves them
+export function formatShiftDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+}
+
+// e.g. "Sat, Sun 10:00-16:00 · 1 Nov to 6 Dec" or "14 Nov · 09:30-13:00"
+export function formatShift(shift: { recurrence: string; startDate: string; endDate?: string; daysOfWeek: string[]; startTime: string; endTime: string }): string {
+  const window = `${shift.startTime}-${shift.endTime}`;
+  if (shift.recurrence === 'once') {
+    return `${formatShiftDate(shift.startDate)} · ${window}`;
+  }
+  const days = shift.daysOfWeek.map(day => WEEK_DAY_SHORT_LABELS[day as WeekDay] || day).join(', ');
+  return `${days} ${window} · ${formatShiftDate(shift.startDate)} to ${formatShiftDate(shift.endDate || shift.startDate)}`;
+}
+
+const addDaysToDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+
+// Monday of the week a YYYY-MM-DD date falls in; timesheets run Monday to Sunday
+export function timesheetWeekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDaysToDate(date, -((day + 6) % 7));
+}
+
+export function timesheetWeekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, index) => addDaysToDate(weekStart, index));
+}
+
+// Browser location for "near me" search and pinning addresses; rejects with a readable message
+export function getCurrentPosition(): Promise<{ latitude: number; longitude: number }> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('Location is not available in this browser'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: Number(position.coords.latitude.toFixed(6)),
+        longitude: Number(position.coords.longitude.toFixed(6)),
+      }),
+      error => reject(new Error(
+        error.code === error.PERMISSION_DENIED
+          ? 'Allow location access in your browser to use this'
+          : 'Could not get your location. Please try again.'
+      )),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
+}
+
+// Jobs page query string for a saved search, e.g. "search=react&category=Technology&origin=home"
+export function savedSearchToQuery(criteria: {
+  search?: string;
+  categories?: string[];
+  workTypes?: string[];
+  locations?: string[];
+  nearPoint?: { coordinates: [number, number] };
+  origin?: string;
+  radiusKm?: number;
+  salaryMin?: number;
+  salaryPeriod?: string;
+}): string {
+  const params = new URLSearchParams();
+  if (criteria.search) params.set('search', criteria.search);
+  criteria.categories?.forEach(category => params.append('category', category));
+  criteria.workTypes?.forEach(workType => params.append('workType', workType));
+  criteria.locations?.forEach(location => params.append('location', location));
+  if (criteria.origin) params.set('origin', criteria.origin);
+  // GeoJSON is [longitude, latitude]; the query takes "lat,lng"
+  if (criteria.nearPoint) params.set('near', `${criteria.nearPoint.coordinates[1]},${criteria.nearPoint.coordinates[0]}`);
+  if (criteria.radiusKm && criteria.radiusKm !== 10) params.set('radiusKm', String(criteria.radiusKm));
+  if (criteria.salaryMin !== undefined) params.set('salaryMin', String(criteria.salaryMin));
+  if (criteria.salaryPeriod) params.set('salaryPeriod', criteria.salaryPeriod);
+  return params.toString();
+}
+
+// URL search params as an object, repeated params as arrays (?category=A&category=B)
+export function searchParamsToRecord(params: URLSearchParams): Record<string, string | string[]> {
+  const record: Record<string, string | string[]> = {};
+  new Set(params.keys()).forEach(key => {
+    const values = params.getAll(key);
+    record[key] = values.length > 1 ? values : values[0];
+  });
+  return record;
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength) + '...';
@@ -1,5 +1,6 @@
 // Determine API base URL based on environment
 import { ApiErrorHandler, withErrorHandling } from '../utils/errorHandler';
+import type { PayoutBatchStatus, PayoutItemStatus, SalaryPeriod, TimesheetStatus } from '../lib/constants';
 
 const getApiBaseUrl = () => {
   // Check if we're running in browser (client-side)
@@ -45,6 +46,25 @@ console.log('🔧 NEXT_PUBLIC_API_URL:', process.env.NEXT_PUBLIC_API_URL);
 console.log('🔧 NODE_ENV:', process.env.NODE_ENV);
 
 // API Response Types
+interface JobSalary {
+  min: number;
+  max: number;
+  currency: 'INR';
+  period: SalaryPeriod;
+}
+
+// Search results split into plain and matched text, so the page can mark matches
+// without rendering HTML from the server
+interface HighlightPart {
+  text: string;
+  highlight: boolean;
+}
+
+interface JobHighlights {
+  title: HighlightPart[];
+  snippet: HighlightPart[];
+}
+
 interface Job {
   _id: string;
   title: string;
@@ -53,6 +73,9 @@ interface Job {
   location: string;
   salary?: number;
   payType?: string;
+  salaryDetails?: JobSalary;
+  highlights?: JobHighlights;
+  distanceKm?: number; // Only in searches near a location
   type: string;
   category: string;
   status: string;
@@ -61,6 +84,10 @@ interface Job {
   views?: number;
   applicationsCount?: number;
   requirements?: string[];
+  screeningQuestions?: ScreeningQuestion[];
+  positions?: number;
+  filledPositions?: number;
+  shifts?: JobShift[];
 }
 
 interface Application {
@@ -82,6 +109,44 @@ interface Application {
   availability?: string;
 }
 
+interface ScreeningQuestion {
+  _id?: string;
+  prompt: string;
+  type: 'yes_no' | 'multiple_choice' | 'short_text' | 'numeric';
+  options?: string[];
+  required: boolean;
+  // Only returned to the employer who owns the job
+  knockout?: {
+    expected?: boolean;
+    acceptedOptions?: string[];
+    min?: number;
+    max?: number;
+  };
+}
+
+interface ScreeningAnswer {
+  questionId: string;
+  prompt: string;
+  type: string;
+  answer: boolean | string | number;
+  passed: boolean;
+}
+
+interface Resume {
+  _id: string;
+  fileName: string;
+  fileType: 'pdf' | 'docx';
+  size: number;
+  isDefault: boolean;
+  uploadedAt: string;
+}
+
+interface ResumeDownloadLink {
+  url: string;
+  fileName: string;
+  expiresAt: string;
+}
+
 interface JobsResponse {
   jobs: Job[];
   pagination: {
@@ -92,6 +157,334 @@ interface JobsResponse {
   };
 }
 
+interface FacetCount {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+// Counts for each facet apply every other active filter but the facet's own
+interface JobFacets {
+  categories: FacetCount[];
+  workTypes: FacetCount[];
+  locations: FacetCount[];
+  salaryBuckets: FacetCount[];
+}
+
+interface JobSearchResponse extends JobsResponse {
+  facets: JobFacets;
+}
+
+// Filters of a saved search, in the shape of the job search query parameters
+interface SavedSearchCriteria {
+  search?: string;
+  categories: string[];
+  workTypes: string[];
+  locations: string[];
+  nearPoint?: { type: 'Point'; coordinates: [number, number] };
+  origin?: 'home' | 'pg';
+  radiusKm?: number;
+  salaryMin?: number;
+  salaryPeriod?: string;
+}
+
+type BookmarkJobState = 'open' | 'paused' | 'closed' | 'expired' | 'removed';
+
+// A bookmarked job; `job` is null once the job was deleted, the snapshot still names it
+interface Bookmark {
+  _id: string;
+  jobId: string;
+  job: Job | null;
+  jobSnapshot: { jobTitle: string; companyName: string; location: string };
+  state: BookmarkJobState;
+  applicationDeadline?: string;
+  savedAt: string;
+}
+
+// A job picked for the student, with the reasons it scored (skills, preferences, distance...)
+interface RecommendedJob extends Job {
+  recommendation: { score: number; reasons: string[] };
+}
+
+type StudentAvailability = 'weekdays' | 'weekends' | 'both' | 'flexible';
+
+// A student ranked for one of the employer's jobs
+interface Candidate {
+  _id: string;
+  name: string;
+  college?: string;
+  skills: string[];
+  availability?: StudentAvailability;
+  rating?: number;
+  completedJobs?: number;
+  kycStatus?: string;
+  match: { score: number; matchedSkills: string[]; reasons: string[] };
+  invite: { status: 'sent' | 'applied'; invitedAt: string } | null;
+}
+
+interface CandidateFilters {
+  skills?: string;
+  kycApproved?: boolean;
+  availability?: StudentAvailability[];
+  college?: string;
+  minRating?: number;
+  minCompletedJobs?: number;
+  page?: number;
+  limit?: number;
+}
+
+// Job details an employer can post from again; only the title is required
+interface JobTemplateFields {
+  jobTitle: string;
+  description?: string;
+  location?: string;
+  locationPoint?: { type: 'Point'; coordinates: [number, number] };
+  salary?: JobSalary;
+  salaryRange?: string;
+  workType?: string;
+  category?: string;
+  skillsRequired: string[];
+  screeningQuestions: ScreeningQuestion[];
+  positions?: number;
+}
+
+interface JobTemplate extends JobTemplateFields {
+  _id: string;
+  name: string;
+  sourceJobId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Per-row outcome of a CSV/XLSX job import; `row` is the spreadsheet row number
+interface JobImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  created: { row: number; jobId: string; jobTitle: string }[];
+  errors: { row: number; errors: { field: string; message: string }[] }[];
+  ignoredColumns: string[];
+}
+
+type ShiftRecurrence = 'once' | 'weekly';
+
+// A job shift; dates (YYYY-MM-DD) and times (HH:mm) are Indian local time
+interface JobShift {
+  _id?: string;
+  label?: string;
+  recurrence: ShiftRecurrence;
+  startDate: string;
+  endDate?: string;
+  daysOfWeek: string[];
+  startTime: string;
+  endTime: string;
+  headcount: number;
+}
+
+interface RosterStudent {
+  applicationId: string;
+  studentId: string;
+  name: string;
+  email: string;
+  status: string;
+}
+
+interface RosterShift {
+  shift: JobShift;
+  hours: number;
+  upcomingDates: string[];
+  assigned: RosterStudent[];
+  interested: RosterStudent[];
+}
+
+interface JobRoster {
+  shifts: RosterShift[];
+  unassigned: RosterStudent[];
+}
+
+// One end of an attendance entry; overridden punches were recorded or corrected by the employer
+interface AttendancePunch {
+  at: string;
+  distanceMeters?: number;
+  overriddenBy?: string;
+  overrideReason?: string;
+  originalAt?: string;
+}
+
+interface AttendanceEntry {
+  _id: string;
+  applicationId: string;
+  jobId: string;
+  shiftId?: string;
+  date: string;
+  checkIn: AttendancePunch;
+  checkOut?: AttendancePunch;
+  hours: number;
+  status: 'open' | 'completed';
+}
+
+interface TodayShift {
+  _id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface StudentEngagement {
+  applicationId: string;
+  job: { _id: string; jobTitle: string; companyName: string; location?: string };
+  hiredDate?: string;
+  completedDate?: string;
+  todayShifts: TodayShift[];
+  openEntry?: AttendanceEntry;
+  recentEntries: AttendanceEntry[];
+  totalHours: number;
+}
+
+interface EmployerEngagement {
+  applicationId: string;
+  student: { _id: string; name: string; email: string };
+  assignedShiftIds: string[];
+  hiredDate?: string;
+  completedDate?: string;
+  totalHours: number;
+  entries: AttendanceEntry[];
+}
+
+interface JobAttendance {
+  from: string;
+  to: string;
+  engagements: EmployerEngagement[];
+}
+
+interface TimesheetLine {
+  date: string;
+  hours: number;
+  note?: string;
+}
+
+// One step of a timesheet's audit trail
+interface TimesheetChange {
+  action: 'generated' | 'submitted' | 'approved' | 'disputed' | 'adjusted';
+  actorType: 'student' | 'employer' | 'admin' | 'system';
+  comment?: string;
+  hoursBefore?: number;
+  hoursAfter?: number;
+  at: string;
+}
+
+interface Timesheet {
+  _id: string;
+  applicationId: string;
+  jobId: { _id: string; jobTitle: string; companyName?: string };
+  studentId: string | { _id: string; name: string; email: string }; // Populated for employers
+  weekStart: string;
+  weekEnd: string;
+  source: 'attendance' | 'manual';
+  lines: TimesheetLine[];
+  totalHours: number;
+  hourlyRate?: number;
+  amount: number;
+  status: TimesheetStatus;
+  approvedAt?: string;
+  history: TimesheetChange[];
+  suggestedHourlyRate?: number; // Employer lists: from the job's hourly or daily pay
+}
+
+// One posting of the student's earnings ledger (amounts in rupees)
+interface LedgerEntry {
+  _id: string;
+  kind: 'earning' | 'payout_reserved' | 'payout_paid' | 'payout_failed';
+  sourceType: 'timesheet' | 'task' | 'payout_batch';
+  amount: number;
+  memo: string;
+  createdAt: string;
+}
+
+interface StudentPayout {
+  _id: string;
+  reference: string;
+  amount: number;
+  status: PayoutItemStatus;
+  utr?: string;
+  failureReason?: string;
+  bankAccount: string; // Masked
+  sentAt?: string;
+  reconciledAt?: string;
+}
+
+interface StudentEarnings {
+  balance: { earned: number; payable: number; inTransit: number; paid: number };
+  entries: LedgerEntry[];
+  payouts: StudentPayout[];
+  payrollReady: boolean; // KYC has payroll consent and bank details
+}
+
+interface PayoutItem {
+  _id: string;
+  studentId: string | { _id: string; name: string; email: string };
+  reference: string;
+  amount: number;
+  beneficiaryName: string;
+  bankAccount: string; // Masked
+  ifsc: string;
+  status: PayoutItemStatus;
+  utr?: string;
+  failureReason?: string;
+  reconciledAt?: string;
+}
+
+interface PayoutBatch {
+  _id: string;
+  reference: string;
+  status: PayoutBatchStatus;
+  items: PayoutItem[]; // Left out of batch lists
+  totalAmount: number;
+  createdBy: string | { _id: string; name: string };
+  exportedAt?: string;
+  reconciledAt?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+interface PayoutCandidate {
+  studentId: string;
+  name: string;
+  email: string;
+  amount: number;
+}
+
+interface PayoutPreview {
+  eligible: (PayoutCandidate & { beneficiaryName: string; ifsc: string })[];
+  skipped: (PayoutCandidate & { reason: string })[];
+  totalAmount: number;
+}
+
+interface PayoutResult {
+  itemId: string;
+  status: 'paid' | 'failed';
+  utr?: string;
+  reason?: string;
+}
+
+interface AttendanceOverride {
+  checkInAt?: string;
+  checkOutAt?: string;
+  shiftId?: string;
+  reason: string;
+}
+
+interface SavedSearch {
+  _id: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  emailAlerts: boolean;
+  lastMatchedAt?: string;
+  matchCount: number;
+  createdAt: string;
+}
+
 interface ApplicationsResponse {
   applications: Application[];
   pagination: {
@@ -234,7 +627,7 @@ class ApiService {
     const description = raw.description || raw.jobDescription || '';
     const company = raw.companyName || raw.company || (raw.employerId && typeof raw.employerId === 'object' ? raw.employerId.companyName : '') || '';
     const location = raw.location || raw.jobLocation || '';
-    const salaryRange = raw.salaryRange || raw.salary || raw.payRange || '';
+    const salaryRange = raw.salaryRange || (typeof raw.salary === 'object' ? '' : raw.salary) || raw.payRange || '';
     const workType = raw.workType || raw.type || '';
     const applicantsCount = raw.applicationsCount || (Array.isArray(raw.applicants) ? raw.applicants.length : (Array.isArray(raw.applications) ? raw.applications.length : 0));
     const requirements = Array.isArray(raw.skillsRequired) ? raw.skillsRequired : Array.isArray(raw.requirements) ? raw.requirements : [];
@@ -247,6 +640,7 @@ class ApiService {
       location,
       salary: typeof salaryRange === 'string' ? salaryRange : String(salaryRange || ''),
       salaryRange: typeof salaryRange === 'string' ? salaryRange : String(salaryRange || ''),
+      salaryDetails: raw.salary && typeof raw.salary === 'object' ? raw.salary : undefined,
       type: workType,
       workType,
       category: raw.category || '',
@@ -259,6 +653,9 @@ class ApiService {
       skillsRequired: requirements,
       applicants: raw.applicants || raw.applications || [],
       highlighted: raw.highlighted ?? false,
+      screeningQuestions: Array.isArray(raw.screeningQuestions) ? raw.screeningQuestions : [],
+      highlights: raw.highlights,
+      distanceKm: typeof raw.distanceKm === 'number' ? raw.distanceKm : undefined,
     };
 
     return base as Job;
@@ -520,6 +917,15 @@ class ApiService {
     } as unknown as JobsResponse;
   }
 
+  // "Recommended for you", each job with the reasons it matched
+  async getRecommendedJobs(limit = 10): Promise<RecommendedJob[]> {
+    const raw = await this.request<any>(`/enhanced-jobs/recommended?limit=${limit}`);
+    const payload = this.unwrap<any>(raw);
+    return Array.isArray(payload?.jobs)
+      ? payload.jobs.map((j: any) => ({ ...this.mapEnhancedJobToFrontendJob(j), recommendation: j.recommendation }))
+      : [];
+  }
+
   async getEmployerDashboardJobs(): Promise<JobsResponse> {
     const raw = await this.request<any>('/enhanced-jobs/employer-dashboard');
     const payload = this.unwrap<any>(raw);
@@ -534,6 +940,11 @@ class ApiService {
       location: j.location || '',
       status: j.status || 'active',
       approvalStatus: j.approvalStatus || j.status || 'pending',
+      applicationDeadline: j.applicationDeadline,
+      publishAt: j.publishAt,
+      positions: j.positions ?? 1,
+      filledPositions: j.filledPositions ?? 0,
+      shiftsCount: j.shiftsCount ?? 0,
       createdAt: j.createdAt || new Date().toISOString(),
       salary: j.salaryRange || j.salary || j.payRange || '',
       salaryRange: j.salaryRange || j.salary || j.payRange || '',
@@ -619,6 +1030,17 @@ class ApiService {
     } as unknown as JobsResponse;
   }
 
+  // Query string as kept in the /jobs page URL, e.g. "category=Sales&location=Pune&page=2"
+  async searchJobs(query: string): Promise<JobSearchResponse> {
+    const raw = await this.request<any>(query ? `/jobs/search?${query}` : '/jobs/search');
+    const payload = this.unwrap<any>(raw);
+    return {
+      jobs: Array.isArray(payload?.jobs) ? payload.jobs.map((j: any) => this.mapEnhancedJobToFrontendJob(j)) : [],
+      facets: payload?.facets || { categories: [], workTypes: [], locations: [], salaryBuckets: [] },
+      pagination: payload?.pagination || { page: 1, limit: 10, total: 0, pages: 0 },
+    };
+  }
+
   async getJob(jobId: string) {
     const raw = await this.request<any>(`/jobs/${jobId}`);
     const payload = this.unwrap<any>(raw);
@@ -652,14 +1074,136 @@ class ApiService {
   }
 
   async updateJobStatus(id: string, status: string) {
-    return this.request(`/jobs/${id}/status`, {
+    return this.request(`/enhanced-jobs/${id}/status`, {
       method: 'PATCH',
       body: JSON.stringify({ status }),
     });
   }
 
+  async scheduleJob(id: string, publishAt: string | null) {
+    const raw = await this.request<any>(`/enhanced-jobs/${id}/schedule`, {
+      method: 'PATCH',
+      body: JSON.stringify({ publishAt }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async extendJobDeadline(id: string, days?: number) {
+    const raw = await this.request<any>(`/enhanced-jobs/${id}/extend-deadline`, {
+      method: 'POST',
+      body: JSON.stringify({ days }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
 
 
+  async duplicateJob(id: string, data: { applicationDeadline: string; status?: 'draft' | 'active'; publishAt?: string }) {
+    const raw = await this.request<any>(`/enhanced-jobs/${id}/duplicate`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return this.unwrap<{ job: any }>(raw);
+  }
+
+  async importJobs(file: File, options: { dryRun: boolean; status?: 'draft' | 'active' }) {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('dryRun', String(options.dryRun));
+    if (options.status) formData.append('status', options.status);
+    const raw = await this.request<any>('/enhanced-jobs/import', {
+      method: 'POST',
+      body: formData,
+    });
+    return this.unwrap<JobImportResult>(raw);
+  }
+
+  // Job template APIs (Employer)
+  async getJobTemplates() {
+    const raw = await this.request<any>('/job-templates');
+    return this.unwrap<{ templates: JobTemplate[] }>(raw);
+  }
+
+  // The reusable fields of a past job, to fill the post-job form
+  async getJobTemplateFieldsFromJob(jobId: string) {
+    const raw = await this.request<any>(`/job-templates/from-job/${jobId}`);
+    return this.unwrap<{ fields: JobTemplateFields }>(raw);
+  }
+
+  // `job` takes the post-job form fields; `fromJobId` copies one of the employer's jobs instead
+  async createJobTemplate(data: { name: string; job?: Record<string, any>; fromJobId?: string }) {
+    const raw = await this.request<any>('/job-templates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return this.unwrap<{ template: JobTemplate }>(raw);
+  }
+
+  async updateJobTemplate(id: string, data: { name?: string; job?: Record<string, any> }) {
+    const raw = await this.request<any>(`/job-templates/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+    return this.unwrap<{ template: JobTemplate }>(raw);
+  }
+
+  async deleteJobTemplate(id: string) {
+    return this.request(`/job-templates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Bookmark APIs (Student)
+  async getBookmarks(): Promise<Bookmark[]> {
+    const raw = await this.request<any>('/bookmarks');
+    const payload = this.unwrap<any>(raw);
+    return Array.isArray(payload?.bookmarks)
+      ? payload.bookmarks.map((b: any) => ({ ...b, job: b.job ? this.mapEnhancedJobToFrontendJob(b.job) : null }))
+      : [];
+  }
+
+  async bookmarkJob(jobId: string) {
+    const raw = await this.request<any>(`/bookmarks/${jobId}`, {
+      method: 'POST',
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async removeBookmark(jobId: string) {
+    return this.request(`/bookmarks/${jobId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Saved Search APIs (Student)
+  async getSavedSearches() {
+    const raw = await this.request<any>('/saved-searches');
+    return this.unwrap<{ savedSearches: SavedSearch[] }>(raw);
+  }
+
+  // `query` takes the jobs page search parameters; repeated ones as arrays
+  async createSavedSearch(data: { name: string; query: Record<string, string | string[]>; emailAlerts?: boolean }) {
+    const raw = await this.request<any>('/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return this.unwrap<{ savedSearch: SavedSearch }>(raw);
+  }
+
+  async updateSavedSearch(id: string, data: { name?: string; query?: Record<string, string | string[]>; emailAlerts?: boolean }) {
+    const raw = await this.request<any>(`/saved-searches/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+    return this.unwrap<{ savedSearch: SavedSearch }>(raw);
+  }
+
+  async deleteSavedSearch(id: string) {
+    return this.request(`/saved-searches/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Application APIs
 
   async applyToJob(jobId: string, applicationData: any) {
@@ -701,23 +1245,160 @@ class ApiService {
     }
   }
 
+  // Candidate search APIs (Employer)
+  async getJobCandidates(jobId: string, filters: CandidateFilters = {}) {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value === undefined || value === '' || value === false) return;
+      params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    });
+    const raw = await this.request<any>(`/enhanced-jobs/${jobId}/candidates?${params}`);
+    return this.unwrap<{ candidates: Candidate[]; pagination: { current: number; pages: number; total: number } }>(raw);
+  }
+
+  async inviteCandidate(jobId: string, studentId: string, message?: string) {
+    const raw = await this.request<any>(`/enhanced-jobs/${jobId}/candidates/${studentId}/invite`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async getJobRoster(jobId: string) {
+    const raw = await this.request<any>(`/enhanced-jobs/${jobId}/roster`);
+    return this.unwrap<JobRoster>(raw);
+  }
+
+  async updateRosterShifts(jobId: string, applicationId: string, shiftIds: string[]) {
+    const raw = await this.request<any>(`/enhanced-jobs/${jobId}/roster/${applicationId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ shiftIds }),
+    });
+    return this.unwrap<{ application: { id: string; assignedShiftIds: string[] } }>(raw);
+  }
+
+  async getMyAttendance() {
+    const raw = await this.request<any>('/attendance/mine');
+    return this.unwrap<{ engagements: StudentEngagement[]; geofenceMeters: number }>(raw);
+  }
+
+  async checkIn(applicationId: string, location: { latitude: number; longitude: number }, shiftId?: string) {
+    const raw = await this.request<any>('/attendance/check-in', {
+      method: 'POST',
+      body: JSON.stringify({ applicationId, ...location, shiftId }),
+    });
+    return this.unwrap<{ entry: AttendanceEntry }>(raw).entry;
+  }
+
+  async checkOut(applicationId: string, location: { latitude: number; longitude: number }) {
+    const raw = await this.request<any>('/attendance/check-out', {
+      method: 'POST',
+      body: JSON.stringify({ applicationId, ...location }),
+    });
+    return this.unwrap<{ entry: AttendanceEntry }>(raw).entry;
+  }
+
+  async getJobAttendance(jobId: string, range: { from?: string; to?: string } = {}) {
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+    const query = params.toString();
+    const raw = await this.request<any>(`/attendance/jobs/${jobId}${query ? `?${query}` : ''}`);
+    return this.unwrap<JobAttendance>(raw);
+  }
+
+  async recordAttendance(applicationId: string, override: AttendanceOverride) {
+    const raw = await this.request<any>(`/attendance/applications/${applicationId}`, {
+      method: 'POST',
+      body: JSON.stringify(override),
+    });
+    return this.unwrap<{ entry: AttendanceEntry }>(raw).entry;
+  }
+
+  async overrideAttendance(attendanceId: string, override: Omit<AttendanceOverride, 'shiftId'>) {
+    const raw = await this.request<any>(`/attendance/${attendanceId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(override),
+    });
+    return this.unwrap<{ entry: AttendanceEntry }>(raw).entry;
+  }
+
+  async getMyTimesheets() {
+    const raw = await this.request<any>('/timesheets/mine');
+    return this.unwrap<{ timesheets: Timesheet[] }>(raw).timesheets || [];
+  }
+
+  async generateTimesheet(applicationId: string, weekStart: string) {
+    const raw = await this.request<any>('/timesheets/generate', {
+      method: 'POST',
+      body: JSON.stringify({ applicationId, weekStart }),
+    });
+    return this.unwrap<{ timesheet: Timesheet }>(raw).timesheet;
+  }
+
+  async submitTimesheet(applicationId: string, weekStart: string, lines: TimesheetLine[], comment?: string) {
+    const raw = await this.request<any>('/timesheets', {
+      method: 'POST',
+      body: JSON.stringify({ applicationId, weekStart, lines, comment }),
+    });
+    return this.unwrap<{ timesheet: Timesheet }>(raw).timesheet;
+  }
+
+  async getEmployerTimesheets(filters: { status?: TimesheetStatus; jobId?: string } = {}) {
+    const params = new URLSearchParams();
+    if (filters.status) params.set('status', filters.status);
+    if (filters.jobId) params.set('jobId', filters.jobId);
+    const query = params.toString();
+    const raw = await this.request<any>(`/timesheets${query ? `?${query}` : ''}`);
+    return this.unwrap<{ timesheets: Timesheet[] }>(raw).timesheets || [];
+  }
+
+  async reviewTimesheet(
+    id: string,
+    action: 'approve' | 'dispute' | 'adjust',
+    review: { comment?: string; hourlyRate?: number; lines?: TimesheetLine[] }
+  ) {
+    const raw = await this.request<any>(`/timesheets/${id}/${action}`, {
+      method: 'POST',
+      body: JSON.stringify(review),
+    });
+    return this.unwrap<{ timesheet: Timesheet }>(raw).timesheet;
+  }
+
+  async getMyEarnings() {
+    const raw = await this.request<any>('/earnings/mine');
+    return this.unwrap<StudentEarnings>(raw);
+  }
+
+  async completeEngagement(applicationId: string) {
+    const raw = await this.request<any>(`/attendance/applications/${applicationId}/complete`, {
+      method: 'POST',
+    });
+    return this.unwrap<{ completedJobs: number }>(raw);
+  }
+
   async getJobApplications(jobId: string): Promise<ApplicationsResponse> {
     return this.request<ApplicationsResponse>(`/applications/job/${jobId}`);
   }
 
   async updateApplicationStatus(id: string, status: string, notes?: string) {
     return this.request(`/applications/${id}/status`, {
-      method: 'PATCH',
+      method: 'PUT',
       body: JSON.stringify({ status, notes }),
     });
   }
 
   async withdrawApplication(id: string) {
     return this.request(`/applications/${id}/withdraw`, {
-      method: 'PATCH',
+      method: 'POST',
     });
   }
 
+  async getApplicationHistory(id: string) {
+    const raw = await this.request<any>(`/applications/${id}/history`);
+    return this.unwrap<any>(raw);
+  }
+
   async rateApplication(id: string, rating: number, feedback?: string) {
     return this.request(`/applications/${id}/rate`, {
       method: 'POST',
@@ -725,6 +1406,187 @@ class ApiService {
     });
   }
 
+  // Interview APIs
+  async getUpcomingInterviews() {
+    const raw = await this.request<any>('/interviews/upcoming');
+    return this.unwrap<any>(raw);
+  }
+
+  async getApplicationInterviews(applicationId: string) {
+    const raw = await this.request<any>(`/interviews/application/${applicationId}`);
+    return this.unwrap<any>(raw);
+  }
+
+  async scheduleInterview(data: {
+    applicationId: string;
+    slots: Array<{ start: string; end: string }>;
+    mode: 'in-person' | 'phone' | 'video';
+    location?: string;
+    phoneNumber?: string;
+    videoLink?: string;
+    notes?: string;
+  }) {
+    const raw = await this.request<any>('/interviews', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async confirmInterview(id: string, slotId: string) {
+    const raw = await this.request<any>(`/interviews/${id}/confirm`, {
+      method: 'POST',
+      body: JSON.stringify({ slotId }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async rescheduleInterview(id: string, slots: Array<{ start: string; end: string }>, reason?: string) {
+    const raw = await this.request<any>(`/interviews/${id}/reschedule`, {
+      method: 'POST',
+      body: JSON.stringify({ slots, reason }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async cancelInterview(id: string, reason?: string) {
+    const raw = await this.request<any>(`/interviews/${id}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  // Resume APIs
+  async getResumes() {
+    const raw = await this.request<any>('/users/resumes');
+    return this.unwrap<{ resumes: Resume[] }>(raw);
+  }
+
+  async uploadResume(file: File) {
+    const formData = new FormData();
+    formData.append('resume', file);
+    const raw = await this.request<any>('/users/resumes', {
+      method: 'POST',
+      body: formData,
+    });
+    return this.unwrap<{ resume: Resume; resumes: Resume[] }>(raw);
+  }
+
+  async setDefaultResume(resumeId: string) {
+    const raw = await this.request<any>(`/users/resumes/${resumeId}/default`, {
+      method: 'PUT',
+    });
+    return this.unwrap<{ resumes: Resume[] }>(raw);
+  }
+
+  async deleteResume(resumeId: string) {
+    const raw = await this.request<any>(`/users/resumes/${resumeId}`, {
+      method: 'DELETE',
+    });
+    return this.unwrap<{ resumes: Resume[] }>(raw);
+  }
+
+  async getResumeDownloadLink(resumeId: string) {
+    const raw = await this.request<any>(`/users/resumes/${resumeId}/download`);
+    return this.unwrap<ResumeDownloadLink>(raw);
+  }
+
+  async getApplicationResumeLink(applicationId: string) {
+    const raw = await this.request<any>(`/applications/${applicationId}/resume`);
+    return this.unwrap<ResumeDownloadLink>(raw);
+  }
+
+  // Messaging APIs
+  async getConversations() {
+    const raw = await this.request<any>('/messages/threads');
+    return this.unwrap<any>(raw);
+  }
+
+  async getMessages(applicationId: string, before?: string) {
+    const queryParams = new URLSearchParams();
+    if (before) queryParams.append('before', before);
+    const endpoint = queryParams.toString()
+      ? `/messages/application/${applicationId}?${queryParams}`
+      : `/messages/application/${applicationId}`;
+    const raw = await this.request<any>(endpoint);
+    return this.unwrap<any>(raw);
+  }
+
+  async sendMessage(applicationId: string, body: string) {
+    const raw = await this.request<any>(`/messages/application/${applicationId}`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async markMessagesRead(applicationId: string) {
+    return this.request(`/messages/application/${applicationId}/read`, {
+      method: 'POST',
+    });
+  }
+
+  async getUnreadMessageCount() {
+    const raw = await this.request<any>('/messages/unread-count');
+    return this.unwrap<any>(raw);
+  }
+
+  // Notification APIs
+  async getNotifications(params?: { page?: number; limit?: number; unreadOnly?: boolean }) {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', String(params.page));
+    if (params?.limit) queryParams.append('limit', String(params.limit));
+    if (params?.unreadOnly) queryParams.append('unreadOnly', 'true');
+    const endpoint = queryParams.toString() ? `/notifications?${queryParams}` : '/notifications';
+    const raw = await this.request<any>(endpoint);
+    return this.unwrap<any>(raw);
+  }
+
+  async markNotificationRead(id: string) {
+    return this.request(`/notifications/${id}/read`, {
+      method: 'PATCH',
+    });
+  }
+
+  async markAllNotificationsRead() {
+    return this.request('/notifications/read-all', {
+      method: 'PATCH',
+    });
+  }
+
+  async deleteNotification(id: string) {
+    return this.request(`/notifications/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async clearNotifications() {
+    return this.request('/notifications', {
+      method: 'DELETE',
+    });
+  }
+
+  async getNotificationPreferences() {
+    const raw = await this.request<any>('/users/notification-preferences');
+    return this.unwrap<any>(raw);
+  }
+
+  async updateNotificationPreferences(preferences: Record<string, { inApp?: boolean; email?: boolean; digest?: boolean }>) {
+    const raw = await this.request<any>('/users/notification-preferences', {
+      method: 'PUT',
+      body: JSON.stringify({ preferences }),
+    });
+    return this.unwrap<any>(raw);
+  }
+
+  async updateDigestFrequency(digestFrequency: 'off' | 'daily' | 'weekly') {
+    const raw = await this.request<any>('/users/notification-preferences', {
+      method: 'PUT',
+      body: JSON.stringify({ digestFrequency }),
+    });
+    return this.unwrap<any>(raw);
+  }
 
 
   // User Management APIs (Admin)
@@ -850,6 +1712,65 @@ class ApiService {
     return this.unwrap<T>(raw);
   }
 
+  // Payout batches (Admin)
+  async getPayoutBatches(status = 'all', page = 1, limit = 20) {
+    const queryParams = new URLSearchParams({ status, page: page.toString(), limit: limit.toString() });
+    const raw = await this.request<any>(`/admin/payouts?${queryParams}`);
+    return this.unwrap<{ batches: PayoutBatch[]; pagination: { currentPage: number; totalPages: number; totalCount: number; hasNext: boolean; hasPrev: boolean } }>(raw);
+  }
+
+  async getPayoutPreview(minAmount?: number) {
+    const query = minAmount !== undefined ? `?minAmount=${minAmount}` : '';
+    const raw = await this.request<any>(`/admin/payouts/preview${query}`);
+    return this.unwrap<PayoutPreview>(raw);
+  }
+
+  async buildPayoutBatch(options: { minAmount?: number; notes?: string } = {}) {
+    const raw = await this.request<any>('/admin/payouts', {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+    return this.unwrap<{ batch: PayoutBatch; skipped: PayoutPreview['skipped'] }>(raw);
+  }
+
+  async getPayoutBatch(id: string) {
+    const raw = await this.request<any>(`/admin/payouts/${id}`);
+    return this.unwrap<{ batch: PayoutBatch }>(raw).batch;
+  }
+
+  // The NEFT bulk-transfer file as text, with the file name the server gave it
+  async exportPayoutBatch(id: string) {
+    const token = this.getToken();
+    const response = await fetch(`${API_BASE_URL}/admin/payouts/${id}/export`, {
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      let message = 'Could not export the payout batch';
+      try {
+        message = (await response.json())?.message || message;
+      } catch (_) {
+        // ignore JSON parse failure
+      }
+      throw new Error(message);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `neft-${id}.csv`;
+    return { filename, csv: await response.text() };
+  }
+
+  async reconcilePayoutBatch(id: string, items: PayoutResult[]) {
+    const raw = await this.request<any>(`/admin/payouts/${id}/reconcile`, {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    });
+    return this.unwrap<{ batch: PayoutBatch }>(raw).batch;
+  }
+
   // Employer Job Management APIs (Admin)
   async getAllJobsForAdmin(status?: string, approvalStatus?: string, page = 1, limit = 10) {
     try {
@@ -1104,4 +2025,4 @@ export const apiService = new ApiService();
 export default apiService;
 
 // Export types for use in components
-export type { Job, Application, JobsResponse, ApplicationsResponse, User, AuthResponse };
+export type { Job, Application, JobsResponse, ApplicationsResponse, User, AuthResponse, ScreeningQuestion, ScreeningAnswer, Resume, ResumeDownloadLink, JobSalary, FacetCount, JobFacets, JobSearchResponse, HighlightPart, JobHighlights, SavedSearch, SavedSearchCriteria, Bookmark, BookmarkJobState, RecommendedJob, Candidate, CandidateFilters, StudentAvailability, JobTemplate, JobTemplateFields, JobImportResult, JobShift, ShiftRecurrence, RosterStudent, RosterShift, JobRoster, AttendancePunch, AttendanceEntry, TodayShift, StudentEngagement, EmployerEngagement, JobAttendance, AttendanceOverride, TimesheetLine, TimesheetChange, Timesheet, LedgerEntry, StudentPayout, StudentEarnings, PayoutItem, PayoutBatch, PayoutCandidate, PayoutPreview, PayoutResult };
@@ -1,5 +1,11 @@
 import { apiService } from './api';
 
+// GeoJSON point, coordinates are [longitude, latitude]
+export interface KYCGeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
 export interface KYCProfileData {
   // Basic Information
   fullName: string;
@@ -8,6 +14,7 @@ export interface KYCProfileData {
   phone: string;
   email: string;
   address: string;
+  homeLocation?: KYCGeoPoint | null; // null removes the pin
   
   // Academic Information
   college: string;
@@ -20,6 +27,7 @@ export interface KYCProfileData {
     name: string;
     address: string;
     contact: string;
+    location?: KYCGeoPoint;
   };
   hoursPerWeek: number;
   availableDays: string[];
@@ -21,6 +21,46 @@ export interface JobApprovedNotification extends SocketNotification {
   };
 }
 
+export interface SavedSearchMatchNotification extends SocketNotification {
+  type: 'saved_search_match';
+  job: JobApprovedNotification['job'];
+  searchNames: string[];
+}
+
+export interface BookmarkDeadlineNotification extends SocketNotification {
+  type: 'bookmark_deadline_reminder';
+  job: {
+    id: string;
+    jobTitle: string;
+    companyName: string;
+    location: string;
+    applicationDeadline: string;
+  };
+}
+
+export interface JobInviteNotification extends SocketNotification {
+  type: 'job_invite';
+  job: {
+    id: string;
+    jobTitle: string;
+    companyName: string;
+    location: string;
+  };
+  inviteMessage?: string;
+}
+
+export interface JobExpiredNotification extends SocketNotification {
+  type: 'job_expired';
+  job: {
+    id: string;
+    jobTitle: string;
+    companyName: string;
+    location: string;
+    applicationDeadline: string;
+  };
+  audience: 'employer' | 'student';
+}
+
 export interface JobRejectedNotification extends SocketNotification {
   type: 'job_rejected';
   job: {
@@ -65,11 +105,64 @@ export interface ApplicationStatusUpdateNotification extends SocketNotification
   };
 }
 
+export interface InterviewUpdateNotification extends SocketNotification {
+  type: 'interview_update';
+  interview: {
+    id: string;
+    applicationId: string;
+    jobId: string;
+    jobTitle: string;
+    companyName: string;
+    event: 'proposed' | 'scheduled' | 'cancelled';
+    status: string;
+    mode: 'in-person' | 'phone' | 'video';
+    selectedSlot?: { start: string; end: string };
+    proposedSlots: Array<{ _id: string; start: string; end: string }>;
+    proposedBy: 'student' | 'employer';
+  };
+}
+
+export interface ChatMessage {
+  _id: string;
+  application: string;
+  sender: string;
+  senderType: 'student' | 'employer';
+  recipient: string;
+  body: string;
+  redacted: boolean;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface NewMessageEvent {
+  type: 'message:new';
+  message: ChatMessage;
+  jobTitle: string;
+  timestamp: string;
+}
+
+export interface MessagesReadEvent {
+  applicationId: string;
+  readerId: string;
+  readAt: string;
+  timestamp: string;
+}
+
+export interface TypingEvent {
+  applicationId: string;
+  userId: string;
+  isTyping: boolean;
+  timestamp: string;
+}
+
 export type NotificationData = 
   | JobApprovedNotification 
+  | SavedSearchMatchNotification
+  | BookmarkDeadlineNotification
   | JobRejectedNotification 
   | NewApplicationNotification 
-  | ApplicationStatusUpdateNotification;
+  | ApplicationStatusUpdateNotification
+  | InterviewUpdateNotification;
 
 class SocketService {
   private socket: Socket | null = null;
@@ -252,6 +345,30 @@ class SocketService {
     }
   }
 
+  public onSavedSearchMatch(callback: (data: SavedSearchMatchNotification) => void) {
+    if (this.socket) {
+      this.socket.on('saved_search_match', callback);
+    }
+  }
+
+  public onBookmarkDeadline(callback: (data: BookmarkDeadlineNotification) => void) {
+    if (this.socket) {
+      this.socket.on('bookmark_deadline_reminder', callback);
+    }
+  }
+
+  public onJobInvite(callback: (data: JobInviteNotification) => void) {
+    if (this.socket) {
+      this.socket.on('job_invite', callback);
+    }
+  }
+
+  public onJobExpired(callback: (data: JobExpiredNotification) => void) {
+    if (this.socket) {
+      this.socket.on('job_expired', callback);
+    }
+  }
+
   public onJobRejected(callback: (data: JobRejectedNotification) => void) {
     if (this.socket) {
       this.socket.on('job_rejected', callback);
@@ -270,6 +387,35 @@ class SocketService {
     }
   }
 
+  public onInterviewUpdate(callback: (data: InterviewUpdateNotification) => void) {
+    if (this.socket) {
+      this.socket.on('interview_update', callback);
+    }
+  }
+
+  public onNewMessage(callback: (data: NewMessageEvent) => void) {
+    if (this.socket) {
+      this.socket.on('message:new', callback);
+    }
+  }
+
+  public onMessagesRead(callback: (data: MessagesReadEvent) => void) {
+    if (this.socket) {
+      this.socket.on('message:read', callback);
+    }
+  }
+
+  public onTyping(callback: (data: TypingEvent) => void) {
+    if (this.socket) {
+      this.socket.on('message:typing', callback);
+    }
+  }
+
+  // Let the other participant of a conversation know we are typing
+  public sendTyping(applicationId: string, isTyping: boolean) {
+    this.emit('message:typing', { applicationId, isTyping });
+  }
+
   // Join job-specific room
   public joinJobRoom(jobId: string) {
     if (this.socket && this.isConnected) {